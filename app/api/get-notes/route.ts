@@ -1,42 +1,31 @@
-import { NextResponse } from 'next/server'
-import { createClient } from '@supabase/supabase-js'
+import { NextRequest, NextResponse } from 'next/server'
+import { decodeMeetingCursor, encodeMeetingCursor, getMeetingStore, MeetingCursor } from '@/lib/meetingStore'
 
-function getAdminClient() {
-  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
-  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+const DEFAULT_PAGE_SIZE = 10
+const MAX_PAGE_SIZE = 50
 
-  if (!supabaseUrl || !serviceRoleKey) {
-    throw new Error('Supabase URL or service role key is not configured on the server')
-  }
-
-  return createClient(supabaseUrl, serviceRoleKey)
-}
-
-export async function GET() {
+// Saved meetings newest first, ?limit= at a time. Pass the nextCursor of a
+// response as ?cursor= for the next page; it is null on the last page.
+export async function GET(request: NextRequest) {
   try {
-    const supabase = getAdminClient()
-    const { data, error } = await supabase
-      .from('meetings')
-      .select(`
-        id,
-        title,
-        raw_notes,
-        created_at,
-        meeting_outputs (
-          summary,
-          action_items,
-          sop_gaps,
-          probing_questions
-        )
-      `)
-      .order('created_at', { ascending: false })
-      .limit(10)
-
-    if (error) {
-      throw new Error(error.message)
+    const params = request.nextUrl.searchParams
+    const limit = parseInt(params.get('limit') || '', 10)
+    let after: MeetingCursor | undefined
+    const cursor = params.get('cursor')
+    if (cursor) {
+      after = decodeMeetingCursor(cursor)
+      if (!after) {
+        return NextResponse.json({ error: 'Invalid cursor', code: 'invalid_request' }, { status: 400 })
+      }
     }
 
-    return NextResponse.json({ data })
+    // Reports saved by older versions come back upgraded (see lib/storedOutput)
+    const page = await getMeetingStore().listMeetings({
+      limit: Number.isFinite(limit) && limit > 0 ? Math.min(limit, MAX_PAGE_SIZE) : DEFAULT_PAGE_SIZE,
+      after,
+    })
+
+    return NextResponse.json({ data: page.meetings, nextCursor: page.next ? encodeMeetingCursor(page.next) : null })
   } catch (error) {
     console.error('Get Notes API Error:', error)
     return NextResponse.json(
@@ -45,5 +34,3 @@ export async function GET() {
     )
   }
 }
-
-
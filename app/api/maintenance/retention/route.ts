@@ -0,0 +1,46 @@
+import { timingSafeEqual } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { getMaintenanceSecret } from '@/lib/config'
+import { runRetention } from '@/lib/retention'
+
+// Applies the retention policy and purges meetings whose restore window has
+// passed. GET is what Vercel Cron sends (see vercel.json); POST is for
+// running it on demand. Both need "Authorization: Bearer <MAINTENANCE_SECRET>".
+
+function isAuthorized(request: NextRequest, secret: string): boolean {
+  const expected = Buffer.from(`Bearer ${secret}`)
+  const given = Buffer.from(request.headers.get('authorization') || '')
+  return given.length === expected.length && timingSafeEqual(given, expected)
+}
+
+async function handle(request: NextRequest) {
+  const secret = getMaintenanceSecret()
+  if (!secret) {
+    return NextResponse.json(
+      { error: 'Maintenance is disabled. Set MAINTENANCE_SECRET on the server to enable it.', code: 'maintenance_disabled' },
+      { status: 503 }
+    )
+  }
+  if (!isAuthorized(request, secret)) {
+    return NextResponse.json({ error: 'Unauthorized', code: 'unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const result = await runRetention()
+    return NextResponse.json({ ok: true, data: result })
+  } catch (error) {
+    console.error('Retention API Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to apply retention' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return handle(request)
+}
+
+export async function POST(request: NextRequest) {
+  return handle(request)
+}
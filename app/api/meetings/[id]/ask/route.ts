@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { askMeeting, AskTurn, MAX_ASK_HISTORY, MAX_QUESTION_CHARS } from '@/lib/ask'
+import { ERROR_HTTP_STATUS, toErrorPayload } from '@/lib/errors'
+import { getMeetingStore, getRosterOrEmpty } from '@/lib/meetingStore'
+
+interface AskBody {
+  question?: unknown
+  history?: unknown // earlier { question, answer } turns of this conversation
+}
+
+function isAskTurn(value: unknown): value is AskTurn {
+  const turn = value as AskTurn
+  return Boolean(turn) && typeof turn.question === 'string' && typeof turn.answer === 'string'
+}
+
+// Answers a question about a saved meeting from its notes and report only
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const { question, history }: AskBody = await request.json()
+
+    if (typeof question !== 'string' || !question.trim()) {
+      return NextResponse.json({ error: 'Please provide a question as a string.', code: 'invalid_request' }, { status: 400 })
+    }
+    if (question.length > MAX_QUESTION_CHARS) {
+      return NextResponse.json(
+        { error: `Questions cannot exceed ${MAX_QUESTION_CHARS} characters.`, code: 'invalid_request' },
+        { status: 400 }
+      )
+    }
+    if (history !== undefined && (!Array.isArray(history) || !history.every(isAskTurn))) {
+      return NextResponse.json(
+        { error: 'Invalid history. Please provide earlier turns as { question, answer } objects.', code: 'invalid_request' },
+        { status: 400 }
+      )
+    }
+
+    const meeting = await getMeetingStore().getMeeting(id)
+    if (!meeting) {
+      return NextResponse.json({ error: 'Meeting not found.', code: 'not_found' }, { status: 404 })
+    }
+
+    const roster = await getRosterOrEmpty()
+    const answer = await askMeeting(meeting, question.trim(), (history || []).slice(-MAX_ASK_HISTORY), roster)
+    return NextResponse.json(answer)
+  } catch (error) {
+    console.error('Ask API Error:', error)
+    const payload = toErrorPayload(error, 'An error occurred while answering your question')
+    return NextResponse.json(payload, {
+      status: ERROR_HTTP_STATUS[payload.code],
+      headers: payload.retryAfterSeconds !== undefined ? { 'Retry-After': String(payload.retryAfterSeconds) } : undefined,
+    })
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { regenerateSection } from '@/lib/ai'
+import { ERROR_HTTP_STATUS, toErrorPayload } from '@/lib/errors'
+import { getMeetingStore, getRosterOrEmpty } from '@/lib/meetingStore'
+import { isRegenerableSection, MAX_GUIDANCE_CHARS, REGENERABLE_SECTIONS } from '@/lib/reportSections'
+
+interface RegenerateBody {
+  section?: unknown
+  guidance?: unknown // optional instructions, e.g. "include the QA owner"
+}
+
+// Rewrites one section of a saved meeting's latest report and stores the
+// result as the meeting's next revision
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const { section, guidance }: RegenerateBody = await request.json()
+
+    if (!isRegenerableSection(section)) {
+      return NextResponse.json(
+        { error: `Invalid section. Use one of: ${REGENERABLE_SECTIONS.join(', ')}.`, code: 'invalid_request' },
+        { status: 400 }
+      )
+    }
+    if (guidance !== undefined && typeof guidance !== 'string') {
+      return NextResponse.json({ error: 'Guidance must be a string.', code: 'invalid_request' }, { status: 400 })
+    }
+    if (typeof guidance === 'string' && guidance.length > MAX_GUIDANCE_CHARS) {
+      return NextResponse.json(
+        { error: `Guidance cannot exceed ${MAX_GUIDANCE_CHARS} characters.`, code: 'invalid_request' },
+        { status: 400 }
+      )
+    }
+
+    const meetings = getMeetingStore()
+    const meeting = await meetings.getMeeting(id)
+    if (!meeting) {
+      return NextResponse.json({ error: 'Meeting not found.', code: 'not_found' }, { status: 404 })
+    }
+
+    const roster = await getRosterOrEmpty()
+    const trimmed = guidance ? guidance.trim() || undefined : undefined
+    const updated = await regenerateSection(meeting.notes, meeting.output, section, { guidance: trimmed, roster })
+    const number = await meetings.saveRevision(id, updated, { section, guidance: trimmed })
+
+    return NextResponse.json({
+      output: { ...updated, revision: updated.revision ? { ...updated.revision, number } : undefined },
+    })
+  } catch (error) {
+    console.error('Regenerate API Error:', error)
+    const payload = toErrorPayload(error, 'An error occurred while regenerating the section')
+    return NextResponse.json(payload, {
+      status: ERROR_HTTP_STATUS[payload.code],
+      headers: payload.retryAfterSeconds !== undefined ? { 'Retry-After': String(payload.retryAfterSeconds) } : undefined,
+    })
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRetentionSettings } from '@/lib/config'
+import { getMeetingStore } from '@/lib/meetingStore'
+import { getRestoreCutoff } from '@/lib/retention'
+
+// Brings a meeting back from recently deleted, with every revision of its report
+export async function POST(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const meeting = await getMeetingStore().restoreMeeting(id, getRestoreCutoff(getRetentionSettings()))
+    if (!meeting) {
+      return NextResponse.json(
+        { error: 'Meeting not found in recently deleted. It may have been restored already or purged.', code: 'not_found' },
+        { status: 404 }
+      )
+    }
+    return NextResponse.json({ ok: true, data: meeting })
+  } catch (error) {
+    console.error('Restore Meeting API Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to restore meeting' },
+      { status: 500 }
+    )
+  }
+}
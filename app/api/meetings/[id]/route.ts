@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRetentionSettings } from '@/lib/config'
+import { getMeetingStore, MeetingChanges } from '@/lib/meetingStore'
+import { isMeetingType } from '@/lib/meetingTypes'
+import { getRestorableUntil } from '@/lib/retention'
+
+interface MeetingBody {
+  title?: unknown
+  meetingType?: unknown
+}
+
+const MAX_TITLE_CHARS = 200
+
+type ParsedChanges =
+  | { ok: true; changes: MeetingChanges }
+  | { ok: false; error: string }
+
+function parseChanges(body: MeetingBody): ParsedChanges {
+  const changes: MeetingChanges = {}
+
+  if (body.title !== undefined) {
+    if (typeof body.title !== 'string' || !body.title.trim()) {
+      return { ok: false, error: 'Invalid title. Please provide the title as a non-empty string.' }
+    }
+    if (body.title.trim().length > MAX_TITLE_CHARS) {
+      return { ok: false, error: `Titles cannot exceed ${MAX_TITLE_CHARS} characters.` }
+    }
+    changes.title = body.title.trim()
+  }
+
+  if (body.meetingType !== undefined) {
+    if (!isMeetingType(body.meetingType)) {
+      return { ok: false, error: 'Invalid meeting type' }
+    }
+    changes.meetingType = body.meetingType
+  }
+
+  if (changes.title === undefined && changes.meetingType === undefined) {
+    return { ok: false, error: 'Nothing to update. Provide a title or meetingType.' }
+  }
+  return { ok: true, changes }
+}
+
+function notFound() {
+  return NextResponse.json({ error: 'Meeting not found.', code: 'not_found' }, { status: 404 })
+}
+
+// A saved meeting with its notes and latest report
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const meeting = await getMeetingStore().getMeeting(id)
+    return meeting ? NextResponse.json({ data: meeting }) : notFound()
+  } catch (error) {
+    console.error('Meeting API Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load meeting' },
+      { status: 500 }
+    )
+  }
+}
+
+// Rename a meeting or file it under another meeting type
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const parsed = parseChanges(await request.json())
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error, code: 'invalid_request' }, { status: 400 })
+    }
+
+    const meeting = await getMeetingStore().updateMeeting(id, parsed.changes)
+    return meeting ? NextResponse.json({ ok: true, data: meeting }) : notFound()
+  } catch (error) {
+    console.error('Meeting API Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update meeting' },
+      { status: 500 }
+    )
+  }
+}
+
+// Moves the meeting to recently deleted. It can be restored until
+// restorableUntil, after which retention removes it with every revision.
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const deleted = await getMeetingStore().deleteMeeting(id)
+    if (!deleted) {
+      return notFound()
+    }
+    return NextResponse.json({ ok: true, restorableUntil: getRestorableUntil(new Date().toISOString(), getRetentionSettings()) })
+  } catch (error) {
+    console.error('Meeting API Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete meeting' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server'
+import { getRetentionSettings } from '@/lib/config'
+import { getMeetingStore } from '@/lib/meetingStore'
+import { getRestorableUntil, getRestoreCutoff } from '@/lib/retention'
+
+const DELETED_MEETINGS_LIMIT = 50
+
+// Recently deleted meetings that can still be restored, most recently deleted first
+export async function GET() {
+  try {
+    const settings = getRetentionSettings()
+    const meetings = await getMeetingStore().listDeletedMeetings({
+      deletedSince: getRestoreCutoff(settings),
+      limit: DELETED_MEETINGS_LIMIT,
+    })
+
+    return NextResponse.json({
+      data: meetings.map(meeting => ({ ...meeting, restorableUntil: getRestorableUntil(meeting.deletedAt, settings) })),
+      restoreDays: settings.restoreDays,
+    })
+  } catch (error) {
+    console.error('Deleted Meetings API Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load deleted meetings' },
+      { status: 500 }
+    )
+  }
+}
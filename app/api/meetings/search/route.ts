@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { parseSearchParams } from '@/lib/meetingSearch'
+import { getMeetingStore } from '@/lib/meetingStore'
+
+// Saved meetings matching ?q=...&owner=&priority=&from=&to=&meetingType=&hasOpenBlockers=&page=&pageSize=,
+// newest first, with the matching text and where the words were found
+export async function GET(request: NextRequest) {
+  try {
+    const parsed = parseSearchParams(request.nextUrl.searchParams)
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error, code: 'invalid_request' }, { status: 400 })
+    }
+
+    return NextResponse.json(await getMeetingStore().searchMeetings(parsed.query))
+  } catch (error) {
+    console.error('Search API Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to search meetings' },
+      { status: 500 }
+    )
+  }
+}
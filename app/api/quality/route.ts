@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getMeetingStore } from '@/lib/meetingStore'
+import { isMeetingType } from '@/lib/meetingTypes'
+
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 100
+
+// Stored meeting quality scores, newest first: ?meetingType=standup&limit=20
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams
+    const meetingType = params.get('meetingType') || undefined
+    if (meetingType !== undefined && !isMeetingType(meetingType)) {
+      return NextResponse.json({ error: 'Invalid meeting type' }, { status: 400 })
+    }
+
+    const requestedLimit = parseInt(params.get('limit') || '', 10)
+    const limit = Number.isFinite(requestedLimit) && requestedLimit > 0 ? Math.min(requestedLimit, MAX_LIMIT) : DEFAULT_LIMIT
+
+    const data = await getMeetingStore().getQualityHistory({ meetingType, limit })
+    return NextResponse.json({ data })
+  } catch (error) {
+    console.error('Quality API Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load quality scores' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getMeetingStore, RosterMemberFields } from '@/lib/meetingStore'
+
+interface RosterMemberBody {
+  id?: unknown
+  name?: unknown
+  aliases?: unknown
+  handles?: unknown
+  emails?: unknown
+}
+
+type ParsedFields =
+  | { ok: true; fields: Partial<RosterMemberFields> }
+  | { ok: false; error: string }
+
+function parseStringList(value: unknown): string[] | null {
+  if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+    return null
+  }
+  return value.map(item => item.trim()).filter(item => item.length > 0)
+}
+
+// `partial` allows leaving fields out, for updates
+function parseFields(body: RosterMemberBody, partial: boolean): ParsedFields {
+  const fields: Partial<RosterMemberFields> = {}
+
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      return { ok: false, error: 'Invalid name. Please provide the member name as a string.' }
+    }
+    fields.name = body.name.trim()
+  }
+
+  for (const key of ['aliases', 'handles', 'emails'] as const) {
+    if (body[key] === undefined) {
+      if (!partial) fields[key] = []
+      continue
+    }
+    const list = parseStringList(body[key])
+    if (!list) {
+      return { ok: false, error: `Invalid ${key}. Please provide a list of strings.` }
+    }
+    fields[key] = list
+  }
+
+  return { ok: true, fields }
+}
+
+export async function GET() {
+  try {
+    return NextResponse.json({ data: await getMeetingStore().listRoster() })
+  } catch (error) {
+    console.error('Roster API Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load team roster' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = parseFields(await request.json(), false)
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    const member = await getMeetingStore().addRosterMember(parsed.fields as RosterMemberFields)
+    return NextResponse.json({ ok: true, data: member })
+  } catch (error) {
+    console.error('Roster API Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to add team member' },
+      { status: 500 }
+    )
+  }
+}
+
+// Update a member, e.g. to map an unknown owner name onto them as an alias
+export async function PATCH(request: NextRequest) {
+  try {
+    const body: RosterMemberBody = await request.json()
+    if (!body.id || typeof body.id !== 'string') {
+      return NextResponse.json({ error: 'Invalid id' }, { status: 400 })
+    }
+
+    const parsed = parseFields(body, true)
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    const member = await getMeetingStore().updateRosterMember(body.id, parsed.fields)
+    if (!member) {
+      return NextResponse.json({ error: 'Team member not found', code: 'not_found' }, { status: 404 })
+    }
+    return NextResponse.json({ ok: true, data: member })
+  } catch (error) {
+    console.error('Roster API Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update team member' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get('id')
+    if (!id) {
+      return NextResponse.json({ error: 'Invalid id' }, { status: 400 })
+    }
+
+    if (!(await getMeetingStore().deleteRosterMember(id))) {
+      return NextResponse.json({ error: 'Team member not found', code: 'not_found' }, { status: 404 })
+    }
+    return NextResponse.json({ ok: true })
+  } catch (error) {
+    console.error('Roster API Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to remove team member' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@supabase/supabase-js'
+import { getMeetingStore } from '@/lib/meetingStore'
 
 interface SaveNoteBody {
   title?: unknown
@@ -7,17 +7,6 @@ interface SaveNoteBody {
   output?: unknown
 }
 
-function getAdminClient() {
-  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
-  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
-
-  if (!supabaseUrl || !serviceRoleKey) {
-    throw new Error('Supabase URL or service role key is not configured on the server')
-  }
-
-  return createClient(supabaseUrl, serviceRoleKey)
-}
-
 export async function POST(request: NextRequest) {
   try {
     const { title, input, output }: SaveNoteBody = await request.json()
@@ -32,47 +21,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Invalid output' }, { status: 400 })
     }
 
-    const parsed = JSON.parse(output)
-
-    const summaryPoints: string[] = Array.isArray(parsed.summaryPoints) ? parsed.summaryPoints : []
-    const actionItems: unknown[] = Array.isArray(parsed.actionItems)
-      ? parsed.actionItems
-      : Array.isArray(parsed?.developmentTeamSections?.actionItemsAndOwnership)
-        ? parsed.developmentTeamSections.actionItemsAndOwnership
-        : []
-    const openQuestions: string[] = Array.isArray(parsed.openQuestions) ? parsed.openQuestions : []
-
-    const supabase = getAdminClient()
-
-    // Save meeting
-    const { data: meeting, error: meetingError } = await supabase
-      .from('meetings')
-      .insert([{ title, raw_notes: input }])
-      .select()
-      .single()
-
-    if (meetingError) {
-      throw new Error(`Failed to save meeting: ${meetingError.message}`)
-    }
-
-    // Save meeting output
-    const { error: outputError } = await supabase
-      .from('meeting_outputs')
-      .insert([
-        {
-          meeting_id: meeting.id,
-          summary: JSON.stringify(summaryPoints),
-          action_items: actionItems,
-          sop_gaps: [],
-          probing_questions: openQuestions,
-        }
-      ])
-
-    if (outputError) {
-      throw new Error(`Failed to save meeting output: ${outputError.message}`)
-    }
+    const id = await getMeetingStore().saveMeeting({ title, notes: input, output: JSON.parse(output) })
 
-    return NextResponse.json({ ok: true, id: meeting.id })
+    return NextResponse.json({ ok: true, id })
   } catch (error) {
     console.error('Save Note API Error:', error)
     return NextResponse.json(
@@ -1,39 +1,42 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { summarizeNotes } from '@/lib/ai'
+import { getInputLimits } from '@/lib/config'
+import { ERROR_HTTP_STATUS, toErrorPayload } from '@/lib/errors'
+import { getRosterOrEmpty } from '@/lib/meetingStore'
+import { parseSummarizeRequest, SummarizeBody } from '@/lib/summarizeRequest'
+
+// Expose the input limits so the form can validate against server settings
+export async function GET() {
+  return NextResponse.json(getInputLimits())
+}
 
 export async function POST(request: NextRequest) {
+  let body: SummarizeBody
   try {
-    const { input }: { input: unknown } = await request.json()
-    
-    if (!input || typeof input !== 'string') {
-      return NextResponse.json(
-        { error: 'Invalid input. Please provide meeting notes as a string.' },
-        { status: 400 }
-      )
-    }
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body.', code: 'invalid_request' }, { status: 400 })
+  }
 
-    if (input.length < 10) {
-      return NextResponse.json(
-        { error: 'Meeting notes must be at least 10 characters long.' },
-        { status: 400 }
-      )
-    }
+  try {
+    const parsed = parseSummarizeRequest(body, request.nextUrl.searchParams.get('scenario'))
 
-    if (input.length > 1000) {
-      return NextResponse.json(
-        { error: 'Meeting notes cannot exceed 1000 characters.' },
-        { status: 400 }
-      )
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error, code: 'invalid_request' }, { status: 400 })
     }
 
-    const result = await summarizeNotes(input)
-    
-    return NextResponse.json(result)
+    const roster = await getRosterOrEmpty()
+    const result = await summarizeNotes(parsed.input, { ...parsed.options, roster })
+
+    return NextResponse.json(result, {
+      headers: { 'X-Summary-Cache': result.cache ? (result.cache.hit ? 'hit' : 'miss') : 'bypass' },
+    })
   } catch (error) {
     console.error('API Error:', error)
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'An error occurred while processing your notes' },
-      { status: 500 }
-    )
+    const payload = toErrorPayload(error, 'An error occurred while processing your notes')
+    return NextResponse.json(payload, {
+      status: ERROR_HTTP_STATUS[payload.code],
+      headers: payload.retryAfterSeconds !== undefined ? { 'Retry-After': String(payload.retryAfterSeconds) } : undefined,
+    })
   }
 }
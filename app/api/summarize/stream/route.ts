@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { summarizeNotes } from '@/lib/ai'
+import { toErrorPayload } from '@/lib/errors'
+import { buildMeetingTitle, getMeetingStore, getRosterOrEmpty } from '@/lib/meetingStore'
+import { parseSummarizeRequest, SummarizeBody } from '@/lib/summarizeRequest'
+import { encodeStreamEvent, SummarizeStreamEvent } from '@/lib/summarizeStream'
+
+interface StreamSummarizeBody extends SummarizeBody {
+  save?: unknown // also save the result to history
+}
+
+// Streaming variant of /api/summarize: reports real processing stages,
+// token progress and partially parsed sections as NDJSON
+export async function POST(request: NextRequest) {
+  let body: StreamSummarizeBody
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body.', code: 'invalid_request' }, { status: 400 })
+  }
+
+  const parsed = parseSummarizeRequest(body, request.nextUrl.searchParams.get('scenario'))
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error, code: 'invalid_request' }, { status: 400 })
+  }
+
+  // Aborted when the client goes away, which also aborts the provider calls
+  const abort = new AbortController()
+  request.signal.addEventListener('abort', () => abort.abort())
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // Enqueueing on a cancelled stream throws, and nobody would read it
+      const send = (event: SummarizeStreamEvent) => {
+        if (!abort.signal.aborted) {
+          controller.enqueue(encodeStreamEvent(event))
+        }
+      }
+
+      try {
+        send({ type: 'stage', stage: 'validated' })
+
+        const roster = await getRosterOrEmpty()
+        const output = await summarizeNotes(parsed.input, { ...parsed.options, roster, onProgress: send, signal: abort.signal })
+        send({ type: 'result', output })
+
+        if (body.save === true) {
+          try {
+            const meetingId = await getMeetingStore().saveMeeting({ title: buildMeetingTitle(parsed.input), notes: parsed.input, output })
+            send({ type: 'stage', stage: 'saved', meetingId })
+          } catch (error) {
+            console.error('Stream Save Error:', error)
+            send({ type: 'save-failed', error: error instanceof Error ? error.message : 'Failed to save note' })
+          }
+        }
+      } catch (error) {
+        if (abort.signal.aborted) {
+          return
+        }
+        console.error('Stream API Error:', error)
+        // The response has already started, so the code travels in the event
+        send({ type: 'error', ...toErrorPayload(error, 'An error occurred while processing your notes') })
+      } finally {
+        if (!abort.signal.aborted) {
+          controller.close()
+        }
+      }
+    },
+    cancel() {
+      abort.abort()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+    },
+  })
+}
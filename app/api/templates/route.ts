@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server'
+import { getDefaultReportTemplate, getReportTemplates } from '@/lib/templateRegistry'
+
+// Report templates the form can choose from, and the deployment default
+export async function GET() {
+  try {
+    return NextResponse.json({ data: getReportTemplates(), defaultTemplateId: getDefaultReportTemplate().id })
+  } catch (error) {
+    console.error('Templates API Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load report templates' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server'
+import { getBudgetSettings } from '@/lib/config'
+import { getUsageTotals } from '@/lib/usage'
+
+// Token usage and estimated cost for the current UTC day, week and month,
+// with the budget caps that apply to them
+export async function GET() {
+  try {
+    const { action } = getBudgetSettings()
+    return NextResponse.json({ data: await getUsageTotals(), budgetAction: action })
+  } catch (error) {
+    console.error('Usage API Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load token usage' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,80 @@
+'use client'
+
+import type { SOPCheck } from '@/lib/ai'
+
+interface CompliancePanelProps {
+  checks: SOPCheck[]
+}
+
+const SEVERITY_ORDER: SOPCheck['severity'][] = ['critical', 'important', 'minor']
+
+const SEVERITY_STYLES: Record<SOPCheck['severity'], string> = {
+  critical: 'bg-red-100 text-red-800',
+  important: 'bg-amber-100 text-amber-800',
+  minor: 'bg-gray-100 text-gray-700',
+}
+
+const STATUS_ICONS: Record<SOPCheck['status'], string> = {
+  compliant: '✅',
+  partial: '🟡',
+  missing: '❌',
+}
+
+// Gaps first, most severe first; compliant checks last
+function compareChecks(a: SOPCheck, b: SOPCheck): number {
+  const aGap = a.status === 'compliant' ? 1 : 0
+  const bGap = b.status === 'compliant' ? 1 : 0
+  return aGap - bGap || SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity)
+}
+
+export default function CompliancePanel({ checks }: CompliancePanelProps) {
+  if (checks.length === 0) return null
+
+  const compliant = checks.filter(check => check.status === 'compliant').length
+  const criticalGaps = checks.filter(check => check.status !== 'compliant' && check.severity === 'critical').length
+
+  return (
+    <section className="bg-white border border-gray-200 rounded-lg p-6 xl:col-span-3">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h3 className="font-semibold text-gray-900 flex items-center gap-2 text-lg">
+          📋 SOP Compliance
+        </h3>
+        <p className="text-sm text-gray-600">
+          {compliant} of {checks.length} checks compliant
+          {criticalGaps > 0 && (
+            <span className="ml-2 px-2 py-1 rounded-full text-xs font-semibold bg-red-100 text-red-800">
+              {criticalGaps} critical {criticalGaps === 1 ? 'gap' : 'gaps'}
+            </span>
+          )}
+        </p>
+      </div>
+      <ul className="flex flex-col gap-3">
+        {[...checks].sort(compareChecks).map((check, index) => (
+          <li key={check.id || index} className="flex items-start gap-3 text-sm">
+            <span className="mt-0.5" aria-label={check.status}>{STATUS_ICONS[check.status]}</span>
+            <div className="flex-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium text-gray-900">{check.category}</span>
+                {check.status !== 'compliant' && (
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${SEVERITY_STYLES[check.severity]}`}>
+                    {check.severity}
+                  </span>
+                )}
+                {check.evaluatedBy === 'model' && (
+                  <span className="text-xs text-gray-400">checked by the model</span>
+                )}
+              </div>
+              {check.description && <p className="text-xs text-gray-500">{check.description}</p>}
+              <p className="text-gray-700 mt-1">{check.details}</p>
+              {check.recommendation && (
+                <p className="text-gray-600 mt-1">
+                  <span className="font-medium">Recommendation:</span> {check.recommendation}
+                </p>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </section>
+  )
+}
@@ -0,0 +1,78 @@
+'use client'
+
+import type { CustomSectionItem } from '@/lib/ai'
+import type { SectionColor, TemplateSection } from '@/lib/templates'
+
+interface CustomSectionProps {
+  section: TemplateSection
+  items: CustomSectionItem[]
+}
+
+// Full class names so Tailwind keeps them
+const COLOR_CLASSES: Record<SectionColor, { panel: string; title: string; text: string; card: string }> = {
+  blue: { panel: 'bg-blue-50 border-blue-200', title: 'text-blue-900', text: 'text-blue-700', card: 'border-blue-100' },
+  green: { panel: 'bg-green-50 border-green-200', title: 'text-green-900', text: 'text-green-700', card: 'border-green-100' },
+  orange: { panel: 'bg-orange-50 border-orange-200', title: 'text-orange-900', text: 'text-orange-700', card: 'border-orange-100' },
+  purple: { panel: 'bg-purple-50 border-purple-200', title: 'text-purple-900', text: 'text-purple-700', card: 'border-purple-100' },
+  teal: { panel: 'bg-teal-50 border-teal-200', title: 'text-teal-900', text: 'text-teal-700', card: 'border-teal-100' },
+  red: { panel: 'bg-red-50 border-red-200', title: 'text-red-900', text: 'text-red-700', card: 'border-red-100' },
+  gray: { panel: 'bg-gray-50 border-gray-200', title: 'text-gray-900', text: 'text-gray-700', card: 'border-gray-100' },
+}
+
+const LEVEL_CLASSES: Record<string, string> = {
+  high: 'bg-red-100 text-red-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-green-100 text-green-800',
+}
+
+function StructuredItem({ section, item, cardClass }: { section: TemplateSection; item: Record<string, string>; cardClass: string }) {
+  const fields = section.items?.kind === 'structured' ? section.items.fields.filter(field => item[field.key]) : []
+  const [title, ...rest] = fields.filter(field => field.type !== 'level')
+  const levels = fields.filter(field => field.type === 'level')
+
+  return (
+    <div className={`bg-white rounded-lg p-4 border ${cardClass}`}>
+      <div className="flex items-start justify-between gap-2 mb-1">
+        <h4 className="font-medium text-gray-900 leading-snug">{title ? item[title.key] : ''}</h4>
+        {levels.map(field => (
+          <span key={field.key} className={`px-2 py-1 rounded-full text-xs font-semibold ${LEVEL_CLASSES[item[field.key]] || ''}`} title={field.label}>
+            {item[field.key].toUpperCase()}
+          </span>
+        ))}
+      </div>
+      {rest.map(field => (
+        <p key={field.key} className="text-xs text-gray-600"><strong>{field.label}:</strong> {item[field.key]}</p>
+      ))}
+    </div>
+  )
+}
+
+// A report section defined by the report template rather than the app
+export default function CustomSection({ section, items }: CustomSectionProps) {
+  const colors = COLOR_CLASSES[section.render?.color || 'purple']
+  const marker = section.render?.marker || '•'
+
+  return (
+    <section className={`${colors.panel} border rounded-lg p-6 ${section.render?.fullWidth ? 'xl:col-span-3' : ''}`}>
+      <h3 className={`font-semibold ${colors.title} mb-4 flex items-center gap-2 text-lg`}>
+        {section.render?.icon && <span>{section.render.icon}</span>} {section.name}
+      </h3>
+      {items.length === 0 ? (
+        <p className={`text-sm ${colors.text} opacity-70 italic`}>None recorded</p>
+      ) : (
+        <div className="flex flex-col gap-3">
+          {items.map((item, index) =>
+            typeof item === 'string' ? (
+              <p key={index} className={`${colors.text} flex items-start gap-2 text-sm`}>
+                <span className="mt-0.5">{marker}</span>
+                <span>{item}</span>
+              </p>
+            ) : (
+              <StructuredItem key={index} section={section} item={item} cardClass={colors.card} />
+            )
+          )}
+        </div>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,55 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { ERROR_GUIDANCE, type SummarizeErrorCode } from '@/lib/errors'
+
+interface ErrorCardProps {
+  message: string
+  code?: SummarizeErrorCode // absent for errors that didn't come from /api/summarize
+  retryAfterSeconds?: number
+  onRetry?: () => void
+}
+
+// Rate limits and overloads without a retry-after still get a short pause
+const DEFAULT_RETRY_SECONDS = 10
+
+export default function ErrorCard({ message, code, retryAfterSeconds, onRetry }: ErrorCardProps) {
+  const guidance = code ? ERROR_GUIDANCE[code] : undefined
+  const countsDown = code === 'rate_limited' || code === 'provider_overloaded'
+  const [secondsLeft, setSecondsLeft] = useState(countsDown ? retryAfterSeconds ?? DEFAULT_RETRY_SECONDS : 0)
+
+  useEffect(() => {
+    setSecondsLeft(countsDown ? retryAfterSeconds ?? DEFAULT_RETRY_SECONDS : 0)
+  }, [countsDown, retryAfterSeconds, message])
+
+  useEffect(() => {
+    if (secondsLeft <= 0) return
+    const timer = setTimeout(() => setSecondsLeft(seconds => seconds - 1), 1000)
+    return () => clearTimeout(timer)
+  }, [secondsLeft])
+
+  return (
+    <div className="bg-red-50 border border-red-200 rounded-lg p-4 mt-4">
+      <p className="text-red-800 font-medium">{guidance ? guidance.title : 'Error:'}</p>
+      <p className="text-red-700">{message}</p>
+      {guidance && <p className="text-sm text-red-600 mt-2">{guidance.guidance}</p>}
+
+      {guidance?.retryable && onRetry && (
+        <div className="flex items-center gap-3 mt-3">
+          <button
+            type="button"
+            onClick={onRetry}
+            disabled={secondsLeft > 0}
+            className="text-sm px-3 py-1 rounded-md border border-red-300 text-red-800 hover:bg-red-100 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Try again
+          </button>
+          {secondsLeft > 0 && (
+            <span className="text-sm text-red-600">You can retry in {secondsLeft}s</span>
+          )}
+        </div>
+      )}
+      {code && <p className="text-xs text-red-400 mt-2">Error code: {code}</p>}
+    </div>
+  )
+}
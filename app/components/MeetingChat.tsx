@@ -0,0 +1,123 @@
+'use client'
+
+import { useState } from 'react'
+import type { SourceSpan } from '@/lib/ai'
+import type { AskTurn, MeetingAnswer } from '@/lib/ask'
+
+export interface ChatTurn {
+  question: string
+  answer?: MeetingAnswer
+  error?: string
+}
+
+interface MeetingChatProps {
+  meetingId: string
+  turns: ChatTurn[] // this meeting's conversation so far
+  onChange: (turns: ChatTurn[]) => void
+  onShowQuote: (spans: SourceSpan[]) => void // highlight a quote in the source notes
+}
+
+const EXAMPLE_QUESTION = 'Did we agree on the rollout date?'
+
+export default function MeetingChat({ meetingId, turns, onChange, onShowQuote }: MeetingChatProps) {
+  const [question, setQuestion] = useState('')
+  const [asking, setAsking] = useState(false)
+
+  const ask = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const text = question.trim()
+    if (!text || asking) return
+
+    // Only answered turns give the model useful context for follow-ups
+    const history: AskTurn[] = turns.flatMap(turn => (turn.answer ? [{ question: turn.question, answer: turn.answer.answer }] : []))
+    setAsking(true)
+    setQuestion('')
+    onChange([...turns, { question: text }])
+    try {
+      const response = await fetch(`/api/meetings/${encodeURIComponent(meetingId)}/ask`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ question: text, history }),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to answer the question')
+      }
+      onChange([...turns, { question: text, answer: result as MeetingAnswer }])
+    } catch (err) {
+      onChange([...turns, { question: text, error: err instanceof Error ? err.message : 'Failed to answer the question' }])
+    } finally {
+      setAsking(false)
+    }
+  }
+
+  return (
+    <section className="bg-white border border-gray-200 rounded-lg p-6 xl:col-span-3">
+      <div className="flex flex-wrap items-baseline justify-between gap-2 mb-4">
+        <h3 className="font-semibold text-gray-900 flex items-center gap-2 text-lg">
+          💬 Ask About This Meeting
+        </h3>
+        {turns.length > 0 && (
+          <button type="button" onClick={() => onChange([])} className="text-xs text-gray-500 hover:text-gray-700">
+            Clear conversation
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        Answers come only from this meeting&apos;s notes and report, with the passages they are based on. Click a quote to find it in the notes.
+      </p>
+
+      {turns.length > 0 && (
+        <ul className="flex flex-col gap-3 mb-4">
+          {turns.map((turn, index) => (
+            <li key={index} className="flex flex-col gap-2">
+              <p className="self-end max-w-[80%] bg-blue-600 text-white text-sm rounded-lg px-3 py-2">{turn.question}</p>
+              {turn.answer && (
+                <div
+                  className={`self-start max-w-[80%] text-sm rounded-lg px-3 py-2 ${
+                    turn.answer.answered ? 'bg-gray-100 text-gray-900' : 'bg-amber-50 border border-amber-200 text-amber-900'
+                  }`}
+                >
+                  <p>{turn.answer.answered ? turn.answer.answer : `🤷 ${turn.answer.answer}`}</p>
+                  {turn.answer.quotes.length > 0 && (
+                    <ul className="mt-2 flex flex-col gap-1">
+                      {turn.answer.quotes.map((quote, quoteIndex) => (
+                        <li key={quoteIndex}>
+                          <button
+                            type="button"
+                            onClick={() => onShowQuote([quote.span])}
+                            className="text-left text-xs text-gray-600 border-l-2 border-yellow-400 pl-2 italic hover:bg-yellow-50"
+                            title="Show this passage in the notes"
+                          >
+                            “{quote.text}”
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+              {turn.error && <p className="self-start text-sm text-red-700">⚠️ {turn.error}</p>}
+            </li>
+          ))}
+          {asking && <li className="self-start text-sm text-gray-500 italic">Reading the notes…</li>}
+        </ul>
+      )}
+
+      <form onSubmit={ask} className="flex gap-2">
+        <input
+          type="text"
+          value={question}
+          onChange={e => setQuestion(e.target.value)}
+          placeholder={EXAMPLE_QUESTION}
+          maxLength={500}
+          className="flex-1 border border-gray-300 rounded-md px-3 py-2 text-sm"
+          aria-label="Question about this meeting"
+        />
+        <button type="submit" disabled={asking || !question.trim()} className="btn-primary disabled:opacity-50">
+          Ask
+        </button>
+      </form>
+    </section>
+  )
+}
@@ -0,0 +1,429 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { ActionItem, MeetingType } from '@/lib/ai'
+import {
+  DEFAULT_SEARCH_PAGE_SIZE,
+  MeetingSearchQuery,
+  MeetingSearchResult,
+  SEARCH_FIELD_LABELS,
+  TextRange,
+  toSearchParams,
+} from '@/lib/meetingSearch'
+import type { DeletedMeeting } from '@/lib/meetingStore'
+import { MEETING_TYPE_OPTIONS, MEETING_TYPES } from '@/lib/meetingTypes'
+
+interface MeetingHistoryProps {
+  refreshKey: number // changes when a meeting was saved elsewhere on the page
+  openMeetingId?: string // the meeting shown in the report view
+  onOpen: (id: string) => void
+  onDeleted: (id: string) => void
+}
+
+type Filters = Omit<MeetingSearchQuery, 'page' | 'pageSize'>
+
+// As listed by GET /api/meetings/deleted
+type RestorableMeeting = DeletedMeeting & { restorableUntil: string }
+
+async function sendMeetingRequest(id: string, method: 'PATCH' | 'DELETE', body?: Record<string, unknown>) {
+  const response = await fetch(`/api/meetings/${encodeURIComponent(id)}`, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  })
+  const result = await response.json()
+  if (!response.ok) {
+    throw new Error(result.error || (method === 'DELETE' ? 'Failed to delete the meeting' : 'Failed to rename the meeting'))
+  }
+  return result
+}
+
+function Highlighted({ text, highlights }: { text: string; highlights: TextRange[] }) {
+  const parts: React.ReactNode[] = []
+  let position = 0
+  highlights.forEach((range, index) => {
+    parts.push(text.slice(position, range.start))
+    parts.push(<mark key={index} className="bg-yellow-200 rounded-sm">{text.slice(range.start, range.end)}</mark>)
+    position = range.end
+  })
+  parts.push(text.slice(position))
+  return <>{parts}</>
+}
+
+// Searchable list of saved meetings, backed by GET /api/meetings/search
+export default function MeetingHistory({ refreshKey, openMeetingId, onOpen, onDeleted }: MeetingHistoryProps) {
+  const [filters, setFilters] = useState<Filters>({})
+  const [applied, setApplied] = useState<Filters>({}) // the filters of the results shown
+  const [page, setPage] = useState(1)
+  const [result, setResult] = useState<MeetingSearchResult | null>(null)
+  const [searching, setSearching] = useState(false)
+  const [renaming, setRenaming] = useState<{ id: string; title: string } | null>(null)
+  const [busyId, setBusyId] = useState('')
+  const [error, setError] = useState('')
+  const [lastDeleted, setLastDeleted] = useState<{ id: string; title: string; restorableUntil: string } | null>(null)
+  const [deleted, setDeleted] = useState<RestorableMeeting[] | null>(null) // null while recently deleted is hidden
+
+  const shown = useRef<{ query: Filters; page: number }>({ query: {}, page: 1 }) // what `result` answers, for reloading
+
+  const search = useCallback(async (query: Filters, pageNumber: number) => {
+    setSearching(true)
+    setError('')
+    try {
+      const params = toSearchParams({ ...query, page: pageNumber, pageSize: DEFAULT_SEARCH_PAGE_SIZE })
+      const response = await fetch(`/api/meetings/search?${params.toString()}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to search meetings')
+      }
+      setResult(data as MeetingSearchResult)
+      setApplied(query)
+      setPage(pageNumber)
+      shown.current = { query, page: pageNumber }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to search meetings')
+    } finally {
+      setSearching(false)
+    }
+  }, [])
+
+  // Reload the current results when a meeting is saved
+  useEffect(() => {
+    search(shown.current.query, shown.current.page)
+  }, [refreshKey, search])
+
+  const updateFilter = <K extends keyof Filters>(key: K, value: Filters[K]) =>
+    setFilters(current => ({ ...current, [key]: value }))
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault()
+    search(filters, 1)
+  }
+
+  const clear = () => {
+    setFilters({})
+    search({}, 1)
+  }
+
+  const rename = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!renaming || !renaming.title.trim() || !result) return
+
+    setBusyId(renaming.id)
+    setError('')
+    try {
+      const updated = await sendMeetingRequest(renaming.id, 'PATCH', { title: renaming.title })
+      setResult({ ...result, data: result.data.map(hit => (hit.id === renaming.id ? { ...hit, title: updated.data.title } : hit)) })
+      setRenaming(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to rename the meeting')
+    } finally {
+      setBusyId('')
+    }
+  }
+
+  const loadDeleted = async () => {
+    try {
+      const response = await fetch('/api/meetings/deleted')
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load recently deleted meetings')
+      }
+      setDeleted(data.data as RestorableMeeting[])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load recently deleted meetings')
+    }
+  }
+
+  const toggleDeleted = () => {
+    if (deleted) {
+      setDeleted(null)
+    } else {
+      loadDeleted()
+    }
+  }
+
+  const remove = async (id: string, title: string) => {
+    if (!window.confirm(`Delete "${title}" and its report? You can restore it from Recently deleted for a while.`)) return
+
+    setBusyId(id)
+    setError('')
+    try {
+      const removed = await sendMeetingRequest(id, 'DELETE')
+      setLastDeleted({ id, title, restorableUntil: removed.restorableUntil })
+      onDeleted(id)
+      if (deleted) await loadDeleted()
+      // Step back when the last meeting on a page is deleted
+      await search(applied, result && result.data.length === 1 && page > 1 ? page - 1 : page)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete the meeting')
+    } finally {
+      setBusyId('')
+    }
+  }
+
+  const restore = async (id: string) => {
+    setBusyId(id)
+    setError('')
+    try {
+      const response = await fetch(`/api/meetings/${encodeURIComponent(id)}/restore`, { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to restore the meeting')
+      }
+      setLastDeleted(null)
+      if (deleted) await loadDeleted()
+      await search(applied, page)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore the meeting')
+    } finally {
+      setBusyId('')
+    }
+  }
+
+  const pageCount = result ? Math.max(1, Math.ceil(result.total / result.pageSize)) : 1
+  const filtered = Object.keys(applied).some(key => applied[key as keyof Filters] !== undefined)
+
+  return (
+    <div className="mt-12">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">History</h2>
+        <button
+          type="button"
+          onClick={() => search(applied, page)}
+          className="btn-secondary"
+          disabled={searching}
+        >
+          {searching ? 'Loading…' : 'Refresh'}
+        </button>
+      </div>
+
+      <form onSubmit={submit} className="bg-white border border-gray-200 rounded-lg p-4 mb-4 flex flex-col gap-3">
+        <div className="flex gap-2">
+          <input
+            type="search"
+            value={filters.text || ''}
+            onChange={e => updateFilter('text', e.target.value || undefined)}
+            placeholder="Search notes, decisions, action items, blockers and questions"
+            className="flex-1 border border-gray-300 rounded-md px-3 py-2 text-sm"
+            aria-label="Search meetings"
+          />
+          <button type="submit" className="btn-primary" disabled={searching}>
+            Search
+          </button>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-2 text-sm">
+          <input
+            type="text"
+            value={filters.owner || ''}
+            onChange={e => updateFilter('owner', e.target.value || undefined)}
+            placeholder="Owner"
+            className="border border-gray-300 rounded-md px-2 py-1"
+            aria-label="Action item owner"
+          />
+          <select
+            value={filters.priority || ''}
+            onChange={e => updateFilter('priority', (e.target.value || undefined) as ActionItem['priority'] | undefined)}
+            className="border border-gray-300 rounded-md px-2 py-1"
+            aria-label="Action item priority"
+          >
+            <option value="">Any priority</option>
+            <option value="high">High</option>
+            <option value="medium">Medium</option>
+            <option value="low">Low</option>
+          </select>
+          <input
+            type="date"
+            value={filters.from || ''}
+            onChange={e => updateFilter('from', e.target.value || undefined)}
+            className="border border-gray-300 rounded-md px-2 py-1"
+            aria-label="Meetings from"
+          />
+          <input
+            type="date"
+            value={filters.to || ''}
+            onChange={e => updateFilter('to', e.target.value || undefined)}
+            className="border border-gray-300 rounded-md px-2 py-1"
+            aria-label="Meetings until"
+          />
+          <select
+            value={filters.meetingType || ''}
+            onChange={e => updateFilter('meetingType', (e.target.value || undefined) as MeetingType | undefined)}
+            className="border border-gray-300 rounded-md px-2 py-1"
+            aria-label="Meeting type"
+          >
+            <option value="">Any meeting type</option>
+            {MEETING_TYPE_OPTIONS.map(type => (
+              <option key={type} value={type}>{MEETING_TYPES[type].label}</option>
+            ))}
+          </select>
+          <select
+            value={filters.hasOpenBlockers === undefined ? '' : String(filters.hasOpenBlockers)}
+            onChange={e => updateFilter('hasOpenBlockers', e.target.value === '' ? undefined : e.target.value === 'true')}
+            className="border border-gray-300 rounded-md px-2 py-1"
+            aria-label="Open blockers"
+          >
+            <option value="">Blockers: any</option>
+            <option value="true">Open blockers</option>
+            <option value="false">No open blockers</option>
+          </select>
+        </div>
+        {filtered && (
+          <button type="button" onClick={clear} className="self-start text-xs text-gray-500 hover:text-gray-700">
+            Clear search
+          </button>
+        )}
+      </form>
+
+      {error && <p className="text-sm text-red-700 mb-3">⚠️ {error}</p>}
+      {lastDeleted && (
+        <p className="text-sm text-gray-700 mb-3">
+          Deleted &ldquo;{lastDeleted.title}&rdquo;, restorable until {new Date(lastDeleted.restorableUntil).toLocaleString()}.{' '}
+          <button
+            type="button"
+            onClick={() => restore(lastDeleted.id)}
+            disabled={busyId === lastDeleted.id}
+            className="text-blue-700 hover:text-blue-900 disabled:opacity-50"
+          >
+            Undo
+          </button>
+        </p>
+      )}
+
+      {result && result.data.length === 0 ? (
+        <p className="text-gray-500 italic">{filtered ? 'No meetings match this search' : 'No notes in history yet'}</p>
+      ) : result && (
+        <>
+          <p className="text-xs text-gray-500 mb-2">
+            {result.total} {result.total === 1 ? 'meeting' : 'meetings'}
+          </p>
+          <div className="space-y-3">
+            {result.data.map(hit => (
+              <div
+                key={hit.id}
+                className={`bg-white p-4 rounded-lg border ${hit.id === openMeetingId ? 'border-blue-400' : 'border-gray-200'}`}
+              >
+                {renaming?.id === hit.id ? (
+                  <form onSubmit={rename} className="flex gap-2 mb-1">
+                    <input
+                      type="text"
+                      value={renaming.title}
+                      onChange={e => setRenaming({ id: hit.id, title: e.target.value })}
+                      maxLength={200}
+                      className="flex-1 border border-gray-300 rounded-md px-2 py-1 text-sm"
+                      aria-label="Meeting title"
+                      autoFocus
+                    />
+                    <button type="submit" disabled={busyId === hit.id || !renaming.title.trim()} className="btn-primary text-xs disabled:opacity-50">
+                      Save
+                    </button>
+                    <button type="button" onClick={() => setRenaming(null)} className="text-xs text-gray-500 hover:text-gray-700">
+                      Cancel
+                    </button>
+                  </form>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => onOpen(hit.id)}
+                    className="font-medium text-gray-900 mb-1 text-left hover:text-blue-700"
+                    title="Open this meeting's report"
+                  >
+                    {hit.title}
+                  </button>
+                )}
+                {hit.matches.length > 0 ? (
+                  <ul className="text-sm text-gray-600 mb-2 space-y-1">
+                    {hit.matches.map((match, index) => (
+                      <li key={index}>
+                        <span className="text-xs font-medium text-gray-500 mr-1">{SEARCH_FIELD_LABELS[match.field]}:</span>
+                        <Highlighted text={match.text} highlights={match.highlights} />
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-gray-600 mb-2 line-clamp-3">{hit.excerpt}</p>
+                )}
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-xs text-gray-500">
+                    {MEETING_TYPES[hit.meetingType]?.label || hit.meetingType} · {hit.meetingDate}
+                  </p>
+                  <div className="flex gap-3 text-xs">
+                    <button type="button" onClick={() => onOpen(hit.id)} className="text-blue-700 hover:text-blue-900">
+                      Open
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setRenaming({ id: hit.id, title: hit.title })}
+                      disabled={busyId === hit.id}
+                      className="text-gray-500 hover:text-gray-800 disabled:opacity-50"
+                    >
+                      Rename
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => remove(hit.id, hit.title)}
+                      disabled={busyId === hit.id}
+                      className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+          {pageCount > 1 && (
+            <div className="flex items-center justify-center gap-4 mt-4 text-sm">
+              <button
+                type="button"
+                onClick={() => search(applied, page - 1)}
+                disabled={searching || page <= 1}
+                className="text-blue-700 hover:text-blue-900 disabled:opacity-40"
+              >
+                ← Previous
+              </button>
+              <span className="text-gray-500">Page {page} of {pageCount}</span>
+              <button
+                type="button"
+                onClick={() => search(applied, page + 1)}
+                disabled={searching || page >= pageCount}
+                className="text-blue-700 hover:text-blue-900 disabled:opacity-40"
+              >
+                Next →
+              </button>
+            </div>
+          )}
+        </>
+      )}
+
+      <div className="mt-6">
+        <button type="button" onClick={toggleDeleted} className="text-xs text-gray-500 hover:text-gray-700">
+          {deleted ? 'Hide recently deleted' : 'Recently deleted'}
+        </button>
+        {deleted && (deleted.length === 0 ? (
+          <p className="text-sm text-gray-500 italic mt-2">No recently deleted meetings</p>
+        ) : (
+          <ul className="mt-2 space-y-2">
+            {deleted.map(meeting => (
+              <li key={meeting.id} className="flex items-center justify-between gap-2 bg-white border border-gray-200 rounded-md px-3 py-2 text-sm">
+                <span className="text-gray-700">
+                  {meeting.title}
+                  <span className="block text-xs text-gray-500">
+                    Deleted {new Date(meeting.deletedAt).toLocaleString()} · restorable until {new Date(meeting.restorableUntil).toLocaleString()}
+                  </span>
+                </span>
+                <button
+                  type="button"
+                  onClick={() => restore(meeting.id)}
+                  disabled={busyId === meeting.id}
+                  className="text-xs text-blue-700 hover:text-blue-900 disabled:opacity-50"
+                >
+                  Restore
+                </button>
+              </li>
+            ))}
+          </ul>
+        ))}
+      </div>
+    </div>
+  )
+}
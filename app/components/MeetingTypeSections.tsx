@@ -0,0 +1,138 @@
+'use client'
+
+import type { MeetingTypeSections as Sections } from '@/lib/ai'
+
+interface MeetingTypeSectionsProps {
+  sections: Sections
+}
+
+interface ListCardProps {
+  title: string
+  items: string[]
+  marker: string
+}
+
+function ListCard({ title, items, marker }: ListCardProps) {
+  return (
+    <div>
+      <h4 className="font-medium text-purple-800 mb-2">{title}</h4>
+      {items.length === 0 ? (
+        <p className="text-sm text-purple-400 italic">None recorded</p>
+      ) : (
+        <ul className="space-y-1">
+          {items.map((item, index) => (
+            <li key={index} className="text-purple-700 flex items-start gap-2 text-sm">
+              <span className="text-purple-500 mt-1">{marker}</span>
+              <span>{item}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+function TextCard({ title, text }: { title: string; text: string }) {
+  return (
+    <div>
+      <h4 className="font-medium text-purple-800 mb-2">{title}</h4>
+      <p className="text-sm text-purple-700">{text}</p>
+    </div>
+  )
+}
+
+function renderSections(sections: Sections) {
+  switch (sections.kind) {
+    case 'standup':
+      return (
+        <div className="grid gap-3 md:grid-cols-2">
+          {sections.updates.length === 0 && (
+            <p className="text-sm text-purple-400 italic">No per-person updates recorded</p>
+          )}
+          {sections.updates.map((update, index) => (
+            <div key={index} className="bg-white rounded-lg p-4 border border-purple-100 space-y-1 text-sm">
+              <h4 className="font-medium text-gray-900">{update.person}</h4>
+              {update.yesterday.map((item, itemIndex) => (
+                <p key={`y-${itemIndex}`} className="text-gray-700"><strong>Yesterday:</strong> {item}</p>
+              ))}
+              {update.today.map((item, itemIndex) => (
+                <p key={`t-${itemIndex}`} className="text-gray-700"><strong>Today:</strong> {item}</p>
+              ))}
+              {update.blockers.map((item, itemIndex) => (
+                <p key={`b-${itemIndex}`} className="text-orange-700"><strong>Blocker:</strong> {item}</p>
+              ))}
+            </div>
+          ))}
+        </div>
+      )
+    case 'sprint-planning':
+      return (
+        <div className="grid gap-4 md:grid-cols-2">
+          <TextCard title="Sprint Goal" text={sections.sprintGoal} />
+          <TextCard title="Capacity" text={sections.capacity} />
+          <ListCard title="Committed Scope" items={sections.committedScope} marker="☐" />
+          <ListCard title="Deferred" items={sections.deferredItems} marker="↷" />
+        </div>
+      )
+    case 'retrospective':
+      return (
+        <div className="grid gap-4 md:grid-cols-3">
+          <ListCard title="Went Well" items={sections.wentWell} marker="+" />
+          <ListCard title="To Improve" items={sections.toImprove} marker="Δ" />
+          <ListCard title="Experiments" items={sections.experiments} marker="🧪" />
+        </div>
+      )
+    case 'incident-postmortem':
+      return (
+        <div className="space-y-4">
+          <div>
+            <h4 className="font-medium text-purple-800 mb-2">Timeline</h4>
+            {sections.timeline.length === 0 ? (
+              <p className="text-sm text-purple-400 italic">No timeline recorded</p>
+            ) : (
+              <ol className="border-l-2 border-purple-200 pl-4 space-y-2">
+                {sections.timeline.map((event, index) => (
+                  <li key={index} className="text-sm text-purple-700">
+                    <span className="font-mono text-xs text-purple-500 mr-2">{event.time}</span>
+                    {event.event}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+          <div className="grid gap-4 md:grid-cols-2">
+            <TextCard title="Impact" text={sections.impact} />
+            <TextCard title="Root Cause" text={sections.rootCause} />
+          </div>
+          <ListCard title="Remediation" items={sections.remediation} marker="🔧" />
+        </div>
+      )
+    case 'one-on-one':
+      return (
+        <div className="grid gap-4 md:grid-cols-3">
+          <ListCard title="Topics" items={sections.topics} marker="•" />
+          <ListCard title="Feedback" items={sections.feedback} marker="💬" />
+          <ListCard title="Growth Goals" items={sections.growthGoals} marker="🌱" />
+        </div>
+      )
+  }
+}
+
+const SECTION_TITLES: Record<Sections['kind'], string> = {
+  standup: '🧍 Standup Updates',
+  'sprint-planning': '🗓️ Sprint Plan',
+  retrospective: '🔁 Retrospective',
+  'incident-postmortem': '🚨 Incident Postmortem',
+  'one-on-one': '🤝 1:1 Notes',
+}
+
+export default function MeetingTypeSections({ sections }: MeetingTypeSectionsProps) {
+  return (
+    <section className="bg-purple-50 border border-purple-200 rounded-lg p-6 xl:col-span-3">
+      <h3 className="font-semibold text-purple-900 mb-4 flex items-center gap-2 text-lg">
+        {SECTION_TITLES[sections.kind]}
+      </h3>
+      {renderSections(sections)}
+    </section>
+  )
+}
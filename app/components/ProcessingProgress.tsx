@@ -1,108 +1,161 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import type { PartialSummary, SummarizeStage } from '@/lib/ai'
+import type { SummarizeStreamEvent } from '@/lib/summarizeStream'
 
 interface ProcessingProgressProps {
   isVisible: boolean
+  events: SummarizeStreamEvent[] // events received so far from /api/summarize/stream
 }
 
 interface ProcessingStage {
-  id: string
+  id: SummarizeStage
   label: string
   description: string
-  estimatedTime: number // in milliseconds
 }
 
 const PROCESSING_STAGES: ProcessingStage[] = [
   {
-    id: 'analyzing',
-    label: 'Analyzing Notes',
-    description: 'Reading and understanding your meeting notes...',
-    estimatedTime: 800
+    id: 'validated',
+    label: 'Notes Validated',
+    description: 'Checked your notes and settings...'
   },
   {
-    id: 'extracting',
-    label: 'Extracting Key Points',
-    description: 'Identifying important decisions and discussions...',
-    estimatedTime: 1000
+    id: 'request-sent',
+    label: 'Request Sent',
+    description: 'Sent your notes to the language model...'
   },
   {
-    id: 'identifying',
-    label: 'Identifying Action Items',
-    description: 'Finding tasks and responsibilities...',
-    estimatedTime: 600
+    id: 'streaming',
+    label: 'Receiving Summary',
+    description: 'The model is writing your summary...'
   },
   {
-    id: 'checking',
-    label: 'Checking SOPs',
-    description: 'Validating meeting structure and completeness...',
-    estimatedTime: 500
+    id: 'parsing',
+    label: 'Parsing Output',
+    description: 'Parsing and repairing the structured response...'
   },
   {
-    id: 'generating',
-    label: 'Generating Summary',
-    description: 'Creating structured output and probing questions...',
-    estimatedTime: 700
+    id: 'checking-sops',
+    label: 'Checking SOPs',
+    description: 'Checking the report against your team checklist...'
   },
   {
-    id: 'finalizing',
-    label: 'Finalizing Results',
-    description: 'Preparing your formatted summary...',
-    estimatedTime: 400
+    id: 'saved',
+    label: 'Saved to History',
+    description: 'Stored the report in your meeting history...'
   }
 ]
 
-export default function ProcessingProgress({ isVisible }: ProcessingProgressProps) {
-  const [currentStageIndex, setCurrentStageIndex] = useState(0)
-  const [progress, setProgress] = useState(0)
-
-  useEffect(() => {
-    if (!isVisible) {
-      setCurrentStageIndex(0)
-      setProgress(0)
-      return
-    }
-
-    let currentTime = 0
+// Typical response length for one chunk, used to scale the token progress
+const EXPECTED_RESPONSE_CHARS = 2500
 
-    // Calculate total estimated time
-    const totalEstimatedTime = PROCESSING_STAGES.reduce((sum, stage) => sum + stage.estimatedTime, 0)
-
-    const interval = setInterval(() => {
-      currentTime += 50 // Update every 50ms for smooth progress
-      
-      // Calculate overall progress
-      const overallProgress = Math.min((currentTime / totalEstimatedTime) * 100, 95) // Cap at 95%
-      setProgress(overallProgress)
-
-      // Determine current stage based on elapsed time
-      let stageTime = 0
-      let stageIndex = PROCESSING_STAGES.length - 1
+interface ProgressState {
+  stageIndex: number
+  progress: number
+  chunkIndex: number
+  chunkCount: number
+  characters: number
+  partial: PartialSummary | null
+}
 
-      for (let i = 0; i < PROCESSING_STAGES.length; i++) {
-        stageTime += PROCESSING_STAGES[i].estimatedTime
-        if (currentTime <= stageTime) {
-          stageIndex = i
-          break
+function deriveProgress(events: SummarizeStreamEvent[]): ProgressState {
+  const state: ProgressState = { stageIndex: 0, progress: 0, chunkIndex: 0, chunkCount: 1, characters: 0, partial: null }
+  let chunkFraction = 0
+
+  for (const event of events) {
+    switch (event.type) {
+      case 'stage': {
+        state.stageIndex = PROCESSING_STAGES.findIndex(stage => stage.id === event.stage)
+        if (event.stage === 'request-sent') {
+          chunkFraction = 0.1
+          state.characters = 0
+        } else if (event.stage === 'streaming') {
+          chunkFraction = 0.15
+        } else if (event.stage === 'parsing') {
+          chunkFraction = 0.95
+        } else if (event.stage === 'checking-sops') {
+          chunkFraction = 1
+          state.chunkIndex = state.chunkCount - 1
         }
+        break
       }
+      case 'chunk':
+        state.chunkIndex = event.index
+        state.chunkCount = event.total
+        state.partial = null
+        chunkFraction = 0
+        break
+      case 'tokens':
+        state.characters = event.characters
+        chunkFraction = 0.15 + 0.75 * Math.min(event.characters / EXPECTED_RESPONSE_CHARS, 1)
+        break
+      case 'partial':
+        state.partial = event.output
+        break
+      case 'result':
+        chunkFraction = 1
+        state.chunkIndex = state.chunkCount - 1
+        break
+    }
+  }
 
-      setCurrentStageIndex(stageIndex)
+  // 5% for validation, 80% spread across chunks, then SOP checks and saving
+  const modelProgress = (state.chunkIndex + chunkFraction) / state.chunkCount
+  const sopsStarted = events.some(event => event.type === 'stage' && event.stage === 'checking-sops')
+  state.progress = state.stageIndex === PROCESSING_STAGES.length - 1
+    ? 100
+    : events.length === 0 ? 0 : 5 + modelProgress * 80 + (sopsStarted ? 5 : 0)
 
-      // Complete after total time
-      if (currentTime >= totalEstimatedTime) {
-        clearInterval(interval)
-        setProgress(100)
-        setCurrentStageIndex(PROCESSING_STAGES.length - 1)
-      }
-    }, 50)
+  return state
+}
+
+function PartialOutput({ partial }: { partial: PartialSummary }) {
+  const sections = partial.developmentTeamSections
+  const actionItems = sections?.actionItemsAndOwnership.length ? sections.actionItemsAndOwnership : partial.actionItems || []
+  const blockers = sections?.blockersAndNextSteps.currentBlockers || []
 
-    return () => clearInterval(interval)
-  }, [isVisible])
+  return (
+    <div className="mt-4 bg-white border border-blue-100 rounded-lg p-4 text-sm space-y-3">
+      <p className="text-xs font-medium uppercase tracking-wide text-blue-500">Live preview</p>
+      {partial.summaryPoints && partial.summaryPoints.length > 0 && (
+        <ul className="space-y-1">
+          {partial.summaryPoints.map((point, index) => (
+            <li key={index} className="text-gray-700">• {point}</li>
+          ))}
+        </ul>
+      )}
+      {actionItems.length > 0 && (
+        <div>
+          <h4 className="font-medium text-green-800 mb-1">Action Items</h4>
+          <ul className="space-y-1">
+            {actionItems.map((item, index) => (
+              <li key={index} className="text-gray-700">
+                ✅ {item.task}{item.owner ? <span className="text-gray-500"> — {item.owner}</span> : null}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {blockers.length > 0 && (
+        <div>
+          <h4 className="font-medium text-orange-800 mb-1">Blockers</h4>
+          <ul className="space-y-1">
+            {blockers.map((blocker, index) => (
+              <li key={index} className="text-orange-700">⚠️ {blocker}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
 
+export default function ProcessingProgress({ isVisible, events }: ProcessingProgressProps) {
   if (!isVisible) return null
 
-  const currentStage = PROCESSING_STAGES[currentStageIndex]
+  const { stageIndex, progress, chunkIndex, chunkCount, characters, partial } = deriveProgress(events)
+  const currentStage = PROCESSING_STAGES[Math.max(stageIndex, 0)]
 
   return (
     <div className="bg-blue-50 border border-blue-200 rounded-lg p-6 mt-4">
@@ -112,22 +165,27 @@ export default function ProcessingProgress({ isVisible }: ProcessingProgressProp
         </div>
         <div className="flex-1">
           <h3 className="text-lg font-medium text-blue-900">
-            {currentStage.label}
+            {events.length === 0 ? 'Starting...' : currentStage.label}
           </h3>
           <p className="text-sm text-blue-700 mt-1">
-            {currentStage.description}
+            {events.length === 0 ? 'Connecting to the server...' : currentStage.description}
           </p>
+          {chunkCount > 1 && (
+            <p className="text-xs text-blue-600 mt-1">
+              Long notes detected · Summarizing chunk {chunkIndex + 1} of {chunkCount}
+            </p>
+          )}
         </div>
       </div>
 
       {/* Progress Bar */}
       <div className="mb-4">
         <div className="flex justify-between text-sm text-blue-600 mb-2">
-          <span>Processing...</span>
+          <span>{characters > 0 ? `${characters.toLocaleString()} characters received` : 'Processing...'}</span>
           <span>{Math.round(progress)}%</span>
         </div>
         <div className="w-full bg-blue-200 rounded-full h-2">
-          <div 
+          <div
             className="bg-blue-600 h-2 rounded-full transition-all duration-300 ease-out"
             style={{ width: `${progress}%` }}
           ></div>
@@ -137,17 +195,17 @@ export default function ProcessingProgress({ isVisible }: ProcessingProgressProp
       {/* Stage Indicators */}
       <div className="flex justify-between text-xs text-blue-600">
         {PROCESSING_STAGES.map((stage, index) => (
-          <div 
+          <div
             key={stage.id}
             className={`flex flex-col items-center ${
-              index <= currentStageIndex ? 'text-blue-700' : 'text-blue-400'
+              index <= stageIndex ? 'text-blue-700' : 'text-blue-400'
             }`}
           >
             <div className={`w-2 h-2 rounded-full mb-1 transition-colors duration-300 ${
-              index < currentStageIndex 
-                ? 'bg-blue-600' 
-                : index === currentStageIndex 
-                  ? 'bg-blue-600 animate-pulse' 
+              index < stageIndex
+                ? 'bg-blue-600'
+                : index === stageIndex
+                  ? 'bg-blue-600 animate-pulse'
                   : 'bg-blue-300'
             }`}></div>
             <span className="text-center leading-tight">
@@ -157,10 +215,7 @@ export default function ProcessingProgress({ isVisible }: ProcessingProgressProp
         ))}
       </div>
 
-      {/* Estimated Time */}
-      <div className="mt-4 text-xs text-blue-500 text-center">
-        This usually takes 3-5 seconds...
-      </div>
+      {partial && <PartialOutput partial={partial} />}
     </div>
   )
 }
@@ -0,0 +1,112 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { MeetingQualityMetrics, MeetingType, QualityArea } from '@/lib/ai'
+import { QUALITY_AREA_LABELS, QUALITY_AREAS } from '@/lib/quality'
+import type { QualityHistoryEntry } from '@/lib/meetingStore'
+
+interface QualityPanelProps {
+  quality: MeetingQualityMetrics
+  meetingType: MeetingType
+  meetingId?: string // the saved copy of this report, left out of the comparison
+}
+
+// How many earlier meetings of the same type the scores are compared with
+const COMPARISON_SIZE = 10
+
+function scoreClass(score: number): string {
+  return score >= 7.5 ? 'bg-green-500' : score >= 5 ? 'bg-yellow-500' : 'bg-red-500'
+}
+
+function Delta({ value }: { value: number | null }) {
+  if (value === null || Math.abs(value) < 0.05) return null
+  return (
+    <span className={`text-xs ml-1 ${value > 0 ? 'text-green-700' : 'text-red-700'}`}>
+      {value > 0 ? '▲' : '▼'} {Math.abs(value).toFixed(1)}
+    </span>
+  )
+}
+
+export default function QualityPanel({ quality, meetingType, meetingId }: QualityPanelProps) {
+  const [previous, setPrevious] = useState<QualityHistoryEntry[]>([])
+
+  useEffect(() => {
+    fetch(`/api/quality?meetingType=${encodeURIComponent(meetingType)}&limit=${COMPARISON_SIZE + 1}`)
+      .then(response => (response.ok ? response.json() : null))
+      .then((result: { data: QualityHistoryEntry[] } | null) => {
+        setPrevious(
+          (result?.data || [])
+            .filter(entry => entry.meetingId !== meetingId && entry.scoringVersion === quality.scoringVersion)
+            .slice(0, COMPARISON_SIZE)
+        )
+      })
+      .catch(err => console.error('Failed to load quality history', err))
+  }, [meetingType, meetingId, quality.scoringVersion])
+
+  const average = (pick: (entry: QualityHistoryEntry) => number) =>
+    previous.length === 0 ? null : previous.reduce((sum, entry) => sum + pick(entry), 0) / previous.length
+  const overallAverage = average(entry => entry.overallScore)
+  const areaDelta = (area: QualityArea) => {
+    const areaAverage = average(entry => entry.areas[area])
+    return areaAverage === null ? null : quality.areas[area] - areaAverage
+  }
+
+  return (
+    <section className="bg-indigo-50 border border-indigo-200 rounded-lg p-6 xl:col-span-3">
+      <div className="flex flex-wrap items-baseline justify-between gap-2 mb-4">
+        <h3 className="font-semibold text-indigo-900 flex items-center gap-2 text-lg">
+          📈 Meeting Quality
+        </h3>
+        <p className="text-sm text-indigo-800">
+          <span className="text-2xl font-bold">{quality.overallScore.toFixed(1)}</span>/10
+          <Delta value={overallAverage === null ? null : quality.overallScore - overallAverage} />
+          {overallAverage !== null && (
+            <span className="text-xs text-indigo-600 ml-2">
+              vs. {overallAverage.toFixed(1)} average over the last {previous.length} {previous.length === 1 ? 'meeting' : 'meetings'} of this type
+            </span>
+          )}
+        </p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-5">
+        {QUALITY_AREAS.map(area => (
+          <div key={area}>
+            <div className="flex justify-between text-sm text-indigo-900 mb-1">
+              <span className="font-medium">{QUALITY_AREA_LABELS[area]}</span>
+              <span>
+                {quality.areas[area].toFixed(1)}
+                <Delta value={areaDelta(area)} />
+              </span>
+            </div>
+            <div className="w-full bg-indigo-100 rounded-full h-2">
+              <div className={`${scoreClass(quality.areas[area])} h-2 rounded-full`} style={{ width: `${quality.areas[area] * 10}%` }}></div>
+            </div>
+            {quality.factors && (
+              <ul className="mt-2 space-y-1">
+                {quality.factors.filter(factor => factor.area === area).map(factor => (
+                  <li key={factor.id} className="text-xs text-indigo-700">
+                    {factor.label}: <span className="text-indigo-900">{factor.detail}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {quality.recommendations.length > 0 && (
+        <div className="mt-4">
+          <h4 className="font-medium text-indigo-800 mb-2">Recommendations</h4>
+          <ul className="space-y-1">
+            {quality.recommendations.map((recommendation, index) => (
+              <li key={index} className="text-sm text-indigo-700 flex items-start gap-2">
+                <span className="text-indigo-500 mt-0.5">→</span>
+                <span>{recommendation}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  )
+}
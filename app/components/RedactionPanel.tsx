@@ -0,0 +1,53 @@
+'use client'
+
+import type { RedactionReport } from '@/lib/ai'
+import { REDACTION_CATEGORIES, REDACTION_CATEGORY_LABELS } from '@/lib/redaction'
+
+interface RedactionPanelProps {
+  report: RedactionReport
+}
+
+export default function RedactionPanel({ report }: RedactionPanelProps) {
+  if (report.categories.length === 0) return null
+
+  const groups = REDACTION_CATEGORIES
+    .map(category => ({ category, entities: report.entities.filter(entity => entity.category === category) }))
+    .filter(group => group.entities.length > 0)
+
+  return (
+    <section className="bg-slate-50 border border-slate-200 rounded-lg p-6 xl:col-span-3">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <h3 className="font-semibold text-slate-900 flex items-center gap-2 text-lg">
+          🔒 Redacted Before Sending
+        </h3>
+        <p className="text-sm text-slate-600">
+          {report.entities.length === 0
+            ? 'Nothing needed redacting'
+            : `${report.entities.length} ${report.entities.length === 1 ? 'value was' : 'values were'} replaced with placeholders`}
+        </p>
+      </div>
+      <p className="text-xs text-slate-500 mb-4">
+        The model only saw placeholders for these; the report shows the original values. Checked for:{' '}
+        {report.categories.map(category => REDACTION_CATEGORY_LABELS[category].toLowerCase()).join(', ')}.
+      </p>
+
+      {groups.length > 0 && (
+        <div className="grid gap-4 md:grid-cols-3">
+          {groups.map(group => (
+            <div key={group.category}>
+              <h4 className="font-medium text-slate-800 mb-2 text-sm">{REDACTION_CATEGORY_LABELS[group.category]}</h4>
+              <ul className="space-y-1">
+                {group.entities.map(entity => (
+                  <li key={entity.placeholder} className="text-xs text-slate-700 flex items-start gap-2">
+                    <code className="bg-slate-200 text-slate-800 px-1 rounded">{entity.placeholder}</code>
+                    <span className="break-all">{entity.preview}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,87 @@
+'use client'
+
+import { useState } from 'react'
+import type { SummaryOutput } from '@/lib/ai'
+import { MAX_GUIDANCE_CHARS, REGENERABLE_SECTION_LABELS, RegenerableSection } from '@/lib/reportSections'
+
+interface RegenerateSectionProps {
+  meetingId: string
+  section: RegenerableSection
+  onRegenerated: (output: SummaryOutput) => void // called with the new revision
+}
+
+// "Regenerate" control for one section heading of a saved report
+export default function RegenerateSection({ meetingId, section, onRegenerated }: RegenerateSectionProps) {
+  const [open, setOpen] = useState(false)
+  const [guidance, setGuidance] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState('')
+
+  const regenerate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (busy) return
+
+    setBusy(true)
+    setError('')
+    try {
+      const response = await fetch(`/api/meetings/${encodeURIComponent(meetingId)}/regenerate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ section, guidance: guidance.trim() || undefined }),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to regenerate the section')
+      }
+      setOpen(false)
+      setGuidance('')
+      onRegenerated(result.output as SummaryOutput)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to regenerate the section')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="relative shrink-0">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="text-xs text-gray-500 hover:text-gray-800 whitespace-nowrap"
+        aria-expanded={open}
+        title={`Regenerate ${REGENERABLE_SECTION_LABELS[section]}`}
+      >
+        {busy ? 'Regenerating…' : '↻ Regenerate'}
+      </button>
+      {open && (
+        <form
+          onSubmit={regenerate}
+          className="absolute right-0 z-10 mt-2 w-72 bg-white border border-gray-200 rounded-lg shadow-lg p-3 flex flex-col gap-2"
+        >
+          <label className="text-xs text-gray-600" htmlFor={`guidance-${section}`}>
+            What should change? (optional)
+          </label>
+          <textarea
+            id={`guidance-${section}`}
+            value={guidance}
+            onChange={e => setGuidance(e.target.value)}
+            maxLength={MAX_GUIDANCE_CHARS}
+            rows={3}
+            placeholder="e.g. Include the QA owner for each item"
+            className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+          />
+          {error && <p className="text-xs text-red-700">⚠️ {error}</p>}
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={() => setOpen(false)} className="text-xs text-gray-500 hover:text-gray-700">
+              Cancel
+            </button>
+            <button type="submit" disabled={busy} className="btn-primary text-xs disabled:opacity-50">
+              {busy ? 'Regenerating…' : 'Regenerate'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,41 @@
+'use client'
+
+import type { ResolvedDate } from '@/lib/ai'
+import { formatResolvedDate } from '@/lib/dates'
+
+interface ResolvedDeadlineProps {
+  deadline?: string
+  resolved?: ResolvedDate // missing on summaries saved before deadlines were resolved
+}
+
+// Below this, the resolved date is shown as an approximation
+const CONFIDENT = 0.75
+
+export default function ResolvedDeadline({ deadline, resolved }: ResolvedDeadlineProps) {
+  if (!resolved) {
+    return <>{deadline || 'TBD'}</>
+  }
+
+  if (resolved.status === 'unspecified') {
+    return <span className="text-amber-700">⚠️ No deadline set</span>
+  }
+
+  if (resolved.status === 'unparseable') {
+    return (
+      <span className="text-amber-700" title="This deadline could not be converted to a date">
+        ⚠️ {resolved.original} <span className="italic">(unrecognized date)</span>
+      </span>
+    )
+  }
+
+  const date = formatResolvedDate(resolved)
+  return (
+    <span title={`Resolved from "${resolved.original}" with ${Math.round(resolved.confidence * 100)}% confidence`}>
+      {date}
+      {resolved.original !== resolved.start && (
+        <span className="text-gray-500"> · {resolved.original}</span>
+      )}
+      {resolved.confidence < CONFIDENT && <span className="text-gray-500 italic"> (approx.)</span>}
+    </span>
+  )
+}
@@ -0,0 +1,87 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import type { SourceSpan } from '@/lib/ai'
+
+interface SourceNotesProps {
+  notes: string // the notes the report was generated from
+  spans: SourceSpan[] // highlighted supporting text
+  pinned: boolean
+  onClear: () => void
+}
+
+interface Segment {
+  text: string
+  highlighted: boolean
+}
+
+function splitBySpans(notes: string, spans: SourceSpan[]): Segment[] {
+  const segments: Segment[] = []
+  let position = 0
+
+  for (const span of spans) {
+    const start = Math.max(span.start, position)
+    const end = Math.min(span.end, notes.length)
+    if (start >= end) continue
+
+    if (start > position) {
+      segments.push({ text: notes.slice(position, start), highlighted: false })
+    }
+    segments.push({ text: notes.slice(start, end), highlighted: true })
+    position = end
+  }
+
+  if (position < notes.length) {
+    segments.push({ text: notes.slice(position), highlighted: false })
+  }
+  return segments
+}
+
+export default function SourceNotes({ notes, spans, pinned, onClear }: SourceNotesProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const firstMarkRef = useRef<HTMLElement>(null)
+
+  // Scroll the panel (not the page) to the first highlighted passage
+  useEffect(() => {
+    const container = containerRef.current
+    const mark = firstMarkRef.current
+    if (container && mark) {
+      container.scrollTop = Math.max(mark.offsetTop - container.offsetTop - 24, 0)
+    }
+  }, [spans])
+
+  let firstMarkAssigned = false
+
+  return (
+    <section className="sticky top-0 z-10 bg-white border border-yellow-200 rounded-lg p-4 mb-6 shadow-sm">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-semibold text-gray-900 text-sm">📝 Source Notes</h3>
+        <span className="text-xs text-gray-500">
+          {spans.length === 0
+            ? 'Hover or click an item to see where it came from'
+            : pinned
+              ? (
+                <button type="button" onClick={onClear} className="text-yellow-700 hover:underline">
+                  Clear highlight
+                </button>
+              )
+              : 'Click to keep this highlight'}
+        </span>
+      </div>
+      <div ref={containerRef} className="max-h-40 overflow-y-auto text-sm text-gray-700 whitespace-pre-wrap leading-6">
+        {splitBySpans(notes, spans).map((segment, index) => {
+          if (!segment.highlighted) {
+            return <span key={index}>{segment.text}</span>
+          }
+          const isFirst = !firstMarkAssigned
+          firstMarkAssigned = true
+          return (
+            <mark key={index} ref={isFirst ? firstMarkRef : undefined} className="bg-yellow-200 text-gray-900 rounded px-0.5">
+              {segment.text}
+            </mark>
+          )
+        })}
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,110 @@
+'use client'
+
+import { useState } from 'react'
+import type { RosterMember } from '@/lib/ai'
+
+interface TeamRosterProps {
+  roster: RosterMember[]
+  onChange: (roster: RosterMember[]) => void
+}
+
+function splitList(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(item => item.length > 0)
+}
+
+export default function TeamRoster({ roster, onChange }: TeamRosterProps) {
+  const [name, setName] = useState('')
+  const [aliases, setAliases] = useState('')
+  const [handles, setHandles] = useState('')
+  const [emails, setEmails] = useState('')
+  const [error, setError] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const addMember = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim()) return
+
+    setSaving(true)
+    setError('')
+    try {
+      const response = await fetch('/api/roster', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          aliases: splitList(aliases),
+          handles: splitList(handles),
+          emails: splitList(emails),
+        }),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to add team member')
+      }
+
+      onChange([...roster, result.data as RosterMember].sort((a, b) => a.name.localeCompare(b.name)))
+      setName('')
+      setAliases('')
+      setHandles('')
+      setEmails('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add team member')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const removeMember = async (member: RosterMember) => {
+    setError('')
+    try {
+      const response = await fetch(`/api/roster?id=${encodeURIComponent(member.id)}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const result = await response.json()
+        throw new Error(result.error || 'Failed to remove team member')
+      }
+      onChange(roster.filter(candidate => candidate.id !== member.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove team member')
+    }
+  }
+
+  return (
+    <details className="bg-white border border-gray-200 rounded-lg p-4">
+      <summary className="cursor-pointer text-sm font-medium text-gray-700">
+        👥 Team Roster ({roster.length} {roster.length === 1 ? 'member' : 'members'})
+      </summary>
+      <p className="text-xs text-gray-500 mt-2">
+        Owners in reports are matched to these names, including aliases, handles and emails.
+      </p>
+
+      {roster.length > 0 && (
+        <ul className="mt-3 space-y-1">
+          {roster.map(member => (
+            <li key={member.id} className="flex items-start justify-between gap-2 text-sm">
+              <span>
+                <span className="font-medium text-gray-900">{member.name}</span>
+                {[...member.aliases, ...member.handles, ...member.emails].length > 0 && (
+                  <span className="text-xs text-gray-500"> — {[...member.aliases, ...member.handles, ...member.emails].join(', ')}</span>
+                )}
+              </span>
+              <button type="button" onClick={() => removeMember(member)} className="text-xs text-red-600 hover:underline">
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={addMember} className="mt-3 grid gap-2 md:grid-cols-5">
+        <input value={name} onChange={e => setName(e.target.value)} placeholder="Name" className="input-field text-xs" aria-label="Name" />
+        <input value={aliases} onChange={e => setAliases(e.target.value)} placeholder="Aliases (comma separated)" className="input-field text-xs" aria-label="Aliases" />
+        <input value={handles} onChange={e => setHandles(e.target.value)} placeholder="Handles" className="input-field text-xs" aria-label="Handles" />
+        <input value={emails} onChange={e => setEmails(e.target.value)} placeholder="Emails" className="input-field text-xs" aria-label="Emails" />
+        <button type="submit" disabled={saving || !name.trim()} className="btn-secondary text-xs disabled:opacity-50">
+          {saving ? 'Adding...' : 'Add member'}
+        </button>
+      </form>
+      {error && <p className="text-xs text-red-600 mt-2">⚠️ {error}</p>}
+    </details>
+  )
+}
@@ -0,0 +1,106 @@
+'use client'
+
+import { useState } from 'react'
+import type { RosterMember } from '@/lib/ai'
+
+interface UnknownOwnersProps {
+  names: string[] // owner names the roster doesn't know
+  roster: RosterMember[]
+  onRosterChange: (member: RosterMember) => void // called with the created or updated member
+}
+
+async function sendRosterRequest(method: 'POST' | 'PATCH', body: Record<string, unknown>): Promise<RosterMember> {
+  const response = await fetch('/api/roster', {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+  const result = await response.json()
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to update the team roster')
+  }
+  return result.data as RosterMember
+}
+
+export default function UnknownOwners({ names, roster, onRosterChange }: UnknownOwnersProps) {
+  const [selections, setSelections] = useState<Record<string, string>>({})
+  const [busyName, setBusyName] = useState('')
+  const [error, setError] = useState('')
+
+  if (names.length === 0) return null
+
+  const run = async (name: string, request: () => Promise<RosterMember>) => {
+    setBusyName(name)
+    setError('')
+    try {
+      onRosterChange(await request())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the team roster')
+    } finally {
+      setBusyName('')
+    }
+  }
+
+  // Add the unknown name as an alias of an existing member
+  const mapToMember = (name: string) => {
+    const member = roster.find(candidate => candidate.id === selections[name])
+    if (!member) return
+    run(name, () => sendRosterRequest('PATCH', { id: member.id, aliases: [...member.aliases, name] }))
+  }
+
+  const addToRoster = (name: string) => {
+    const isHandle = name.startsWith('@')
+    run(name, () => sendRosterRequest('POST', {
+      name: isHandle ? name.slice(1) : name,
+      handles: isHandle ? [name] : [],
+    }))
+  }
+
+  return (
+    <section className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-6">
+      <h3 className="font-semibold text-amber-900 text-sm mb-1">👥 Unrecognized owners</h3>
+      <p className="text-xs text-amber-800 mb-3">
+        These names aren&apos;t on the team roster. Map each one to a team member, or add them to the roster.
+      </p>
+      <ul className="space-y-2">
+        {names.map(name => (
+          <li key={name} className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="font-medium text-gray-900 min-w-[8rem]">{name}</span>
+            {roster.length > 0 && (
+              <>
+                <select
+                  value={selections[name] || ''}
+                  onChange={e => setSelections(current => ({ ...current, [name]: e.target.value }))}
+                  className="input-field text-xs py-1 w-auto"
+                  aria-label={`Team member for ${name}`}
+                >
+                  <option value="">Choose a team member…</option>
+                  {roster.map(member => (
+                    <option key={member.id} value={member.id}>{member.name}</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => mapToMember(name)}
+                  disabled={!selections[name] || busyName === name}
+                  className="btn-secondary text-xs px-2 py-1 disabled:opacity-50"
+                >
+                  Map
+                </button>
+              </>
+            )}
+            <button
+              type="button"
+              onClick={() => addToRoster(name)}
+              disabled={busyName === name}
+              className="btn-secondary text-xs px-2 py-1 disabled:opacity-50"
+            >
+              Add to roster
+            </button>
+          </li>
+        ))}
+      </ul>
+      {error && <p className="text-xs text-red-600 mt-2">⚠️ {error}</p>}
+    </section>
+  )
+}
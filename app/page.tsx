@@ -1,28 +1,192 @@
 'use client'
 
 import { useEffect, useRef, useState } from 'react'
-import { saveNote, getNotes } from '@/lib/supabase'
 import ProcessingProgress from './components/ProcessingProgress'
-import type { SummaryOutput } from '@/lib/ai'
-
-interface Note {
-  id: string
-  title: string
-  input: string
-  output: string
-  created_at: string
-}
+import MeetingTypeSections from './components/MeetingTypeSections'
+import SourceNotes from './components/SourceNotes'
+import ResolvedDeadline from './components/ResolvedDeadline'
+import TeamRoster from './components/TeamRoster'
+import UnknownOwners from './components/UnknownOwners'
+import CompliancePanel from './components/CompliancePanel'
+import QualityPanel from './components/QualityPanel'
+import RedactionPanel from './components/RedactionPanel'
+import CustomSection from './components/CustomSection'
+import ErrorCard from './components/ErrorCard'
+import MeetingChat, { type ChatTurn } from './components/MeetingChat'
+import RegenerateSection from './components/RegenerateSection'
+import MeetingHistory from './components/MeetingHistory'
+import type { MeetingType, RosterMember, SourceSpan, SummaryOutput } from '@/lib/ai'
+import type { StoredMeeting } from '@/lib/meetingStore'
+import { LANGUAGE_LABELS, SUPPORTED_LANGUAGES, type LanguageCode } from '@/lib/language'
+import { formatMeetingTypeSections, MEETING_TYPE_OPTIONS, MEETING_TYPES } from '@/lib/meetingTypes'
+import { readSummarizeStream, type SummarizeStreamEvent } from '@/lib/summarizeStream'
+import { isErrorCode, SummarizeError } from '@/lib/errors'
+import { formatDeadline, todayISODate } from '@/lib/dates'
+import { findDemoScenario } from '@/lib/demoScenarios'
+import { resolveOwners } from '@/lib/roster'
+import { QUALITY_AREA_LABELS, QUALITY_AREAS, scoreMeeting } from '@/lib/quality'
+import { formatCustomSection, getSummaryTemplate, type ReportTemplate } from '@/lib/templates'
+import { REGENERABLE_SECTION_LABELS, type RegenerableSection } from '@/lib/reportSections'
+import {
+  DEFAULT_CHUNK_OVERLAP,
+  DEFAULT_CHUNK_SIZE,
+  DEFAULT_MAX_INPUT_CHARS,
+  MIN_INPUT_CHARS,
+  type InputLimits,
+} from '@/lib/config'
+
+// The report as plain text for the clipboard, or as a Markdown file
+function formatReport(output: SummaryOutput, format: 'text' | 'markdown'): string {
+  const formatSentenceCase = (value: string) =>
+    value
+      .replace(/([A-Z])/g, ' $1')
+      .replace(/\b\w/g, char => char.toUpperCase())
+      .trim()
+
+  const markdown = format === 'markdown'
+  const lines: string[] = []
+  lines.push(markdown ? '# Meeting Intelligence Report' : 'MEETING INTELLIGENCE REPORT')
+  const addDetail = (label: string, value: string) => lines.push(markdown ? `- **${label}:** ${value}` : `${label}: ${value}`)
+
+  if (output.meetingType) {
+    addDetail('Meeting Type', MEETING_TYPES[output.meetingType]?.label || formatSentenceCase(output.meetingType.replace(/-/g, ' ')))
+  }
+  if (output.meetingDate) {
+    addDetail('Meeting Date', output.meetingDate)
+  }
+  if (output.language && output.language.source !== output.language.output) {
+    addDetail('Language', `${LANGUAGE_LABELS[output.language.output]} (notes in ${LANGUAGE_LABELS[output.language.source]})`)
+  }
+
+
+  const addSection = (title: string, entries: string[]) => {
+    lines.push('')
+    lines.push(markdown ? `## ${title}` : `${title.toUpperCase()}:`)
+    if (entries.length > 0) {
+      lines.push(...entries)
+    } else {
+      lines.push('- None')
+    }
+  }
+
+  addSection('Summary Points', output.summaryPoints.map(item => `- ${item}`))
+
+  // Template sections, in template order
+  const teamSections = output.developmentTeamSections
+  getSummaryTemplate(output).sections.forEach(section => {
+    const title = section.name
+
+    if (!section.builtin) {
+      addSection(title, formatCustomSection(section, output.customSections?.[section.id] || []))
+      return
+    }
+    if (!teamSections) {
+      return
+    }
+
+    switch (section.builtin) {
+      case 'keyDecisionsAndProgress': {
+        const decisions = teamSections.keyDecisionsAndProgress.decisions.map(decision => {
+          const details: string[] = [
+            `Rationale: ${decision.rationale}`,
+            `Impact: ${decision.impact.toUpperCase()}`
+          ]
+          if (decision.owner) details.push(`Owner: ${decision.owner}`)
+          if (decision.deadline) details.push(`Deadline: ${formatDeadline(decision.deadline, decision.resolvedDeadline)}`)
+          return `- ${decision.decision}\n  ${details.join(' | ')}`
+        })
+        const progress = teamSections.keyDecisionsAndProgress.progressUpdates.map(item => `- ✓ ${item}`)
+        addSection(title, [
+          'Decisions Made:',
+          ...decisions,
+          'Progress Updates:',
+          ...progress
+        ])
+        break
+      }
+      case 'actionItemsAndOwnership': {
+        const actionItems = teamSections.actionItemsAndOwnership.map(item => {
+          const details: string[] = [
+            `Owner: ${item.owner}`,
+            `Deadline: ${formatDeadline(item.deadline, item.resolvedDeadline)}`,
+            `Priority: ${item.priority.toUpperCase()}`
+          ]
+          if (item.successCriteria) {
+            details.push(`Success: ${item.successCriteria}`)
+          }
+          return `- ${item.task}\n  ${details.join(' | ')}`
+        })
+        addSection(title, actionItems)
+        break
+      }
+      case 'blockersAndNextSteps': {
+        const blockers = teamSections.blockersAndNextSteps.currentBlockers.map(item => `- ⚠️ ${item}`)
+        const upcoming = teamSections.blockersAndNextSteps.upcomingItems.map(item => `- → ${item}`)
+        addSection(title, [
+          'Current Blockers:',
+          ...blockers,
+          'Upcoming Items:',
+          ...upcoming
+        ])
+        break
+      }
+    }
+  })
+
+  if (output.meetingTypeSections) {
+    formatMeetingTypeSections(output.meetingTypeSections).forEach(section => addSection(section.title, section.entries))
+  }
+
+  addSection('Open Questions', output.openQuestions.map(question => `- ${question}`))
 
+  if (output.meetingQuality) {
+    const quality = output.meetingQuality
+    addSection('Meeting Quality', [
+      `Overall: ${quality.overallScore}/10`,
+      ...QUALITY_AREAS.map(area => `- ${QUALITY_AREA_LABELS[area]}: ${quality.areas[area]}/10`),
+      ...quality.recommendations.map(recommendation => `- → ${recommendation}`),
+    ])
+  }
+
+  if (output.sopChecks && output.sopChecks.length > 0) {
+    addSection('SOP Compliance', output.sopChecks.map(check => {
+      const status = `${check.status.toUpperCase()}${check.status === 'compliant' ? '' : ` (${check.severity})`}`
+      const recommendation = check.recommendation ? `\n  Recommendation: ${check.recommendation}` : ''
+      return `- ${check.category}: ${status}\n  ${check.details}${recommendation}`
+    }))
+  }
+
+  return lines.join('\n').trim()
+}
 
 export default function Home() {
   const [input, setInput] = useState('')
+  const [meetingType, setMeetingType] = useState<MeetingType | 'auto'>('auto')
+  const [meetingDate, setMeetingDate] = useState(todayISODate)
+  const [templates, setTemplates] = useState<ReportTemplate[]>([])
+  const [templateId, setTemplateId] = useState('')
+  const [outputLanguage, setOutputLanguage] = useState<LanguageCode | 'auto'>('auto')
   const [output, setOutput] = useState<SummaryOutput | null>(null)
+  const [reportNotes, setReportNotes] = useState('') // the notes `output` was generated from
+  const [savedMeetingId, setSavedMeetingId] = useState<string | undefined>(undefined)
+  const [highlight, setHighlight] = useState<{ spans: SourceSpan[]; pinned: boolean } | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState('')
-  const [history, setHistory] = useState<Note[]>([])
+  const [errorDetails, setErrorDetails] = useState<SummarizeError | null>(null) // set for summarize failures
+  const [historyVersion, setHistoryVersion] = useState(0) // bumped to reload the History panel
   const [inputError, setInputError] = useState('')
   const [copyStatus, setCopyStatus] = useState<'idle' | 'success' | 'error'>('idle')
+  const [limits, setLimits] = useState<InputLimits>({
+    minInputChars: MIN_INPUT_CHARS,
+    maxInputChars: DEFAULT_MAX_INPUT_CHARS,
+    chunkSize: DEFAULT_CHUNK_SIZE,
+    chunkOverlap: DEFAULT_CHUNK_OVERLAP,
+  })
+  const [progressEvents, setProgressEvents] = useState<SummarizeStreamEvent[]>([])
+  const [roster, setRoster] = useState<RosterMember[]>([])
+  const [conversations, setConversations] = useState<Record<string, ChatTurn[]>>({}) // by meeting id
   const copyFeedbackTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const reportRef = useRef<HTMLDivElement | null>(null)
 
   useEffect(() => {
     return () => {
@@ -32,15 +196,76 @@ export default function Home() {
     }
   }, [])
 
+  // ?scenario=<id> fills the form with a named demo meeting
+  useEffect(() => {
+    const scenarioId = new URLSearchParams(window.location.search).get('scenario')
+    const scenario = scenarioId ? findDemoScenario(scenarioId) : undefined
+    if (scenario) {
+      setInput(scenario.notes)
+      setMeetingType(scenario.meetingType)
+      setMeetingDate(scenario.meetingDate)
+    } else if (scenarioId) {
+      console.warn(`Unknown demo scenario "${scenarioId}"`)
+    }
+  }, [])
+
+  // The character limit is a server setting
+  useEffect(() => {
+    fetch('/api/summarize')
+      .then(response => (response.ok ? response.json() : null))
+      .then((serverLimits: InputLimits | null) => {
+        if (serverLimits) {
+          setLimits(serverLimits)
+        }
+      })
+      .catch(err => console.error('Failed to load input limits', err))
+  }, [])
+
+  // Report templates are configured on the server
+  useEffect(() => {
+    fetch('/api/templates')
+      .then(response => (response.ok ? response.json() : null))
+      .then((result: { data: ReportTemplate[]; defaultTemplateId: string } | null) => {
+        if (result) {
+          setTemplates(result.data)
+          setTemplateId(result.defaultTemplateId)
+        }
+      })
+      .catch(err => console.error('Failed to load report templates', err))
+  }, [])
+
+  // The roster lives in Supabase; without it owners are shown as written
+  useEffect(() => {
+    fetch('/api/roster')
+      .then(response => (response.ok ? response.json() : null))
+      .then((result: { data: RosterMember[] } | null) => {
+        if (result) {
+          setRoster(result.data)
+        }
+      })
+      .catch(err => console.error('Failed to load team roster', err))
+  }, [])
+
+  const updateRoster = (nextRoster: RosterMember[]) => {
+    setRoster(nextRoster)
+    setOutput(current => {
+      if (!current) return current
+      const resolved = resolveOwners(current, nextRoster)
+      return { ...resolved, meetingQuality: scoreMeeting(resolved) }
+    })
+  }
+
+  const { maxInputChars } = limits
+
   const validateInput = (text: string): string => {
     if (!text.trim()) {
       return 'Please enter some meeting notes'
     }
-    if (text.trim().length < 10) {
-      return 'Please enter at least 10 characters of meeting notes'
+    if (text.trim().length < limits.minInputChars) {
+      return `Please enter at least ${limits.minInputChars} characters of meeting notes`
     }
-    if (text.length > 1000) {
-      return 'Meeting notes cannot exceed 1000 characters'
+    if (text.length > maxInputChars) {
+      return `Meeting notes cannot exceed ${maxInputChars.toLocaleString()} characters`
     }
     return ''
   }
@@ -63,8 +288,9 @@ export default function Home() {
     }
   }
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault()
+  // Called without an event when retrying from the error card
+  const handleSubmit = async (e?: React.FormEvent) => {
+    e?.preventDefault()
     
     // Validate input before submitting
     const validationError = validateInput(input)
@@ -75,36 +301,56 @@ export default function Home() {
 
     setLoading(true)
     setError('')
+    setErrorDetails(null)
     setInputError('')
+    setProgressEvents([])
     
     try {
-      // Call the API route instead of the direct function
-      const response = await fetch('/api/summarize', {
+      // Stream real progress from the server; it also saves the result to history
+      const response = await fetch('/api/summarize/stream', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ input }),
+        body: JSON.stringify({ input, meetingType, meetingDate, template: templateId || undefined, outputLanguage, save: true }),
       })
 
       if (!response.ok) {
         const errorData = await response.json()
-        throw new Error(errorData.error || 'Failed to process notes')
+        const message = errorData.error || 'Failed to process notes'
+        throw isErrorCode(errorData.code) ? new SummarizeError(errorData.code, message, errorData.retryAfterSeconds) : new Error(message)
       }
 
-      const result = await response.json()
-      setOutput(result)
-      
-      // Save to history
-      const title = input.slice(0, 50) + (input.length > 50 ? '...' : '')
-      const outputString = JSON.stringify(result)
-      await saveNote(title, input, outputString)
-      
-      // Refresh history
-      const notes = await getNotes()
-      setHistory(notes)
+      let streamError: Error | null = null
+      let saved = false
+      await readSummarizeStream(response, event => {
+        setProgressEvents(events => [...events, event])
+        if (event.type === 'result') {
+          setOutput(event.output)
+          setReportNotes(input)
+          setSavedMeetingId(undefined)
+          setHighlight(null)
+        } else if (event.type === 'error') {
+          streamError = new SummarizeError(event.code, event.error, event.retryAfterSeconds)
+        } else if (event.type === 'save-failed') {
+          streamError = new Error(`Failed to save note: ${event.error}`)
+        } else if (event.type === 'stage' && event.stage === 'saved') {
+          saved = true
+          setSavedMeetingId('meetingId' in event ? event.meetingId : undefined)
+        }
+      })
+
+      if (streamError) {
+        throw streamError
+      }
+
+      if (saved) {
+        // Refresh history (the server keeps the newest meetings only)
+        setHistoryVersion(version => version + 1)
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred while processing your notes')
+      setErrorDetails(err instanceof SummarizeError ? err : null)
     } finally {
       setLoading(false)
     }
@@ -113,81 +359,7 @@ export default function Home() {
   const copyToClipboard = async () => {
     if (!output) return
 
-    const formatSentenceCase = (value: string) =>
-      value
-        .replace(/([A-Z])/g, ' $1')
-        .replace(/\b\w/g, char => char.toUpperCase())
-        .trim()
-
-    const lines: string[] = []
-    lines.push('MEETING INTELLIGENCE REPORT')
-
-    if (output.meetingType) {
-      lines.push(`Meeting Type: ${formatSentenceCase(output.meetingType.replace(/-/g, ' '))}`)
-    }
-
-
-    const addSection = (title: string, entries: string[]) => {
-      lines.push('')
-      lines.push(`${title}:`)
-      if (entries.length > 0) {
-        lines.push(...entries)
-      } else {
-        lines.push('- None')
-      }
-    }
-
-    addSection('SUMMARY POINTS', output.summaryPoints.map(item => `- ${item}`))
-
-    // Add development team sections
-    if (output.developmentTeamSections) {
-      // Key Decisions & Progress
-      const decisions = output.developmentTeamSections.keyDecisionsAndProgress.decisions.map(decision => {
-        const details: string[] = [
-          `Rationale: ${decision.rationale}`,
-          `Impact: ${decision.impact.toUpperCase()}`
-        ]
-        if (decision.owner) details.push(`Owner: ${decision.owner}`)
-        if (decision.deadline) details.push(`Deadline: ${decision.deadline}`)
-        return `- ${decision.decision}\n  ${details.join(' | ')}`
-      })
-      const progress = output.developmentTeamSections.keyDecisionsAndProgress.progressUpdates.map(item => `- ✓ ${item}`)
-      addSection('KEY DECISIONS & PROGRESS', [
-        'Decisions Made:',
-        ...decisions,
-        'Progress Updates:',
-        ...progress
-      ])
-
-      // Action Items with Ownership
-      const actionItems = output.developmentTeamSections.actionItemsAndOwnership.map(item => {
-        const details: string[] = [
-          `Owner: ${item.owner}`,
-          `Deadline: ${item.deadline || 'TBD'}`,
-          `Priority: ${item.priority.toUpperCase()}`
-        ]
-        if (item.successCriteria) {
-          details.push(`Success: ${item.successCriteria}`)
-        }
-        return `- ${item.task}\n  ${details.join(' | ')}`
-      })
-      addSection('ACTION ITEMS WITH OWNERSHIP', actionItems)
-
-      // Blockers & Next Steps
-      const blockers = output.developmentTeamSections.blockersAndNextSteps.currentBlockers.map(item => `- ⚠️ ${item}`)
-      const upcoming = output.developmentTeamSections.blockersAndNextSteps.upcomingItems.map(item => `- → ${item}`)
-      addSection('BLOCKERS & NEXT STEPS', [
-        'Current Blockers:',
-        ...blockers,
-        'Upcoming Items:',
-        ...upcoming
-      ])
-    }
-
-    addSection('OPEN QUESTIONS', output.openQuestions.map(question => `- ${question}`))
-
-
-    const reportText = lines.join('\n').trim()
+    const reportText = formatReport(output, 'text')
 
     try {
       if (!navigator?.clipboard?.writeText) {
@@ -210,12 +382,75 @@ export default function Home() {
     }
   }
 
-  const loadHistory = async () => {
+  // Works the same for fresh results and meetings opened from History
+  const downloadReport = (format: 'markdown' | 'json') => {
+    if (!output) return
+
+    const content = format === 'json' ? JSON.stringify(output, null, 2) : formatReport(output, 'markdown')
+    const blob = new Blob([content], { type: format === 'json' ? 'application/json' : 'text/markdown' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `meeting-report-${output.meetingDate || todayISODate()}.${format === 'json' ? 'json' : 'md'}`
+    link.click()
+    // Revoked after the click has started the download
+    setTimeout(() => URL.revokeObjectURL(url), 0)
+  }
+
+  // Hovering an item previews its supporting text; clicking pins it
+  const sourceProps = (spans?: SourceSpan[]) => {
+    if (!spans || spans.length === 0) {
+      return {}
+    }
+    return {
+      onMouseEnter: () => setHighlight(current => (current?.pinned ? current : { spans, pinned: false })),
+      onMouseLeave: () => setHighlight(current => (current?.pinned ? current : null)),
+      onClick: () => setHighlight(current => (current?.pinned && current.spans === spans ? null : { spans, pinned: true })),
+      title: 'Show where this came from in the notes',
+    }
+  }
+
+  const citedClass = (spans?: SourceSpan[]) =>
+    !spans || spans.length === 0
+      ? ''
+      : highlight?.spans === spans
+        ? 'cursor-pointer ring-2 ring-yellow-300'
+        : 'cursor-pointer hover:ring-2 hover:ring-yellow-200'
+
+  // Sections of a saved report can be regenerated one at a time
+  const regenerateControl = (section: RegenerableSection) =>
+    savedMeetingId && output ? (
+      <RegenerateSection
+        meetingId={savedMeetingId}
+        section={section}
+        onRegenerated={updated => {
+          setOutput(updated)
+          setHighlight(null)
+        }}
+      />
+    ) : null
+
+  // Show a saved meeting in the same report view as a fresh result
+  const openMeeting = async (id: string) => {
     try {
-      const notes = await getNotes()
-      setHistory(notes)
+      const response = await fetch(`/api/meetings/${encodeURIComponent(id)}`)
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to open the meeting')
+      }
+      const meeting = result.data as StoredMeeting
+      setOutput(meeting.output)
+      setReportNotes(meeting.notes)
+      setSavedMeetingId(meeting.id)
+      setHighlight(null)
+      setProgressEvents([])
+      setError('')
+      setErrorDetails(null)
+      // Wait for the report to render before scrolling to it
+      setTimeout(() => reportRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' }), 0)
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load history')
+      setError(err instanceof Error ? err.message : 'Failed to open the meeting')
+      setErrorDetails(null)
     }
   }
 
@@ -227,8 +462,8 @@ export default function Home() {
             <label htmlFor="notes" className="text-sm font-medium text-gray-700">
               Development Team Meeting Notes
             </label>
-            <span className={`text-xs ${inputError ? 'text-red-500' : input.length > 900 ? 'text-amber-600' : 'text-gray-400'}`}>
-              {input.length}/1000
+            <span className={`text-xs ${inputError ? 'text-red-500' : input.length > maxInputChars * 0.9 ? 'text-amber-600' : 'text-gray-400'}`}>
+              {input.length.toLocaleString()}/{maxInputChars.toLocaleString()}
             </span>
           </div>
           <textarea
@@ -236,9 +471,9 @@ export default function Home() {
             value={input}
             onChange={handleInputChange}
             placeholder="Paste your development team meeting notes here..."
-            className={`input-field text-sm leading-5 resize-none ${inputError ? 'border-red-300 focus:ring-red-500 focus:border-red-500' : ''} ${input.length > 900 ? 'border-yellow-300 focus:ring-yellow-500 focus:border-yellow-500' : ''}`}
+            className={`input-field text-sm leading-5 resize-none ${inputError ? 'border-red-300 focus:ring-red-500 focus:border-red-500' : ''} ${input.length > maxInputChars * 0.9 ? 'border-yellow-300 focus:ring-yellow-500 focus:border-yellow-500' : ''}`}
             rows={6}
-            maxLength={1000}
+            maxLength={maxInputChars}
             required
           />
           <div className="mt-2">
@@ -247,18 +482,18 @@ export default function Home() {
                 className={`h-1.5 rounded-full transition-all duration-300 ${
                   inputError 
                     ? 'bg-red-500' 
-                    : input.length > 900 
+                    : input.length > maxInputChars * 0.9 
                       ? 'bg-yellow-500' 
                       : 'bg-blue-500'
                 }`}
-                style={{ width: `${Math.min((input.length / 1000) * 100, 100)}%` }}
+                style={{ width: `${Math.min((input.length / maxInputChars) * 100, 100)}%` }}
               ></div>
             </div>
             
-            {input.length > 800 && input.length <= 900 && (
+            {input.length > maxInputChars * 0.8 && input.length <= maxInputChars * 0.9 && (
               <div className="text-xs text-yellow-600 mt-1">⚠️ Approaching character limit</div>
             )}
-            {input.length > 950 && (
+            {input.length > maxInputChars * 0.95 && (
               <div className="text-xs text-red-600 mt-1">🚨 Very close to character limit</div>
             )}
           </div>
@@ -267,6 +502,78 @@ export default function Home() {
           )}
         </div>
 
+        <div>
+          <label htmlFor="meeting-date" className="text-sm font-medium text-gray-700 block mb-1">
+            Meeting Date
+          </label>
+          <input
+            id="meeting-date"
+            type="date"
+            value={meetingDate}
+            onChange={e => setMeetingDate(e.target.value)}
+            className="input-field text-sm"
+          />
+          <p className="text-xs text-gray-500 mt-1">Relative deadlines like &quot;next Friday&quot; are resolved from this date</p>
+        </div>
+
+        <div>
+          <label htmlFor="meeting-type" className="text-sm font-medium text-gray-700 block mb-1">
+            Meeting Type
+          </label>
+          <select
+            id="meeting-type"
+            value={meetingType}
+            onChange={e => setMeetingType(e.target.value as MeetingType | 'auto')}
+            className="input-field text-sm"
+          >
+            <option value="auto">Auto-detect from notes</option>
+            {MEETING_TYPE_OPTIONS.map(type => (
+              <option key={type} value={type}>
+                {MEETING_TYPES[type].label} — {MEETING_TYPES[type].description}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="output-language" className="text-sm font-medium text-gray-700 block mb-1">
+            Report Language
+          </label>
+          <select
+            id="output-language"
+            value={outputLanguage}
+            onChange={e => setOutputLanguage(e.target.value as LanguageCode | 'auto')}
+            className="input-field text-sm"
+          >
+            <option value="auto">Same as the notes</option>
+            {SUPPORTED_LANGUAGES.map(language => (
+              <option key={language} value={language}>
+                {LANGUAGE_LABELS[language]}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {templates.length > 1 && (
+          <div>
+            <label htmlFor="report-template" className="text-sm font-medium text-gray-700 block mb-1">
+              Report Template
+            </label>
+            <select
+              id="report-template"
+              value={templateId}
+              onChange={e => setTemplateId(e.target.value)}
+              className="input-field text-sm"
+            >
+              {templates.map(template => (
+                <option key={template.id} value={template.id}>
+                  {template.name} — {template.description}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
         <button
           type="submit"
           disabled={loading || !input.trim() || inputError !== ''}
@@ -276,7 +583,7 @@ export default function Home() {
           {loading ? 'Processing...' : 'Analyze Meeting Notes'}
         </button>
         
-        <ProcessingProgress isVisible={loading} />
+        <ProcessingProgress isVisible={loading} events={progressEvents} />
         
         {inputError && (
           <p className="text-sm text-red-600 mt-2">
@@ -285,163 +592,317 @@ export default function Home() {
         )}
       </form>
 
+      <div className="mt-4">
+        <TeamRoster roster={roster} onChange={updateRoster} />
+      </div>
+
       {error && (
-        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mt-4">
-          <p className="text-red-800 font-medium">Error:</p>
-          <p className="text-red-700">{error}</p>
-        </div>
+        <ErrorCard
+          message={error}
+          code={errorDetails?.code}
+          retryAfterSeconds={errorDetails?.retryAfterSeconds}
+          onRetry={loading ? undefined : () => handleSubmit()}
+        />
       )}
 
       {output && (
-        <div className="mt-8">
+        <div className="mt-8" ref={reportRef}>
           <div className="flex justify-between items-center mb-6">
             <div>
-              <h2 className="text-2xl font-bold text-gray-900">📊 Development Team Meeting Report</h2>
+              <h2 className="text-2xl font-bold text-gray-900">📊 {MEETING_TYPES[output.meetingType]?.label || 'Meeting'} Report</h2>
               <p className="text-sm text-gray-600 mt-1">
-                Meeting Type: <span className="font-medium capitalize bg-blue-100 text-blue-800 px-2 py-1 rounded-full text-xs">Development Team Meeting</span>
+                Meeting Type: <span className="font-medium capitalize bg-blue-100 text-blue-800 px-2 py-1 rounded-full text-xs">{MEETING_TYPES[output.meetingType]?.label || output.meetingType}</span>
+                {output.meetingTypeDetection?.source === 'auto' && (
+                  <span className="text-xs text-gray-500 ml-2">
+                    auto-detected ({Math.round(output.meetingTypeDetection.confidence * 100)}% confidence)
+                  </span>
+                )}
               </p>
+              {output.language && (
+                <p className="text-sm text-gray-600 mt-1">
+                  Language: <span className="font-medium bg-gray-100 text-gray-800 px-2 py-1 rounded-full text-xs">{LANGUAGE_LABELS[output.language.output]}</span>
+                  <span className="text-xs text-gray-500 ml-2">
+                    {output.language.source !== output.language.output
+                      ? `translated from ${LANGUAGE_LABELS[output.language.source]} notes`
+                      : output.language.detectionConfidence !== undefined
+                        ? `detected in the notes (${Math.round(output.language.detectionConfidence * 100)}% confidence)`
+                        : 'same as the notes'}
+                  </span>
+                </p>
+              )}
+              {output.cache?.hit && (
+                <p className="text-xs text-gray-500 mt-1">
+                  ⚡ {output.cache.coalesced ? 'Shared with an identical request that was already running' : 'Served from cache'}
+                  {output.cache.cachedAt && ` (generated ${new Date(output.cache.cachedAt).toLocaleString()})`}
+                </p>
+              )}
+              {output.generation?.parsePath === 're-prompted' && (
+                <p className="text-xs text-gray-500 mt-1">
+                  The first model response was malformed and was corrected automatically.
+                </p>
+              )}
+              {output.generation?.parsePath === 'legacy-text' && (
+                <p className="text-xs text-orange-700 mt-1">
+                  ⚠️ The model did not return a valid structured summary, so this report was recovered from plain text. Review it carefully.
+                </p>
+              )}
+              {output.usage && (
+                <p className="text-xs text-gray-500 mt-1">
+                  {output.usage.model}: {(output.usage.inputTokens + output.usage.outputTokens).toLocaleString()} tokens
+                  {output.usage.partial && ' (some calls not counted)'}
+                  {output.usage.estimatedCostUsd !== null && ` · ~$${output.usage.estimatedCostUsd.toFixed(4)}`}
+                  {` · ${(output.usage.latencyMs / 1000).toFixed(1)}s`}
+                  {output.cache?.hit && ' when first generated'}
+                </p>
+              )}
+              {output.storage?.upgraded && (
+                <p className="text-xs text-orange-700 mt-1">
+                  ⚠️ Saved by an older version that only kept the summary points, action items, open questions, SOP checks and quality score. Other sections are empty.
+                </p>
+              )}
+              {output.revision && (
+                <p className="text-xs text-gray-500 mt-1">
+                  ↻ Revision {output.revision.number}: {REGENERABLE_SECTION_LABELS[output.revision.section]} regenerated
+                  {output.revision.guidance && ` (“${output.revision.guidance}”)`}
+                  {` · ${new Date(output.revision.createdAt).toLocaleString()}`}
+                </p>
+              )}
+              {output.budget && (
+                <p className="text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded px-2 py-1 mt-2">
+                  💰 {output.budget.message}
+                </p>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={copyToClipboard}
+                className="btn-secondary flex items-center gap-2"
+                type="button"
+              >
+                <span>{copyStatus === 'success' ? '✅' : copyStatus === 'error' ? '⚠️' : '📋'}</span>
+                <span className="sr-only">Copy status</span>
+                <span aria-hidden="true">
+                  {copyStatus === 'success'
+                    ? 'Copied!'
+                    : copyStatus === 'error'
+                      ? 'Copy Failed'
+                      : 'Copy Full Report'}
+                </span>
+              </button>
+              <button
+                onClick={() => downloadReport('markdown')}
+                className="btn-secondary flex items-center gap-2"
+                type="button"
+                title="Download the report as a Markdown file"
+              >
+                <span>⬇️</span>
+                <span>Markdown</span>
+              </button>
+              <button
+                onClick={() => downloadReport('json')}
+                className="btn-secondary flex items-center gap-2"
+                type="button"
+                title="Download the full report data as JSON"
+              >
+                <span>⬇️</span>
+                <span>JSON</span>
+              </button>
             </div>
-            <button
-              onClick={copyToClipboard}
-              className="btn-secondary flex items-center gap-2"
-              type="button"
-            >
-              <span>{copyStatus === 'success' ? '✅' : copyStatus === 'error' ? '⚠️' : '📋'}</span>
-              <span className="sr-only">Copy status</span>
-              <span aria-hidden="true">
-                {copyStatus === 'success'
-                  ? 'Copied!'
-                  : copyStatus === 'error'
-                    ? 'Copy Failed'
-                    : 'Copy Full Report'}
-              </span>
-            </button>
           </div>
 
+          <UnknownOwners
+            names={output.unknownOwners || []}
+            roster={roster}
+            onRosterChange={member =>
+              updateRoster(
+                roster.some(existing => existing.id === member.id)
+                  ? roster.map(existing => (existing.id === member.id ? member : existing))
+                  : [...roster, member]
+              )
+            }
+          />
+
+          {reportNotes && (
+            <SourceNotes
+              notes={reportNotes}
+              spans={highlight?.spans || []}
+              pinned={Boolean(highlight?.pinned)}
+              onClear={() => setHighlight(null)}
+            />
+          )}
+
           <div className="grid gap-6 xl:grid-cols-3">
-            {/* Key Decisions & Progress */}
-            {output.developmentTeamSections && (
-              <section className="bg-blue-50 border border-blue-200 rounded-lg p-6">
-                <h3 className="font-semibold text-blue-900 mb-4 flex items-center gap-2 text-lg">
-                  💡 Key Decisions & Progress
-                </h3>
-                <div className="space-y-4">
-                  <div>
-                    <h4 className="font-medium text-blue-800 mb-2">Decisions Made</h4>
-                    <div className="flex flex-col gap-3">
-                      {output.developmentTeamSections.keyDecisionsAndProgress.decisions.map((decision, index) => (
-                        <div key={index} className="bg-white rounded-lg p-4 border border-blue-100">
-                          <div className="flex items-start justify-between gap-2 mb-2">
-                            <h4 className="font-medium text-gray-900 leading-snug">{decision.decision}</h4>
-                            <span className={`px-2 py-1 rounded-full text-xs font-semibold ${
-                              decision.impact === 'high' ? 'bg-red-100 text-red-800' :
-                              decision.impact === 'medium' ? 'bg-yellow-100 text-yellow-800' :
-                              'bg-green-100 text-green-800'
-                            }`}>
-                              {decision.impact.toUpperCase()}
-                            </span>
+            {/* Sections in the order the report template lists them */}
+            {getSummaryTemplate(output).sections.map(section => {
+              switch (section.builtin) {
+                case 'keyDecisionsAndProgress':
+                  return output.developmentTeamSections && (
+                    <section key={section.id} className="bg-blue-50 border border-blue-200 rounded-lg p-6">
+                      <div className="flex items-start justify-between gap-2 mb-4">
+                        <h3 className="font-semibold text-blue-900 flex items-center gap-2 text-lg">
+                          {section.render?.icon || '💡'} {section.name}
+                        </h3>
+                        {regenerateControl('keyDecisionsAndProgress')}
+                      </div>
+                      <div className="space-y-4">
+                        <div>
+                          <h4 className="font-medium text-blue-800 mb-2">Decisions Made</h4>
+                          <div className="flex flex-col gap-3">
+                            {output.developmentTeamSections.keyDecisionsAndProgress.decisions.map((decision, index) => (
+                              <div
+                                key={index}
+                                className={`bg-white rounded-lg p-4 border border-blue-100 ${citedClass(decision.sources)}`}
+                                {...sourceProps(decision.sources)}
+                              >
+                                <div className="flex items-start justify-between gap-2 mb-2">
+                                  <h4 className="font-medium text-gray-900 leading-snug">{decision.decision}</h4>
+                                  <span className={`px-2 py-1 rounded-full text-xs font-semibold ${
+                                    decision.impact === 'high' ? 'bg-red-100 text-red-800' :
+                                    decision.impact === 'medium' ? 'bg-yellow-100 text-yellow-800' :
+                                    'bg-green-100 text-green-800'
+                                  }`}>
+                                    {decision.impact.toUpperCase()}
+                                  </span>
+                                </div>
+                                <p className="text-sm text-gray-700 mb-2"><strong>Rationale:</strong> {decision.rationale}</p>
+                                {decision.owner && (
+                                  <p className="text-xs text-blue-600"><strong>Owner:</strong> {decision.owner}</p>
+                                )}
+                                {decision.deadline && (
+                                  <p className="text-xs text-blue-600">
+                                    <strong>Deadline:</strong>{' '}
+                                    <ResolvedDeadline deadline={decision.deadline} resolved={decision.resolvedDeadline} />
+                                  </p>
+                                )}
+                              </div>
+                            ))}
                           </div>
-                          <p className="text-sm text-gray-700 mb-2"><strong>Rationale:</strong> {decision.rationale}</p>
-                          {decision.owner && (
-                            <p className="text-xs text-blue-600"><strong>Owner:</strong> {decision.owner}</p>
-                          )}
-                          {decision.deadline && (
-                            <p className="text-xs text-blue-600"><strong>Deadline:</strong> {decision.deadline}</p>
-                          )}
                         </div>
-                      ))}
-                    </div>
-                  </div>
-                  <div>
-                    <h4 className="font-medium text-blue-800 mb-2">Progress Updates</h4>
-                    <ul className="space-y-1">
-                      {output.developmentTeamSections.keyDecisionsAndProgress.progressUpdates.map((item, index) => (
-                        <li key={index} className="text-blue-700 flex items-start gap-2 text-sm">
-                          <span className="text-blue-600 mt-1">✓</span>
-                          <span>{item}</span>
-                        </li>
-                      ))}
-                    </ul>
-                  </div>
-                </div>
-              </section>
-            )}
-
-            {/* Action Items with Ownership */}
-            {output.developmentTeamSections && (
-              <section className="bg-green-50 border border-green-200 rounded-lg p-6">
-                <h3 className="font-semibold text-green-900 mb-4 flex items-center gap-2 text-lg">
-                  ✅ Action Items with Ownership
-                </h3>
-                <div className="flex flex-col gap-3">
-                  {output.developmentTeamSections.actionItemsAndOwnership.map((item, index) => (
-                    <div key={index} className="bg-white rounded-lg p-4 border border-green-100">
-                      <div className="flex items-start justify-between gap-2 mb-2">
-                        <h4 className="font-medium text-gray-900 leading-snug">{item.task}</h4>
-                        {item.priority && (
-                          <span className={`px-2 py-1 rounded-full text-xs font-semibold ${
-                            item.priority === 'high' ? 'bg-red-100 text-red-800' :
-                            item.priority === 'medium' ? 'bg-yellow-100 text-yellow-800' :
-                            'bg-green-100 text-green-800'
-                          }`}>
-                            {item.priority.toUpperCase()}
-                          </span>
-                        )}
+                        <div>
+                          <h4 className="font-medium text-blue-800 mb-2">Progress Updates</h4>
+                          <ul className="space-y-1">
+                            {output.developmentTeamSections.keyDecisionsAndProgress.progressUpdates.map((item, index) => (
+                              <li
+                                key={index}
+                                className={`text-blue-700 flex items-start gap-2 text-sm rounded ${citedClass(output.citations?.progressUpdates[index])}`}
+                                {...sourceProps(output.citations?.progressUpdates[index])}
+                              >
+                                <span className="text-blue-600 mt-1">✓</span>
+                                <span>{item}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
                       </div>
-                      <div className="grid grid-cols-1 gap-2 text-xs text-gray-600">
-                        <span><strong>Owner:</strong> {item.owner}</span>
-                        <span><strong>Deadline:</strong> {item.deadline || 'TBD'}</span>
-                        {item.successCriteria && (
-                          <span><strong>Success:</strong> {item.successCriteria}</span>
-                        )}
+                    </section>
+                  )
+                case 'actionItemsAndOwnership':
+                  return output.developmentTeamSections && (
+                    <section key={section.id} className="bg-green-50 border border-green-200 rounded-lg p-6">
+                      <div className="flex items-start justify-between gap-2 mb-4">
+                        <h3 className="font-semibold text-green-900 flex items-center gap-2 text-lg">
+                          {section.render?.icon || '✅'} {section.name}
+                        </h3>
+                        {regenerateControl('actionItemsAndOwnership')}
                       </div>
-                    </div>
-                  ))}
-                </div>
-              </section>
-            )}
-
-            {/* Blockers & Next Steps */}
-            {output.developmentTeamSections && (
-              <section className="bg-orange-50 border border-orange-200 rounded-lg p-6">
-                <h3 className="font-semibold text-orange-900 mb-4 flex items-center gap-2 text-lg">
-                  🚧 Blockers & Next Steps
-                </h3>
-                <div className="space-y-4">
-                  <div>
-                    <h4 className="font-medium text-orange-800 mb-2">Current Blockers</h4>
-                    <ul className="space-y-1">
-                      {output.developmentTeamSections.blockersAndNextSteps.currentBlockers.map((item, index) => (
-                        <li key={index} className="text-orange-700 flex items-start gap-2 text-sm">
-                          <span className="text-orange-600 mt-1">⚠️</span>
-                          <span>{item}</span>
-                        </li>
-                      ))}
-                    </ul>
-                  </div>
-                  <div>
-                    <h4 className="font-medium text-orange-800 mb-2">Upcoming Items</h4>
-                    <ul className="space-y-1">
-                      {output.developmentTeamSections.blockersAndNextSteps.upcomingItems.map((item, index) => (
-                        <li key={index} className="text-orange-700 flex items-start gap-2 text-sm">
-                          <span className="text-orange-600 mt-1">→</span>
-                          <span>{item}</span>
-                        </li>
-                      ))}
-                    </ul>
-                  </div>
-                </div>
-              </section>
+                      <div className="flex flex-col gap-3">
+                        {output.developmentTeamSections.actionItemsAndOwnership.map((item, index) => (
+                          <div
+                            key={index}
+                            className={`bg-white rounded-lg p-4 border border-green-100 ${citedClass(item.sources)}`}
+                            {...sourceProps(item.sources)}
+                          >
+                            <div className="flex items-start justify-between gap-2 mb-2">
+                              <h4 className="font-medium text-gray-900 leading-snug">{item.task}</h4>
+                              {item.priority && (
+                                <span className={`px-2 py-1 rounded-full text-xs font-semibold ${
+                                  item.priority === 'high' ? 'bg-red-100 text-red-800' :
+                                  item.priority === 'medium' ? 'bg-yellow-100 text-yellow-800' :
+                                  'bg-green-100 text-green-800'
+                                }`}>
+                                  {item.priority.toUpperCase()}
+                                </span>
+                              )}
+                            </div>
+                            <div className="grid grid-cols-1 gap-2 text-xs text-gray-600">
+                              <span><strong>Owner:</strong> {item.owner}</span>
+                              <span>
+                                <strong>Deadline:</strong>{' '}
+                                <ResolvedDeadline deadline={item.deadline} resolved={item.resolvedDeadline} />
+                              </span>
+                              {item.successCriteria && (
+                                <span><strong>Success:</strong> {item.successCriteria}</span>
+                              )}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </section>
+                  )
+                case 'blockersAndNextSteps':
+                  return output.developmentTeamSections && (
+                    <section key={section.id} className="bg-orange-50 border border-orange-200 rounded-lg p-6">
+                      <div className="flex items-start justify-between gap-2 mb-4">
+                        <h3 className="font-semibold text-orange-900 flex items-center gap-2 text-lg">
+                          {section.render?.icon || '🚧'} {section.name}
+                        </h3>
+                        {regenerateControl('blockersAndNextSteps')}
+                      </div>
+                      <div className="space-y-4">
+                        <div>
+                          <h4 className="font-medium text-orange-800 mb-2">Current Blockers</h4>
+                          <ul className="space-y-1">
+                            {output.developmentTeamSections.blockersAndNextSteps.currentBlockers.map((item, index) => (
+                              <li
+                                key={index}
+                                className={`text-orange-700 flex items-start gap-2 text-sm rounded ${citedClass(output.citations?.currentBlockers[index])}`}
+                                {...sourceProps(output.citations?.currentBlockers[index])}
+                              >
+                                <span className="text-orange-600 mt-1">⚠️</span>
+                                <span>{item}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                        <div>
+                          <h4 className="font-medium text-orange-800 mb-2">Upcoming Items</h4>
+                          <ul className="space-y-1">
+                            {output.developmentTeamSections.blockersAndNextSteps.upcomingItems.map((item, index) => (
+                              <li key={index} className="text-orange-700 flex items-start gap-2 text-sm">
+                                <span className="text-orange-600 mt-1">→</span>
+                                <span>{item}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      </div>
+                    </section>
+                  )
+                default:
+                  return <CustomSection key={section.id} section={section} items={output.customSections?.[section.id] || []} />
+              }
+            })}
+
+            {/* Meeting-type specific sections */}
+            {output.meetingTypeSections && (
+              <MeetingTypeSections sections={output.meetingTypeSections} />
             )}
 
             {/* Open Questions - Always shown */}
             <section className="bg-gray-50 border border-gray-200 rounded-lg p-6 xl:col-span-3">
-              <h3 className="font-semibold text-gray-900 mb-4 flex items-center gap-2 text-lg">
-                ❓ Open Questions
-              </h3>
+              <div className="flex items-start justify-between gap-2 mb-4">
+                <h3 className="font-semibold text-gray-900 flex items-center gap-2 text-lg">
+                  ❓ Open Questions
+                </h3>
+                {regenerateControl('openQuestions')}
+              </div>
               <ul className="flex flex-col gap-2">
                 {output.openQuestions.map((question, index) => (
-                  <li key={index} className="text-gray-700 flex items-start gap-2">
+                  <li
+                    key={index}
+                    className={`text-gray-700 flex items-start gap-2 rounded ${citedClass(output.citations?.openQuestions[index])}`}
+                    {...sourceProps(output.citations?.openQuestions[index])}
+                  >
                     <span className="text-gray-500 mt-1">•</span>
                     <span>{question}</span>
                   </li>
@@ -449,37 +910,35 @@ export default function Home() {
               </ul>
             </section>
 
+            {output.meetingQuality && (
+              <QualityPanel quality={output.meetingQuality} meetingType={output.meetingType} meetingId={savedMeetingId} />
+            )}
+
+            {output.sopChecks && <CompliancePanel checks={output.sopChecks} />}
+
+            {output.redaction && <RedactionPanel report={output.redaction} />}
+
+            {savedMeetingId && (
+              <MeetingChat
+                meetingId={savedMeetingId}
+                turns={conversations[savedMeetingId] || []}
+                onChange={turns => setConversations(current => ({ ...current, [savedMeetingId]: turns }))}
+                onShowQuote={spans => setHighlight({ spans, pinned: true })}
+              />
+            )}
           </div>
         </div>
       )}
 
-      <div className="mt-12">
-        <div className="flex justify-between items-center mb-4">
-          <h2 className="text-xl font-semibold text-gray-900">History</h2>
-          <button
-            onClick={loadHistory}
-            className="btn-secondary"
-          >
-            Load History
-          </button>
-        </div>
-
-        {history.length === 0 ? (
-          <p className="text-gray-500 italic">No notes in history yet</p>
-        ) : (
-          <div className="space-y-3">
-            {history.map((note) => (
-              <div key={note.id} className="bg-white p-4 rounded-lg border border-gray-200">
-                <h3 className="font-medium text-gray-900 mb-1">{note.title}</h3>
-                <p className="text-sm text-gray-600 mb-2">{note.input}</p>
-                <p className="text-xs text-gray-500">
-                  {new Date(note.created_at).toLocaleDateString()}
-                </p>
-              </div>
-            ))}
-          </div>
-        )}
-      </div>
+      <MeetingHistory
+        refreshKey={historyVersion}
+        openMeetingId={savedMeetingId}
+        onOpen={openMeeting}
+        onDeleted={id => {
+          // The report stays on screen, but it is no longer saved
+          if (id === savedMeetingId) setSavedMeetingId(undefined)
+        }}
+      />
     </main>
   )
 }
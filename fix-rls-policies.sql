@@ -10,7 +10,7 @@ SELECT
 FROM pg_tables 
 WHERE tablename IN ('meetings', 'meeting_outputs');
 
--- Drop existing policies if they exist (to avoid conflicts)
+-- Drop the old allow-all policies if they exist
 DROP POLICY IF EXISTS "Allow all operations on meetings" ON meetings;
 DROP POLICY IF EXISTS "Allow all operations on meeting_outputs" ON meeting_outputs;
 
@@ -18,15 +18,11 @@ DROP POLICY IF EXISTS "Allow all operations on meeting_outputs" ON meeting_outpu
 ALTER TABLE meetings ENABLE ROW LEVEL SECURITY;
 ALTER TABLE meeting_outputs ENABLE ROW LEVEL SECURITY;
 
--- Create permissive policies for demo/development
--- These allow all operations for any user (suitable for demo purposes)
-CREATE POLICY "Allow all operations on meetings" ON meetings
-  FOR ALL USING (true) WITH CHECK (true);
+-- No new policies: the app reads and writes meetings on the server with
+-- the service role key, which bypasses RLS, so the public anon key needs
+-- (and gets) no access
 
-CREATE POLICY "Allow all operations on meeting_outputs" ON meeting_outputs
-  FOR ALL USING (true) WITH CHECK (true);
-
--- Verify the policies were created
+-- Verify no policies are left
 SELECT 
     schemaname,
     tablename,
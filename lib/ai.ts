@@ -1,5 +1,11 @@
-// Single general meeting type for all development teams
-export type MeetingType = 'development-team-meeting'
+// General development team meeting plus the specialised formats we run
+export type MeetingType =
+  | 'development-team-meeting'
+  | 'standup'
+  | 'sprint-planning'
+  | 'retrospective'
+  | 'incident-postmortem'
+  | 'one-on-one'
 
 // Core elements for general development team meetings
 export interface CoreElements {
@@ -21,15 +27,181 @@ export interface DevelopmentTeamSections {
   }
 }
 
+// Sections that only apply to one meeting type, tagged by `kind`
+export type MeetingTypeSections =
+  | { kind: 'standup'; updates: StandupUpdate[] }
+  | {
+      kind: 'sprint-planning'
+      sprintGoal: string
+      committedScope: string[]
+      capacity: string
+      deferredItems: string[]
+    }
+  | { kind: 'retrospective'; wentWell: string[]; toImprove: string[]; experiments: string[] }
+  | {
+      kind: 'incident-postmortem'
+      timeline: TimelineEvent[]
+      impact: string
+      rootCause: string
+      remediation: string[]
+    }
+  | { kind: 'one-on-one'; topics: string[]; feedback: string[]; growthGoals: string[] }
+
+export interface StandupUpdate {
+  person: string
+  yesterday: string[]
+  today: string[]
+  blockers: string[]
+}
+
+export interface TimelineEvent {
+  time: string
+  event: string
+}
+
+export interface MeetingTypeDetection {
+  detectedType: MeetingType
+  confidence: number // 0-1
+  source: 'auto' | 'user' // whether meetingType was auto-detected or picked in the form
+}
+
+// How the model response became a SummaryOutput: valid on the first try,
+// valid after one corrective re-prompt, or recovered by the legacy text parser
+export type ParsePath = 'structured' | 're-prompted' | 'legacy-text'
+
+// Which provider and model produced a summary
+export interface GenerationInfo {
+  provider: ProviderId | 'demo'
+  model: string
+  promptVersion?: number // PROMPT_VERSION when the summary was generated
+  parsePath?: ParsePath // least reliable path across all chunks
+  validationIssues?: ValidationIssue[] // why the first response was rejected
+}
+
+// The notes' detected language and the language the report is written in
+export interface LanguageInfo {
+  source: LanguageCode
+  output: LanguageCode
+  detectionConfidence?: number // 0-1
+  requested?: boolean // whether the output language was picked rather than following the notes
+}
+
 export interface SummaryOutput extends CoreElements {
   meetingType: MeetingType
+  meetingTypeDetection?: MeetingTypeDetection
   developmentTeamSections: DevelopmentTeamSections
+  meetingTypeSections?: MeetingTypeSections
   // Optional additional elements
   riskAssessment?: RiskItem[]
   followUpReminders?: FollowUpReminder[]
   meetingQuality?: MeetingQualityMetrics
+  citations?: SourceCitations
+  meetingDate?: string // YYYY-MM-DD that relative deadlines were resolved against
+  unknownOwners?: string[] // owner names not found in the team roster
+  sopChecks?: SOPCheck[] // results of the team's SOP checklist
+  customSections?: CustomSections // sections defined by the report template
+  template?: ReportTemplate // the template the report was generated with
+  language?: LanguageInfo
+  redaction?: RedactionReport // what was hidden from the provider; absent in demo mode
+  generation?: GenerationInfo
+  usage?: UsageInfo // absent in demo mode
+  budget?: BudgetNotice // set when a budget cap changed how the summary was made
+  cache?: CacheInfo
+  revision?: RevisionInfo // absent for the report as first generated
+  storage?: StorageInfo // set when the report was loaded from a saved meeting
+}
+
+// A saved report after one of its sections was regenerated
+export interface RevisionInfo {
+  number: number // 1 is the original report
+  section: RegenerableSection
+  guidance?: string
+  createdAt: string // ISO timestamp
+}
+
+// Tokens, time and estimated cost of the provider calls behind a summary
+export interface UsageInfo {
+  provider: ProviderId
+  model: string
+  calls: number
+  inputTokens: number
+  outputTokens: number
+  latencyMs: number // total time spent waiting on the provider
+  estimatedCostUsd: number | null // null when the model has no price (see lib/usage)
+  partial?: boolean // some calls didn't report token counts
+}
+
+export interface BudgetNotice {
+  period: BudgetPeriod
+  capUsd: number
+  downgradedFrom: string // the model that would have been used
+  message: string
+}
+
+// Whether a summary came from the summary cache rather than a new provider call
+export interface CacheInfo {
+  hit: boolean
+  coalesced?: boolean // shared the result of an identical request that was already running
+  cachedAt?: string // ISO timestamp the cached summary was generated
+  key: string
+}
+
+export type RedactionCategory = 'person' | 'email' | 'phone' | 'secret' | 'card' | 'ip'
+
+// One distinct value that was replaced before the notes were sent
+export interface RedactedEntity {
+  placeholder: string // e.g. "[EMAIL_2]"
+  category: RedactionCategory
+  preview: string // the value, or a masked prefix for secrets
+}
+
+export interface RedactionReport {
+  categories: RedactionCategory[] // detectors that ran
+  entities: RedactedEntity[]
+}
+
+// Items of a template-defined section: plain strings, or field key → value
+export type CustomSectionItem = string | Record<string, string>
+export type CustomSections = Record<string, CustomSectionItem[]>
+
+// A person on the team roster; owners are resolved against these
+export interface RosterMember {
+  id: string
+  name: string // canonical display name
+  aliases: string[] // nicknames and initials, e.g. "Sam", "SJ"
+  handles: string[] // chat handles, with or without the @
+  emails: string[]
+}
+
+// One person named in an owner field and the roster member it resolved to
+export interface OwnerMatch {
+  original: string // as written in the notes or by the model
+  memberId: string | null // null when the roster has no match
+  name: string // canonical name, or the original when unmatched
 }
 
+// A deadline phrase resolved against the meeting date. Ranges ("next week",
+// "Q2") have a later `end`; single days have start === end.
+export interface ResolvedDate {
+  original: string // the phrase as written
+  start: string | null // YYYY-MM-DD
+  end: string | null
+  confidence: number // 0-1
+  status: 'resolved' | 'unspecified' | 'unparseable'
+}
+
+// Character offsets into the original notes: input.slice(start, end)
+export interface SourceSpan {
+  start: number
+  end: number
+}
+
+// Sections kept as plain strings; their spans are stored alongside them
+export type CitedList = 'progressUpdates' | 'currentBlockers' | 'openQuestions'
+
+// One list of spans per item, in the same order as the section's items
+export type SourceCitations = Record<CitedList, SourceSpan[][]>
+
 export interface ActionItem {
   task: string
   owner: string
@@ -37,6 +209,9 @@ export interface ActionItem {
   priority: 'high' | 'medium' | 'low'
   dependencies?: string[]
   successCriteria?: string
+  sources?: SourceSpan[] // where the notes support this item
+  resolvedDeadline?: ResolvedDate
+  ownerMatches?: OwnerMatch[]
 }
 
 export interface Decision {
@@ -45,14 +220,20 @@ export interface Decision {
   impact: 'high' | 'medium' | 'low'
   owner?: string
   deadline?: string
+  sources?: SourceSpan[]
+  resolvedDeadline?: ResolvedDate
+  ownerMatches?: OwnerMatch[]
 }
 
 export interface SOPCheck {
+  id?: string // checklist item id (see lib/sop)
   category: string
+  description?: string // what the checklist item requires
   status: 'compliant' | 'partial' | 'missing'
   details: string
   recommendation?: string
   severity: 'critical' | 'important' | 'minor'
+  evaluatedBy?: 'rule' | 'model'
 }
 
 export interface RiskItem {
@@ -61,6 +242,7 @@ export interface RiskItem {
   probability: 'high' | 'medium' | 'low'
   mitigation: string
   owner?: string
+  ownerMatches?: OwnerMatch[]
 }
 
 export interface FollowUpReminder {
@@ -68,65 +250,703 @@ export interface FollowUpReminder {
   dueDate: string
   owner: string
   type: 'follow-up' | 'escalation' | 'review' | 'decision'
+  resolvedDueDate?: ResolvedDate
+  ownerMatches?: OwnerMatch[]
+}
+
+export type QualityArea = 'preparation' | 'participation' | 'decisionMaking' | 'actionClarity' | 'followThrough'
+
+// One measured signal behind an area score, e.g. the share of action items
+// that have an owner
+export interface QualityFactor {
+  id: string
+  area: QualityArea
+  label: string
+  ratio: number // 0-1
+  weight: number // relative weight within its area
+  detail: string // e.g. "3 of 4 action items"
 }
 
 export interface MeetingQualityMetrics {
-  overallScore: number // 1-10
-  areas: {
-    preparation: number
-    participation: number
-    decisionMaking: number
-    actionClarity: number
-    followThrough: number
-  }
+  overallScore: number // 0-10
+  areas: Record<QualityArea, number> // 0-10 each
   recommendations: string[]
+  factors?: QualityFactor[] // what each area score was computed from (see lib/quality)
+  scoringVersion?: number // scores are only comparable within one version
 }
 
 import { jsonrepair } from 'jsonrepair'
-
-const ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY
-const CLAUDE_MODEL = process.env.CLAUDE_SUMMARY_MODEL || 'claude-3-haiku-20240307'
+import { CompletionRequest, getProvider, LLMProvider, ProviderError, ProviderId, resolveProvider, withSignal } from './providers'
+import { mergeSummaries, splitIntoChunks, TextChunk } from './chunking'
+import { BudgetPeriod, getInputLimits, getRedactionCategories } from './config'
+import { SummarizeError } from './errors'
+import {
+  buildHeuristicTypeSections,
+  detectMeetingType,
+  MEETING_TYPES,
+  normalizeMeetingTypeSections,
+} from './meetingTypes'
+import { attachCitations, CITED_LISTS, getCitedList, locateQuotes, remapCitations } from './citations'
+import { extractDeadlinePhrase, resolveDeadlines, todayISODate } from './dates'
+import { extractOwnerName, formatRosterForPrompt, resolveOwners } from './roster'
+import { evaluateSOPs, getSOPChecklistOrEmpty, SOPChecklistItem } from './sop'
+import { QUALITY_SCORING_VERSION, scoreMeeting } from './quality'
+import { CachedSummary, coalesce, getSummaryCache, hashValue, normalizeNotes } from './summaryCache'
+import { getDefaultReportTemplate } from './templateRegistry'
+import { createRedactor, Redactor } from './redaction'
+import { detectLanguage, HEURISTIC_RULES, LANGUAGE_LABELS, LanguageCode } from './language'
+import { extractActionItems, extractKeyPoints, generateProbingQuestions } from './heuristics'
+import { generateDemoOutput } from './demo'
+import { applyBudget, createUsageMeter, recordUsage } from './usage'
+import { REGENERABLE_SECTION_LABELS, RegenerableSection, SECTION_CITED_LISTS } from './reportSections'
+import type { StorageInfo } from './storedOutput'
+import {
+  buildCustomSectionSchema,
+  buildSectionGuidance,
+  normalizeCustomSections,
+  ReportTemplate,
+} from './templates'
+import {
+  formatValidationIssues,
+  Quoted,
+  validateSectionUpdate,
+  validateSummary,
+  ValidatedSectionUpdate,
+  ValidatedSummary,
+  ValidationIssue,
+  ValidationResult,
+} from './validation'
 
 const DEMO_MODE_FLAG =
   process.env.NEXT_PUBLIC_DEMO_MODE === 'true' ||
   process.env.DEMO_MODE === 'true'
 
-export async function summarizeNotes(input: string): Promise<SummaryOutput> {
-  const meetingType: MeetingType = 'development-team-meeting'
+// Real processing stages reported while a summary is generated. The routes
+// report "validated" and "saved"; summarizeNotes reports the rest.
+export type SummarizeStage = 'validated' | 'request-sent' | 'streaming' | 'parsing' | 'checking-sops' | 'saved'
+
+// Sections that have parsed so far out of a partially streamed response
+export type PartialSummary = Partial<
+  Pick<SummaryOutput, 'summaryPoints' | 'actionItems' | 'openQuestions' | 'developmentTeamSections'>
+>
+
+export type SummarizeProgressEvent =
+  | { type: 'stage'; stage: SummarizeStage; chunkIndex?: number }
+  | { type: 'chunk'; index: number; total: number }
+  | { type: 'tokens'; chunkIndex: number; characters: number }
+  | { type: 'partial'; chunkIndex: number; output: PartialSummary }
+
+export interface SummarizeOptions {
+  meetingType?: MeetingType // overrides auto-detection
+  provider?: ProviderId // overrides LLM_PROVIDER
+  model?: string // overrides LLM_MODEL and the provider default
+  meetingDate?: string // YYYY-MM-DD that relative deadlines are resolved against; defaults to today
+  roster?: RosterMember[] // team members that owners are resolved to
+  sopChecklist?: SOPChecklistItem[] // defaults to the deployment's checklist (SOP_CHECKLIST_FILE)
+  template?: ReportTemplate // defaults to REPORT_TEMPLATE
+  outputLanguage?: LanguageCode // defaults to the language the notes are written in
+  // When set, responses are streamed from the provider and reported here
+  onProgress?: (event: SummarizeProgressEvent) => void
+  signal?: AbortSignal // aborts the provider calls, e.g. when the client disconnects
+}
+
+// Bump whenever prompts or post-processing change, so cached summaries
+// generated the old way are not reused
+export const PROMPT_VERSION = 1
 
-  if (shouldUseDemoMode()) {
-    return await generateDemoOutput(input)
+// Summaries are cached by a hash of the normalized notes and everything else
+// that shapes them. Demo output is never cached. Budget caps are checked
+// first: a downgraded model is part of the cache key, and a refused request
+// can still be answered from the cache.
+export async function summarizeNotes(input: string, options: SummarizeOptions = {}): Promise<SummaryOutput> {
+  const requested = resolveProvider({ provider: options.provider, model: options.model })
+  const provider = requested.provider
+  const demo = shouldUseDemoMode(provider)
+  const budget = demo ? { model: requested.model } : await applyBudget(provider, requested.model)
+  const model = budget.model
+  const resolved: SummarizeOptions = {
+    ...options,
+    meetingDate: options.meetingDate || todayISODate(),
+    template: options.template || getDefaultReportTemplate(),
+    sopChecklist: options.sopChecklist || getSOPChecklistOrEmpty(),
+  }
+  const generate = async () => {
+    if (budget.refusal) {
+      throw budget.refusal
+    }
+    return generateSummary(input, resolved, provider, model, demo)
+  }
+  // Not cached: the notice only applies to the request that was downgraded
+  const withNotice = (output: SummaryOutput): SummaryOutput => (budget.notice ? { ...output, budget: budget.notice } : output)
+  const cache = getSummaryCache()
+  if (!cache || demo) {
+    return withNotice(await generate())
+  }
+
+  const key = hashValue({
+    promptVersion: PROMPT_VERSION,
+    scoringVersion: QUALITY_SCORING_VERSION,
+    input: normalizeNotes(input),
+    provider: provider.id,
+    model,
+    meetingType: resolved.meetingType || null,
+    meetingDate: resolved.meetingDate,
+    outputLanguage: resolved.outputLanguage || null,
+    template: resolved.template,
+    roster: resolved.roster || [],
+    sopChecklist: resolved.sopChecklist,
+    redaction: getRedactionCategories(),
+  })
+  const cached = await cache.get(key)
+  if (cached) {
+    return fromCache(cached, input, { hit: true, cachedAt: cached.cachedAt, key })
   }
 
+  const run = async (): Promise<CachedSummary> => {
+    const output = await generate()
+    const entry = { output, input, cachedAt: new Date().toISOString() }
+    // A report recovered by the text parser is worth another try next time
+    if (output.generation?.parsePath !== 'legacy-text') {
+      await cache.set(key, entry)
+    }
+    return entry
+  }
+  const first = coalesce(key, run)
+  let joined = first.joined
+  let entry: CachedSummary
   try {
-    const summaryText = await fetchClaudeSummary(input)
-    const parsedData = parseStructuredSummary(summaryText, input)
+    entry = await first.promise
+  } catch (error) {
+    // The request this one joined was cancelled by its own client; this
+    // one still wants the summary, so it generates it itself
+    if (!joined || !(error instanceof SummarizeError && error.code === 'cancelled')) {
+      throw error
+    }
+    const retry = coalesce(key, run)
+    joined = retry.joined
+    entry = await retry.promise
+  }
+  return withNotice(
+    joined
+      ? fromCache(entry, input, { hit: true, coalesced: true, cachedAt: entry.cachedAt, key })
+      : { ...entry.output, cache: { hit: false, key } }
+  )
+}
+
+// Citation offsets only fit the exact notes they were found in; for notes
+// that differ in whitespace they are moved, and anything lost is grounded again
+function fromCache(entry: CachedSummary, input: string, cache: CacheInfo): SummaryOutput {
+  const output = entry.input === input ? entry.output : attachCitations(remapCitations(entry.output, entry.input, input), input)
+  return { ...output, cache }
+}
+
+async function generateSummary(
+  input: string,
+  options: SummarizeOptions,
+  provider: LLMProvider,
+  model: string,
+  demo: boolean
+): Promise<SummaryOutput> {
+  const detection = detectMeetingType(input)
+  const meetingTypeDetection: MeetingTypeDetection = {
+    detectedType: detection.type,
+    confidence: detection.confidence,
+    source: options.meetingType ? 'user' : 'auto',
+  }
+  const meetingType = options.meetingType || detection.type
+  const meetingDate = options.meetingDate || todayISODate()
+  const roster = options.roster || []
+  const template = options.template || getDefaultReportTemplate()
+  const languageDetection = detectLanguage(input)
+  const language: LanguageInfo = {
+    source: languageDetection.language,
+    output: options.outputLanguage || languageDetection.language,
+    detectionConfidence: languageDetection.confidence,
+    requested: Boolean(options.outputLanguage),
+  }
+  const finalize = (summary: SummaryOutput) => finalizeSummary(summary, input, meetingDate, roster)
+  // Nothing leaves the server in demo mode, so only provider calls are redacted
+  const redactor = createRedactor(getRedactionCategories(), roster)
+  const sopChecklist = options.sopChecklist || getSOPChecklistOrEmpty()
+  const checkSOPs = async (summary: SummaryOutput, sopModel?: { provider: LLMProvider; model: string }) => {
+    if (sopChecklist.length === 0) return undefined
+    options.onProgress?.({ type: 'stage', stage: 'checking-sops' })
+    if (!sopModel) return evaluateSOPs(summary, input, sopChecklist)
+    const checks = await evaluateSOPs(redactor.redactValue(summary), redactor.redactText(input), sopChecklist, sopModel)
+    return redactor.rehydrate(checks)
+  }
+
+  if (demo) {
+    // Demo mode has no model, so only rule-based SOP checks run
+    const summary = finalize(await generateDemoOutput(input, { meetingType, meetingDate, language, roster }))
     return {
-      summaryPoints: parsedData.summaryPoints,
-      actionItems: parsedData.actionItems,
-      openQuestions: parsedData.openQuestions,
-      meetingType,
-      developmentTeamSections: parsedData.developmentTeamSections,
-      riskAssessment: parsedData.riskAssessment,
-      followUpReminders: parsedData.followUpReminders,
-      meetingQuality: parsedData.meetingQuality,
+      ...summary,
+      customSections: normalizeCustomSections(template, undefined),
+      template,
+      language,
+      meetingTypeDetection,
+      sopChecks: await checkSOPs(summary),
+      generation: { provider: 'demo', model: 'heuristic', promptVersion: PROMPT_VERSION },
+    }
+  }
+
+  const { chunkSize, chunkOverlap } = getInputLimits()
+  const chunks = splitIntoChunks(input, chunkSize, chunkOverlap)
+  const meter = createUsageMeter(withSignal(provider, options.signal), model)
+
+  try {
+    // Map: summarize each chunk on its own, then reduce into one report
+    const partials: SummaryOutput[] = []
+    const validationIssues: ValidationIssue[] = []
+    let parsePath: ParsePath = 'structured'
+    for (const chunk of chunks) {
+      options.onProgress?.({ type: 'chunk', index: chunk.index, total: chunks.length })
+      const result = await summarizeChunk(chunk, chunks.length, meetingType, template, language, meetingDate, roster, redactor, meter.provider, model, options.onProgress)
+      partials.push(result.summary)
+      validationIssues.push(...result.validationIssues)
+      if (PARSE_PATH_ORDER.indexOf(result.parsePath) > PARSE_PATH_ORDER.indexOf(parsePath)) {
+        parsePath = result.parsePath
+      }
+    }
+
+    const merged = partials.length === 1 ? partials[0] : mergeSummaries(partials)
+    const summary = finalize(merged)
+    const sopChecks = await checkSOPs(summary, { provider: meter.provider, model })
+    const generation: GenerationInfo = { provider: provider.id, model, promptVersion: PROMPT_VERSION, parsePath }
+    if (validationIssues.length > 0) {
+      generation.validationIssues = validationIssues.slice(0, MAX_REPORTED_ISSUES)
     }
+    return { ...summary, template, language, redaction: redactor.report(), meetingTypeDetection, sopChecks, generation, usage: meter.usage() }
   } catch (error) {
     console.error('Summarization failed:', error)
-    if (error instanceof Error) {
-      throw new Error(getReadableErrorMessage(error))
+    throw toSummarizeError(error)
+  } finally {
+    // Also when a later chunk, the SOP check or validation failed: the
+    // tokens were spent and count towards the budget
+    const usage = meter.usage()
+    if (usage) {
+      await recordUsage(usage)
+    }
+  }
+}
+
+// Everything worked out from the extracted sections: citations, resolved
+// deadlines and owners, and the quality score
+function finalizeSummary(summary: SummaryOutput, input: string, meetingDate: string, roster: RosterMember[]): SummaryOutput {
+  const resolved = resolveOwners(resolveDeadlines(attachCitations(summary, input), meetingDate), roster)
+  return { ...resolved, meetingQuality: scoreMeeting(resolved) }
+}
+
+export interface RegenerateOptions {
+  guidance?: string // what the reader says is wrong or missing
+  roster?: RosterMember[]
+  sopChecklist?: SOPChecklistItem[] // defaults to the deployment's checklist
+}
+
+// Rewrite one section with the rest of the report as context. The other
+// sections are kept as they are; citations, owners, deadlines, the quality
+// score and rule-based SOP checks are worked out again for the new report.
+export async function regenerateSection(
+  input: string,
+  output: SummaryOutput,
+  section: RegenerableSection,
+  options: RegenerateOptions = {}
+): Promise<SummaryOutput> {
+  const previous = output.generation
+  const requested = resolveProvider(previous && previous.provider !== 'demo' ? { provider: previous.provider, model: previous.model } : {})
+  const provider = requested.provider
+  const meetingDate = output.meetingDate || todayISODate()
+  const roster = options.roster || []
+  const detected = detectLanguage(input).language
+  const language: LanguageInfo = output.language || { source: detected, output: detected }
+
+  let updated: SummaryOutput
+  let usage: UsageInfo | undefined
+  let notice: BudgetNotice | undefined
+  if (shouldUseDemoMode(provider)) {
+    // The demo extractors are deterministic, so guidance can't change them
+    const demo = await generateDemoOutput(input, { meetingType: output.meetingType, meetingDate, language, roster })
+    updated = replaceSection(output, section, { ...demo, citations: undefined })
+  } else {
+    const budget = await applyBudget(provider, requested.model)
+    if (budget.refusal) {
+      throw budget.refusal
+    }
+    notice = budget.notice
+    const meter = createUsageMeter(provider, budget.model)
+    const redactor = createRedactor(getRedactionCategories(), roster)
+    const request: CompletionRequest = {
+      model: budget.model,
+      maxTokens: 1200,
+      temperature: 0.1,
+      system: buildSectionSystemPrompt(section, language),
+      prompt: buildSectionPrompt(redactor.redactText(input), redactor.redactValue(output), section, meetingDate, options.guidance && redactor.redactText(options.guidance)),
+    }
+
+    try {
+      const text = (await meter.provider.complete(request)).text
+      const jsonMatch = text.match(/\{[\s\S]*\}/)
+      const result = jsonMatch ? validateSectionUpdate(JSON.parse(jsonrepair(jsonMatch[0])), section) : undefined
+      if (!result || !result.ok) {
+        console.warn(`Regenerated section failed validation:\n${result ? formatValidationIssues(result.errors) : '- $: response does not contain a JSON object'}`)
+        throw new SummarizeError('bad_provider_response', `The regenerated ${REGENERABLE_SECTION_LABELS[section]} section was not in the expected format. Please try again.`)
+      }
+      updated = replaceSection(output, section, fromSectionUpdate(redactor.rehydrate(result.value), input))
+    } catch (error) {
+      console.error('Regenerating a section failed:', error)
+      throw toSummarizeError(error)
+    } finally {
+      // Recorded whether or not the response could be used
+      usage = meter.usage()
+      if (usage) {
+        await recordUsage(usage)
+      }
+    }
+  }
+
+  const summary = finalizeSummary(updated, input, meetingDate, roster)
+  return {
+    ...summary,
+    sopChecks: await refreshRuleChecks(summary, input, options.sopChecklist || getSOPChecklistOrEmpty()),
+    usage,
+    budget: notice,
+    cache: undefined,
+    storage: undefined,
+    revision: {
+      number: (output.revision?.number || 1) + 1,
+      section,
+      guidance: options.guidance,
+      createdAt: new Date().toISOString(),
+    },
+  }
+}
+
+// Swap in one section; citations of the lists it contains are dropped so
+// they are grounded again
+function replaceSection(output: SummaryOutput, section: RegenerableSection, source: Pick<SummaryOutput, 'summaryPoints' | 'openQuestions' | 'developmentTeamSections' | 'citations'>): SummaryOutput {
+  const citations = output.citations ? { ...output.citations } : undefined
+  SECTION_CITED_LISTS[section].forEach(list => {
+    if (citations) {
+      citations[list] = source.citations?.[list] || []
+    }
+  })
+
+  switch (section) {
+    case 'summaryPoints':
+    case 'openQuestions':
+      return { ...output, [section]: source[section], citations }
+    case 'actionItemsAndOwnership':
+      return {
+        ...output,
+        actionItems: source.developmentTeamSections.actionItemsAndOwnership,
+        developmentTeamSections: { ...output.developmentTeamSections, actionItemsAndOwnership: source.developmentTeamSections.actionItemsAndOwnership },
+        citations,
+      }
+    default:
+      return {
+        ...output,
+        developmentTeamSections: { ...output.developmentTeamSections, [section]: source.developmentTeamSections[section] },
+        citations,
+      }
+  }
+}
+
+// The update in the shape replaceSection takes, with quotes located in the notes
+function fromSectionUpdate(update: ValidatedSectionUpdate, input: string): Pick<SummaryOutput, 'summaryPoints' | 'openQuestions' | 'developmentTeamSections' | 'citations'> {
+  const cite = <T extends Quoted>({ quotes, ...item }: T) => ({ ...item, sources: locateQuotes(input, quotes) })
+  const progress = update.keyDecisionsAndProgress
+  const sections: DevelopmentTeamSections = {
+    keyDecisionsAndProgress: progress
+      ? { decisions: progress.decisions.map(cite), progressUpdates: progress.progressUpdates }
+      : { decisions: [], progressUpdates: [] },
+    actionItemsAndOwnership: (update.actionItemsAndOwnership || []).map(cite),
+    blockersAndNextSteps: update.blockersAndNextSteps || { currentBlockers: [], upcomingItems: [] },
+  }
+  const source = { summaryPoints: update.summaryPoints || [], openQuestions: update.openQuestions || [], developmentTeamSections: sections }
+
+  const citations = {} as SourceCitations
+  CITED_LISTS.forEach(list => {
+    citations[list] = getCitedList(source, list).map((_, index) => locateQuotes(input, update.supportingQuotes?.[list]?.[index]))
+  })
+  return { ...source, citations }
+}
+
+// Rule-based checks follow the new report; model answers are kept
+async function refreshRuleChecks(summary: SummaryOutput, input: string, checklist: SOPChecklistItem[]): Promise<SOPCheck[] | undefined> {
+  if (!summary.sopChecks) return undefined
+  const rules = await evaluateSOPs(summary, input, checklist)
+  return summary.sopChecks.map(check => rules.find(rule => rule.id !== undefined && rule.id === check.id) || check)
+}
+
+const SECTION_SCHEMAS: Record<RegenerableSection, string> = {
+  summaryPoints: `{
+  "summaryPoints": ["key discussion highlight 1", "key discussion highlight 2", "key discussion highlight 3"]
+}`,
+  openQuestions: `{
+  "openQuestions": ["specific question that needs answering"],
+  "supportingQuotes": { "openQuestions": [["exact words that raise question 1"]] }
+}`,
+  keyDecisionsAndProgress: `{
+  "keyDecisionsAndProgress": {
+    "decisions": [
+      {
+        "decision": "what was decided",
+        "rationale": "why this decision was made",
+        "impact": "high|medium|low",
+        "owner": "person responsible",
+        "deadline": "when to implement",
+        "quotes": ["exact words from the notes"]
+      }
+    ],
+    "progressUpdates": ["completed feature X", "resolved issue Y"]
+  },
+  "supportingQuotes": { "progressUpdates": [["exact words supporting progress update 1"]] }
+}`,
+  actionItemsAndOwnership: `{
+  "actionItemsAndOwnership": [
+    {
+      "task": "specific action item",
+      "owner": "person responsible",
+      "deadline": "when it's due or TBD",
+      "priority": "high|medium|low",
+      "successCriteria": "how success will be measured",
+      "quotes": ["exact words from the notes"]
+    }
+  ]
+}`,
+  blockersAndNextSteps: `{
+  "blockersAndNextSteps": {
+    "currentBlockers": ["blocker 1 description", "blocker 2 description"],
+    "upcomingItems": ["feature A planned", "improvement B scheduled"]
+  },
+  "supportingQuotes": { "currentBlockers": [["exact words supporting blocker 1"]] }
+}`,
+}
+
+function buildSectionSystemPrompt(section: RegenerableSection, language: LanguageInfo): string {
+  return `You revise one section of a development team meeting report. The rest of the report is correct; use it as context and do not repeat or contradict it.
+
+Respond with this EXACT JSON format, containing only the revised section:
+
+${SECTION_SCHEMAS[section]}
+
+RULES:
+- Use only what the notes say; the reviewer's guidance points at what to fix, but do not add anything the notes don't support
+- Use specific names from the notes, and "TBD" instead of guessing
+${buildLanguageGuidance(language)}
+- "quotes" and "supportingQuotes" must copy short phrases from the notes word for word, in the language of the notes`
+}
+
+function buildSectionPrompt(input: string, report: SummaryOutput, section: RegenerableSection, meetingDate: string, guidance?: string): string {
+  const context = {
+    summaryPoints: report.summaryPoints,
+    developmentTeamSections: report.developmentTeamSections,
+    openQuestions: report.openQuestions,
+    meetingTypeSections: report.meetingTypeSections,
+    riskAssessment: report.riskAssessment,
+  }
+  const reportJson = JSON.stringify(context, (key, value) => (key === 'sources' || key === 'ownerMatches' || key === 'resolvedDeadline' ? undefined : value))
+  const guidanceBlock = guidance ? `\n\nReviewer guidance for this section:\n${guidance}` : ''
+  return `Meeting date: ${meetingDate}
+
+${MEETING_TYPES[report.meetingType].label} Notes:
+${input}
+
+Current report:
+${reportJson}
+
+Rewrite the "${section}" section (${REGENERABLE_SECTION_LABELS[section]}) from the notes.${guidanceBlock}`
+}
+
+const PARSE_PATH_ORDER: ParsePath[] = ['structured', 're-prompted', 'legacy-text']
+const MAX_REPORTED_ISSUES = 20
+
+interface ChunkSummary {
+  summary: SummaryOutput
+  parsePath: ParsePath
+  validationIssues: ValidationIssue[]
+}
+
+async function summarizeChunk(
+  chunk: TextChunk,
+  totalChunks: number,
+  meetingType: MeetingType,
+  template: ReportTemplate,
+  language: LanguageInfo,
+  meetingDate: string,
+  roster: RosterMember[],
+  redactor: Redactor,
+  provider: LLMProvider,
+  model: string,
+  onProgress?: (event: SummarizeProgressEvent) => void
+): Promise<ChunkSummary> {
+  const request: CompletionRequest = {
+    model,
+    maxTokens: 1200,
+    temperature: 0.1,
+    system: buildSystemPrompt(meetingType, template, language),
+    prompt: buildUserPrompt(redactor.redactText(chunk.text), meetingType, meetingDate, roster, { index: chunk.index, total: totalChunks }),
+  }
+
+  let summaryText: string
+  if (onProgress) {
+    onProgress({ type: 'stage', stage: 'request-sent', chunkIndex: chunk.index })
+    summaryText = (await provider.stream(request, createStreamReporter(chunk.index, redactor, onProgress))).text
+  } else {
+    summaryText = (await provider.complete(request)).text
+  }
+
+  // The response refers to redacted values by placeholder; the original
+  // values go back in before quotes are matched against the notes
+  onProgress?.({ type: 'stage', stage: 'parsing', chunkIndex: chunk.index })
+  let parsePath: ParsePath = 'structured'
+  let parsedData: ParsedSummary
+  const firstAttempt = parseJsonSummary(summaryText)
+  const validationIssues = firstAttempt.ok ? [] : firstAttempt.errors
+
+  if (firstAttempt.ok) {
+    parsedData = fromValidatedSummary(redactor.rehydrate(firstAttempt.value), meetingType, template, chunk)
+  } else {
+    console.warn(`Summary response failed validation (${validationIssues.length} issues), re-prompting once`)
+    const retried = await requestCorrection(provider, request, summaryText, validationIssues)
+
+    if (retried.ok) {
+      parsePath = 're-prompted'
+      parsedData = fromValidatedSummary(redactor.rehydrate(retried.value), meetingType, template, chunk)
+    } else {
+      console.warn(`Corrected response still invalid (${retried.errors.length} issues), using the text parser`)
+      parsePath = 'legacy-text'
+      parsedData = parseLegacySummary(redactor.rehydrate(summaryText), chunk.text, meetingType, language, roster)
+    }
+  }
+
+  return {
+    summary: { ...parsedData, meetingType },
+    parsePath,
+    validationIssues,
+  }
+}
+
+// One corrective round-trip: show the model its response and what was wrong
+// with it. A failed call counts as a failed correction rather than an error.
+async function requestCorrection(
+  provider: LLMProvider,
+  request: CompletionRequest,
+  invalidResponse: string,
+  issues: ValidationIssue[]
+): Promise<ValidationResult<ValidatedSummary>> {
+  const correction: CompletionRequest = {
+    ...request,
+    prompt: `${request.prompt}
+
+Your previous response was:
+${invalidResponse}
+
+It does not match the required JSON structure:
+${formatValidationIssues(issues.slice(0, MAX_REPORTED_ISSUES))}
+
+Respond again with the complete, corrected JSON object only.`,
+  }
+
+  try {
+    return parseJsonSummary((await provider.complete(correction)).text)
+  } catch (error) {
+    console.warn('Corrective re-prompt failed:', error instanceof Error ? error.message : error)
+    return { ok: false, errors: issues }
+  }
+}
+
+// Minimum number of new characters between partial-parse attempts
+const PARTIAL_PARSE_INTERVAL = 120
+
+function createStreamReporter(chunkIndex: number, redactor: Redactor, onProgress: (event: SummarizeProgressEvent) => void) {
+  let text = ''
+  let lastParsedLength = 0
+  let lastPartial = ''
+
+  return (delta: string) => {
+    if (!text) {
+      onProgress({ type: 'stage', stage: 'streaming', chunkIndex })
+    }
+    text += delta
+
+    if (text.length - lastParsedLength < PARTIAL_PARSE_INTERVAL) {
+      return
+    }
+    lastParsedLength = text.length
+    onProgress({ type: 'tokens', chunkIndex, characters: text.length })
+
+    const partial = parsePartialSummary(text)
+    const serialized = partial ? JSON.stringify(partial) : ''
+    if (partial && serialized !== lastPartial) {
+      lastPartial = serialized
+      onProgress({ type: 'partial', chunkIndex, output: redactor.rehydrate(partial) })
+    }
+  }
+}
+
+// Best-effort parse of an incomplete JSON response. jsonrepair closes open
+// strings and brackets; anything that doesn't look right yet is dropped.
+function parsePartialSummary(text: string): PartialSummary | null {
+  const start = text.indexOf('{')
+  if (start === -1) {
+    return null
+  }
+
+  let parsed: Record<string, unknown>
+  try {
+    parsed = JSON.parse(jsonrepair(text.slice(start)))
+  } catch {
+    return null
+  }
+
+  const strings = (value: unknown) =>
+    Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.length > 0) : []
+  const actionItems = (value: unknown) =>
+    Array.isArray(value)
+      ? value.filter((item): item is ActionItem => Boolean(item) && typeof item.task === 'string' && item.task.length > 0)
+      : []
+
+  const partial: PartialSummary = {}
+  if (strings(parsed.summaryPoints).length > 0) {
+    partial.summaryPoints = strings(parsed.summaryPoints)
+  }
+  if (actionItems(parsed.actionItems).length > 0) {
+    partial.actionItems = actionItems(parsed.actionItems)
+  }
+  if (strings(parsed.openQuestions).length > 0) {
+    partial.openQuestions = strings(parsed.openQuestions)
+  }
+
+  const sections = parsed.developmentTeamSections as Record<string, Record<string, unknown>> | undefined
+  if (sections && typeof sections === 'object') {
+    partial.developmentTeamSections = {
+      keyDecisionsAndProgress: {
+        decisions: Array.isArray(sections.keyDecisionsAndProgress?.decisions)
+          ? (sections.keyDecisionsAndProgress.decisions as Decision[]).filter(
+            decision => Boolean(decision) && typeof decision.decision === 'string'
+          )
+          : [],
+        progressUpdates: strings(sections.keyDecisionsAndProgress?.progressUpdates),
+      },
+      actionItemsAndOwnership: actionItems(sections.actionItemsAndOwnership),
+      blockersAndNextSteps: {
+        currentBlockers: strings(sections.blockersAndNextSteps?.currentBlockers),
+        upcomingItems: strings(sections.blockersAndNextSteps?.upcomingItems),
+      },
     }
-    throw new Error('Unexpected error while contacting the summarization service.')
   }
+
+  return Object.keys(partial).length > 0 ? partial : null
 }
 
-function shouldUseDemoMode(): boolean {
+export function shouldUseDemoMode(provider: LLMProvider): boolean {
   if (DEMO_MODE_FLAG) {
     return true
   }
 
-  if (!ANTHROPIC_API_KEY) {
-    console.warn('ANTHROPIC_API_KEY is not set. Falling back to demo mode output.')
+  if (!provider.isConfigured()) {
+    console.warn(`${provider.label} is not configured. Falling back to demo mode output.`)
     return true
   }
 
@@ -134,25 +954,35 @@ function shouldUseDemoMode(): boolean {
 }
 
 
-async function fetchClaudeSummary(input: string): Promise<string> {
-  if (!ANTHROPIC_API_KEY) {
-    throw new Error('Missing Anthropic API key.')
-  }
+function buildUserPrompt(
+  input: string,
+  meetingType: MeetingType,
+  meetingDate: string,
+  roster: RosterMember[],
+  part: { index: number; total: number }
+): string {
+  const rosterBlock = roster.length > 0
+    ? `Team roster (use these names for owners; map nicknames, initials, handles and emails to them):\n${formatRosterForPrompt(roster)}\n\n`
+    : ''
+  return `${describePart(part)}Meeting date: ${meetingDate}\n\n${rosterBlock}${MEETING_TYPES[meetingType].label} Notes:\n${input}\n\nAnalyze these notes and provide development team meeting intelligence. Clearly state what additional information is required if anything is missing.`
+}
 
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': ANTHROPIC_API_KEY,
-      'anthropic-version': '2023-06-01',
-    },
-    body: JSON.stringify({
-      model: CLAUDE_MODEL,
-      max_tokens: 800,
-      temperature: 0.1,
-      system: `You are a meeting summarizer for development teams. Focus on the 3 most critical things product managers need to share with their teams.
+// The JSON shape and focus come from the report template: core sections
+// are always requested, custom sections go under "customSections"
+function buildSystemPrompt(meetingType: MeetingType, template: ReportTemplate, language: LanguageInfo): string {
+  const definition = MEETING_TYPES[meetingType]
+  const typeSectionsField = definition.sectionSchema
+    ? `,\n  "meetingTypeSections": ${definition.sectionSchema}`
+    : ''
+  const customSchema = buildCustomSectionSchema(template)
+  const customSectionsField = customSchema ? `,\n  "customSections": ${customSchema}` : ''
+  const focus = template.sections.map((section, index) => `${index + 1}) ${section.name}`).join(', ')
+
+  return `You are a meeting summarizer for development teams. Focus on the ${template.sections.length} most critical things product managers need to share with their teams.
 
-Respond with this EXACT JSON format focusing on ONLY the 3 critical sections:
+${definition.promptFocus}
+
+Respond with this EXACT JSON format:
 
 {
   "summaryPoints": ["key discussion highlight 1", "key discussion highlight 2", "key discussion highlight 3"],
@@ -162,7 +992,8 @@ Respond with this EXACT JSON format focusing on ONLY the 3 critical sections:
       "owner": "person responsible", 
       "deadline": "when it's due or TBD",
       "priority": "high|medium|low",
-      "successCriteria": "how success will be measured"
+      "successCriteria": "how success will be measured",
+      "quotes": ["exact words from the notes this comes from"]
     }
   ],
   "openQuestions": ["specific question that needs answering"],
@@ -174,7 +1005,8 @@ Respond with this EXACT JSON format focusing on ONLY the 3 critical sections:
           "rationale": "why this decision was made",
           "impact": "high|medium|low",
           "owner": "person responsible",
-          "deadline": "when to implement"
+          "deadline": "when to implement",
+          "quotes": ["exact words from the notes"]
         }
       ],
       "progressUpdates": ["completed feature X", "resolved issue Y", "achieved milestone Z"]
@@ -185,187 +1017,176 @@ Respond with this EXACT JSON format focusing on ONLY the 3 critical sections:
         "owner": "person responsible",
         "deadline": "when it's due or TBD",
         "priority": "high|medium|low",
-        "successCriteria": "how success will be measured"
+        "successCriteria": "how success will be measured",
+        "quotes": ["exact words from the notes"]
       }
     ],
     "blockersAndNextSteps": {
       "currentBlockers": ["blocker 1 description", "blocker 2 description"],
       "upcomingItems": ["feature A planned", "improvement B scheduled", "meeting C scheduled"]
     }
-  }
+  },
+  "supportingQuotes": {
+    "progressUpdates": [["exact words supporting progress update 1"]],
+    "currentBlockers": [["exact words supporting blocker 1"]],
+    "openQuestions": [["exact words that raise question 1"]]
+  }${typeSectionsField}${customSectionsField}
 }
 
+REPORT SECTIONS:
+${buildSectionGuidance(template)}
+
 CRITICAL FOCUS:
-- Focus on 1) Key Decisions & Progress, 2) Action Items & Ownership, 3) Blockers & Next Steps
+- Focus on ${focus}
 - Keep each section concise but comprehensive
 - Use specific names from input, not generic terms
 - If information is unclear, use "TBD" instead of guessing
-- This works for sprint reviews, planning meetings, retrospectives, standups, and any development team meeting`,
-      messages: [
-        {
-          role: 'user',
-          content: `Development Team Meeting Notes:\n${input}\n\nAnalyze these notes and provide development team meeting intelligence. Clearly state what additional information is required if anything is missing.`
-        }
-      ]
-    })
-  })
+${buildLanguageGuidance(language)}
+- "quotes" and "supportingQuotes" must copy short phrases from the notes word for word, in the language of the notes; give one list of quotes per item, in the same order as the items
+- This works for sprint reviews, planning meetings, retrospectives, standups, and any development team meeting${definition.sectionSchema ? '\n- Fill in "meetingTypeSections" using the shape above' : ''}${customSchema ? '\n- Fill in every list under "customSections"; use an empty list when the notes have nothing for a section' : ''}`
+}
 
-  if (!response.ok) {
-    const errorText = await response.text()
-    try {
-      const parsed = JSON.parse(errorText)
-      const parsedMessage = parsed?.error?.message as string | undefined
-      throw new Error(parsedMessage || `Claude API error (${response.status})`)
-    } catch {
-      throw new Error(errorText || `Claude API error (${response.status})`)
-    }
+// Deadlines are resolved by an English date parser, so in other output
+// languages the model converts them to ISO dates itself where it can
+function buildLanguageGuidance(language: LanguageInfo): string {
+  const output = LANGUAGE_LABELS[language.output]
+  const lines = [`- Write every text value in ${output}${language.output !== language.source ? ` (the notes are in ${LANGUAGE_LABELS[language.source]})` : ''}; keep JSON keys and "high|medium|low" values in English`]
+  if (language.output === 'en') {
+    lines.push('- Write deadlines the way they were said (e.g. "next Friday", "end of Q2"); they are converted to dates using the meeting date')
+  } else {
+    lines.push('- Write deadlines as YYYY-MM-DD dates worked out from the meeting date; if the notes give no day, write them the way they were said')
   }
+  return lines.join('\n')
+}
 
-  const data = await response.json()
-  const content = data?.content?.[0]?.text
-
-  if (!content || typeof content !== 'string') {
-    throw new Error('Claude API returned an unexpected response format.')
+function describePart(part: { index: number; total: number }): string {
+  if (part.total <= 1) {
+    return ''
   }
 
-  return content
+  return `This is part ${part.index + 1} of ${part.total} of a longer meeting. Parts overlap slightly; only report what appears in this part.\n\n`
 }
 
-function getReadableErrorMessage(error: Error): string {
-  if (/credit balance/i.test(error.message)) {
-    return 'Anthropic account balance is low. Please add credits and try again.'
-  }
-
-  if (/api key/i.test(error.message)) {
-    return 'Anthropic API key is invalid or missing. Verify your credentials.'
+// Map a failure to a stable error code with a message naming the provider
+export function toSummarizeError(error: unknown): SummarizeError {
+  if (error instanceof SummarizeError) {
+    return error
   }
 
-  return error.message || 'Unable to generate a summary at this time. Please try again later.'
-}
-
-function extractActionItems(text: string): string[] {
-  const actionItems: string[] = []
-  const lines = text.split('\n').map(line => line.trim()).filter(line => line.length > 0)
-  
-  for (const line of lines) {
-    // Look for patterns like "John to do X", "Amy will", "Need to", etc.
-    const actionPatterns = [
-      /^(.+?)\s+(?:to|will|should|needs? to|has to)\s+(.+)$/i,
-      /^(.+?)\s+→\s+(.+)$/,
-      /^(.+?)\s+assigned to\s+(.+)$/i,
-      /^action:\s*(.+)$/i,
-      /^todo:\s*(.+)$/i
-    ]
-    
-    for (const pattern of actionPatterns) {
-      const match = line.match(pattern)
-      if (match) {
-        // Check if we have both owner and task (patterns with 2 groups)
-        if (match[2]) {
-          const owner = match[1].trim()
-          const task = match[2].trim()
-          if (owner && task) {
-            actionItems.push(`${owner} → ${task}`)
-          }
-        } else {
-          // Single group patterns (like "action: X" or "todo: X")
-          const task = match[1].trim()
-          if (task) {
-            actionItems.push(task)
-          }
-        }
-      }
-    }
-    
-    // Look for simple action items without clear owner
-    if (line.toLowerCase().includes('todo') || 
-        line.toLowerCase().includes('action') ||
-        line.toLowerCase().includes('need to') ||
-        line.toLowerCase().includes('should')) {
-      if (!actionItems.some(item => item.includes(line))) {
-        actionItems.push(line)
-      }
+  if (error instanceof ProviderError) {
+    const label = getProvider(error.provider).label
+    const retryAfterSeconds = error.retryAfterMs !== undefined ? Math.ceil(error.retryAfterMs / 1000) : undefined
+    switch (error.kind) {
+      case 'missing-key':
+        return new SummarizeError('missing_api_key', `${label} API key is missing. Add it to the server environment.`)
+      case 'credits':
+        return new SummarizeError('insufficient_credits', `${label} account balance is low. Please add credits and try again.`)
+      case 'auth':
+        return new SummarizeError('invalid_api_key', `${label} API key is invalid. Verify your credentials.`)
+      case 'rate-limit':
+        return new SummarizeError('rate_limited', `${label} rate limit reached. Please wait a moment and try again.`, retryAfterSeconds)
+      case 'overloaded':
+        return new SummarizeError('provider_overloaded', `${label} is temporarily overloaded. Please try again shortly.`, retryAfterSeconds)
+      case 'timeout':
+        return new SummarizeError('timeout', `${error.message} Please try again.`)
+      case 'cancelled':
+        return new SummarizeError('cancelled', error.message)
+      case 'network':
+        return new SummarizeError('provider_unreachable', `Could not reach ${label}. Check the connection or endpoint URL and try again.`)
+      case 'bad-response':
+        return new SummarizeError('bad_provider_response', error.message)
+      default:
+        return new SummarizeError('internal_error', error.message || 'Unable to generate a summary at this time. Please try again later.')
     }
   }
-  
-  return actionItems.slice(0, 5) // Limit to 5 action items
-}
 
-
-function generateProbingQuestions(text: string): string[] {
-  const questions: string[] = []
-  const lowerText = text.toLowerCase()
-  
-  // Generate questions based on missing elements
-  if (!lowerText.includes('goal') && !lowerText.includes('objective')) {
-    questions.push('What were the specific goals for this meeting?')
-  }
-  
-  if (!lowerText.includes('deadline') && !lowerText.includes('due date')) {
-    questions.push('What are the deadlines for the action items?')
-  }
-  
-  if (!lowerText.includes('budget') && !lowerText.includes('cost')) {
-    questions.push('Are there any budget considerations for these decisions?')
-  }
-  
-  if (!lowerText.includes('risk') && !lowerText.includes('concern')) {
-    questions.push('What are the potential risks or concerns?')
-  }
-  
-  if (!lowerText.includes('stakeholder') && !lowerText.includes('team')) {
-    questions.push('Who are the key stakeholders involved?')
-  }
-  
-  // If no specific gaps found, add generic probing questions
-  if (questions.length === 0) {
-    questions.push('What are the next steps after this meeting?')
-    questions.push('Who will be responsible for following up?')
+  if (error instanceof Error && error.message) {
+    return new SummarizeError('internal_error', error.message)
   }
-  
-  return questions.slice(0, 3) // Limit to 3 questions
+  return new SummarizeError('internal_error', 'Unexpected error while contacting the summarization service.')
 }
 
 
-// Parse structured summary with simplified JSON structure
-function parseStructuredSummary(summaryText: string, originalInput: string): {
+interface ParsedSummary {
   summaryPoints: string[]
   actionItems: ActionItem[]
   openQuestions: string[]
   developmentTeamSections: DevelopmentTeamSections
+  meetingTypeSections?: MeetingTypeSections
   riskAssessment?: RiskItem[]
   followUpReminders?: FollowUpReminder[]
   meetingQuality?: MeetingQualityMetrics
-} {
-  console.log('AI Response:', summaryText)
+  customSections?: CustomSections
+  citations?: SourceCitations
+}
+
+// Extract, repair and strictly validate the JSON object in a model response
+function parseJsonSummary(summaryText: string): ValidationResult<ValidatedSummary> {
+  const jsonMatch = summaryText.match(/\{[\s\S]*\}/)
+  if (!jsonMatch) {
+    return { ok: false, errors: [{ path: '$', message: 'response does not contain a JSON object' }] }
+  }
+
+  let parsed: unknown
   try {
-    const jsonMatch = summaryText.match(/\{[\s\S]*\}/)
-    if (jsonMatch) {
-      console.log('JSON Match found:', jsonMatch[0])
-      const repaired = jsonrepair(jsonMatch[0])
-      console.log('Repaired JSON:', repaired)
-      const parsed = JSON.parse(repaired)
-      console.log('Parsed JSON:', parsed)
-      return {
-        summaryPoints: parsed.summaryPoints || [],
-        actionItems: parsed.actionItems || [],
-        openQuestions: parsed.openQuestions || [],
-        developmentTeamSections: parsed.developmentTeamSections || {
-          keyDecisionsAndProgress: { decisions: [], progressUpdates: [] },
-          actionItemsAndOwnership: [],
-          blockersAndNextSteps: { currentBlockers: [], upcomingItems: [] }
-        },
-        riskAssessment: parsed.riskAssessment || [],
-        followUpReminders: parsed.followUpReminders || [],
-        meetingQuality: parsed.meetingQuality || undefined,
-      }
-    }
+    parsed = JSON.parse(jsonrepair(jsonMatch[0]))
   } catch (error) {
-    console.warn('Failed to parse JSON, falling back to text parsing:', error)
-    console.warn('Raw response:', summaryText)
+    const reason = error instanceof Error ? error.message : 'unknown error'
+    return { ok: false, errors: [{ path: '$', message: `response is not valid JSON (${reason})` }] }
   }
 
-  // Fallback to legacy text parsing
+  return validateSummary(parsed)
+}
+
+// Resolve the model's quotes to spans in the chunk, offset into the full notes
+function fromValidatedSummary(
+  summary: ValidatedSummary,
+  meetingType: MeetingType,
+  template: ReportTemplate,
+  chunk: TextChunk
+): ParsedSummary {
+  const cite = <T extends Quoted>({ quotes, ...item }: T) => ({
+    ...item,
+    sources: locateQuotes(chunk.text, quotes, chunk.start),
+  })
+  const sections = summary.developmentTeamSections
+  const parsed: ParsedSummary = {
+    summaryPoints: summary.summaryPoints,
+    actionItems: summary.actionItems.map(cite),
+    openQuestions: summary.openQuestions,
+    developmentTeamSections: {
+      keyDecisionsAndProgress: {
+        decisions: sections.keyDecisionsAndProgress.decisions.map(cite),
+        progressUpdates: sections.keyDecisionsAndProgress.progressUpdates,
+      },
+      actionItemsAndOwnership: sections.actionItemsAndOwnership.map(cite),
+      blockersAndNextSteps: sections.blockersAndNextSteps,
+    },
+    meetingTypeSections: normalizeMeetingTypeSections(meetingType, summary.meetingTypeSections),
+    customSections: normalizeCustomSections(template, summary.customSections),
+    riskAssessment: summary.riskAssessment || [],
+    followUpReminders: summary.followUpReminders || [],
+    meetingQuality: summary.meetingQuality,
+  }
+
+  const citations = {} as SourceCitations
+  CITED_LISTS.forEach(list => {
+    citations[list] = getCitedList(parsed, list).map((_, index) =>
+      locateQuotes(chunk.text, summary.supportingQuotes?.[list]?.[index], chunk.start)
+    )
+  })
+  return { ...parsed, citations }
+}
+
+// Legacy text parsing for responses that never produced valid JSON
+function parseLegacySummary(
+  summaryText: string,
+  originalInput: string,
+  meetingType: MeetingType,
+  language: LanguageInfo,
+  roster: RosterMember[]
+): ParsedSummary {
+  const phrases = HEURISTIC_RULES[language.output]
   const sections = {
     summaryPoints: [] as string[],
     actionItems: [] as ActionItem[],
@@ -375,6 +1196,7 @@ function parseStructuredSummary(summaryText: string, originalInput: string): {
       actionItemsAndOwnership: [] as ActionItem[],
       blockersAndNextSteps: { currentBlockers: [] as string[], upcomingItems: [] as string[] }
     } as DevelopmentTeamSections,
+    meetingTypeSections: buildHeuristicTypeSections(meetingType, originalInput),
     riskAssessment: [] as RiskItem[],
     followUpReminders: [] as FollowUpReminder[],
     meetingQuality: undefined as MeetingQualityMetrics | undefined
@@ -403,9 +1225,10 @@ function parseStructuredSummary(summaryText: string, originalInput: string): {
         if (currentSection === 'actionItems') {
           sections.actionItems.push({
             task: bullet,
-            owner: 'TBD',
+            owner: extractOwnerName(bullet, roster) || 'TBD',
+            deadline: extractDeadlinePhrase(bullet),
             priority: 'medium',
-            successCriteria: 'Completion of task'
+            successCriteria: phrases.defaultSuccessCriteria
           })
         } else {
           (sections[currentSection as keyof typeof sections] as string[]).push(bullet)
@@ -416,36 +1239,37 @@ function parseStructuredSummary(summaryText: string, originalInput: string): {
 
   // Fallback if sections are empty
   if (sections.summaryPoints.length === 0) {
-    sections.summaryPoints = extractKeyPoints(originalInput).slice(0, 5)
+    sections.summaryPoints = extractKeyPoints(originalInput, language.source).slice(0, 5)
   }
   if (sections.actionItems.length === 0) {
-    const legacyActions = extractActionItems(originalInput)
+    const legacyActions = extractActionItems(originalInput, language.source)
     sections.actionItems = legacyActions.map(action => ({
       task: action,
-      owner: 'TBD',
+      owner: extractOwnerName(action, roster) || 'TBD',
+      deadline: extractDeadlinePhrase(action),
       priority: 'medium' as const,
-      successCriteria: 'Completion of task'
+      successCriteria: phrases.defaultSuccessCriteria
     })).slice(0, 5)
   }
   if (sections.openQuestions.length === 0) {
-    sections.openQuestions = generateProbingQuestions(originalInput).slice(0, 3)
+    sections.openQuestions = generateProbingQuestions(originalInput, language).slice(0, 3)
   }
 
   // Populate developmentTeamSections with actual data from fallback parsing
   if (sections.developmentTeamSections.keyDecisionsAndProgress.decisions.length === 0) {
     // Extract decisions from input
-    const decisions = extractKeyPoints(originalInput).slice(0, 2).map(point => ({
+    const decisions = extractKeyPoints(originalInput, language.source).slice(0, 2).map(point => ({
       decision: point,
-      rationale: 'Based on meeting discussion',
+      rationale: phrases.defaultRationale,
       impact: 'medium' as const,
       owner: 'TBD',
-      deadline: 'TBD'
+      deadline: extractDeadlinePhrase(point) || 'TBD'
     }))
     sections.developmentTeamSections.keyDecisionsAndProgress.decisions = decisions
   }
   
   if (sections.developmentTeamSections.keyDecisionsAndProgress.progressUpdates.length === 0) {
-    sections.developmentTeamSections.keyDecisionsAndProgress.progressUpdates = extractKeyPoints(originalInput).slice(0, 3)
+    sections.developmentTeamSections.keyDecisionsAndProgress.progressUpdates = extractKeyPoints(originalInput, language.source).slice(0, 3)
   }
   
   if (sections.developmentTeamSections.actionItemsAndOwnership.length === 0) {
@@ -453,156 +1277,12 @@ function parseStructuredSummary(summaryText: string, originalInput: string): {
   }
   
   if (sections.developmentTeamSections.blockersAndNextSteps.currentBlockers.length === 0) {
-    sections.developmentTeamSections.blockersAndNextSteps.currentBlockers = ['No blockers identified']
+    sections.developmentTeamSections.blockersAndNextSteps.currentBlockers = [phrases.noBlockers]
   }
   
   if (sections.developmentTeamSections.blockersAndNextSteps.upcomingItems.length === 0) {
-    sections.developmentTeamSections.blockersAndNextSteps.upcomingItems = ['Follow up on action items']
+    sections.developmentTeamSections.blockersAndNextSteps.upcomingItems = [phrases.followUpOnActions]
   }
 
   return sections
 }
-
-// Validate section has correct number of bullets per PRD
-// Extract key points from original input as fallback
-function extractKeyPoints(text: string): string[] {
-  const sentences = text.split(/[.!?]/).filter(s => s.trim().length > 20)
-  const keyPoints: string[] = []
-  
-  // Look for sentences with important keywords
-  const importantKeywords = ['decided', 'agreed', 'discussed', 'reviewed', 'planned', 'scheduled', 'completed', 'blocked', 'issue', 'problem', 'solution', 'next', 'action', 'deadline', 'goal', 'objective']
-  
-  for (const sentence of sentences) {
-    const lowerSentence = sentence.toLowerCase()
-    if (importantKeywords.some(keyword => lowerSentence.includes(keyword))) {
-      keyPoints.push(sentence.trim())
-    }
-  }
-  
-  return keyPoints.slice(0, 5)
-}
-
-// Calculate quality metrics for the summary
-// Demo mode function that works without API keys
-function generateDemoOutput(input: string): Promise<SummaryOutput> {
-  // Simulate processing delay
-  return new Promise((resolve) => {
-    setTimeout(() => {
-      try {
-        // Generate realistic demo data based on input analysis
-        const summaryPoints = extractKeyPoints(input).slice(0, 4)
-        const legacyActions = extractActionItems(input)
-        const openQuestions = generateProbingQuestions(input)
-        
-        // Convert legacy data to new structured format
-        const actionItems: ActionItem[] = legacyActions.slice(0, 4).map((action, index) => ({
-          task: action,
-          owner: ['John Smith', 'Sarah Johnson', 'Mike Chen', 'Alex Rivera'][index] || 'TBD',
-          deadline: ['Next Friday', 'End of week', 'Monday', 'By next meeting'][index] || 'TBD',
-          priority: (['high', 'medium', 'low'] as const)[index % 3],
-          successCriteria: 'Task completion and stakeholder approval'
-        }))
-        
-        // Generate development team sections - 3 critical areas
-        const developmentTeamSections: DevelopmentTeamSections = {
-          keyDecisionsAndProgress: {
-            decisions: [
-              { decision: 'Implement microservices architecture', rationale: 'Better scalability and maintainability', impact: 'high', owner: 'Tech Lead', deadline: 'Q2 2024' },
-              { decision: 'Use React for frontend', rationale: 'Team expertise and ecosystem support', impact: 'medium', owner: 'Frontend Team', deadline: 'Next sprint' }
-            ],
-            progressUpdates: ['User authentication completed', 'Database optimization finished', 'Mobile app performance improved']
-          },
-          actionItemsAndOwnership: [
-            { task: 'Complete user authentication testing', owner: 'John Smith', deadline: 'Next Friday', priority: 'high', successCriteria: 'All test cases pass' },
-            { task: 'Update mobile app performance metrics', owner: 'Sarah Johnson', deadline: 'End of week', priority: 'medium', successCriteria: 'Performance dashboard updated' }
-          ],
-          blockersAndNextSteps: {
-            currentBlockers: ['Database connection timeout', 'Third-party API rate limits', 'Design system inconsistencies'],
-            upcomingItems: ['User dashboard redesign', 'Advanced analytics features', 'Mobile app optimization', 'Sprint planning meeting']
-          }
-        }
-        
-        const riskAssessment: RiskItem[] = [
-          {
-            risk: 'Payment gateway issues may impact user experience',
-            impact: 'high',
-            probability: 'medium',
-            mitigation: 'Implement monitoring and fallback payment methods',
-            owner: 'Engineering Team'
-          },
-          {
-            risk: 'Customer confusion about cashback policy',
-            impact: 'medium',
-            probability: 'high',
-            mitigation: 'Update app UI to clearly display cashback terms',
-            owner: 'Product Team'
-          }
-        ]
-        
-        const followUpReminders: FollowUpReminder[] = [
-          {
-            action: 'Coordinate with payment gateway provider',
-            dueDate: '2024-01-15',
-            owner: 'John Smith',
-            type: 'follow-up'
-          },
-          {
-            action: 'Review cashback policy communication',
-            dueDate: '2024-01-12',
-            owner: 'Sarah Johnson',
-            type: 'review'
-          }
-        ]
-        
-        const meetingQuality: MeetingQualityMetrics = {
-          overallScore: 7,
-          areas: {
-            preparation: 6,
-            participation: 8,
-            decisionMaking: 7,
-            actionClarity: 6,
-            followThrough: 8
-          },
-          recommendations: [
-            'Include more specific deadlines for action items',
-            'Document decision rationale more clearly',
-            'Set up regular check-ins for follow-up items'
-          ]
-        }
-        
-        const result: SummaryOutput = {
-          summaryPoints: summaryPoints.length > 0 ? summaryPoints : ['Key project updates discussed', 'Current blockers reviewed', 'Next phase priorities decided'],
-          actionItems,
-          openQuestions: openQuestions.length > 0 ? openQuestions : ['What is the timeline for resolving payment issues?', 'Who will communicate the cashback policy changes?'],
-          meetingType: 'development-team-meeting',
-          developmentTeamSections,
-          riskAssessment,
-          followUpReminders,
-          meetingQuality,
-        }
-        
-        resolve(result)
-        
-      } catch (error) {
-        console.error('Demo mode error:', error)
-        resolve({
-          summaryPoints: ['Demo key discussion point'],
-          actionItems: [{
-            task: 'Demo action item',
-            owner: 'Demo Owner',
-            deadline: 'Next week',
-            priority: 'medium',
-            successCriteria: 'Task completion'
-          }],
-          openQuestions: ['Demo open question'],
-          meetingType: 'development-team-meeting',
-          developmentTeamSections: {
-            keyDecisionsAndProgress: { decisions: [], progressUpdates: [] },
-            actionItemsAndOwnership: [],
-            blockersAndNextSteps: { currentBlockers: [], upcomingItems: [] }
-          }
-        })
-      }
-    }, 3500) // 3.5 second delay to simulate realistic API call
-  })
-}
@@ -0,0 +1,175 @@
+import { jsonrepair } from 'jsonrepair'
+import type { RosterMember, SourceSpan, SummaryOutput, UsageInfo } from './ai'
+import { shouldUseDemoMode, toSummarizeError } from './ai'
+import { contentWords, locateQuote } from './citations'
+import { getRedactionCategories } from './config'
+import { SummarizeError } from './errors'
+import { splitSentences } from './heuristics'
+import type { StoredMeeting } from './meetingStore'
+import { CompletionRequest, ProviderId, resolveProvider } from './providers'
+import { createRedactor } from './redaction'
+import { applyBudget, createUsageMeter, recordUsage } from './usage'
+import { formatValidationIssues, validateAnswerResponse } from './validation'
+
+// Server-only: answers follow-up questions about a saved meeting from its
+// notes and report alone. Every answer must quote the notes; an answer whose
+// quotes can't be found in them is turned into a refusal.
+
+export const MAX_QUESTION_CHARS = 500
+export const MAX_ASK_HISTORY = 6 // earlier turns sent along for follow-ups
+
+export interface AskTurn {
+  question: string
+  answer: string
+}
+
+export interface AnswerQuote {
+  text: string
+  span: SourceSpan // where the quote is in the meeting notes
+}
+
+export interface MeetingAnswer {
+  answered: boolean // false when the notes don't contain the answer
+  answer: string
+  quotes: AnswerQuote[]
+  generation: { provider: ProviderId | 'demo'; model: string }
+  usage?: UsageInfo
+}
+
+export const NOT_IN_NOTES = "The meeting notes don't say."
+
+function toQuotes(notes: string, quotes: string[]): AnswerQuote[] {
+  const located: AnswerQuote[] = []
+  for (const text of quotes) {
+    const span = locateQuote(notes, text)
+    if (span && !located.some(quote => quote.span.start === span.start)) {
+      located.push({ text: notes.slice(span.start, span.end), span })
+    }
+  }
+  return located
+}
+
+// "agree" matches "agreed", "deploy" matches "deployment"
+function sharesWord(words: string[], word: string): boolean {
+  return words.some(candidate => candidate === word || (Math.min(candidate.length, word.length) >= 4 && (candidate.indexOf(word) === 0 || word.indexOf(candidate) === 0)))
+}
+
+// Demo mode: the sentences sharing the most words with the question, if
+// they share enough of them
+export function answerFromNotes(notes: string, question: string): Pick<MeetingAnswer, 'answered' | 'answer' | 'quotes'> {
+  const questionWords = contentWords(question)
+  const needed = Math.max(1, Math.ceil(questionWords.length / 2))
+  const matches = splitSentences(notes)
+    .map(sentence => {
+      const words = contentWords(sentence)
+      return { sentence, score: questionWords.filter(word => sharesWord(words, word)).length }
+    })
+    .filter(match => match.score >= needed)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 2)
+
+  const quotes = toQuotes(notes, matches.map(match => match.sentence))
+  if (quotes.length === 0) {
+    return { answered: false, answer: NOT_IN_NOTES, quotes: [] }
+  }
+  return { answered: true, answer: `From the notes: ${quotes.map(quote => quote.text).join(' … ')}`, quotes }
+}
+
+const ASK_SYSTEM_PROMPT = `You answer questions about one meeting, using only the meeting notes and the report you are given.
+- Do not use outside knowledge and do not guess. If the notes do not contain the answer, set "answered" to false and say briefly what the notes do not cover.
+- Support every answer with "quotes": short passages copied word for word from the notes (not from the report).
+- Answer in one to three sentences, in the language of the question.
+Respond with JSON only: {"answered": true, "answer": "...", "quotes": ["exact text from the notes"]}`
+
+// The report's content, without generation and usage details
+function toReportContext(output: SummaryOutput): Partial<SummaryOutput> {
+  return {
+    meetingType: output.meetingType,
+    summaryPoints: output.summaryPoints,
+    actionItems: output.actionItems,
+    openQuestions: output.openQuestions,
+    developmentTeamSections: output.developmentTeamSections,
+    meetingTypeSections: output.meetingTypeSections,
+    riskAssessment: output.riskAssessment,
+    followUpReminders: output.followUpReminders,
+    customSections: output.customSections,
+    sopChecks: output.sopChecks,
+    meetingQuality: output.meetingQuality,
+  }
+}
+
+function buildAskPrompt(notes: string, report: unknown, question: string, history: AskTurn[]): string {
+  const earlier = history.length > 0
+    ? `Earlier in this conversation:\n${history.map(turn => `Q: ${turn.question}\nA: ${turn.answer}`).join('\n')}\n\n`
+    : ''
+  return `Meeting notes:
+${notes}
+
+Report generated from the notes:
+${JSON.stringify(report)}
+
+${earlier}Question: ${question}`
+}
+
+export async function askMeeting(
+  meeting: StoredMeeting,
+  question: string,
+  history: AskTurn[],
+  roster: RosterMember[]
+): Promise<MeetingAnswer> {
+  const requested = resolveProvider()
+  const provider = requested.provider
+  if (shouldUseDemoMode(provider)) {
+    return { ...answerFromNotes(meeting.notes, question), generation: { provider: 'demo', model: 'heuristic' } }
+  }
+
+  const budget = await applyBudget(provider, requested.model)
+  if (budget.refusal) {
+    throw budget.refusal
+  }
+  const model = budget.model
+  const meter = createUsageMeter(provider, model)
+  const redactor = createRedactor(getRedactionCategories(), roster)
+  const request: CompletionRequest = {
+    model,
+    maxTokens: 500,
+    temperature: 0,
+    system: ASK_SYSTEM_PROMPT,
+    prompt: buildAskPrompt(
+      redactor.redactText(meeting.notes),
+      redactor.redactValue(toReportContext(meeting.output)),
+      redactor.redactText(question),
+      redactor.redactValue(history.slice(-MAX_ASK_HISTORY))
+    ),
+  }
+
+  try {
+    const text = (await meter.provider.complete(request)).text
+    const usage = meter.usage()
+    if (usage) {
+      await recordUsage(usage)
+    }
+
+    const jsonMatch = text.match(/\{[\s\S]*\}/)
+    if (!jsonMatch) {
+      throw new SummarizeError('bad_provider_response', 'The answer did not contain a JSON object.')
+    }
+    const result = validateAnswerResponse(JSON.parse(jsonrepair(jsonMatch[0])))
+    if (!result.ok) {
+      console.warn(`Answer response did not match the expected shape:\n${formatValidationIssues(result.errors)}`)
+      throw new SummarizeError('bad_provider_response', 'The answer was not in the expected format.')
+    }
+
+    const answer = redactor.rehydrate(result.value)
+    const quotes = answer.answered ? toQuotes(meeting.notes, answer.quotes) : []
+    const generation = { provider: provider.id, model }
+    if (answer.answered && quotes.length === 0) {
+      console.warn('Refusing an answer whose quotes are not in the notes')
+      return { answered: false, answer: NOT_IN_NOTES, quotes: [], generation, usage }
+    }
+    return { answered: answer.answered, answer: answer.answer, quotes, generation, usage }
+  } catch (error) {
+    console.error('Answering failed:', error)
+    throw toSummarizeError(error)
+  }
+}
@@ -0,0 +1,310 @@
+import type {
+  ActionItem,
+  CustomSectionItem,
+  CustomSections,
+  Decision,
+  FollowUpReminder,
+  MeetingTypeSections,
+  RiskItem,
+  SourceCitations,
+  SourceSpan,
+  StandupUpdate,
+  SummaryOutput,
+} from './ai'
+import { CITED_LISTS, getCitedList, mergeSpans } from './citations'
+import { HEURISTIC_RULES, SUPPORTED_LANGUAGES } from './language'
+
+export interface TextChunk {
+  index: number
+  start: number // offset into the original notes
+  end: number
+  text: string
+}
+
+// Split long notes into overlapping chunks, preferring paragraph, line and
+// sentence boundaries so items are not cut in half
+export function splitIntoChunks(text: string, chunkSize: number, overlap: number): TextChunk[] {
+  if (text.length <= chunkSize) {
+    return [{ index: 0, start: 0, end: text.length, text }]
+  }
+
+  const chunks: TextChunk[] = []
+  let start = 0
+
+  while (start < text.length) {
+    let end = Math.min(start + chunkSize, text.length)
+
+    if (end < text.length) {
+      end = findBreakPoint(text, start, end)
+    }
+
+    chunks.push({ index: chunks.length, start, end, text: text.slice(start, end) })
+
+    if (end >= text.length) {
+      break
+    }
+
+    // Step back by the overlap, but always move forward
+    start = Math.max(end - overlap, start + 1)
+  }
+
+  return chunks
+}
+
+function findBreakPoint(text: string, start: number, end: number): number {
+  // Only look for a boundary in the last 20% of the window
+  const minEnd = start + Math.floor((end - start) * 0.8)
+  const window = text.slice(minEnd, end)
+
+  const separators = ['\n\n', '\n', '. ', '? ', '! ']
+  for (const separator of separators) {
+    const position = window.lastIndexOf(separator)
+    if (position !== -1) {
+      return minEnd + position + separator.length
+    }
+  }
+
+  return end
+}
+
+// Merge partial summaries from each chunk into one report. Items repeated in
+// overlapping regions are deduplicated by their normalized wording.
+export function mergeSummaries(partials: SummaryOutput[]): SummaryOutput {
+  const [first] = partials
+  const sections = partials.map(partial => partial.developmentTeamSections)
+
+  const merged: SummaryOutput = {
+    summaryPoints: mergeStrings(partials.map(partial => partial.summaryPoints)).slice(0, 8),
+    actionItems: mergeActionItems(partials.map(partial => partial.actionItems)),
+    openQuestions: mergeStrings(partials.map(partial => partial.openQuestions)),
+    meetingType: first.meetingType,
+    developmentTeamSections: {
+      keyDecisionsAndProgress: {
+        decisions: mergeDecisions(sections.map(section => section.keyDecisionsAndProgress.decisions)),
+        progressUpdates: mergeStrings(sections.map(section => section.keyDecisionsAndProgress.progressUpdates)),
+      },
+      actionItemsAndOwnership: mergeActionItems(sections.map(section => section.actionItemsAndOwnership)),
+      blockersAndNextSteps: {
+        currentBlockers: withoutPlaceholder(
+          mergeStrings(sections.map(section => section.blockersAndNextSteps.currentBlockers)),
+          NO_BLOCKERS_PLACEHOLDERS
+        ),
+        upcomingItems: withoutPlaceholder(
+          mergeStrings(sections.map(section => section.blockersAndNextSteps.upcomingItems)),
+          FOLLOW_UP_PLACEHOLDERS
+        ),
+      },
+    },
+    meetingTypeSections: mergeMeetingTypeSections(partials.map(partial => partial.meetingTypeSections)),
+    customSections: mergeCustomSections(partials.map(partial => partial.customSections)),
+    riskAssessment: mergeBy(partials.map(partial => partial.riskAssessment || []), (item: RiskItem) => item.risk),
+    followUpReminders: mergeBy(
+      partials.map(partial => partial.followUpReminders || []),
+      (item: FollowUpReminder) => item.action
+    ),
+  }
+
+  return { ...merged, citations: mergeCitations(partials, merged) }
+}
+
+// Merged string items keep their original wording, so look their spans up by text
+function mergeCitations(partials: SummaryOutput[], merged: SummaryOutput): SourceCitations {
+  const citations = {} as SourceCitations
+
+  CITED_LISTS.forEach(list => {
+    const spansByItem: Record<string, SourceSpan[]> = {}
+    partials.forEach(partial => {
+      getCitedList(partial, list).forEach((item, index) => {
+        const spans = partial.citations?.[list]?.[index] || []
+        spansByItem[item] = mergeSpans((spansByItem[item] || []).concat(spans))
+      })
+    })
+    citations[list] = getCitedList(merged, list).map(item => spansByItem[item] || [])
+  })
+
+  return citations
+}
+
+function mergeStrings(lists: string[][]): string[] {
+  return mergeBy(lists, (item: string) => item)
+}
+
+function mergeDecisions(lists: Decision[][]): Decision[] {
+  return mergeBy(lists, (item: Decision) => item.decision, (existing, candidate) => ({
+    ...existing,
+    rationale: isUnknown(existing.rationale) ? candidate.rationale : existing.rationale,
+    owner: isUnknown(existing.owner) ? candidate.owner : existing.owner,
+    deadline: isUnknown(existing.deadline) ? candidate.deadline : existing.deadline,
+    sources: mergeSpans((existing.sources || []).concat(candidate.sources || [])),
+  }))
+}
+
+const PRIORITY_RANK: Record<ActionItem['priority'], number> = { high: 3, medium: 2, low: 1 }
+
+function mergeActionItems(lists: ActionItem[][]): ActionItem[] {
+  return mergeBy(lists, (item: ActionItem) => item.task, (existing, candidate) => ({
+    ...existing,
+    owner: isUnknown(existing.owner) ? candidate.owner : existing.owner,
+    deadline: isUnknown(existing.deadline) ? candidate.deadline : existing.deadline,
+    priority: PRIORITY_RANK[candidate.priority] > PRIORITY_RANK[existing.priority]
+      ? candidate.priority
+      : existing.priority,
+    successCriteria: existing.successCriteria || candidate.successCriteria,
+    sources: mergeSpans((existing.sources || []).concat(candidate.sources || [])),
+  }))
+}
+
+// Keep the first occurrence of each item; when a near-duplicate shows up,
+// let `combine` fill in details the first occurrence was missing
+function mergeBy<T>(lists: T[][], keyOf: (item: T) => string, combine?: (existing: T, candidate: T) => T): T[] {
+  const merged: T[] = []
+  const keys: string[][] = []
+
+  for (const list of lists) {
+    for (const item of list) {
+      const tokens = tokenize(keyOf(item))
+      const duplicateIndex = keys.findIndex(existing => isNearDuplicate(existing, tokens))
+
+      if (duplicateIndex === -1) {
+        merged.push(item)
+        keys.push(tokens)
+      } else if (combine) {
+        merged[duplicateIndex] = combine(merged[duplicateIndex], item)
+      }
+    }
+  }
+
+  return merged
+}
+
+// Letters and digits of any script, so accented words stay whole (the
+// es5 target needs the constructor for the u flag)
+const TOKEN = new RegExp('[\\p{L}\\p{N}]+', 'gu')
+
+function tokenize(value: string): string[] {
+  return value.toLowerCase().match(TOKEN) || []
+}
+
+function isNearDuplicate(a: string[], b: string[]): boolean {
+  if (a.length === 0 || b.length === 0) {
+    return a.length === b.length
+  }
+
+  const setA: Record<string, boolean> = {}
+  a.forEach(token => { setA[token] = true })
+
+  const setB: Record<string, boolean> = {}
+  b.forEach(token => { setB[token] = true })
+
+  const uniqueA = Object.keys(setA)
+  const uniqueB = Object.keys(setB)
+  const shared = uniqueA.filter(token => setB[token]).length
+  const union = uniqueA.length + uniqueB.length - shared
+
+  return shared / union >= 0.8
+}
+
+// Structured items are deduplicated by their first field, e.g. the incident
+function mergeCustomSections(sections: Array<CustomSections | undefined>): CustomSections | undefined {
+  const present = sections.filter((section): section is CustomSections => Boolean(section))
+  if (present.length === 0) {
+    return undefined
+  }
+
+  const merged: CustomSections = {}
+  const ids = present.flatMap(section => Object.keys(section))
+  ids.filter((id, index) => ids.indexOf(id) === index).forEach(id => {
+    merged[id] = mergeBy(
+      present.map(section => section[id] || []),
+      (item: CustomSectionItem) => (typeof item === 'string' ? item : Object.values(item)[0] || '')
+    )
+  })
+  return merged
+}
+
+function mergeMeetingTypeSections(
+  sections: Array<MeetingTypeSections | undefined>
+): MeetingTypeSections | undefined {
+  const present = sections.filter((section): section is MeetingTypeSections => Boolean(section))
+  if (present.length === 0) {
+    return undefined
+  }
+
+  // Every chunk is summarized with the same meeting type
+  return present.reduce((result, section) => {
+    if (result.kind === 'standup' && section.kind === 'standup') {
+      return { ...result, updates: mergeStandupUpdates(result.updates.concat(section.updates)) }
+    }
+    if (result.kind === 'sprint-planning' && section.kind === 'sprint-planning') {
+      return {
+        ...result,
+        sprintGoal: isUnknown(result.sprintGoal) ? section.sprintGoal : result.sprintGoal,
+        committedScope: mergeStrings([result.committedScope, section.committedScope]),
+        capacity: isUnknown(result.capacity) ? section.capacity : result.capacity,
+        deferredItems: mergeStrings([result.deferredItems, section.deferredItems]),
+      }
+    }
+    if (result.kind === 'retrospective' && section.kind === 'retrospective') {
+      return {
+        ...result,
+        wentWell: mergeStrings([result.wentWell, section.wentWell]),
+        toImprove: mergeStrings([result.toImprove, section.toImprove]),
+        experiments: mergeStrings([result.experiments, section.experiments]),
+      }
+    }
+    if (result.kind === 'incident-postmortem' && section.kind === 'incident-postmortem') {
+      return {
+        ...result,
+        timeline: mergeBy([result.timeline, section.timeline], event => `${event.time} ${event.event}`),
+        impact: isUnknown(result.impact) ? section.impact : result.impact,
+        rootCause: isUnknown(result.rootCause) ? section.rootCause : result.rootCause,
+        remediation: mergeStrings([result.remediation, section.remediation]),
+      }
+    }
+    if (result.kind === 'one-on-one' && section.kind === 'one-on-one') {
+      return {
+        ...result,
+        topics: mergeStrings([result.topics, section.topics]),
+        feedback: mergeStrings([result.feedback, section.feedback]),
+        growthGoals: mergeStrings([result.growthGoals, section.growthGoals]),
+      }
+    }
+    return result
+  })
+}
+
+function mergeStandupUpdates(updates: StandupUpdate[]): StandupUpdate[] {
+  const byPerson: Record<string, StandupUpdate> = {}
+  const order: string[] = []
+
+  for (const update of updates) {
+    const key = update.person.toLowerCase()
+    const existing = byPerson[key]
+    if (!existing) {
+      byPerson[key] = update
+      order.push(key)
+      continue
+    }
+    byPerson[key] = {
+      person: existing.person,
+      yesterday: mergeStrings([existing.yesterday, update.yesterday]),
+      today: mergeStrings([existing.today, update.today]),
+      blockers: mergeStrings([existing.blockers, update.blockers]),
+    }
+  }
+
+  return order.map(key => byPerson[key])
+}
+
+function isUnknown(value: string | undefined): boolean {
+  return !value || value.trim().toUpperCase() === 'TBD'
+}
+
+// What the heuristics put in an empty list, in every report language
+const NO_BLOCKERS_PLACEHOLDERS = SUPPORTED_LANGUAGES.map(language => HEURISTIC_RULES[language].noBlockers)
+const FOLLOW_UP_PLACEHOLDERS = SUPPORTED_LANGUAGES.map(language => HEURISTIC_RULES[language].followUpOnActions)
+
+function withoutPlaceholder(items: string[], placeholders: string[]): string[] {
+  const filtered = items.filter(item => placeholders.indexOf(item) === -1)
+  return filtered.length > 0 ? filtered : items
+}
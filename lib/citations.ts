@@ -0,0 +1,227 @@
+import type { CitedList, SourceCitations, SourceSpan, SummaryOutput } from './ai'
+
+export const CITED_LISTS: CitedList[] = ['progressUpdates', 'currentBlockers', 'openQuestions']
+
+export function getCitedList(summary: Pick<SummaryOutput, 'openQuestions' | 'developmentTeamSections'>, list: CitedList): string[] {
+  switch (list) {
+    case 'progressUpdates':
+      return summary.developmentTeamSections.keyDecisionsAndProgress.progressUpdates
+    case 'currentBlockers':
+      return summary.developmentTeamSections.blockersAndNextSteps.currentBlockers
+    case 'openQuestions':
+      return summary.openQuestions
+  }
+}
+
+// Find a quote from the model in the notes. Case and whitespace differences
+// are tolerated, since models rarely reproduce line breaks exactly; `offset`
+// shifts the span when `text` is one chunk of the full notes.
+export function locateQuote(text: string, quote: string, offset = 0): SourceSpan | null {
+  const needle = normalize(quote.replace(/^["'“”\s.…]+|["'“”\s.…]+$/g, '')).text
+  if (needle.length < 3) {
+    return null
+  }
+
+  const haystack = normalize(text)
+  const index = haystack.text.indexOf(needle)
+  if (index === -1) {
+    return null
+  }
+
+  return {
+    start: offset + haystack.positions[index],
+    end: offset + haystack.positions[index + needle.length - 1] + 1,
+  }
+}
+
+export function locateQuotes(text: string, quotes: string[] | undefined, offset = 0): SourceSpan[] {
+  const spans: SourceSpan[] = []
+  for (const quote of quotes || []) {
+    const span = locateQuote(text, quote, offset)
+    if (span) {
+      spans.push(span)
+    }
+  }
+  return mergeSpans(spans)
+}
+
+// Lowercase and collapse whitespace, remembering where each character came from
+function normalize(value: string): { text: string; positions: number[] } {
+  let text = ''
+  const positions: number[] = []
+
+  for (let index = 0; index < value.length; index++) {
+    const char = value[index]
+    if (/\s/.test(char)) {
+      if (text.length === 0 || text[text.length - 1] === ' ') continue
+      text += ' '
+    } else {
+      text += char.toLowerCase()
+    }
+    positions.push(index)
+  }
+
+  if (text.endsWith(' ')) {
+    text = text.slice(0, -1)
+    positions.pop()
+  }
+  return { text, positions }
+}
+
+const STOP_WORDS = [
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'will', 'are', 'was', 'were', 'has', 'have', 'had',
+  'but', 'not', 'our', 'their', 'they', 'them', 'into', 'about', 'been', 'its', 'all', 'any', 'can', 'who',
+  'what', 'when', 'should', 'would', 'could', 'need', 'needs',
+]
+
+// Letters and digits of any script, so "reunión" and "Größe" stay whole.
+// A literal with the u flag doesn't compile for the es5 target.
+const WORD = new RegExp('[\\p{L}\\p{N}]+', 'gu')
+
+export function contentWords(value: string): string[] {
+  const words: string[] = value.toLowerCase().match(WORD) || []
+  return words.filter((word, index) => word.length > 2 && STOP_WORDS.indexOf(word) === -1 && words.indexOf(word) === index)
+}
+
+// Sentence- or line-sized pieces of the notes, with their offsets
+function segmentNotes(input: string): SourceSpan[] {
+  const segments: SourceSpan[] = []
+  const pattern = /[^\n.!?]+[.!?]?/g
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(input)) !== null) {
+    const leading = match[0].length - match[0].replace(/^\s+/, '').length
+    const trimmed = match[0].trim()
+    if (trimmed.length > 0) {
+      const start = match.index + leading
+      segments.push({ start, end: start + trimmed.length })
+    }
+  }
+  return segments
+}
+
+// Fallback for items the model gave no usable quote for (and for the text
+// parser and demo paths): the sentence sharing the most content words.
+export function findSupportingSpans(input: string, itemText: string): SourceSpan[] {
+  const words = contentWords(itemText)
+  if (words.length === 0) {
+    return []
+  }
+
+  let best: SourceSpan | null = null
+  let bestShared = 0
+  for (const segment of segmentNotes(input)) {
+    const segmentWords = contentWords(input.slice(segment.start, segment.end))
+    const shared = words.filter(word => segmentWords.indexOf(word) !== -1).length
+    if (shared > bestShared) {
+      best = segment
+      bestShared = shared
+    }
+  }
+
+  // A single shared word is too weak to call it the source
+  return best && bestShared >= 2 && bestShared / words.length >= 0.4 ? [best] : []
+}
+
+// Keep only spans that really point into the notes, sorted and de-overlapped
+export function verifySpans(input: string, spans: unknown): SourceSpan[] {
+  if (!Array.isArray(spans)) {
+    return []
+  }
+
+  const valid = spans.filter((span): span is SourceSpan =>
+    Boolean(span) &&
+    Number.isInteger(span.start) &&
+    Number.isInteger(span.end) &&
+    span.start >= 0 &&
+    span.end <= input.length &&
+    span.start < span.end &&
+    input.slice(span.start, span.end).trim().length > 0
+  )
+  return mergeSpans(valid.map(span => ({ start: span.start, end: span.end })))
+}
+
+export function mergeSpans(spans: SourceSpan[]): SourceSpan[] {
+  const sorted = spans.slice().sort((a, b) => a.start - b.start || a.end - b.end)
+  const merged: SourceSpan[] = []
+
+  for (const span of sorted) {
+    const last = merged[merged.length - 1]
+    if (last && span.start <= last.end) {
+      last.end = Math.max(last.end, span.end)
+    } else {
+      merged.push({ ...span })
+    }
+  }
+  return merged
+}
+
+function citeOrGround(input: string, spans: unknown, itemText: string): SourceSpan[] {
+  const verified = verifySpans(input, spans)
+  return verified.length > 0 ? verified : findSupportingSpans(input, itemText)
+}
+
+// Final pass over a summary: check every span against the notes and ground
+// any item that has none, so every cited item points at real text
+export function attachCitations(summary: SummaryOutput, input: string): SummaryOutput {
+  const sections = summary.developmentTeamSections
+  const citeAction = <T extends { task: string; sources?: SourceSpan[] }>(item: T): T => ({
+    ...item,
+    sources: citeOrGround(input, item.sources, item.task),
+  })
+
+  const citations = {} as SourceCitations
+  CITED_LISTS.forEach(list => {
+    citations[list] = getCitedList(summary, list).map((item, index) =>
+      citeOrGround(input, summary.citations?.[list]?.[index], item)
+    )
+  })
+
+  return {
+    ...summary,
+    actionItems: summary.actionItems.map(citeAction),
+    developmentTeamSections: {
+      ...sections,
+      keyDecisionsAndProgress: {
+        ...sections.keyDecisionsAndProgress,
+        decisions: sections.keyDecisionsAndProgress.decisions.map(decision => ({
+          ...decision,
+          sources: citeOrGround(input, decision.sources, decision.decision),
+        })),
+      },
+      actionItemsAndOwnership: sections.actionItemsAndOwnership.map(citeAction),
+    },
+    citations,
+  }
+}
+
+// Move spans found in one copy of the notes onto another that differs only
+// in whitespace; spans that can't be found are dropped
+export function remapCitations(summary: SummaryOutput, from: string, to: string): SummaryOutput {
+  const remap = (spans: SourceSpan[] | undefined): SourceSpan[] =>
+    mergeSpans((spans || []).flatMap(span => {
+      const moved = locateQuote(to, from.slice(span.start, span.end))
+      return moved ? [moved] : []
+    }))
+  const remapItem = <T extends { sources?: SourceSpan[] }>(item: T): T => ({ ...item, sources: remap(item.sources) })
+  const sections = summary.developmentTeamSections
+
+  const citations = {} as SourceCitations
+  CITED_LISTS.forEach(list => {
+    citations[list] = (summary.citations?.[list] || []).map(remap)
+  })
+
+  return {
+    ...summary,
+    actionItems: summary.actionItems.map(remapItem),
+    developmentTeamSections: {
+      ...sections,
+      keyDecisionsAndProgress: {
+        ...sections.keyDecisionsAndProgress,
+        decisions: sections.keyDecisionsAndProgress.decisions.map(remapItem),
+      },
+      actionItemsAndOwnership: sections.actionItemsAndOwnership.map(remapItem),
+    },
+    citations,
+  }
+}
@@ -0,0 +1,222 @@
+import type { RedactionCategory } from './ai'
+import { isRedactionCategory, REDACTION_CATEGORIES } from './redaction'
+
+// Server-side settings for summarization, read from the environment.
+// The defaults are safe to import from client components.
+
+export const MIN_INPUT_CHARS = 10
+export const DEFAULT_MAX_INPUT_CHARS = 50000
+export const DEFAULT_CHUNK_SIZE = 6000
+export const DEFAULT_CHUNK_OVERLAP = 400
+export const DEFAULT_SUMMARY_CACHE_SIZE = 100
+export const DEFAULT_SUMMARY_CACHE_TTL_HOURS = 24
+export const DEFAULT_LLM_TIMEOUT_MS = 60000
+export const DEFAULT_LLM_MAX_RETRIES = 2
+export const DEFAULT_MEETING_STORE_FILE = '.data/meetings.json'
+export const DEFAULT_RETENTION_KEEP_MEETINGS = 10
+export const DEFAULT_RETENTION_KEEP_DAYS = 90
+export const DEFAULT_RETENTION_RESTORE_DAYS = 7
+
+export interface InputLimits {
+  minInputChars: number
+  maxInputChars: number
+  chunkSize: number
+  chunkOverlap: number
+}
+
+export function getInputLimits(): InputLimits {
+  const chunkSize = readPositiveInt(process.env.SUMMARY_CHUNK_SIZE, DEFAULT_CHUNK_SIZE)
+
+  return {
+    minInputChars: MIN_INPUT_CHARS,
+    maxInputChars: readPositiveInt(process.env.MAX_INPUT_CHARS, DEFAULT_MAX_INPUT_CHARS),
+    chunkSize,
+    // Overlap must stay well below the chunk size or chunking never advances
+    chunkOverlap: Math.min(
+      readPositiveInt(process.env.SUMMARY_CHUNK_OVERLAP, DEFAULT_CHUNK_OVERLAP),
+      Math.floor(chunkSize / 2)
+    ),
+  }
+}
+
+// REDACTION_CATEGORIES: comma-separated detectors to run before notes are
+// sent to a provider ("none" turns redaction off); all of them by default
+export function getRedactionCategories(): RedactionCategory[] {
+  const value = process.env.REDACTION_CATEGORIES?.trim()
+  if (!value) {
+    return REDACTION_CATEGORIES
+  }
+  if (value.toLowerCase() === 'none') {
+    return []
+  }
+
+  const names = value.split(',').map(name => name.trim().toLowerCase()).filter(name => name.length > 0)
+  const unknown = names.filter(name => !isRedactionCategory(name))
+  if (unknown.length > 0) {
+    console.warn(`Ignoring unknown REDACTION_CATEGORIES: ${unknown.join(', ')}`)
+  }
+  return names.filter(isRedactionCategory)
+}
+
+// LLM_TIMEOUT_MS and LLM_MAX_RETRIES bound each provider call (see
+// lib/providers/retry)
+export interface ProviderCallSettings {
+  timeoutMs: number // per attempt; for streams, the longest gap between chunks
+  maxRetries: number // extra attempts after a retryable failure
+}
+
+export function getProviderCallSettings(): ProviderCallSettings {
+  const retries = process.env.LLM_MAX_RETRIES ? parseInt(process.env.LLM_MAX_RETRIES, 10) : NaN
+  return {
+    timeoutMs: readPositiveInt(process.env.LLM_TIMEOUT_MS, DEFAULT_LLM_TIMEOUT_MS),
+    // 0 is allowed here: it turns retries off
+    maxRetries: Number.isFinite(retries) && retries >= 0 ? retries : DEFAULT_LLM_MAX_RETRIES,
+  }
+}
+
+export interface DemoSettings {
+  delayMs: number // pause before demo output is returned, to show the progress UI
+  seed: string // changes the choices the notes don't decide, such as some priorities
+}
+
+// DEMO_DELAY_MS (default 0) and DEMO_SEED; the same notes, seed and meeting
+// date always give the same demo output
+export function getDemoSettings(): DemoSettings {
+  return {
+    delayMs: readPositiveInt(process.env.DEMO_DELAY_MS, 0),
+    seed: process.env.DEMO_SEED || 'demo',
+  }
+}
+
+export type BudgetPeriod = 'day' | 'week' | 'month'
+export type BudgetAction = 'refuse' | 'downgrade'
+
+export interface BudgetSettings {
+  caps: Partial<Record<BudgetPeriod, number>> // USD of estimated cost; unset periods have no cap
+  action: BudgetAction // what happens to new summaries once a cap is reached
+  fallbackModel?: string // used by "downgrade"; defaults to the provider's cheapest model
+}
+
+// BUDGET_DAILY_USD, BUDGET_WEEKLY_USD and BUDGET_MONTHLY_USD cap the
+// estimated provider spend per UTC day, week (from Monday) and month
+export function getBudgetSettings(): BudgetSettings {
+  const caps: Partial<Record<BudgetPeriod, number>> = {}
+  const daily = readPositiveNumber(process.env.BUDGET_DAILY_USD)
+  const weekly = readPositiveNumber(process.env.BUDGET_WEEKLY_USD)
+  const monthly = readPositiveNumber(process.env.BUDGET_MONTHLY_USD)
+  if (daily !== undefined) caps.day = daily
+  if (weekly !== undefined) caps.week = weekly
+  if (monthly !== undefined) caps.month = monthly
+
+  const value = (process.env.BUDGET_ACTION || 'refuse').trim().toLowerCase()
+  const action: BudgetAction = value === 'downgrade' ? 'downgrade' : 'refuse'
+  if (value !== action) {
+    console.warn(`Unknown BUDGET_ACTION "${value}", refusing summaries over budget`)
+  }
+
+  return { caps, action, fallbackModel: process.env.BUDGET_FALLBACK_MODEL?.trim() || undefined }
+}
+
+export type UsageLedgerKind = 'memory' | 'database'
+
+// USAGE_LEDGER picks where token usage is totaled: "memory" (the default,
+// per server process) or "database" (the llm_usage table)
+export function getUsageLedgerKind(): UsageLedgerKind {
+  const value = (process.env.USAGE_LEDGER || 'memory').trim().toLowerCase()
+  if (value !== 'memory' && value !== 'database') {
+    console.warn(`Unknown USAGE_LEDGER "${value}", keeping usage in memory`)
+    return 'memory'
+  }
+  return value
+}
+
+export type SummaryCacheKind = 'memory' | 'database' | 'off'
+
+export interface SummaryCacheSettings {
+  kind: SummaryCacheKind
+  maxEntries: number // in-memory cache only
+  ttlHours: number
+}
+
+// SUMMARY_CACHE picks where finished summaries are kept: "memory" (the
+// default), "database" or "off"
+export function getSummaryCacheSettings(): SummaryCacheSettings {
+  const value = (process.env.SUMMARY_CACHE || 'memory').trim().toLowerCase()
+  const kind: SummaryCacheKind = value === 'database' || value === 'off' ? value : 'memory'
+  if (value !== kind) {
+    console.warn(`Unknown SUMMARY_CACHE "${value}", using the in-memory cache`)
+  }
+
+  return {
+    kind,
+    maxEntries: readPositiveInt(process.env.SUMMARY_CACHE_SIZE, DEFAULT_SUMMARY_CACHE_SIZE),
+    ttlHours: readPositiveInt(process.env.SUMMARY_CACHE_TTL_HOURS, DEFAULT_SUMMARY_CACHE_TTL_HOURS),
+  }
+}
+
+export type MeetingStoreKind = 'database' | 'file' | 'memory'
+
+export interface MeetingStoreSettings {
+  kind: MeetingStoreKind
+  file: string // file store only
+}
+
+// MEETING_STORE picks where saved meetings and their reports live:
+// "database" (the default, Supabase), "file" (a JSON file at
+// MEETING_STORE_FILE) or "memory" (per server process, for tests)
+export function getMeetingStoreSettings(): MeetingStoreSettings {
+  const value = (process.env.MEETING_STORE || 'database').trim().toLowerCase()
+  const kind: MeetingStoreKind = value === 'file' || value === 'memory' ? value : 'database'
+  if (value !== kind) {
+    console.warn(`Unknown MEETING_STORE "${value}", saving meetings to the database`)
+  }
+
+  return { kind, file: process.env.MEETING_STORE_FILE?.trim() || DEFAULT_MEETING_STORE_FILE }
+}
+
+// Which saved meetings a retention run moves to recently deleted
+export type RetentionPolicy =
+  | { kind: 'count'; keepMeetings: number } // all but the newest keepMeetings
+  | { kind: 'days'; keepDays: number } // those saved more than keepDays ago
+  | { kind: 'forever' } // none
+
+export interface RetentionSettings {
+  policy: RetentionPolicy
+  restoreDays: number // how long deleted meetings can be restored before they are purged
+}
+
+// RETENTION_POLICY is "count" (the default, RETENTION_KEEP_MEETINGS newest
+// meetings), "days" (meetings from the last RETENTION_KEEP_DAYS days) or
+// "forever". Applied by the maintenance route, see lib/retention.
+export function getRetentionSettings(): RetentionSettings {
+  const value = (process.env.RETENTION_POLICY || 'count').trim().toLowerCase()
+  let policy: RetentionPolicy
+  if (value === 'days') {
+    policy = { kind: 'days', keepDays: readPositiveInt(process.env.RETENTION_KEEP_DAYS, DEFAULT_RETENTION_KEEP_DAYS) }
+  } else if (value === 'forever') {
+    policy = { kind: 'forever' }
+  } else {
+    if (value !== 'count') {
+      console.warn(`Unknown RETENTION_POLICY "${value}", keeping the newest meetings`)
+    }
+    policy = { kind: 'count', keepMeetings: readPositiveInt(process.env.RETENTION_KEEP_MEETINGS, DEFAULT_RETENTION_KEEP_MEETINGS) }
+  }
+
+  return { policy, restoreDays: readPositiveInt(process.env.RETENTION_RESTORE_DAYS, DEFAULT_RETENTION_RESTORE_DAYS) }
+}
+
+// MAINTENANCE_SECRET guards the maintenance routes; CRON_SECRET is accepted
+// too, as Vercel Cron sends it. Unset means maintenance can't be triggered.
+export function getMaintenanceSecret(): string | undefined {
+  return process.env.MAINTENANCE_SECRET?.trim() || process.env.CRON_SECRET?.trim() || undefined
+}
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = value ? parseInt(value, 10) : NaN
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+function readPositiveNumber(value: string | undefined): number | undefined {
+  const parsed = value ? parseFloat(value) : NaN
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined
+}
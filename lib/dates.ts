@@ -0,0 +1,329 @@
+import type { ResolvedDate, SummaryOutput } from './ai'
+
+// Resolves free-form deadlines ("next Friday", "EOW", "Q2 2024") to ISO dates
+// relative to the meeting date. Pure date arithmetic in UTC, so it behaves the
+// same on the server and in the browser.
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+]
+
+const UNSPECIFIED = /^(tbd|tba|tbc|n\/?a|none|unknown|not set|no deadline|-+)?$/i
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/
+
+export function isISODate(value: unknown): value is string {
+  if (typeof value !== 'string') return false
+  const match = value.match(ISO_DATE)
+  if (!match) return false
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])))
+  return formatISODate(date) === value
+}
+
+export function todayISODate(): string {
+  const now = new Date()
+  return formatISODate(new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate())))
+}
+
+function parseISODate(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day))
+}
+
+function formatISODate(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS)
+}
+
+function addMonths(date: Date, months: number): Date {
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1))
+  const lastDay = endOfMonth(target).getUTCDate()
+  return new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth(), Math.min(date.getUTCDate(), lastDay)))
+}
+
+function endOfMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0))
+}
+
+// Monday of the week containing `date`
+function startOfWeek(date: Date): Date {
+  return addDays(date, -((date.getUTCDay() + 6) % 7))
+}
+
+// The next `weekday` on or after `date`
+function upcomingWeekday(date: Date, weekday: number): Date {
+  return addDays(date, (weekday - date.getUTCDay() + 7) % 7)
+}
+
+// Full names and prefixes of at least three letters ("fri", "thurs")
+function weekdayIndex(word: string): number {
+  return WEEKDAYS.findIndex(weekday => weekday === word || (word.length >= 3 && weekday.startsWith(word)))
+}
+
+function monthIndex(word: string): number {
+  return MONTHS.findIndex(month => month === word || (word.length >= 3 && month.startsWith(word)))
+}
+
+// A month/day without a year means its next occurrence on or after the meeting
+function upcomingMonthDay(meeting: Date, month: number, day: number): Date {
+  const thisYear = new Date(Date.UTC(meeting.getUTCFullYear(), month, day))
+  return thisYear.getTime() >= meeting.getTime()
+    ? thisYear
+    : new Date(Date.UTC(meeting.getUTCFullYear() + 1, month, day))
+}
+
+function isValidDay(year: number, month: number, day: number): boolean {
+  return month >= 0 && month < 12 && day >= 1 && day <= endOfMonth(new Date(Date.UTC(year, month, 1))).getUTCDate()
+}
+
+type Resolution = { start: Date; end?: Date; confidence: number }
+
+// Words around the date that don't change its meaning
+function stripFiller(phrase: string): string {
+  return phrase
+    .toLowerCase()
+    .replace(/[()]/g, ' ')
+    .replace(/\b(no later than|by the|by|before|due|on|until|till|for|at the latest)\b/g, ' ')
+    .replace(/\b(at )?\d{1,2}(:\d{2})?\s*(am|pm)\b/g, ' ')
+    .replace(/\b(cob|close of business)\b/g, 'eod')
+    .replace(/[.,]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function resolvePhrase(text: string, meeting: Date): Resolution | null {
+  let match: RegExpMatchArray | null
+
+  if ((match = text.match(/^(\d{4})-(\d{2})-(\d{2})$/))) {
+    const [year, month, day] = [Number(match[1]), Number(match[2]) - 1, Number(match[3])]
+    return isValidDay(year, month, day) ? { start: new Date(Date.UTC(year, month, day)), confidence: 1 } : null
+  }
+
+  if (/^(today|tonight|eod|end of (the )?day|today eod)$/.test(text)) {
+    return { start: meeting, confidence: 0.95 }
+  }
+  if (/^(asap|immediately|right away|urgent(ly)?)$/.test(text)) {
+    return { start: meeting, confidence: 0.4 }
+  }
+  if (/^(tomorrow|tmrw|tomorrow eod)$/.test(text)) {
+    return { start: addDays(meeting, 1), confidence: 0.95 }
+  }
+
+  // End of this/next week: Friday, or the meeting day itself at the weekend
+  if ((match = text.match(/^(eow|end of (the )?week|this week|end of (the )?next week|next week|eonw)$/))) {
+    const nextWeek = /next|eonw/.test(text)
+    const monday = addDays(startOfWeek(meeting), nextWeek ? 7 : 0)
+    const friday = addDays(monday, 4)
+    if (/^(this week|next week)$/.test(text)) {
+      const start = nextWeek ? monday : meeting
+      return { start, end: friday.getTime() >= start.getTime() ? friday : start, confidence: 0.8 }
+    }
+    return { start: friday.getTime() >= meeting.getTime() ? friday : meeting, confidence: 0.85 }
+  }
+
+  if ((match = text.match(/^(eom|end of (the )?month|this month|next month|end of (the )?next month)$/))) {
+    const nextMonth = text.indexOf('next') !== -1
+    const first = new Date(Date.UTC(meeting.getUTCFullYear(), meeting.getUTCMonth() + (nextMonth ? 1 : 0), 1))
+    if (/^(this|next) month$/.test(text)) {
+      return { start: nextMonth ? first : meeting, end: endOfMonth(first), confidence: 0.75 }
+    }
+    return { start: endOfMonth(first), confidence: 0.85 }
+  }
+
+  // "friday", "this fri", "next friday", "friday next week", "end of day friday"
+  if ((match = text.match(/^(?:eod |end of day )?(this |next |coming )?([a-z]+)( next week| eod)?$/))) {
+    const weekday = weekdayIndex(match[2])
+    if (weekday !== -1) {
+      const upcoming = upcomingWeekday(meeting, weekday)
+      if (match[1] === 'next ' || match[3] === ' next week') {
+        // Read "next Friday" as the Friday of next week
+        return { start: addDays(startOfWeek(meeting), 7 + ((weekday + 6) % 7)), confidence: 0.7 }
+      }
+      return { start: upcoming, confidence: 0.85 }
+    }
+  }
+
+  // "in 3 days", "within 2 weeks", "2 weeks", "in a month"
+  if ((match = text.match(/^(?:in |within )?(a|an|one|two|three|four|five|six|\d+) (day|business day|week|month)s?( from now)?$/))) {
+    const words: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6 }
+    const count = words[match[1]] || Number(match[1])
+    const confidence = /^(in|within) /.test(text) || match[3] ? 0.9 : 0.75
+    if (match[2] === 'month') return { start: addMonths(meeting, count), confidence }
+    if (match[2] === 'week') return { start: addDays(meeting, count * 7), confidence }
+    if (match[2] === 'business day') return { start: addBusinessDays(meeting, count), confidence }
+    return { start: addDays(meeting, count), confidence }
+  }
+
+  // "q2", "q2 2024", "end of q2", "eoq"
+  if ((match = text.match(/^(end of )?(?:q([1-4])|(?:this )?quarter|eoq)(?:\s*(?:fy)?'?(\d{2}|\d{4}))?$/))) {
+    const quarter = match[2] ? Number(match[2]) - 1 : Math.floor(meeting.getUTCMonth() / 3)
+    let year = match[3] ? normalizeYear(match[3]) : meeting.getUTCFullYear()
+    if (!match[3] && endOfMonth(new Date(Date.UTC(year, quarter * 3 + 2, 1))).getTime() < meeting.getTime()) {
+      year += 1
+    }
+    const start = new Date(Date.UTC(year, quarter * 3, 1))
+    const end = endOfMonth(new Date(Date.UTC(year, quarter * 3 + 2, 1)))
+    return match[1] || text === 'eoq' ? { start: end, confidence: 0.8 } : { start, end, confidence: 0.7 }
+  }
+
+  // "march 14", "march 14th 2025", "14 march", "mar 14, 2025"
+  if ((match = text.match(/^(?:[a-z]+day )?([a-z]+) (\d{1,2})(?:st|nd|rd|th)?(?: (\d{4}))?$/)) ||
+      (match = text.match(/^(?:[a-z]+day )?(\d{1,2})(?:st|nd|rd|th)? (?:of )?([a-z]+)(?: (\d{4}))?$/))) {
+    const monthFirst = isNaN(Number(match[1]))
+    const month = monthIndex(monthFirst ? match[1] : match[2])
+    const day = Number(monthFirst ? match[2] : match[1])
+    if (month !== -1) {
+      if (match[3]) {
+        const year = Number(match[3])
+        return isValidDay(year, month, day) ? { start: new Date(Date.UTC(year, month, day)), confidence: 0.95 } : null
+      }
+      return isValidDay(meeting.getUTCFullYear(), month, day) || (month === 1 && day === 29)
+        ? { start: upcomingMonthDay(meeting, month, day), confidence: 0.9 }
+        : null
+    }
+  }
+
+  // "3/14" or "3/14/2025" (read as month/day, the common US notation)
+  if ((match = text.match(/^(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?$/))) {
+    const month = Number(match[1]) - 1
+    const day = Number(match[2])
+    if (match[3]) {
+      const year = normalizeYear(match[3])
+      return isValidDay(year, month, day) ? { start: new Date(Date.UTC(year, month, day)), confidence: 0.75 } : null
+    }
+    return isValidDay(meeting.getUTCFullYear(), month, day)
+      ? { start: upcomingMonthDay(meeting, month, day), confidence: 0.7 }
+      : null
+  }
+
+  // "june", "end of june", "june 2025"
+  if ((match = text.match(/^(end of )?([a-z]+)(?: (\d{4}))?$/))) {
+    const month = monthIndex(match[2])
+    if (month !== -1 && match[2].length >= 3) {
+      const first = match[3]
+        ? new Date(Date.UTC(Number(match[3]), month, 1))
+        : upcomingMonthStart(meeting, month)
+      return match[1] ? { start: endOfMonth(first), confidence: 0.8 } : { start: first, end: endOfMonth(first), confidence: 0.65 }
+    }
+  }
+
+  return null
+}
+
+function upcomingMonthStart(meeting: Date, month: number): Date {
+  const year = month < meeting.getUTCMonth() ? meeting.getUTCFullYear() + 1 : meeting.getUTCFullYear()
+  return new Date(Date.UTC(year, month, 1))
+}
+
+function normalizeYear(value: string): number {
+  return value.length === 2 ? 2000 + Number(value) : Number(value)
+}
+
+function addBusinessDays(date: Date, days: number): Date {
+  let result = date
+  let remaining = days
+  while (remaining > 0) {
+    result = addDays(result, 1)
+    if (result.getUTCDay() !== 0 && result.getUTCDay() !== 6) {
+      remaining--
+    }
+  }
+  return result
+}
+
+// Resolve one deadline phrase against the meeting date (YYYY-MM-DD)
+export function resolveDate(phrase: string | undefined, meetingDate: string): ResolvedDate {
+  const original = (phrase || '').trim()
+  if (UNSPECIFIED.test(original)) {
+    return { original, start: null, end: null, confidence: 0, status: 'unspecified' }
+  }
+
+  const resolution = resolvePhrase(stripFiller(original), parseISODate(meetingDate))
+  if (!resolution) {
+    return { original, start: null, end: null, confidence: 0, status: 'unparseable' }
+  }
+
+  const start = formatISODate(resolution.start)
+  return {
+    original,
+    start,
+    end: resolution.end ? formatISODate(resolution.end) : start,
+    confidence: resolution.confidence,
+    status: 'resolved',
+  }
+}
+
+const DEADLINE_IN_TEXT = new RegExp(
+  '\\b(?:by|before|due|until|no later than)\\s+(' +
+    '(?:end of (?:the )?(?:day|week|month|next week|q[1-4]))|' +
+    '(?:(?:this |next )?(?:' + WEEKDAYS.join('|') + '))(?: next week)?|' +
+    '(?:' + MONTHS.join('|') + ')(?: \\d{1,2}(?:st|nd|rd|th)?)?(?:,? \\d{4})?|' +
+    '\\d{4}-\\d{2}-\\d{2}|\\d{1,2}\\/\\d{1,2}(?:\\/\\d{2,4})?|' +
+    'tomorrow|today|eod|eow|eom|next week|next month|q[1-4](?: \\d{4})?' +
+  ')\\b|\\b(tomorrow|eod|eow|eom|next week|end of (?:the )?week)\\b',
+  'i'
+)
+
+// Pull a deadline phrase out of a sentence, for items found by the heuristic
+// extractors ("Sam to update the docs by Friday" -> "by Friday")
+export function extractDeadlinePhrase(text: string): string | undefined {
+  const match = text.match(DEADLINE_IN_TEXT)
+  return match ? match[0].trim() : undefined
+}
+
+// Resolve every deadline and due date in a summary
+export function resolveDeadlines(summary: SummaryOutput, meetingDate: string): SummaryOutput {
+  const resolveItem = <T extends { deadline?: string }>(item: T): T => ({
+    ...item,
+    resolvedDeadline: resolveDate(item.deadline, meetingDate),
+  })
+  const sections = summary.developmentTeamSections
+
+  return {
+    ...summary,
+    meetingDate,
+    actionItems: summary.actionItems.map(resolveItem),
+    developmentTeamSections: {
+      ...sections,
+      keyDecisionsAndProgress: {
+        ...sections.keyDecisionsAndProgress,
+        decisions: sections.keyDecisionsAndProgress.decisions.map(resolveItem),
+      },
+      actionItemsAndOwnership: sections.actionItemsAndOwnership.map(resolveItem),
+    },
+    followUpReminders: summary.followUpReminders?.map(reminder => ({
+      ...reminder,
+      resolvedDueDate: resolveDate(reminder.dueDate, meetingDate),
+    })),
+  }
+}
+
+const DISPLAY_FORMAT: Intl.DateTimeFormatOptions = { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' }
+
+// Human-readable form for the report, e.g. "Fri, Mar 14, 2025" or a range
+export function formatResolvedDate(resolved: ResolvedDate): string {
+  if (resolved.status === 'unspecified') return 'No deadline set'
+  if (resolved.status === 'unparseable' || !resolved.start) return `Unrecognized date: "${resolved.original}"`
+
+  const start = parseISODate(resolved.start).toLocaleDateString('en-US', DISPLAY_FORMAT)
+  if (!resolved.end || resolved.end === resolved.start) return start
+  return `${start} – ${parseISODate(resolved.end).toLocaleDateString('en-US', DISPLAY_FORMAT)}`
+}
+
+// Plain-text deadline for the copied report; summaries saved before
+// deadlines were resolved only have the phrase
+export function formatDeadline(deadline: string | undefined, resolved: ResolvedDate | undefined): string {
+  if (!resolved) return deadline || 'TBD'
+  if (resolved.status === 'unspecified') return 'Not set'
+  if (resolved.status === 'unparseable') return `${resolved.original} (unrecognized date)`
+  return resolved.original === resolved.start
+    ? formatResolvedDate(resolved)
+    : `${resolved.original} (${formatResolvedDate(resolved)})`
+}
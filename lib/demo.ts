@@ -0,0 +1,160 @@
+import type {
+  ActionItem,
+  Decision,
+  FollowUpReminder,
+  LanguageInfo,
+  MeetingType,
+  RiskItem,
+  RosterMember,
+  SummaryOutput,
+} from './ai'
+import { getDemoSettings } from './config'
+import { extractDeadlinePhrase, resolveDate } from './dates'
+import { extractActionItems, generateProbingQuestions, sentencesMatching, splitSentences } from './heuristics'
+import { HEURISTIC_RULES } from './language'
+import { buildHeuristicTypeSections } from './meetingTypes'
+import { extractOwnerName, findMember } from './roster'
+
+// Demo mode: a full report built from the pasted notes with the heuristic
+// extractors, so names, decisions and blockers come from the text. Choices
+// the notes don't settle are made by a generator seeded from the notes and
+// DEMO_SEED, so the same notes always give the same report.
+
+export interface DemoContext {
+  meetingType: MeetingType
+  meetingDate: string // YYYY-MM-DD
+  language: LanguageInfo
+  roster: RosterMember[]
+  seed: string
+}
+
+export async function generateDemoOutput(
+  input: string,
+  context: Omit<DemoContext, 'seed'>
+): Promise<SummaryOutput> {
+  const { delayMs, seed } = getDemoSettings()
+  if (delayMs > 0) {
+    await new Promise(resolve => setTimeout(resolve, delayMs))
+  }
+  return buildDemoSummary(input, { ...context, seed })
+}
+
+// FNV-1a, so seeding works without crypto
+function hashString(value: string): number {
+  let hash = 0x811c9dc5
+  for (let index = 0; index < value.length; index++) {
+    hash ^= value.charCodeAt(index)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// mulberry32: small, fast and good enough for picking between options
+export function createRandom(seed: string): () => number {
+  let state = hashString(seed)
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let next = Math.imul(state ^ (state >>> 15), 1 | state)
+    next = (next + Math.imul(next ^ (next >>> 7), 61 | next)) ^ next
+    return ((next ^ (next >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function pick<T>(random: () => number, options: T[]): T {
+  return options[Math.floor(random() * options.length)]
+}
+
+const NAME = /^[A-ZÀ-Ý][a-zà-ÿ]+(?: (?:and|y|und) [A-ZÀ-Ý][a-zà-ÿ]+| [A-ZÀ-Ý][a-zà-ÿ]+)?$/
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1)
+}
+
+function includesAny(text: string, keywords: string[]): boolean {
+  const lowerText = text.toLowerCase()
+  return keywords.some(keyword => lowerText.includes(keyword))
+}
+
+export function buildDemoSummary(input: string, context: DemoContext): SummaryOutput {
+  const { meetingType, meetingDate, language, roster } = context
+  const rules = HEURISTIC_RULES[language.source]
+  const phrases = HEURISTIC_RULES[language.output]
+  const random = createRandom(`${context.seed}\n${input}`)
+  const sentences = splitSentences(input)
+
+  const decisionSentences = sentencesMatching(sentences, rules.decisionKeywords).slice(0, 4)
+  const blockers = sentencesMatching(sentences, rules.blockerKeywords).slice(0, 4)
+  const progressUpdates = sentencesMatching(sentences, rules.progressKeywords)
+    .filter(sentence => blockers.indexOf(sentence) === -1)
+    .slice(0, 4)
+  const upcomingItems = sentencesMatching(sentences, rules.upcomingKeywords).slice(0, 4)
+
+  // Decisions are often phrased like tasks ("agreed we will use ..."), so
+  // they are left out of the action items
+  const actionItems: ActionItem[] = extractActionItems(input, language.source, 10)
+    .filter(candidate => !includesAny(candidate, rules.decisionKeywords))
+    .slice(0, 6)
+    .map(candidate => {
+      const [lead, rest] = candidate.split(' → ')
+      const named = rest !== undefined && NAME.test(lead) ? findMember(lead, roster)?.name || lead : undefined
+      const owner = named || extractOwnerName(candidate, roster) || 'TBD'
+      const deadline = extractDeadlinePhrase(candidate)
+      const task = (rest !== undefined ? rest : candidate).replace(deadline || '', '').replace(/[\s.,;]+$/, '').trim()
+      return {
+        task: capitalize(task),
+        owner,
+        deadline,
+        priority: includesAny(candidate, rules.urgentKeywords) ? 'high' : deadline ? 'medium' : pick(random, ['medium', 'low'] as const),
+        successCriteria: phrases.defaultSuccessCriteria,
+      }
+    })
+
+  const decisions: Decision[] = decisionSentences.map(sentence => {
+    const lowerSentence = sentence.toLowerCase()
+    const marker = rules.rationaleMarkers.find(candidate => lowerSentence.indexOf(candidate) > 0)
+    const split = marker ? lowerSentence.indexOf(marker) : -1
+    return {
+      decision: capitalize(split > 0 ? sentence.slice(0, split).trim() : sentence),
+      rationale: split > 0 ? capitalize(sentence.slice(split + (marker as string).length).trim()) : phrases.defaultRationale,
+      impact: includesAny(sentence, rules.urgentKeywords) ? 'high' : pick(random, ['high', 'medium', 'medium', 'low'] as const),
+      owner: extractOwnerName(sentence, roster) || 'TBD',
+      deadline: extractDeadlinePhrase(sentence) || 'TBD',
+    }
+  })
+
+  const riskAssessment: RiskItem[] = blockers.map(blocker => ({
+    risk: blocker,
+    impact: includesAny(blocker, rules.urgentKeywords) ? 'high' : 'medium',
+    probability: pick(random, ['high', 'medium', 'low'] as const),
+    mitigation: phrases.blockerMitigation,
+    owner: extractOwnerName(blocker, roster) || 'TBD',
+  }))
+
+  const followUpReminders: FollowUpReminder[] = []
+  actionItems.forEach(item => {
+    const resolved = resolveDate(item.deadline, meetingDate)
+    if (resolved.status === 'resolved') {
+      followUpReminders.push({ action: item.task, dueDate: (resolved.end || resolved.start) as string, owner: item.owner, type: 'follow-up' })
+    }
+  })
+
+  const keyPoints = sentencesMatching(sentences, rules.keyPointKeywords).slice(0, 4)
+  const nextUp = upcomingItems.length > 0 ? upcomingItems : actionItems.slice(0, 3).map(item => item.task)
+  return {
+    summaryPoints: keyPoints.length > 0 ? keyPoints : sentences.slice(0, 3),
+    actionItems,
+    openQuestions: generateProbingQuestions(input, language),
+    meetingType,
+    developmentTeamSections: {
+      keyDecisionsAndProgress: { decisions, progressUpdates },
+      actionItemsAndOwnership: actionItems,
+      blockersAndNextSteps: {
+        currentBlockers: blockers.length > 0 ? blockers : [phrases.noBlockers],
+        upcomingItems: nextUp.length > 0 ? nextUp : [phrases.followUpOnActions],
+      },
+    },
+    meetingTypeSections: buildHeuristicTypeSections(meetingType, input),
+    riskAssessment,
+    followUpReminders,
+  }
+}
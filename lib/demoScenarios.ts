@@ -0,0 +1,130 @@
+import type { MeetingType } from './ai'
+
+// Named sample meetings for sales demos and UI work, picked with
+// ?scenario=<id> on the page or the summarize routes. Each has a fixed
+// meeting date, so relative deadlines and the demo output never change.
+// Safe to import from client components.
+
+export interface DemoScenario {
+  id: string
+  label: string
+  meetingType: MeetingType
+  meetingDate: string // YYYY-MM-DD
+  notes: string
+}
+
+export const DEMO_SCENARIOS: DemoScenario[] = [
+  {
+    id: 'product-sync',
+    label: 'Weekly product sync',
+    meetingType: 'development-team-meeting',
+    meetingDate: '2024-05-06',
+    notes: [
+      'Weekly product sync',
+      'Attendees: Hannah, Ravi, Julia, Marco',
+      '',
+      'Ravi: finished the search filters, merged to main on Friday.',
+      'Julia: the analytics export is blocked on the data team approving the new schema.',
+      'Marco: started load testing the API gateway.',
+      '',
+      'We decided to ship the search filters behind a flag because support wants to train the team first.',
+      'Agreed to drop the legacy CSV importer next quarter.',
+      '',
+      'Action items:',
+      '- Hannah will write the launch announcement by Thursday',
+      '- Julia to chase the data team about the schema review',
+      '- Marco will share the load test results by Friday',
+      '- Ravi to pair with support on the filter walkthrough',
+    ].join('\n'),
+  },
+  {
+    id: 'standup',
+    label: 'Daily standup',
+    meetingType: 'standup',
+    meetingDate: '2024-05-07',
+    notes: [
+      'Daily standup',
+      'Nina: finished the password reset emails yesterday, today working on the audit log, no blockers.',
+      'Omar: working on the billing retries, blocked on sandbox credentials from the payments provider.',
+      'Lea: completed the iOS build fixes, today starting push notification settings.',
+      '',
+      'Omar will ask the payments provider for sandbox credentials by tomorrow.',
+      'Nina to review Lea\'s notification settings PR.',
+    ].join('\n'),
+  },
+  {
+    id: 'sprint-planning',
+    label: 'Sprint planning',
+    meetingType: 'sprint-planning',
+    meetingDate: '2024-05-13',
+    notes: [
+      'Sprint 22 planning',
+      'Sprint goal: teams can invite guests to shared workspaces.',
+      'Capacity is about 30 points; Sam is on PTO Monday and Tuesday.',
+      '',
+      'Committed scope: guest invite flow, permission checks, invite email template.',
+      'We decided to defer guest analytics to next sprint since the tracking plan is not ready.',
+      'Invite emails depend on the new email service, which is waiting on DNS changes from IT.',
+      '',
+      'Sam will build the guest invite flow.',
+      'Priya to write the permission checks by Friday.',
+      'Alex will follow up with IT about the DNS changes by Wednesday.',
+    ].join('\n'),
+  },
+  {
+    id: 'retrospective',
+    label: 'Sprint retrospective',
+    meetingType: 'retrospective',
+    meetingDate: '2024-05-24',
+    notes: [
+      'Sprint 22 retrospective',
+      'Went well: pairing on the invite flow worked great, and the demo went smoothly.',
+      'To improve: code reviews were slow, some PRs waited three days.',
+      'Problem: flaky end-to-end tests blocked two releases.',
+      '',
+      'Agreed to try a 24-hour review rule next sprint.',
+      'Kim will quarantine the flaky end-to-end tests by Monday.',
+      'Dev to set up a review rotation in the team channel.',
+    ].join('\n'),
+  },
+  {
+    id: 'incident-review',
+    label: 'Incident postmortem',
+    meetingType: 'incident-postmortem',
+    meetingDate: '2024-05-20',
+    notes: [
+      'Postmortem: login outage on May 18',
+      '09:12 alerts fired for failed logins',
+      '09:20 on-call (Grace) saw the identity provider returning timeouts',
+      '09:41 switched traffic to the backup region',
+      '09:50 logins recovered',
+      '',
+      'Impact: about 40 minutes of failed logins for EU customers.',
+      'Root cause: an expired certificate on the identity provider connection, because renewal alerts went to an old mailbox.',
+      '',
+      'We agreed that certificate renewals move to the platform team calendar.',
+      'Grace will add expiry monitoring for all certificates by Friday.',
+      'Tariq to update the on-call runbook with the failover steps.',
+      'Still waiting on the identity provider for their incident report.',
+    ].join('\n'),
+  },
+  {
+    id: 'reunion-equipo',
+    label: 'Reunión de equipo (español)',
+    meetingType: 'development-team-meeting',
+    meetingDate: '2024-05-08',
+    notes: [
+      'Reunión semanal del equipo',
+      'Carlos terminó la migración de la base de datos.',
+      'El despliegue a producción está bloqueado por falta de acceso al servidor nuevo.',
+      'Decidimos lanzar la versión 2 el 15 de junio porque el cliente lo necesita para su campaña.',
+      '',
+      'Marta va a preparar el plan de pruebas.',
+      'Luis tiene que revisar el presupuesto con finanzas.',
+    ].join('\n'),
+  },
+]
+
+export function findDemoScenario(id: string): DemoScenario | undefined {
+  return DEMO_SCENARIOS.find(scenario => scenario.id === id)
+}
@@ -0,0 +1,144 @@
+// Stable codes for why a summary request failed. Routes send them with the
+// message so the UI can react to the kind of failure, not its wording.
+// Safe to import from client components.
+
+export type SummarizeErrorCode =
+  | 'invalid_request'
+  | 'not_found'
+  | 'missing_api_key'
+  | 'invalid_api_key'
+  | 'insufficient_credits'
+  | 'budget_exceeded'
+  | 'rate_limited'
+  | 'provider_overloaded'
+  | 'timeout'
+  | 'cancelled'
+  | 'provider_unreachable'
+  | 'bad_provider_response'
+  | 'internal_error'
+
+export const ERROR_HTTP_STATUS: Record<SummarizeErrorCode, number> = {
+  invalid_request: 400,
+  not_found: 404,
+  missing_api_key: 503,
+  invalid_api_key: 502,
+  insufficient_credits: 402,
+  budget_exceeded: 402,
+  rate_limited: 429,
+  provider_overloaded: 503,
+  timeout: 504,
+  cancelled: 499, // the client closed the request; nobody reads this response
+  provider_unreachable: 502,
+  bad_provider_response: 502,
+  internal_error: 500,
+}
+
+export interface ErrorGuidance {
+  title: string
+  guidance: string
+  retryable: boolean // trying again later may succeed without changing anything
+}
+
+export const ERROR_GUIDANCE: Record<SummarizeErrorCode, ErrorGuidance> = {
+  invalid_request: {
+    title: 'Check your input',
+    guidance: 'Fix the highlighted problem and submit again.',
+    retryable: false,
+  },
+  not_found: {
+    title: 'Meeting not found',
+    guidance: 'The meeting may have been deleted. Load the history again and pick another one.',
+    retryable: false,
+  },
+  missing_api_key: {
+    title: 'No API key configured',
+    guidance: 'Set the API key for the selected provider in the server environment, then restart the app.',
+    retryable: false,
+  },
+  invalid_api_key: {
+    title: 'API key rejected',
+    guidance: 'The provider did not accept the configured key. Check that it is correct and still active.',
+    retryable: false,
+  },
+  insufficient_credits: {
+    title: 'Out of credits',
+    guidance: 'Add credits to the provider account or switch to another provider.',
+    retryable: false,
+  },
+  budget_exceeded: {
+    title: 'Usage budget reached',
+    guidance: 'This deployment has spent its budget for the period. Ask an administrator to raise the cap, or try again after it resets.',
+    retryable: false,
+  },
+  rate_limited: {
+    title: 'Rate limit reached',
+    guidance: 'The provider is limiting requests. Wait a moment before trying again.',
+    retryable: true,
+  },
+  provider_overloaded: {
+    title: 'Provider overloaded',
+    guidance: 'The provider is busy right now. Trying again shortly usually works.',
+    retryable: true,
+  },
+  timeout: {
+    title: 'Request timed out',
+    guidance: 'The provider took too long to answer. Try again, or split very long notes.',
+    retryable: true,
+  },
+  cancelled: {
+    title: 'Request cancelled',
+    guidance: 'The request was cancelled before the summary was ready. Run it again to get one.',
+    retryable: true,
+  },
+  provider_unreachable: {
+    title: 'Provider unreachable',
+    guidance: 'Check the network connection and the configured endpoint URL.',
+    retryable: true,
+  },
+  bad_provider_response: {
+    title: 'Unexpected response',
+    guidance: 'The provider answered in a format that could not be read. Trying again may help.',
+    retryable: true,
+  },
+  internal_error: {
+    title: 'Something went wrong',
+    guidance: 'Try again. If the problem continues, check the server logs.',
+    retryable: true,
+  },
+}
+
+export class SummarizeError extends Error {
+  code: SummarizeErrorCode
+  retryAfterSeconds?: number
+
+  constructor(code: SummarizeErrorCode, message: string, retryAfterSeconds?: number) {
+    super(message)
+    // Keep instanceof working when compiled down to ES5
+    Object.setPrototypeOf(this, SummarizeError.prototype)
+    this.name = 'SummarizeError'
+    this.code = code
+    this.retryAfterSeconds = retryAfterSeconds
+  }
+}
+
+// JSON body of a failed summarize response, and of the stream's error event
+export interface ErrorPayload {
+  error: string
+  code: SummarizeErrorCode
+  retryAfterSeconds?: number
+}
+
+export function toErrorPayload(error: unknown, fallback: string): ErrorPayload {
+  if (error instanceof SummarizeError) {
+    const payload: ErrorPayload = { error: error.message, code: error.code }
+    if (error.retryAfterSeconds !== undefined) {
+      payload.retryAfterSeconds = error.retryAfterSeconds
+    }
+    return payload
+  }
+  return { error: error instanceof Error && error.message ? error.message : fallback, code: 'internal_error' }
+}
+
+export function isErrorCode(value: unknown): value is SummarizeErrorCode {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(ERROR_HTTP_STATUS, value)
+}
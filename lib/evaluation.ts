@@ -0,0 +1,305 @@
+import type { MeetingType, SummaryOutput } from './ai'
+import { contentWords } from './citations'
+
+// Scores summaries against hand-annotated notes (eval/fixtures), so prompt,
+// model and heuristic changes can be measured instead of eyeballed. Used by
+// scripts/eval.ts.
+
+export interface GoldenFixture {
+  id: string
+  description?: string
+  meetingType?: MeetingType // left out to test auto-detection
+  meetingDate: string // YYYY-MM-DD, so relative deadlines resolve the same way every run
+  input: string
+  expected: {
+    actionItems: { task: string; owner?: string }[]
+    decisions: string[]
+    blockers: string[]
+  }
+}
+
+export type EvalSection = 'actionItems' | 'owners' | 'decisions' | 'blockers'
+
+export const EVAL_SECTIONS: EvalSection[] = ['actionItems', 'owners', 'decisions', 'blockers']
+
+export const EVAL_SECTION_LABELS: Record<EvalSection, string> = {
+  actionItems: 'Action items',
+  owners: 'Owners',
+  decisions: 'Decisions',
+  blockers: 'Blockers',
+}
+
+export interface SectionScore {
+  truePositives: number
+  falsePositives: number
+  falseNegatives: number
+  precision: number | null // 0-1; null when nothing was produced because the summary failed
+  recall: number // 0-1
+  f1: number // 0-1
+}
+
+export interface FixtureResult {
+  id: string
+  scores: Record<EvalSection, SectionScore>
+  missed: Record<EvalSection, string[]> // expected but not produced
+  unexpected: Record<EvalSection, string[]> // produced but not expected
+  durationMs: number
+  error?: string // the summary failed; every expected item counts as missed and precision is n/a
+}
+
+export interface EvalRun {
+  label: string
+  provider: string
+  model: string
+  promptVersion: number
+  matchThreshold: number
+  createdAt: string // ISO timestamp
+  fixtures: FixtureResult[]
+  totals: Record<EvalSection, SectionScore> // micro-averaged over all fixtures
+}
+
+// Items match when this share of their content words overlap (Dice
+// coefficient); models paraphrase, so exact matching would score near zero
+export const DEFAULT_MATCH_THRESHOLD = 0.5
+
+const NO_OWNER = ['tbd', 'unassigned', 'unknown', 'team', 'n/a', '']
+
+export function similarity(a: string, b: string): number {
+  const wordsA = contentWords(a)
+  const wordsB = contentWords(b)
+  if (wordsA.length === 0 || wordsB.length === 0) {
+    return 0
+  }
+  const shared = wordsA.filter(word => wordsB.indexOf(word) !== -1).length
+  return (2 * shared) / (wordsA.length + wordsB.length)
+}
+
+// "Sarah" matches "Sarah Chen": one name's words are all in the other
+export function sameOwner(a: string, b: string): boolean {
+  const wordsA = a.toLowerCase().split(/\s+/).filter(Boolean)
+  const wordsB = b.toLowerCase().split(/\s+/).filter(Boolean)
+  if (wordsA.length === 0 || wordsB.length === 0) {
+    return false
+  }
+  const [shorter, longer] = wordsA.length <= wordsB.length ? [wordsA, wordsB] : [wordsB, wordsA]
+  return shorter.every(word => longer.indexOf(word) !== -1)
+}
+
+export function toScore(truePositives: number, falsePositives: number, falseNegatives: number): SectionScore & { precision: number } {
+  // An empty expected list answered with an empty list is a perfect score
+  const precision = truePositives + falsePositives === 0 ? 1 : truePositives / (truePositives + falsePositives)
+  const recall = truePositives + falseNegatives === 0 ? 1 : truePositives / (truePositives + falseNegatives)
+  const f1 = precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall)
+  return { truePositives, falsePositives, falseNegatives, precision, recall, f1 }
+}
+
+interface Matching {
+  score: SectionScore
+  missed: string[]
+  unexpected: string[]
+}
+
+// Pair each expected item with at most one produced item, best pairs first
+function matchItems(expected: string[], produced: string[], matches: (a: string, b: string) => number, threshold: number): Matching {
+  const pairs: { expected: number; produced: number; score: number }[] = []
+  expected.forEach((item, expectedIndex) => {
+    produced.forEach((candidate, producedIndex) => {
+      const score = matches(item, candidate)
+      if (score >= threshold) {
+        pairs.push({ expected: expectedIndex, produced: producedIndex, score })
+      }
+    })
+  })
+  pairs.sort((a, b) => b.score - a.score)
+
+  const usedExpected: boolean[] = []
+  const usedProduced: boolean[] = []
+  let truePositives = 0
+  for (const pair of pairs) {
+    if (usedExpected[pair.expected] || usedProduced[pair.produced]) continue
+    usedExpected[pair.expected] = true
+    usedProduced[pair.produced] = true
+    truePositives++
+  }
+
+  const missed = expected.filter((_, index) => !usedExpected[index])
+  const unexpected = produced.filter((_, index) => !usedProduced[index])
+  return { score: toScore(truePositives, unexpected.length, missed.length), missed, unexpected }
+}
+
+function distinctOwners(owners: (string | undefined)[]): string[] {
+  const distinct: string[] = []
+  for (const owner of owners) {
+    const name = (owner || '').trim()
+    if (NO_OWNER.indexOf(name.toLowerCase()) === -1 && !distinct.some(existing => sameOwner(existing, name))) {
+      distinct.push(name)
+    }
+  }
+  return distinct
+}
+
+export function scoreSummary(
+  fixture: GoldenFixture,
+  summary: SummaryOutput,
+  threshold = DEFAULT_MATCH_THRESHOLD
+): Omit<FixtureResult, 'durationMs'> {
+  const sections = summary.developmentTeamSections
+  const matchings: Record<EvalSection, Matching> = {
+    actionItems: matchItems(
+      fixture.expected.actionItems.map(item => item.task),
+      summary.actionItems.map(item => item.task),
+      similarity,
+      threshold
+    ),
+    owners: matchItems(
+      distinctOwners(fixture.expected.actionItems.map(item => item.owner)),
+      distinctOwners(summary.actionItems.map(item => item.owner)),
+      (a, b) => (sameOwner(a, b) ? 1 : 0),
+      1
+    ),
+    decisions: matchItems(
+      fixture.expected.decisions,
+      sections.keyDecisionsAndProgress.decisions.map(decision => decision.decision),
+      similarity,
+      threshold
+    ),
+    blockers: matchItems(fixture.expected.blockers, sections.blockersAndNextSteps.currentBlockers, similarity, threshold),
+  }
+
+  const scores = {} as FixtureResult['scores']
+  const missed = {} as FixtureResult['missed']
+  const unexpected = {} as FixtureResult['unexpected']
+  EVAL_SECTIONS.forEach(section => {
+    scores[section] = matchings[section].score
+    missed[section] = matchings[section].missed
+    unexpected[section] = matchings[section].unexpected
+  })
+  return { id: fixture.id, scores, missed, unexpected }
+}
+
+// Nothing was produced, so there is no precision to speak of and no F1
+function withoutPrecision(score: SectionScore): SectionScore {
+  return { ...score, precision: null, f1: 0 }
+}
+
+// A failed summary produced nothing, so every expected item is missed
+export function scoreFailure(fixture: GoldenFixture, error: string): Omit<FixtureResult, 'durationMs'> {
+  const empty: SummaryOutput = {
+    summaryPoints: [],
+    actionItems: [],
+    openQuestions: [],
+    meetingType: fixture.meetingType || 'development-team-meeting',
+    developmentTeamSections: {
+      keyDecisionsAndProgress: { decisions: [], progressUpdates: [] },
+      actionItemsAndOwnership: [],
+      blockersAndNextSteps: { currentBlockers: [], upcomingItems: [] },
+    },
+  }
+  const result = scoreSummary(fixture, empty)
+  const scores = {} as FixtureResult['scores']
+  EVAL_SECTIONS.forEach(section => {
+    scores[section] = withoutPrecision(result.scores[section])
+  })
+  return { ...result, scores, error }
+}
+
+export function totalScores(fixtures: FixtureResult[]): Record<EvalSection, SectionScore> {
+  const totals = {} as Record<EvalSection, SectionScore>
+  EVAL_SECTIONS.forEach(section => {
+    const sum = (key: 'truePositives' | 'falsePositives' | 'falseNegatives') =>
+      fixtures.reduce((total, fixture) => total + fixture.scores[section][key], 0)
+    // Failed fixtures add missed items only, so precision comes from the
+    // fixtures that were summarized
+    const score = toScore(sum('truePositives'), sum('falsePositives'), sum('falseNegatives'))
+    totals[section] = fixtures.some(fixture => !fixture.error) ? score : withoutPrecision(score)
+  })
+  return totals
+}
+
+export interface SectionComparison {
+  section: EvalSection
+  baseline: SectionScore
+  candidate: SectionScore
+  f1Delta: number
+}
+
+export interface FixtureComparison {
+  id: string
+  section: EvalSection
+  baselineF1: number
+  candidateF1: number
+}
+
+export interface EvalComparison {
+  baseline: string // run labels
+  candidate: string
+  sections: SectionComparison[]
+  // Fixture sections whose F1 moved, largest regressions first
+  changed: FixtureComparison[]
+}
+
+export function compareRuns(baseline: EvalRun, candidate: EvalRun): EvalComparison {
+  const sections = EVAL_SECTIONS.map(section => ({
+    section,
+    baseline: baseline.totals[section],
+    candidate: candidate.totals[section],
+    f1Delta: candidate.totals[section].f1 - baseline.totals[section].f1,
+  }))
+
+  const changed: FixtureComparison[] = []
+  for (const before of baseline.fixtures) {
+    const after = candidate.fixtures.find(fixture => fixture.id === before.id)
+    if (!after) continue
+    EVAL_SECTIONS.forEach(section => {
+      const baselineF1 = before.scores[section].f1
+      const candidateF1 = after.scores[section].f1
+      if (Math.abs(candidateF1 - baselineF1) > 0.001) {
+        changed.push({ id: before.id, section, baselineF1, candidateF1 })
+      }
+    })
+  }
+  changed.sort((a, b) => a.candidateF1 - a.baselineF1 - (b.candidateF1 - b.baselineF1))
+
+  return { baseline: baseline.label, candidate: candidate.label, sections, changed }
+}
+
+const percent = (value: number | null) => (value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`)
+const signed = (value: number) => `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)}`
+
+export function formatRun(run: EvalRun): string {
+  const lines = [
+    `Evaluation: ${run.label} (${run.provider} / ${run.model}, prompt v${run.promptVersion})`,
+    '',
+    'Section        Precision  Recall  F1',
+  ]
+  EVAL_SECTIONS.forEach(section => {
+    const score = run.totals[section]
+    lines.push(`${EVAL_SECTION_LABELS[section].padEnd(15)}${percent(score.precision).padStart(9)}${percent(score.recall).padStart(8)}${percent(score.f1).padStart(8)}`)
+  })
+
+  const failed = run.fixtures.filter(fixture => fixture.error)
+  if (failed.length > 0) {
+    lines.push('', `Failed fixtures (${failed.length}):`)
+    failed.forEach(fixture => lines.push(`- ${fixture.id}: ${fixture.error}`))
+  }
+  return lines.join('\n')
+}
+
+export function formatComparison(comparison: EvalComparison): string {
+  const lines = [
+    `Comparison: ${comparison.baseline} → ${comparison.candidate}`,
+    '',
+    'Section        Baseline F1  Candidate F1  Change',
+  ]
+  comparison.sections.forEach(row => {
+    lines.push(`${EVAL_SECTION_LABELS[row.section].padEnd(15)}${percent(row.baseline.f1).padStart(11)}${percent(row.candidate.f1).padStart(14)}${signed(row.f1Delta).padStart(8)}`)
+  })
+
+  if (comparison.changed.length > 0) {
+    lines.push('', 'Changed fixtures:')
+    comparison.changed.forEach(change => {
+      lines.push(`- ${change.id} ${EVAL_SECTION_LABELS[change.section].toLowerCase()}: ${percent(change.baselineF1)} → ${percent(change.candidateF1)}`)
+    })
+  }
+  return lines.join('\n')
+}
@@ -0,0 +1,95 @@
+import type { LanguageInfo } from './ai'
+import { findMissingTopics, HEURISTIC_RULES, LanguageCode } from './language'
+
+// Keyword and pattern extractors behind demo mode and the text-parser
+// fallback. They read the notes with the rules of the notes' own language.
+
+export function extractActionItems(text: string, language: LanguageCode, limit = 5): string[] {
+  const rules = HEURISTIC_RULES[language]
+  const actionItems: string[] = []
+  const lines = splitSentences(text)
+
+  for (const line of lines) {
+    // Look for patterns like "John to do X", "Amy will", "Need to", etc.
+    for (const pattern of rules.actionPatterns) {
+      const match = line.match(pattern)
+      if (match) {
+        // Check if we have both owner and task (patterns with 2 groups)
+        if (match[2]) {
+          const owner = match[1].trim()
+          const task = match[2].trim()
+          // A long "owner", or one with digits, is a status line that
+          // happens to contain "to" ("09:41 switched traffic to ...")
+          if (owner && task && owner.split(/\s+/).length <= 3 && !/\d/.test(owner)) {
+            actionItems.push(`${owner} → ${task}`)
+          }
+        } else {
+          // Single group patterns (like "action: X" or "todo: X")
+          const task = match[1].trim()
+          if (task) {
+            actionItems.push(task)
+          }
+        }
+      }
+    }
+
+    // Look for simple action items without clear owner
+    if (rules.actionKeywords.some(keyword => line.toLowerCase().includes(keyword))) {
+      if (!actionItems.some(item => item.includes(line))) {
+        actionItems.push(line)
+      }
+    }
+  }
+
+  return actionItems.slice(0, limit)
+}
+
+// Gaps are found with the notes' keywords and asked in the output language
+export function generateProbingQuestions(text: string, language: LanguageInfo): string[] {
+  const rules = HEURISTIC_RULES[language.output]
+  const questions = findMissingTopics(text, language.source).map(probe => rules.probeQuestions[probe])
+
+  // If no specific gaps found, add generic probing questions
+  if (questions.length === 0) {
+    questions.push(...rules.nextStepQuestions)
+  }
+
+  return questions.slice(0, 3) // Limit to 3 questions
+}
+
+// Extract key points from original input as fallback
+export function extractKeyPoints(text: string, language: LanguageCode): string[] {
+  const sentences = text.split(/[.!?]/).filter(s => s.trim().length > 20)
+  const keyPoints: string[] = []
+
+  // Look for sentences with important keywords
+  const importantKeywords = HEURISTIC_RULES[language].keyPointKeywords
+
+  for (const sentence of sentences) {
+    const lowerSentence = sentence.toLowerCase()
+    if (importantKeywords.some(keyword => lowerSentence.includes(keyword))) {
+      keyPoints.push(sentence.trim())
+    }
+  }
+
+  return keyPoints.slice(0, 5)
+}
+
+// Sentences and bullet lines of the notes, without bullet markers or
+// headings such as "Action items:"; a sentence ends at a line break or at
+// ".", "!" or "?" followed by a space
+export function splitSentences(text: string): string[] {
+  return text
+    .split('\n')
+    .map(line => line.replace(/^[-•*]\s+/, '').trim())
+    .reduce<string[]>((sentences, line) => sentences.concat(line.split(/(?:[.!?])\s+/)), [])
+    .map(sentence => sentence.replace(/[.!?]+$/, '').trim())
+    .filter(sentence => sentence.length >= 8 && !sentence.endsWith(':'))
+}
+
+export function sentencesMatching(sentences: string[], keywords: string[]): string[] {
+  return sentences.filter(sentence => {
+    const lowerSentence = sentence.toLowerCase()
+    return keywords.some(keyword => lowerSentence.includes(keyword))
+  })
+}
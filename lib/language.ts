@@ -0,0 +1,212 @@
+// Languages the summarizer reads and writes. Detection is a stop-word count,
+// which is enough to pick a heuristic rule set and a default output language.
+
+export type LanguageCode = 'en' | 'es' | 'de'
+
+export const SUPPORTED_LANGUAGES: LanguageCode[] = ['en', 'es', 'de']
+
+export const LANGUAGE_LABELS: Record<LanguageCode, string> = {
+  en: 'English',
+  es: 'Spanish',
+  de: 'German',
+}
+
+export function isLanguageCode(value: unknown): value is LanguageCode {
+  return typeof value === 'string' && SUPPORTED_LANGUAGES.indexOf(value as LanguageCode) !== -1
+}
+
+export interface LanguageDetection {
+  language: LanguageCode
+  confidence: number // 0-1; low when the notes are short or mixed
+}
+
+// Frequent function words that rarely appear in the other two languages
+const STOP_WORDS: Record<LanguageCode, string[]> = {
+  en: ['the', 'and', 'is', 'are', 'will', 'to', 'of', 'with', 'we', 'this', 'that', 'for', 'on', 'be', 'it', 'should', 'need', 'by'],
+  es: ['el', 'la', 'los', 'las', 'y', 'es', 'son', 'que', 'de', 'del', 'con', 'para', 'por', 'una', 'un', 'se', 'va', 'hay', 'pero', 'esta', 'está'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'sind', 'nicht', 'mit', 'für', 'wir', 'ein', 'eine', 'bis', 'zu', 'den', 'dem', 'auf', 'wird', 'soll', 'muss', 'noch'],
+}
+
+// Letters that only occur in one of the languages
+const MARKERS: Record<LanguageCode, RegExp | null> = {
+  en: null,
+  es: /[ñ¿¡]/g,
+  de: /[ßäöü]/g,
+}
+
+// Fewer stop words than this and detection falls back to English
+const MIN_EVIDENCE = 3
+
+export function detectLanguage(text: string): LanguageDetection {
+  const words = text.toLowerCase().match(/[a-zñáéíóúüäöß]+/g) || []
+  const scores = {} as Record<LanguageCode, number>
+
+  SUPPORTED_LANGUAGES.forEach(language => {
+    const stopWords = STOP_WORDS[language]
+    const markers = MARKERS[language]
+    scores[language] = words.filter(word => stopWords.indexOf(word) !== -1).length +
+      (markers ? (text.toLowerCase().match(markers) || []).length : 0)
+  })
+
+  const ranked = [...SUPPORTED_LANGUAGES].sort((a, b) => scores[b] - scores[a])
+  const total = ranked.reduce((sum, language) => sum + scores[language], 0)
+  if (scores[ranked[0]] < MIN_EVIDENCE) {
+    return { language: 'en', confidence: 0.3 }
+  }
+
+  return {
+    language: ranked[0],
+    confidence: Math.round((scores[ranked[0]] / total) * 100) / 100,
+  }
+}
+
+export type ProbeId = 'goals' | 'deadlines' | 'budget' | 'risks' | 'stakeholders'
+
+const PROBE_IDS: ProbeId[] = ['goals', 'deadlines', 'budget', 'risks', 'stakeholders']
+
+// Rules for the demo and fallback paths. Keywords and patterns are matched
+// against notes in the language; the phrases are used when it is the
+// output language.
+export interface HeuristicRules {
+  keyPointKeywords: string[]
+  // Two groups are owner and task; one group is a task without an owner
+  actionPatterns: RegExp[]
+  actionKeywords: string[]
+  // A question is asked when the notes mention none of its keywords
+  probeKeywords: Record<ProbeId, string[]>
+  probeQuestions: Record<ProbeId, string>
+  nextStepQuestions: string[]
+  // Sentences the demo engine files under each section
+  decisionKeywords: string[]
+  blockerKeywords: string[]
+  progressKeywords: string[]
+  upcomingKeywords: string[]
+  urgentKeywords: string[] // make an action item high priority
+  rationaleMarkers: string[] // "… so QA has a week": the reason follows the marker
+  defaultRationale: string
+  defaultSuccessCriteria: string
+  noBlockers: string
+  followUpOnActions: string
+  blockerMitigation: string
+}
+
+export const HEURISTIC_RULES: Record<LanguageCode, HeuristicRules> = {
+  en: {
+    keyPointKeywords: ['decided', 'agreed', 'discussed', 'reviewed', 'planned', 'scheduled', 'completed', 'blocked', 'issue', 'problem', 'solution', 'next', 'action', 'deadline', 'goal', 'objective'],
+    actionPatterns: [
+      /^(.+?)\s+(?:to|will|should|needs? to|has to)\s+(.+)$/i,
+      /^(.+?)\s+→\s+(.+)$/,
+      /^(.+?)\s+assigned to\s+(.+)$/i,
+      /^action:\s*(.+)$/i,
+      /^todo:\s*(.+)$/i,
+    ],
+    actionKeywords: ['todo', 'action', 'need to', 'should'],
+    probeKeywords: {
+      goals: ['goal', 'objective'],
+      deadlines: ['deadline', 'due date'],
+      budget: ['budget', 'cost'],
+      risks: ['risk', 'concern'],
+      stakeholders: ['stakeholder', 'team'],
+    },
+    probeQuestions: {
+      goals: 'What were the specific goals for this meeting?',
+      deadlines: 'What are the deadlines for the action items?',
+      budget: 'Are there any budget considerations for these decisions?',
+      risks: 'What are the potential risks or concerns?',
+      stakeholders: 'Who are the key stakeholders involved?',
+    },
+    nextStepQuestions: ['What are the next steps after this meeting?', 'Who will be responsible for following up?'],
+    decisionKeywords: ['decided', 'agreed', 'we will use', 'going with', 'chose', 'approved', 'settled on'],
+    blockerKeywords: ['blocked', 'blocking', 'waiting on', 'waiting for', 'stuck', 'depends on', 'no access'],
+    progressKeywords: ['finished', 'completed', 'done', 'shipped', 'merged', 'deployed', 'released', 'launched'],
+    upcomingKeywords: ['next week', 'next sprint', 'upcoming', 'planned', 'scheduled', 'later this'],
+    urgentKeywords: ['urgent', 'asap', 'critical', 'immediately', 'p0', 'blocking'],
+    rationaleMarkers: [' so ', ' because ', ' since ', ' as '],
+    defaultRationale: 'Based on meeting discussion',
+    defaultSuccessCriteria: 'Completion of task',
+    noBlockers: 'No blockers identified',
+    followUpOnActions: 'Follow up on action items',
+    blockerMitigation: 'Assign an owner to unblock it and check progress at the next meeting',
+  },
+  es: {
+    keyPointKeywords: ['decidimos', 'decidió', 'acordamos', 'acordó', 'se acordó', 'revisamos', 'planificado', 'programado', 'completado', 'terminado', 'bloqueado', 'problema', 'solución', 'siguiente', 'próximo', 'acción', 'fecha límite', 'plazo', 'objetivo', 'meta'],
+    actionPatterns: [
+      /^(.+?)\s+(?:va a|debe|tiene que|necesita|se encarga de|hará|revisará|preparará)\s+(.+)$/i,
+      /^(.+?)\s+→\s+(.+)$/,
+      /^(.+?)\s+asignad[oa] a\s+(.+)$/i,
+      /^acción:\s*(.+)$/i,
+      /^pendiente:\s*(.+)$/i,
+    ],
+    actionKeywords: ['pendiente', 'acción', 'hay que', 'tenemos que', 'debemos'],
+    probeKeywords: {
+      goals: ['objetivo', 'meta'],
+      deadlines: ['fecha límite', 'plazo', 'vence'],
+      budget: ['presupuesto', 'coste', 'costo'],
+      risks: ['riesgo', 'preocupa'],
+      stakeholders: ['interesados', 'stakeholder', 'equipo'],
+    },
+    probeQuestions: {
+      goals: '¿Cuáles eran los objetivos concretos de esta reunión?',
+      deadlines: '¿Cuáles son las fechas límite de las acciones?',
+      budget: '¿Hay consideraciones de presupuesto para estas decisiones?',
+      risks: '¿Cuáles son los posibles riesgos o preocupaciones?',
+      stakeholders: '¿Quiénes son las partes interesadas clave?',
+    },
+    nextStepQuestions: ['¿Cuáles son los próximos pasos después de esta reunión?', '¿Quién se encargará del seguimiento?'],
+    decisionKeywords: ['decidimos', 'decidió', 'acordamos', 'acordó', 'se acordó', 'aprobamos', 'elegimos'],
+    blockerKeywords: ['bloqueado', 'bloqueada', 'bloquea', 'esperando', 'depende de', 'sin acceso'],
+    progressKeywords: ['terminado', 'terminó', 'completado', 'completó', 'desplegado', 'desplegó', 'lanzado', 'listo'],
+    upcomingKeywords: ['próxima semana', 'próximo sprint', 'planificado', 'programado'],
+    urgentKeywords: ['urgente', 'crítico', 'crítica', 'cuanto antes', 'inmediatamente'],
+    rationaleMarkers: [' porque ', ' ya que ', ' para que ', ' así '],
+    defaultRationale: 'Según lo discutido en la reunión',
+    defaultSuccessCriteria: 'Tarea completada',
+    noBlockers: 'No se identificaron bloqueos',
+    followUpOnActions: 'Dar seguimiento a las acciones',
+    blockerMitigation: 'Asignar un responsable para desbloquearlo y revisarlo en la próxima reunión',
+  },
+  de: {
+    keyPointKeywords: ['entschieden', 'beschlossen', 'vereinbart', 'besprochen', 'geprüft', 'geplant', 'terminiert', 'abgeschlossen', 'fertig', 'blockiert', 'problem', 'lösung', 'nächste', 'aufgabe', 'frist', 'deadline', 'ziel'],
+    actionPatterns: [
+      /^(.+?)\s+(?:wird|soll|muss|kümmert sich um|übernimmt)\s+(.+)$/i,
+      /^(.+?)\s+→\s+(.+)$/,
+      /^(.+?)\s+zugewiesen an\s+(.+)$/i,
+      /^aufgabe:\s*(.+)$/i,
+      /^todo:\s*(.+)$/i,
+    ],
+    actionKeywords: ['todo', 'aufgabe', 'müssen', 'sollten'],
+    probeKeywords: {
+      goals: ['ziel'],
+      deadlines: ['frist', 'deadline', 'fällig'],
+      budget: ['budget', 'kosten'],
+      risks: ['risiko', 'risiken', 'bedenken'],
+      stakeholders: ['stakeholder', 'beteiligte', 'team'],
+    },
+    probeQuestions: {
+      goals: 'Was waren die konkreten Ziele dieses Meetings?',
+      deadlines: 'Welche Fristen gelten für die Aufgaben?',
+      budget: 'Gibt es Budgetaspekte bei diesen Entscheidungen?',
+      risks: 'Welche Risiken oder Bedenken gibt es?',
+      stakeholders: 'Wer sind die wichtigsten Beteiligten?',
+    },
+    nextStepQuestions: ['Was sind die nächsten Schritte nach diesem Meeting?', 'Wer ist für das Nachfassen verantwortlich?'],
+    decisionKeywords: ['entschieden', 'beschlossen', 'vereinbart', 'einigen uns', 'festgelegt', 'freigegeben'],
+    blockerKeywords: ['blockiert', 'warten auf', 'wartet auf', 'hängt ab von', 'abhängig von', 'kein zugriff'],
+    progressKeywords: ['fertig', 'abgeschlossen', 'erledigt', 'ausgeliefert', 'veröffentlicht', 'deployed'],
+    upcomingKeywords: ['nächste woche', 'nächsten sprint', 'geplant', 'terminiert'],
+    urgentKeywords: ['dringend', 'kritisch', 'sofort', 'asap'],
+    rationaleMarkers: [' weil ', ' da ', ' damit ', ' sodass '],
+    defaultRationale: 'Laut Besprechung im Meeting',
+    defaultSuccessCriteria: 'Aufgabe erledigt',
+    noBlockers: 'Keine Blocker identifiziert',
+    followUpOnActions: 'Aufgaben nachverfolgen',
+    blockerMitigation: 'Eine verantwortliche Person zum Lösen benennen und im nächsten Meeting nachfassen',
+  },
+}
+
+// Probe topics the notes never mention, judged by their own language's keywords
+export function findMissingTopics(text: string, source: LanguageCode): ProbeId[] {
+  const lowerText = text.toLowerCase()
+  const keywords = HEURISTIC_RULES[source].probeKeywords
+  return PROBE_IDS.filter(probe => !keywords[probe].some(keyword => lowerText.includes(keyword)))
+}
@@ -0,0 +1,300 @@
+import type { ActionItem, MeetingType } from './ai'
+import { isISODate } from './dates'
+import { HEURISTIC_RULES, SUPPORTED_LANGUAGES } from './language'
+import type { StoredMeeting } from './meetingStore'
+import { isMeetingType } from './meetingTypes'
+
+// Searching saved meetings: every word of the query must appear in the
+// notes or the report, and the filters narrow the meetings down further.
+// Pure functions, safe to import from client components.
+
+export const DEFAULT_SEARCH_PAGE_SIZE = 20
+export const MAX_SEARCH_PAGE_SIZE = 50
+const MAX_MATCHES_PER_MEETING = 5
+const SNIPPET_CONTEXT_CHARS = 60
+const EXCERPT_CHARS = 200
+
+export type SearchField = 'title' | 'notes' | 'summary' | 'decision' | 'actionItem' | 'blocker' | 'openQuestion'
+
+export const SEARCH_FIELD_LABELS: Record<SearchField, string> = {
+  title: 'Title',
+  notes: 'Notes',
+  summary: 'Summary',
+  decision: 'Decision',
+  actionItem: 'Action item',
+  blocker: 'Blocker',
+  openQuestion: 'Open question',
+}
+
+export interface MeetingSearchQuery {
+  text?: string
+  owner?: string // action items owned by this person (part of the name is enough)
+  priority?: ActionItem['priority'] // action items with this priority
+  from?: string // YYYY-MM-DD, meeting date on or after
+  to?: string // YYYY-MM-DD, meeting date on or before
+  meetingType?: MeetingType
+  hasOpenBlockers?: boolean
+  page: number // 1-based
+  pageSize: number
+}
+
+export interface TextRange {
+  start: number
+  end: number
+}
+
+export interface SearchMatch {
+  field: SearchField
+  text: string // the matching text, shortened around the match for notes
+  highlights: TextRange[] // offsets into `text`
+}
+
+export interface MeetingSearchHit {
+  id: string
+  title: string
+  meetingType: MeetingType
+  createdAt: string
+  meetingDate: string // YYYY-MM-DD
+  excerpt: string // start of the notes
+  matches: SearchMatch[] // empty when only filters were given
+}
+
+export interface MeetingSearchResult {
+  data: MeetingSearchHit[]
+  total: number
+  page: number
+  pageSize: number
+}
+
+export type ParsedSearchQuery =
+  | { ok: true; query: MeetingSearchQuery }
+  | { ok: false; error: string }
+
+// From the query string of GET /api/meetings/search
+export function parseSearchParams(params: URLSearchParams): ParsedSearchQuery {
+  const query: MeetingSearchQuery = { page: 1, pageSize: DEFAULT_SEARCH_PAGE_SIZE }
+  const text = params.get('q')?.trim()
+  if (text) query.text = text
+  const owner = params.get('owner')?.trim()
+  if (owner) query.owner = owner
+
+  const priority = params.get('priority')
+  if (priority) {
+    if (priority !== 'high' && priority !== 'medium' && priority !== 'low') {
+      return { ok: false, error: 'Invalid priority. Use high, medium or low.' }
+    }
+    query.priority = priority
+  }
+
+  for (const key of ['from', 'to'] as const) {
+    const value = params.get(key)
+    if (!value) continue
+    if (!isISODate(value)) {
+      return { ok: false, error: `Invalid ${key} date. Please use YYYY-MM-DD.` }
+    }
+    query[key] = value
+  }
+
+  const meetingType = params.get('meetingType')
+  if (meetingType) {
+    if (!isMeetingType(meetingType)) {
+      return { ok: false, error: 'Invalid meeting type' }
+    }
+    query.meetingType = meetingType
+  }
+
+  const hasOpenBlockers = params.get('hasOpenBlockers')
+  if (hasOpenBlockers) {
+    if (hasOpenBlockers !== 'true' && hasOpenBlockers !== 'false') {
+      return { ok: false, error: 'Invalid hasOpenBlockers. Use true or false.' }
+    }
+    query.hasOpenBlockers = hasOpenBlockers === 'true'
+  }
+
+  const page = parseInt(params.get('page') || '', 10)
+  if (Number.isFinite(page) && page > 0) query.page = page
+  const pageSize = parseInt(params.get('pageSize') || '', 10)
+  if (Number.isFinite(pageSize) && pageSize > 0) query.pageSize = Math.min(pageSize, MAX_SEARCH_PAGE_SIZE)
+
+  return { ok: true, query }
+}
+
+// The reverse of parseSearchParams, for the History panel
+export function toSearchParams(query: Partial<MeetingSearchQuery>): URLSearchParams {
+  const params = new URLSearchParams()
+  if (query.text) params.set('q', query.text)
+  if (query.owner) params.set('owner', query.owner)
+  if (query.priority) params.set('priority', query.priority)
+  if (query.from) params.set('from', query.from)
+  if (query.to) params.set('to', query.to)
+  if (query.meetingType) params.set('meetingType', query.meetingType)
+  if (query.hasOpenBlockers !== undefined) params.set('hasOpenBlockers', String(query.hasOpenBlockers))
+  if (query.page) params.set('page', String(query.page))
+  if (query.pageSize) params.set('pageSize', String(query.pageSize))
+  return params
+}
+
+function toTerms(text: string | undefined): string[] {
+  return (text || '').toLowerCase().split(/\s+/).filter(term => term.length > 0)
+}
+
+// Where the terms occur in `text`, overlapping ranges merged
+export function findTerms(text: string, terms: string[]): TextRange[] {
+  const lower = text.toLowerCase()
+  const ranges: TextRange[] = []
+  terms.forEach(term => {
+    let index = lower.indexOf(term)
+    while (index !== -1) {
+      ranges.push({ start: index, end: index + term.length })
+      index = lower.indexOf(term, index + term.length)
+    }
+  })
+  ranges.sort((a, b) => a.start - b.start)
+
+  const merged: TextRange[] = []
+  ranges.forEach(range => {
+    const last = merged[merged.length - 1]
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end)
+    } else {
+      merged.push({ ...range })
+    }
+  })
+  return merged
+}
+
+// Long text is cut down to the first match and some context either side
+function toMatch(field: SearchField, text: string, highlights: TextRange[]): SearchMatch {
+  if (field !== 'notes' || highlights.length === 0) {
+    return { field, text, highlights }
+  }
+  const start = Math.max(0, highlights[0].start - SNIPPET_CONTEXT_CHARS)
+  const end = Math.min(text.length, highlights[0].end + SNIPPET_CONTEXT_CHARS)
+  const prefix = start > 0 ? '…' : ''
+  const shift = prefix.length - start
+  return {
+    field,
+    text: `${prefix}${text.slice(start, end)}${end < text.length ? '…' : ''}`,
+    highlights: highlights
+      .filter(range => range.start >= start && range.end <= end)
+      .map(range => ({ start: range.start + shift, end: range.end + shift })),
+  }
+}
+
+function getSearchableText(meeting: StoredMeeting): Array<{ field: SearchField; text: string }> {
+  const output = meeting.output
+  const sections = output.developmentTeamSections
+  const entries: Array<{ field: SearchField; text: string }> = [
+    { field: 'title', text: meeting.title },
+    ...output.summaryPoints.map(text => ({ field: 'summary' as const, text })),
+    ...sections.keyDecisionsAndProgress.decisions.map(decision => ({ field: 'decision' as const, text: decision.decision })),
+    ...sections.actionItemsAndOwnership.map(item => ({ field: 'actionItem' as const, text: item.task })),
+    ...getOpenBlockers(meeting).map(text => ({ field: 'blocker' as const, text })),
+    ...output.openQuestions.map(text => ({ field: 'openQuestion' as const, text })),
+  ]
+  // Notes last: a match in the report says more than one in the raw notes
+  entries.push({ field: 'notes', text: meeting.notes })
+  return entries
+}
+
+function getOpenBlockers(meeting: StoredMeeting): string[] {
+  const blockers = meeting.output.developmentTeamSections.blockersAndNextSteps.currentBlockers.slice()
+  const typeSections = meeting.output.meetingTypeSections
+  if (typeSections?.kind === 'standup') {
+    typeSections.updates.forEach(update => blockers.push(...update.blockers))
+  }
+  return blockers.filter(blocker => !isNoBlocker(blocker))
+}
+
+// "None" and the like, or the placeholder reports get in any language when
+// nothing is blocked; compared trimmed, lowercased and without a final
+// period. The database search is given the same list.
+export const NO_BLOCKER_TEXTS = [
+  '',
+  'none',
+  'n/a',
+  'no blocker',
+  'no blockers',
+  ...SUPPORTED_LANGUAGES.map(language => HEURISTIC_RULES[language].noBlockers.replace(/\.$/, '').toLowerCase()),
+]
+
+function isNoBlocker(blocker: string): boolean {
+  return NO_BLOCKER_TEXTS.indexOf(blocker.trim().replace(/\.$/, '').toLowerCase()) !== -1
+}
+
+function ownerNames(item: ActionItem): string[] {
+  return [item.owner, ...(item.ownerMatches || []).map(match => match.name)]
+}
+
+export function getMeetingDate(meeting: StoredMeeting): string {
+  return meeting.output.meetingDate || meeting.createdAt.slice(0, 10)
+}
+
+// The action items the owner and priority filters select; undefined
+// without those filters
+function matchingActionItems(meeting: StoredMeeting, query: MeetingSearchQuery): ActionItem[] | undefined {
+  // Owner and priority must hold for the same action item
+  const owner = query.owner?.toLowerCase()
+  return owner || query.priority
+    ? meeting.output.developmentTeamSections.actionItemsAndOwnership.filter(item =>
+        (!owner || ownerNames(item).some(name => name.toLowerCase().indexOf(owner) !== -1)) &&
+        (!query.priority || item.priority === query.priority)
+      )
+    : undefined
+}
+
+// undefined when the meeting doesn't match the query
+export function matchMeeting(meeting: StoredMeeting, query: MeetingSearchQuery): MeetingSearchHit | undefined {
+  if (query.meetingType && meeting.meetingType !== query.meetingType) return undefined
+
+  const meetingDate = getMeetingDate(meeting)
+  if (query.from && meetingDate < query.from) return undefined
+  if (query.to && meetingDate > query.to) return undefined
+  if (query.hasOpenBlockers !== undefined && (getOpenBlockers(meeting).length > 0) !== query.hasOpenBlockers) return undefined
+
+  const items = matchingActionItems(meeting, query)
+  if (items && items.length === 0) return undefined
+
+  const searchable = getSearchableText(meeting).map(({ text }) => text.toLowerCase())
+  if (toTerms(query.text).some(term => !searchable.some(text => text.indexOf(term) !== -1))) return undefined
+
+  return toSearchHit(meeting, query)
+}
+
+// The result for a meeting known to match, with where the words of the
+// query were found. The database search only calls this for the meetings
+// on the page it returns.
+export function toSearchHit(meeting: StoredMeeting, query: MeetingSearchQuery): MeetingSearchHit {
+  const terms = toTerms(query.text)
+  const matches: SearchMatch[] = []
+  if (terms.length > 0) {
+    getSearchableText(meeting).forEach(({ field, text }) => {
+      const lower = text.toLowerCase()
+      const termsHere = terms.filter(term => lower.indexOf(term) !== -1)
+      if (termsHere.length > 0) {
+        matches.push(toMatch(field, text, findTerms(text, termsHere)))
+      }
+    })
+  } else {
+    (matchingActionItems(meeting, query) || []).forEach(item => matches.push({ field: 'actionItem', text: item.task, highlights: [] }))
+  }
+
+  return {
+    id: meeting.id,
+    title: meeting.title,
+    meetingType: meeting.meetingType,
+    createdAt: meeting.createdAt,
+    meetingDate: getMeetingDate(meeting),
+    excerpt: meeting.notes.length > EXCERPT_CHARS ? `${meeting.notes.slice(0, EXCERPT_CHARS)}…` : meeting.notes,
+    matches: matches.slice(0, MAX_MATCHES_PER_MEETING),
+  }
+}
+
+// `meetings` newest first
+export function searchMeetings(meetings: StoredMeeting[], query: MeetingSearchQuery): MeetingSearchResult {
+  const hits = meetings
+    .map(meeting => matchMeeting(meeting, query))
+    .filter((hit): hit is MeetingSearchHit => hit !== undefined)
+  const start = (query.page - 1) * query.pageSize
+  return { data: hits.slice(start, start + query.pageSize), total: hits.length, page: query.page, pageSize: query.pageSize }
+}
@@ -0,0 +1,454 @@
+import { randomUUID } from 'crypto'
+import { promises as fs } from 'fs'
+import { dirname } from 'path'
+import type { MeetingType, RosterMember, SummaryOutput } from './ai'
+import { getMeetingStoreSettings } from './config'
+import { MeetingSearchQuery, MeetingSearchResult, searchMeetings } from './meetingSearch'
+import { isMeetingType } from './meetingTypes'
+import { OUTPUT_SCHEMA_VERSION, readStoredOutput, toStorableOutput } from './storedOutput'
+import {
+  deleteMeetingRow,
+  deleteRosterMemberRow,
+  getDeletedMeetingRows,
+  getMeetingPage,
+  getMeetingRow,
+  getQualityHistoryRows,
+  getRosterRows,
+  insertMeetingRevisionRow,
+  insertMeetingRows,
+  insertRosterMemberRow,
+  purgeMeetingRowsDeletedBefore,
+  restoreMeetingRow,
+  searchMeetingRows,
+  softDeleteMeetingRowsBeyond,
+  softDeleteMeetingRowsSavedBefore,
+  updateMeetingRow,
+  updateRosterMemberRow,
+} from './supabaseAdmin'
+
+// Server-only: saved meetings and every revision of their reports, and the
+// team roster, in Supabase, a local JSON file or memory (see
+// getMeetingStoreSettings).
+// Deleted meetings stay in "recently deleted", hidden from everything but
+// restoreMeeting and listDeletedMeetings, until retention purges them.
+
+// A saved meeting with its latest report
+export interface StoredMeeting {
+  id: string
+  title: string
+  notes: string
+  meetingType: MeetingType
+  createdAt: string
+  output: SummaryOutput
+}
+
+// One stored score, for comparing meetings over time
+export interface QualityHistoryEntry {
+  meetingId: string
+  title: string
+  meetingType: MeetingType
+  createdAt: string
+  overallScore: number
+  areas: NonNullable<SummaryOutput['meetingQuality']>['areas']
+  scoringVersion?: number
+}
+
+export interface NewMeeting {
+  title: string
+  notes: string
+  output: SummaryOutput
+}
+
+// Details that can be edited after saving. The meeting type files the
+// meeting under another type; the report keeps the sections it has.
+export interface MeetingChanges {
+  title?: string
+  meetingType?: MeetingType
+}
+
+// A meeting moved to recently deleted, by hand or by retention
+export interface DeletedMeeting {
+  id: string
+  title: string
+  meetingType: MeetingType
+  createdAt: string
+  deletedAt: string
+}
+
+// listMeetings continues after this meeting (newest first by createdAt,
+// then id)
+export interface MeetingCursor {
+  createdAt: string
+  id: string
+}
+
+export interface MeetingPage {
+  meetings: StoredMeeting[]
+  next?: MeetingCursor // undefined on the last page
+}
+
+// What a regeneration changed (see regenerateSection in lib/ai)
+export interface RevisionChange {
+  section: string
+  guidance?: string
+}
+
+export type RosterMemberFields = Omit<RosterMember, 'id'>
+
+export interface MeetingStore {
+  saveMeeting(meeting: NewMeeting): Promise<string> // returns the new meeting id
+  // Keeps the report as the meeting's next revision; returns its number
+  saveRevision(meetingId: string, output: SummaryOutput, change: RevisionChange): Promise<number>
+  getMeeting(id: string): Promise<StoredMeeting | undefined> // undefined when there is no such meeting
+  listMeetings(options: { limit: number; after?: MeetingCursor }): Promise<MeetingPage> // newest first
+  updateMeeting(id: string, changes: MeetingChanges): Promise<StoredMeeting | undefined> // undefined when there is no such meeting
+  deleteMeeting(id: string): Promise<boolean> // moves it to recently deleted; false when there was no such meeting
+  // undefined unless the meeting was deleted on or after deletedSince
+  restoreMeeting(id: string, deletedSince: string): Promise<StoredMeeting | undefined>
+  listDeletedMeetings(options: { deletedSince: string; limit: number }): Promise<DeletedMeeting[]> // most recently deleted first
+  searchMeetings(query: MeetingSearchQuery): Promise<MeetingSearchResult> // newest first
+  getQualityHistory(options: { meetingType?: MeetingType; limit: number }): Promise<QualityHistoryEntry[]> // newest first
+  // For retention (see lib/retention); each returns how many meetings it changed
+  deleteAllButNewest(count: number): Promise<number> // moves the others to recently deleted
+  deleteSavedBefore(date: string): Promise<number> // moves them to recently deleted
+  purgeDeletedBefore(date: string): Promise<number> // removes them and their reports for good
+  // The team roster that owners are resolved to (see lib/roster)
+  listRoster(): Promise<RosterMember[]> // by name
+  addRosterMember(fields: RosterMemberFields): Promise<RosterMember>
+  updateRosterMember(id: string, fields: Partial<RosterMemberFields>): Promise<RosterMember | undefined> // undefined when there is no such member
+  deleteRosterMember(id: string): Promise<boolean> // false when there was no such member
+}
+
+export function buildMeetingTitle(input: string): string {
+  return input.slice(0, 50) + (input.length > 50 ? '...' : '')
+}
+
+// Cursors go into query strings, and the database store puts them in a
+// filter, so only well-formed timestamps and ids are accepted back
+const CURSOR_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/
+const CURSOR_ID = /^[0-9A-Za-z-]+$/
+
+export function encodeMeetingCursor(cursor: MeetingCursor): string {
+  return Buffer.from(`${cursor.createdAt}|${cursor.id}`).toString('base64url')
+}
+
+// undefined when the value isn't a cursor from encodeMeetingCursor
+export function decodeMeetingCursor(value: string): MeetingCursor | undefined {
+  const [createdAt, id, ...rest] = Buffer.from(value, 'base64url').toString('utf8').split('|')
+  if (rest.length > 0 || !CURSOR_TIMESTAMP.test(createdAt || '') || !CURSOR_ID.test(id || '')) {
+    return undefined
+  }
+  return { createdAt, id }
+}
+
+export function createDatabaseMeetingStore(): MeetingStore {
+  return {
+    saveMeeting: meeting => insertMeetingRows(meeting.title, meeting.notes, meeting.output),
+    saveRevision: insertMeetingRevisionRow,
+    getMeeting: getMeetingRow,
+    listMeetings: getMeetingPage,
+    updateMeeting: updateMeetingRow,
+    deleteMeeting: deleteMeetingRow,
+    restoreMeeting: restoreMeetingRow,
+    listDeletedMeetings: getDeletedMeetingRows,
+    searchMeetings: searchMeetingRows,
+    getQualityHistory: getQualityHistoryRows,
+    deleteAllButNewest: softDeleteMeetingRowsBeyond,
+    deleteSavedBefore: softDeleteMeetingRowsSavedBefore,
+    purgeDeletedBefore: purgeMeetingRowsDeletedBefore,
+    listRoster: getRosterRows,
+    addRosterMember: insertRosterMemberRow,
+    updateRosterMember: updateRosterMemberRow,
+    deleteRosterMember: deleteRosterMemberRow,
+  }
+}
+
+// Everything the file and memory stores keep
+interface StoreData {
+  meetings: MeetingRecord[]
+  roster: RosterMember[]
+}
+
+// The file and memory stores keep meetings in this shape
+export interface MeetingRecord {
+  id: string
+  title: string
+  notes: string
+  meetingType: MeetingType
+  createdAt: string
+  deletedAt?: string // set while in recently deleted
+  outputs: OutputRecord[] // oldest revision first
+}
+
+interface OutputRecord {
+  revision: number
+  output: SummaryOutput
+  schemaVersion: number
+  model?: string
+  promptVersion?: number
+  regeneratedSection?: string
+  guidance?: string
+  createdAt: string
+}
+
+function toOutputRecord(output: SummaryOutput, revision: number, change?: RevisionChange): OutputRecord {
+  return {
+    revision,
+    output: toStorableOutput(output),
+    schemaVersion: OUTPUT_SCHEMA_VERSION,
+    model: output.generation?.model,
+    promptVersion: output.generation?.promptVersion,
+    regeneratedSection: change?.section,
+    guidance: change?.guidance,
+    createdAt: new Date().toISOString(),
+  }
+}
+
+function latestOutput(record: MeetingRecord): OutputRecord | undefined {
+  return record.outputs[record.outputs.length - 1]
+}
+
+function toStoredMeeting(record: MeetingRecord): StoredMeeting {
+  const latest = latestOutput(record)
+  return {
+    id: record.id,
+    title: record.title,
+    notes: record.notes,
+    meetingType: record.meetingType,
+    createdAt: record.createdAt,
+    output: readStoredOutput(latest ? { output: latest.output, schema_version: latest.schemaVersion } : {}, record.meetingType),
+  }
+}
+
+function isActive(record: MeetingRecord): boolean {
+  return !record.deletedAt
+}
+
+function newestFirst(a: { createdAt: string }, b: { createdAt: string }): number {
+  return b.createdAt.localeCompare(a.createdAt)
+}
+
+// Records are appended as they are saved, so same-millisecond saves keep
+// that order (the sort is stable)
+function sortNewestFirst<T extends { createdAt: string }>(items: T[]): T[] {
+  return items.slice().reverse().sort(newestFirst)
+}
+
+// The file and memory stores share this logic. Every change reads, updates
+// and writes everything, one change at a time.
+function createRecordStore(load: () => Promise<StoreData>, save: (data: StoreData) => Promise<void>): MeetingStore {
+  let queue: Promise<unknown> = Promise.resolve()
+  const updateData = <T>(change: (data: StoreData) => T): Promise<T> => {
+    const run = queue.then(async () => {
+      const data = await load()
+      const result = change(data)
+      await save(data)
+      return result
+    })
+    queue = run.catch(() => undefined)
+    return run
+  }
+  const update = <T>(change: (records: MeetingRecord[]) => T): Promise<T> => updateData(data => change(data.meetings))
+  const loadRecords = async () => (await load()).meetings
+
+  const findActive = (records: MeetingRecord[], id: string) =>
+    records.find(candidate => candidate.id === id && isActive(candidate))
+  // Moves the records to recently deleted and returns how many there were
+  const softDelete = (records: MeetingRecord[]) => {
+    const deletedAt = new Date().toISOString()
+    records.forEach(record => (record.deletedAt = deletedAt))
+    return records.length
+  }
+
+  return {
+    saveMeeting: meeting =>
+      update(records => {
+        const record: MeetingRecord = {
+          id: randomUUID(),
+          title: meeting.title,
+          notes: meeting.notes,
+          meetingType: isMeetingType(meeting.output.meetingType) ? meeting.output.meetingType : 'development-team-meeting',
+          createdAt: new Date().toISOString(),
+          outputs: [toOutputRecord(meeting.output, 1)],
+        }
+        records.push(record)
+        return record.id
+      }),
+    saveRevision: (meetingId, output, change) =>
+      update(records => {
+        const record = findActive(records, meetingId)
+        if (!record) {
+          throw new Error('Failed to save the regenerated report: the meeting no longer exists')
+        }
+        const revision = (latestOutput(record)?.revision || 1) + 1
+        record.outputs.push(toOutputRecord(output, revision, change))
+        return revision
+      }),
+    async getMeeting(id) {
+      const record = findActive(await loadRecords(), id)
+      return record ? toStoredMeeting(record) : undefined
+    },
+    async listMeetings({ limit, after }) {
+      let records = sortNewestFirst((await loadRecords()).filter(isActive))
+      if (after) {
+        // Same-millisecond saves are ordered by when they were saved here,
+        // so continue from the cursor's meeting while it is still listed
+        const index = records.findIndex(record => record.id === after.id)
+        records = index !== -1 ? records.slice(index + 1) : records.filter(record => record.createdAt < after.createdAt)
+      }
+      const page = records.slice(0, limit)
+      const last = page[page.length - 1]
+      return {
+        meetings: page.map(toStoredMeeting),
+        next: records.length > limit ? { createdAt: last.createdAt, id: last.id } : undefined,
+      }
+    },
+    updateMeeting: (id, changes) =>
+      update(records => {
+        const record = findActive(records, id)
+        if (!record) return undefined
+        if (changes.title !== undefined) record.title = changes.title
+        if (changes.meetingType !== undefined) record.meetingType = changes.meetingType
+        return toStoredMeeting(record)
+      }),
+    deleteMeeting: id =>
+      update(records => {
+        const record = findActive(records, id)
+        return record ? softDelete([record]) > 0 : false
+      }),
+    restoreMeeting: (id, deletedSince) =>
+      update(records => {
+        const record = records.find(candidate => candidate.id === id && candidate.deletedAt !== undefined && candidate.deletedAt >= deletedSince)
+        if (!record) return undefined
+        delete record.deletedAt
+        return toStoredMeeting(record)
+      }),
+    async listDeletedMeetings({ deletedSince, limit }) {
+      return (await loadRecords())
+        .filter(record => record.deletedAt !== undefined && record.deletedAt >= deletedSince)
+        .map(record => ({
+          id: record.id,
+          title: record.title,
+          meetingType: record.meetingType,
+          createdAt: record.createdAt,
+          deletedAt: record.deletedAt as string,
+        }))
+        .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt))
+        .slice(0, limit)
+    },
+    async searchMeetings(query) {
+      return searchMeetings(sortNewestFirst((await loadRecords()).filter(isActive)).map(toStoredMeeting), query)
+    },
+    async getQualityHistory({ meetingType, limit }) {
+      const scored: Array<{ createdAt: string; entry: QualityHistoryEntry }> = []
+      const records = await loadRecords()
+      records.filter(isActive).forEach(record => {
+        const latest = latestOutput(record)
+        const quality = latest?.output.meetingQuality
+        if (!latest || !quality || (meetingType && record.meetingType !== meetingType)) return
+        scored.push({
+          createdAt: latest.createdAt,
+          entry: {
+            meetingId: record.id,
+            title: record.title,
+            meetingType: record.meetingType,
+            createdAt: record.createdAt,
+            overallScore: quality.overallScore,
+            areas: quality.areas,
+            scoringVersion: quality.scoringVersion,
+          },
+        })
+      })
+      // Ordered by when the score was stored, as in the database
+      return sortNewestFirst(scored).slice(0, limit).map(score => score.entry)
+    },
+    deleteAllButNewest: count =>
+      update(records => softDelete(sortNewestFirst(records.filter(isActive)).slice(count))),
+    deleteSavedBefore: date =>
+      update(records => softDelete(records.filter(record => isActive(record) && record.createdAt < date))),
+    purgeDeletedBefore: date =>
+      update(records => {
+        const kept = records.filter(record => record.deletedAt === undefined || record.deletedAt >= date)
+        const purged = records.length - kept.length
+        records.splice(0, records.length, ...kept)
+        return purged
+      }),
+    async listRoster() {
+      return (await load()).roster.slice().sort((a, b) => a.name.localeCompare(b.name))
+    },
+    addRosterMember: fields =>
+      updateData(data => {
+        const member: RosterMember = { id: randomUUID(), ...fields }
+        data.roster.push(member)
+        return member
+      }),
+    updateRosterMember: (id, fields) =>
+      updateData(data => {
+        const index = data.roster.findIndex(member => member.id === id)
+        if (index === -1) return undefined
+        data.roster[index] = { ...data.roster[index], ...fields, id }
+        return data.roster[index]
+      }),
+    deleteRosterMember: id =>
+      updateData(data => {
+        const index = data.roster.findIndex(member => member.id === id)
+        if (index === -1) return false
+        data.roster.splice(index, 1)
+        return true
+      }),
+  }
+}
+
+export function createMemoryMeetingStore(records: MeetingRecord[] = [], roster: RosterMember[] = []): MeetingStore {
+  const data: StoreData = { meetings: records, roster }
+  return createRecordStore(async () => data, async () => undefined)
+}
+
+// A JSON file of MeetingRecords and the roster, created on the first save.
+// Writes go to a temporary file first so a crash never leaves half a file
+// behind.
+export function createFileMeetingStore(file: string): MeetingStore {
+  const load = async (): Promise<StoreData> => {
+    try {
+      const data = JSON.parse(await fs.readFile(file, 'utf8'))
+      if (!data || !Array.isArray(data.meetings)) {
+        throw new Error('expected a "meetings" array')
+      }
+      // Files written before the roster was kept here have none
+      return { meetings: data.meetings as MeetingRecord[], roster: Array.isArray(data.roster) ? (data.roster as RosterMember[]) : [] }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { meetings: [], roster: [] }
+      }
+      throw new Error(`Failed to read ${file}: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+  const save = async (data: StoreData) => {
+    await fs.mkdir(dirname(file), { recursive: true })
+    const temporary = `${file}.${process.pid}.tmp`
+    await fs.writeFile(temporary, JSON.stringify({ meetings: data.meetings, roster: data.roster }, null, 2))
+    await fs.rename(temporary, file)
+  }
+  return createRecordStore(load, save)
+}
+
+let store: MeetingStore | undefined
+
+// One store per server process
+export function getMeetingStore(): MeetingStore {
+  if (!store) {
+    const { kind, file } = getMeetingStoreSettings()
+    store = kind === 'file' ? createFileMeetingStore(file) : kind === 'memory' ? createMemoryMeetingStore() : createDatabaseMeetingStore()
+  }
+  return store
+}
+
+// Summaries still work without a roster (or without Supabase at all)
+export async function getRosterOrEmpty(store: MeetingStore = getMeetingStore()): Promise<RosterMember[]> {
+  try {
+    return await store.listRoster()
+  } catch (error) {
+    console.warn('Summarizing without a team roster:', error instanceof Error ? error.message : error)
+    return []
+  }
+}
@@ -0,0 +1,344 @@
+import type { MeetingType, MeetingTypeSections, StandupUpdate, TimelineEvent } from './ai'
+
+export interface MeetingTypeDefinition {
+  type: MeetingType
+  label: string
+  description: string
+  promptFocus: string // extra instructions added to the system prompt
+  sectionSchema?: string // JSON shape of "meetingTypeSections" shown to the model
+  keywords: Array<[string, number]> // classifier keywords and their weights
+}
+
+export const MEETING_TYPES: Record<MeetingType, MeetingTypeDefinition> = {
+  'development-team-meeting': {
+    type: 'development-team-meeting',
+    label: 'Development Team Meeting',
+    description: 'General sync covering decisions, action items and blockers',
+    promptFocus: 'This is a general development team meeting.',
+    keywords: [],
+  },
+  standup: {
+    type: 'standup',
+    label: 'Daily Standup',
+    description: 'Per-person yesterday / today / blockers updates',
+    promptFocus: 'This is a daily standup. Capture each person\'s update: what they did yesterday, what they are doing today and what blocks them.',
+    sectionSchema: `{
+    "kind": "standup",
+    "updates": [
+      { "person": "name", "yesterday": ["done item"], "today": ["planned item"], "blockers": ["blocker"] }
+    ]
+  }`,
+    keywords: [['standup', 5], ['stand-up', 5], ['daily sync', 4], ['yesterday', 2], ['today', 1], ['blocked', 1]],
+  },
+  'sprint-planning': {
+    type: 'sprint-planning',
+    label: 'Sprint Planning',
+    description: 'Sprint goal, committed scope and team capacity',
+    promptFocus: 'This is a sprint planning meeting. Capture the sprint goal, the scope the team committed to, the available capacity and anything deferred.',
+    sectionSchema: `{
+    "kind": "sprint-planning",
+    "sprintGoal": "goal for the sprint or TBD",
+    "committedScope": ["committed story or ticket"],
+    "capacity": "team capacity, velocity or points",
+    "deferredItems": ["item pushed out of the sprint"]
+  }`,
+    keywords: [['sprint planning', 6], ['capacity', 3], ['story points', 3], ['velocity', 3], ['commit', 2], ['backlog', 2], ['sprint goal', 4]],
+  },
+  retrospective: {
+    type: 'retrospective',
+    label: 'Retrospective',
+    description: 'What went well, what to improve and experiments to try',
+    promptFocus: 'This is a retrospective. Separate what went well from what should improve, and list the experiments or changes the team agreed to try.',
+    sectionSchema: `{
+    "kind": "retrospective",
+    "wentWell": ["thing that went well"],
+    "toImprove": ["thing to improve"],
+    "experiments": ["change the team will try next sprint"]
+  }`,
+    keywords: [['retro', 6], ['retrospective', 6], ['went well', 4], ['to improve', 3], ['start/stop/continue', 4], ['kudos', 2], ['shout-out', 2]],
+  },
+  'incident-postmortem': {
+    type: 'incident-postmortem',
+    label: 'Incident Postmortem',
+    description: 'Timeline, customer impact, root cause and remediation',
+    promptFocus: 'This is an incident postmortem. Reconstruct the timeline, state the impact and root cause, and list remediation work. Keep it blameless.',
+    sectionSchema: `{
+    "kind": "incident-postmortem",
+    "timeline": [{ "time": "14:05 or relative time", "event": "what happened" }],
+    "impact": "who or what was affected",
+    "rootCause": "underlying cause or TBD",
+    "remediation": ["fix or prevention step"]
+  }`,
+    keywords: [['postmortem', 6], ['post-mortem', 6], ['incident', 4], ['outage', 4], ['root cause', 4], ['rca', 3], ['sev1', 3], ['sev2', 3], ['pagerduty', 2], ['rollback', 2], ['mitigat', 2]],
+  },
+  'one-on-one': {
+    type: 'one-on-one',
+    label: '1:1',
+    description: 'Topics discussed, feedback exchanged and growth goals',
+    promptFocus: 'This is a 1:1 between a manager and a report. Capture topics discussed, feedback given in either direction and growth or career goals.',
+    sectionSchema: `{
+    "kind": "one-on-one",
+    "topics": ["topic discussed"],
+    "feedback": ["feedback given or received"],
+    "growthGoals": ["career or growth goal"]
+  }`,
+    keywords: [['1:1', 6], ['one-on-one', 6], ['1-on-1', 6], ['career', 3], ['growth', 2], ['promotion', 3], ['feedback', 1]],
+  },
+}
+
+export const MEETING_TYPE_OPTIONS: MeetingType[] = [
+  'development-team-meeting',
+  'standup',
+  'sprint-planning',
+  'retrospective',
+  'incident-postmortem',
+  'one-on-one',
+]
+
+export function isMeetingType(value: unknown): value is MeetingType {
+  return typeof value === 'string' && MEETING_TYPE_OPTIONS.indexOf(value as MeetingType) !== -1
+}
+
+// Minimum keyword score before we move away from the general meeting type
+const DETECTION_THRESHOLD = 4
+
+// Keyword-scored classifier; falls back to the general meeting type when
+// nothing specific stands out
+export function detectMeetingType(text: string): { type: MeetingType; confidence: number } {
+  const lowerText = text.toLowerCase()
+  let bestType: MeetingType = 'development-team-meeting'
+  let bestScore = 0
+  let totalScore = 0
+
+  for (const type of MEETING_TYPE_OPTIONS) {
+    const score = MEETING_TYPES[type].keywords.reduce(
+      (sum, [keyword, weight]) => sum + countOccurrences(lowerText, keyword) * weight,
+      0
+    )
+    totalScore += score
+    if (score > bestScore) {
+      bestType = type
+      bestScore = score
+    }
+  }
+
+  if (bestScore < DETECTION_THRESHOLD) {
+    return { type: 'development-team-meeting', confidence: bestScore === 0 ? 1 : 0.5 }
+  }
+
+  return { type: bestType, confidence: Math.round((bestScore / totalScore) * 100) / 100 }
+}
+
+function countOccurrences(text: string, keyword: string): number {
+  let count = 0
+  let position = text.indexOf(keyword)
+  while (position !== -1) {
+    count++
+    position = text.indexOf(keyword, position + keyword.length)
+  }
+  return count
+}
+
+// Coerce whatever the model returned for "meetingTypeSections" into the
+// shape for the given meeting type
+export function normalizeMeetingTypeSections(type: MeetingType, raw: unknown): MeetingTypeSections | undefined {
+  const value = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+
+  switch (type) {
+    case 'standup':
+      return {
+        kind: 'standup',
+        updates: toArray(value.updates).map(update => {
+          const entry = (update || {}) as Record<string, unknown>
+          return {
+            person: toText(entry.person) || 'TBD',
+            yesterday: toStrings(entry.yesterday),
+            today: toStrings(entry.today),
+            blockers: toStrings(entry.blockers),
+          }
+        }),
+      }
+    case 'sprint-planning':
+      return {
+        kind: 'sprint-planning',
+        sprintGoal: toText(value.sprintGoal) || 'TBD',
+        committedScope: toStrings(value.committedScope),
+        capacity: toText(value.capacity) || 'TBD',
+        deferredItems: toStrings(value.deferredItems),
+      }
+    case 'retrospective':
+      return {
+        kind: 'retrospective',
+        wentWell: toStrings(value.wentWell),
+        toImprove: toStrings(value.toImprove),
+        experiments: toStrings(value.experiments),
+      }
+    case 'incident-postmortem':
+      return {
+        kind: 'incident-postmortem',
+        timeline: toArray(value.timeline).map(event => {
+          const entry = (event || {}) as Record<string, unknown>
+          return { time: toText(entry.time) || 'TBD', event: toText(entry.event) }
+        }).filter(event => event.event.length > 0),
+        impact: toText(value.impact) || 'TBD',
+        rootCause: toText(value.rootCause) || 'TBD',
+        remediation: toStrings(value.remediation),
+      }
+    case 'one-on-one':
+      return {
+        kind: 'one-on-one',
+        topics: toStrings(value.topics),
+        feedback: toStrings(value.feedback),
+        growthGoals: toStrings(value.growthGoals),
+      }
+    default:
+      return undefined
+  }
+}
+
+function toArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : []
+}
+
+function toText(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+function toStrings(value: unknown): string[] {
+  return toArray(value).map(toText).filter(item => item.length > 0)
+}
+
+// Keyword-based extraction of the type-specific sections, used when the
+// model response cannot be parsed and in demo mode
+export function buildHeuristicTypeSections(type: MeetingType, text: string): MeetingTypeSections | undefined {
+  const lines = text.split('\n').map(line => line.replace(/^[-•*]\s+/, '').trim()).filter(line => line.length > 0)
+
+  switch (type) {
+    case 'standup':
+      return { kind: 'standup', updates: extractStandupUpdates(lines) }
+    case 'sprint-planning':
+      return {
+        kind: 'sprint-planning',
+        sprintGoal: linesMatching(lines, ['goal'])[0] || 'TBD',
+        committedScope: linesMatching(lines, ['commit', 'scope', 'story', 'ticket', 'points']).slice(0, 6),
+        capacity: linesMatching(lines, ['capacity', 'velocity', 'availability', 'out of office', 'pto'])[0] || 'TBD',
+        deferredItems: linesMatching(lines, ['defer', 'next sprint', 'out of scope', 'punt', 'postpone']),
+      }
+    case 'retrospective':
+      return {
+        kind: 'retrospective',
+        wentWell: linesMatching(lines, ['went well', 'good', 'great', 'kudos', 'worked', 'shout-out']),
+        toImprove: linesMatching(lines, ['improve', "didn't", 'did not', 'problem', 'slow', 'pain', 'issue']),
+        experiments: linesMatching(lines, ['try', 'experiment', 'start', 'stop', 'will']),
+      }
+    case 'incident-postmortem':
+      return {
+        kind: 'incident-postmortem',
+        timeline: extractTimeline(lines),
+        impact: linesMatching(lines, ['impact', 'affected', 'customers', 'users', 'downtime'])[0] || 'TBD',
+        rootCause: linesMatching(lines, ['root cause', 'caused by', 'because'])[0] || 'TBD',
+        remediation: linesMatching(lines, ['fix', 'remediat', 'prevent', 'follow-up', 'add monitoring', 'add alert', 'alerting']),
+      }
+    case 'one-on-one':
+      return {
+        kind: 'one-on-one',
+        topics: lines.slice(0, 5),
+        feedback: linesMatching(lines, ['feedback', 'great job', 'concern', 'well done', 'could']),
+        growthGoals: linesMatching(lines, ['career', 'growth', 'goal', 'promotion', 'learn']),
+      }
+    default:
+      return undefined
+  }
+}
+
+function linesMatching(lines: string[], keywords: string[]): string[] {
+  return lines.filter(line => {
+    const lowerLine = line.toLowerCase()
+    return keywords.some(keyword => lowerLine.includes(keyword))
+  }).slice(0, 5)
+}
+
+function extractStandupUpdates(lines: string[]): StandupUpdate[] {
+  const updates: StandupUpdate[] = []
+
+  for (const line of lines) {
+    // "Sam: finished the API, today tests, blocked on review"
+    const match = line.match(/^([A-Z][a-zA-Z]+)\s*[:\-–]\s*(.+)$/)
+    if (!match) continue
+
+    const parts = match[2].split(/[,;]/).map(part => part.trim()).filter(part => part.length > 0)
+    const update: StandupUpdate = { person: match[1], yesterday: [], today: [], blockers: [] }
+
+    for (const part of parts) {
+      const lowerPart = part.toLowerCase()
+      if (/block|waiting|stuck/.test(lowerPart)) {
+        update.blockers.push(part)
+      } else if (/yesterday|finished|done|completed|merged|shipped/.test(lowerPart)) {
+        update.yesterday.push(part)
+      } else {
+        update.today.push(part)
+      }
+    }
+
+    updates.push(update)
+  }
+
+  return updates
+}
+
+function extractTimeline(lines: string[]): TimelineEvent[] {
+  const timeline: TimelineEvent[] = []
+
+  for (const line of lines) {
+    const match = line.match(/^(\d{1,2}:\d{2}(?:\s*[aApP][mM])?(?:\s+[A-Z]{2,4}\b)?)\s*[-–:]?\s*(.+)$/)
+    if (match) {
+      timeline.push({ time: match[1], event: match[2] })
+    }
+  }
+
+  return timeline
+}
+
+// Plain-text sections for the copied report
+export function formatMeetingTypeSections(sections: MeetingTypeSections): Array<{ title: string; entries: string[] }> {
+  const bullets = (items: string[], prefix = '-') => items.map(item => `${prefix} ${item}`)
+
+  switch (sections.kind) {
+    case 'standup':
+      return [{
+        title: 'STANDUP UPDATES',
+        entries: sections.updates.map(update => [
+          `- ${update.person}`,
+          ...update.yesterday.map(item => `  Yesterday: ${item}`),
+          ...update.today.map(item => `  Today: ${item}`),
+          ...update.blockers.map(item => `  Blocker: ${item}`),
+        ].join('\n')),
+      }]
+    case 'sprint-planning':
+      return [
+        { title: 'SPRINT GOAL', entries: [`- ${sections.sprintGoal}`] },
+        { title: 'COMMITTED SCOPE', entries: bullets(sections.committedScope) },
+        { title: 'CAPACITY', entries: [`- ${sections.capacity}`] },
+        { title: 'DEFERRED', entries: bullets(sections.deferredItems) },
+      ]
+    case 'retrospective':
+      return [
+        { title: 'WENT WELL', entries: bullets(sections.wentWell, '- +') },
+        { title: 'TO IMPROVE', entries: bullets(sections.toImprove, '- Δ') },
+        { title: 'EXPERIMENTS', entries: bullets(sections.experiments) },
+      ]
+    case 'incident-postmortem':
+      return [
+        { title: 'TIMELINE', entries: sections.timeline.map(event => `- ${event.time} — ${event.event}`) },
+        { title: 'IMPACT', entries: [`- ${sections.impact}`] },
+        { title: 'ROOT CAUSE', entries: [`- ${sections.rootCause}`] },
+        { title: 'REMEDIATION', entries: bullets(sections.remediation) },
+      ]
+    case 'one-on-one':
+      return [
+        { title: 'TOPICS', entries: bullets(sections.topics) },
+        { title: 'FEEDBACK', entries: bullets(sections.feedback) },
+        { title: 'GROWTH GOALS', entries: bullets(sections.growthGoals) },
+      ]
+  }
+}
@@ -0,0 +1,154 @@
+import { CompletionRequest, CompletionResult, LLMProvider, parseRetryAfter, ProviderError, ProviderErrorKind, TokenUsage } from './types'
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages'
+
+export const anthropicProvider: LLMProvider = {
+  id: 'anthropic',
+  label: 'Anthropic',
+  defaultModel: process.env.CLAUDE_SUMMARY_MODEL || 'claude-3-haiku-20240307',
+
+  isConfigured() {
+    return Boolean(process.env.ANTHROPIC_API_KEY)
+  },
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const response = await sendMessagesRequest(request, false)
+    const data = await response.json()
+    const content = data?.content?.[0]?.text
+
+    if (!content || typeof content !== 'string') {
+      throw new ProviderError('anthropic', 'bad-response', 'Claude API returned an unexpected response format.')
+    }
+
+    return { text: content, model: data?.model || request.model, usage: toTokenUsage(data?.usage) }
+  },
+
+  async stream(request: CompletionRequest, onDelta: (delta: string) => void): Promise<CompletionResult> {
+    const response = await sendMessagesRequest(request, true)
+    if (!response.body) {
+      throw new ProviderError('anthropic', 'bad-response', 'Claude API returned an empty stream.')
+    }
+
+    let text = ''
+    let model = request.model
+    let inputTokens: number | undefined
+    let outputTokens: number | undefined
+
+    // Server-sent events: we only need the "data:" lines
+    await readLines(response.body, line => {
+      if (!line.startsWith('data:')) return
+
+      const event = JSON.parse(line.slice(5).trim())
+      if (event.type === 'message_start') {
+        model = event.message?.model || model
+        inputTokens = event.message?.usage?.input_tokens
+      } else if (event.type === 'message_delta' && event.usage) {
+        // Cumulative for the message so far
+        outputTokens = event.usage.output_tokens
+      } else if (event.type === 'content_block_delta' && typeof event.delta?.text === 'string') {
+        text += event.delta.text
+        onDelta(event.delta.text)
+      } else if (event.type === 'error') {
+        const message = event.error?.message || 'Claude API stream failed.'
+        throw new ProviderError('anthropic', classifyAnthropicError(0, message, event.error?.type), message)
+      }
+    })
+
+    if (!text) {
+      throw new ProviderError('anthropic', 'bad-response', 'Claude API returned an unexpected response format.')
+    }
+
+    return { text, model, usage: toTokenUsage({ input_tokens: inputTokens, output_tokens: outputTokens }) }
+  },
+}
+
+async function sendMessagesRequest(request: CompletionRequest, stream: boolean): Promise<Response> {
+  const apiKey = process.env.ANTHROPIC_API_KEY
+  if (!apiKey) {
+    throw new ProviderError('anthropic', 'missing-key', 'Missing Anthropic API key.')
+  }
+
+  let response: Response
+  try {
+    response = await fetch(ANTHROPIC_API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+      },
+      body: JSON.stringify({
+        model: request.model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        system: request.system,
+        messages: [{ role: 'user', content: request.prompt }],
+        stream,
+      }),
+      signal: request.signal,
+    })
+  } catch (error) {
+    throw new ProviderError(
+      'anthropic',
+      'network',
+      `Could not reach Anthropic: ${error instanceof Error ? error.message : 'network error'}`
+    )
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    let message = errorText || `Claude API error (${response.status})`
+    let errorType: string | undefined
+    try {
+      const parsed = JSON.parse(errorText)
+      message = (parsed?.error?.message as string | undefined) || message
+      errorType = parsed?.error?.type
+    } catch {
+      // Not JSON; keep the raw body
+    }
+    throw new ProviderError(
+      'anthropic',
+      classifyAnthropicError(response.status, message, errorType),
+      message,
+      response.status,
+      parseRetryAfter(response.headers.get('retry-after'))
+    )
+  }
+
+  return response
+}
+
+function toTokenUsage(usage: { input_tokens?: unknown; output_tokens?: unknown } | undefined): TokenUsage | undefined {
+  if (!usage || typeof usage.input_tokens !== 'number' || typeof usage.output_tokens !== 'number') {
+    return undefined
+  }
+  return { inputTokens: usage.input_tokens, outputTokens: usage.output_tokens }
+}
+
+async function readLines(body: ReadableStream<Uint8Array>, onLine: (line: string) => void): Promise<void> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split('\n')
+    buffer = lines.pop() || ''
+    lines.forEach(line => onLine(line.trim()))
+  }
+
+  if (buffer.trim()) {
+    onLine(buffer.trim())
+  }
+}
+
+function classifyAnthropicError(status: number, message: string, errorType?: string): ProviderErrorKind {
+  if (/credit balance/i.test(message)) return 'credits'
+  if (status === 401 || status === 403 || errorType === 'authentication_error') return 'auth'
+  if (status === 429 || errorType === 'rate_limit_error') return 'rate-limit'
+  if (status === 529 || status === 503 || errorType === 'overloaded_error') return 'overloaded'
+  return 'unknown'
+}
@@ -0,0 +1,44 @@
+import { anthropicProvider } from './anthropic'
+import { localProvider, openAIProvider } from './openaiCompatible'
+import { replayProvider, withRecording } from './replay'
+import { withRetries } from './retry'
+import type { LLMProvider, ProviderId } from './types'
+
+export { withSignal } from './retry'
+export { ProviderError } from './types'
+export type { CompletionRequest, CompletionResult, LLMProvider, ProviderErrorKind, ProviderId, TokenUsage } from './types'
+
+// Every call goes through the timeout and retry wrapper (see ./retry), and
+// is recorded while LLM_RECORD_FILE is set (see ./replay)
+const PROVIDERS: Record<ProviderId, LLMProvider> = {
+  anthropic: withRecording(withRetries(anthropicProvider)),
+  openai: withRecording(withRetries(openAIProvider)),
+  local: withRecording(withRetries(localProvider)),
+  replay: replayProvider,
+}
+
+export const PROVIDER_IDS: ProviderId[] = ['anthropic', 'openai', 'local', 'replay']
+
+export function isProviderId(value: unknown): value is ProviderId {
+  return typeof value === 'string' && PROVIDER_IDS.indexOf(value as ProviderId) !== -1
+}
+
+export function getProvider(id: ProviderId): LLMProvider {
+  return PROVIDERS[id]
+}
+
+// Pick the provider and model for a request: explicit request values win,
+// then LLM_PROVIDER / LLM_MODEL, then each provider's own default
+export function resolveProvider(requested: { provider?: ProviderId; model?: string } = {}): {
+  provider: LLMProvider
+  model: string
+} {
+  const envProvider = process.env.LLM_PROVIDER
+  const providerId = requested.provider || (isProviderId(envProvider) ? envProvider : 'anthropic')
+  const provider = PROVIDERS[providerId]
+
+  // LLM_MODEL only applies to the environment's provider
+  const envModel = !requested.provider || requested.provider === envProvider ? process.env.LLM_MODEL : undefined
+
+  return { provider, model: requested.model || envModel || provider.defaultModel }
+}
@@ -0,0 +1,138 @@
+import OpenAI from 'openai'
+import { CompletionRequest, CompletionResult, LLMProvider, parseRetryAfter, ProviderError, ProviderErrorKind, ProviderId } from './types'
+
+interface OpenAICompatibleConfig {
+  id: ProviderId
+  label: string
+  defaultModel: string
+  getBaseURL: () => string | undefined
+  getApiKey: () => string | undefined
+  isConfigured: () => boolean
+  // Ask for token usage at the end of a stream; not every server accepts it
+  streamUsage: boolean
+}
+
+// One adapter for every server speaking the chat completions API: OpenAI
+// itself, and self-hosted endpoints such as a llama.cpp or vLLM server
+function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): LLMProvider {
+  return {
+    id: config.id,
+    label: config.label,
+    defaultModel: config.defaultModel,
+    isConfigured: config.isConfigured,
+
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      let completion: OpenAI.Chat.Completions.ChatCompletion
+      try {
+        completion = await createClient(config).chat.completions.create(toChatRequest(request), { signal: request.signal })
+      } catch (error) {
+        throw toProviderError(config, error)
+      }
+
+      return toResult(config, completion, request)
+    },
+
+    async stream(request: CompletionRequest, onDelta: (delta: string) => void): Promise<CompletionResult> {
+      let completion: OpenAI.Chat.Completions.ChatCompletion
+      try {
+        const runner = createClient(config).beta.chat.completions.stream(
+          config.streamUsage ? { ...toChatRequest(request), stream_options: { include_usage: true } } : toChatRequest(request),
+          { signal: request.signal }
+        )
+        runner.on('content', delta => onDelta(delta))
+        completion = await runner.finalChatCompletion()
+      } catch (error) {
+        throw toProviderError(config, error)
+      }
+
+      return toResult(config, completion, request)
+    },
+  }
+}
+
+function createClient(config: OpenAICompatibleConfig): OpenAI {
+  return new OpenAI({
+    // Local servers usually ignore the key, but the SDK requires one
+    apiKey: config.getApiKey() || 'not-needed',
+    baseURL: config.getBaseURL(),
+    maxRetries: 0,
+  })
+}
+
+function toChatRequest(request: CompletionRequest) {
+  return {
+    model: request.model,
+    max_tokens: request.maxTokens,
+    temperature: request.temperature,
+    messages: [
+      { role: 'system' as const, content: request.system },
+      { role: 'user' as const, content: request.prompt },
+    ],
+  }
+}
+
+function toResult(
+  config: OpenAICompatibleConfig,
+  completion: OpenAI.Chat.Completions.ChatCompletion,
+  request: CompletionRequest
+): CompletionResult {
+  const content = completion.choices?.[0]?.message?.content
+
+  if (!content) {
+    throw new ProviderError(config.id, 'bad-response', `${config.label} returned an unexpected response format.`)
+  }
+
+  const usage = completion.usage
+    ? { inputTokens: completion.usage.prompt_tokens, outputTokens: completion.usage.completion_tokens }
+    : undefined
+  return { text: content, model: completion.model || request.model, usage }
+}
+
+function toProviderError(config: OpenAICompatibleConfig, error: unknown): ProviderError {
+  if (error instanceof OpenAI.APIConnectionError) {
+    return new ProviderError(config.id, 'network', `Could not reach ${config.label}: ${error.message}`)
+  }
+
+  if (error instanceof OpenAI.APIError) {
+    const headers = error.headers || {}
+    // retry-after-ms is OpenAI's more precise variant of retry-after
+    const retryAfterMs = headers['retry-after-ms'] ? Number(headers['retry-after-ms']) : parseRetryAfter(headers['retry-after'])
+    return new ProviderError(
+      config.id,
+      classifyOpenAIError(error),
+      error.message,
+      error.status,
+      Number.isFinite(retryAfterMs) ? retryAfterMs : undefined
+    )
+  }
+
+  return new ProviderError(config.id, 'unknown', error instanceof Error ? error.message : `${config.label} request failed.`)
+}
+
+function classifyOpenAIError(error: InstanceType<typeof OpenAI.APIError>): ProviderErrorKind {
+  if (error.code === 'insufficient_quota') return 'credits'
+  if (error.status === 401 || error.status === 403) return 'auth'
+  if (error.status === 429) return 'rate-limit'
+  if (error.status === 502 || error.status === 503 || error.status === 529) return 'overloaded'
+  return 'unknown'
+}
+
+export const openAIProvider = createOpenAICompatibleProvider({
+  id: 'openai',
+  label: 'OpenAI',
+  defaultModel: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+  getBaseURL: () => process.env.OPENAI_BASE_URL || undefined,
+  getApiKey: () => process.env.OPENAI_API_KEY,
+  isConfigured: () => Boolean(process.env.OPENAI_API_KEY),
+  streamUsage: true,
+})
+
+export const localProvider = createOpenAICompatibleProvider({
+  id: 'local',
+  label: 'Local model server',
+  defaultModel: process.env.LOCAL_LLM_MODEL || 'local-model',
+  getBaseURL: () => process.env.LOCAL_LLM_BASE_URL,
+  getApiKey: () => process.env.LOCAL_LLM_API_KEY,
+  isConfigured: () => Boolean(process.env.LOCAL_LLM_BASE_URL),
+  streamUsage: false,
+})
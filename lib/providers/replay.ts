@@ -0,0 +1,95 @@
+import { createHash } from 'crypto'
+import { existsSync, readFileSync, writeFileSync } from 'fs'
+import { CompletionRequest, CompletionResult, LLMProvider, ProviderError, TokenUsage } from './types'
+
+// Recorded provider responses, so evaluations (scripts/eval.ts) can be
+// re-run offline and give the same answers every time. LLM_RECORD_FILE
+// records what any provider returns; LLM_PROVIDER=replay with
+// LLM_REPLAY_FILE plays a recording back.
+
+export interface RecordedResponse {
+  provider: string
+  model: string
+  text: string
+  usage?: TokenUsage
+}
+
+export interface Recording {
+  version: 1
+  responses: Record<string, RecordedResponse> // by requestKey()
+}
+
+// Model and sampling settings are left out so one recording can be replayed
+// under any model name; record each model to its own file
+export function requestKey(request: CompletionRequest): string {
+  return createHash('sha256').update(JSON.stringify([request.system, request.prompt])).digest('hex')
+}
+
+export function readRecording(file: string): Recording {
+  if (!existsSync(file)) {
+    return { version: 1, responses: {} }
+  }
+  const raw = JSON.parse(readFileSync(file, 'utf8'))
+  if (!raw || raw.version !== 1 || typeof raw.responses !== 'object') {
+    throw new Error(`${file} is not a provider recording`)
+  }
+  return raw as Recording
+}
+
+const loaded: Record<string, Recording> = {}
+
+function replay(request: CompletionRequest): CompletionResult {
+  const file = process.env.LLM_REPLAY_FILE as string
+  const recording = loaded[file] || (loaded[file] = readRecording(file))
+  const response = recording.responses[requestKey(request)]
+  if (!response) {
+    // A changed prompt or changed notes need a fresh recording
+    throw new ProviderError('replay', 'bad-response', `No recorded response in ${file} matches this request. Record it again with LLM_RECORD_FILE.`)
+  }
+  return { text: response.text, model: response.model, usage: response.usage }
+}
+
+export const replayProvider: LLMProvider = {
+  id: 'replay',
+  label: 'Replay',
+  defaultModel: 'recorded',
+
+  isConfigured() {
+    return Boolean(process.env.LLM_REPLAY_FILE)
+  },
+
+  async complete(request) {
+    return replay(request)
+  },
+
+  async stream(request, onDelta) {
+    const result = replay(request)
+    onDelta(result.text)
+    return result
+  },
+}
+
+// Saves every successful response to LLM_RECORD_FILE while it is set
+export function withRecording(provider: LLMProvider): LLMProvider {
+  const record = (request: CompletionRequest, result: CompletionResult): CompletionResult => {
+    const file = process.env.LLM_RECORD_FILE
+    if (file) {
+      const recording = readRecording(file)
+      recording.responses[requestKey(request)] = { provider: provider.id, model: result.model, text: result.text, usage: result.usage }
+      writeFileSync(file, `${JSON.stringify(recording, null, 2)}\n`)
+    }
+    return result
+  }
+
+  return {
+    ...provider,
+
+    async complete(request) {
+      return record(request, await provider.complete(request))
+    },
+
+    async stream(request, onDelta) {
+      return record(request, await provider.stream(request, onDelta))
+    },
+  }
+}
@@ -0,0 +1,133 @@
+import { getProviderCallSettings } from '../config'
+import { CompletionRequest, isRetryable, LLMProvider, ProviderError } from './types'
+
+const BASE_BACKOFF_MS = 1000
+const MAX_BACKOFF_MS = 16000
+// A longer retry-after isn't waited out; the caller gets the error with it
+const MAX_RETRY_AFTER_MS = 30000
+
+// Aborts when no progress has been made for `timeoutMs`; touch() on progress.
+// Also aborts as soon as the caller's own signal does.
+function createDeadline(timeoutMs: number, caller?: AbortSignal) {
+  const controller = new AbortController()
+  const abort = () => controller.abort()
+  let timer = setTimeout(abort, timeoutMs)
+  if (caller?.aborted) {
+    abort()
+  } else {
+    caller?.addEventListener('abort', abort)
+  }
+  return {
+    signal: controller.signal,
+    touch() {
+      clearTimeout(timer)
+      timer = setTimeout(abort, timeoutMs)
+    },
+    clear() {
+      clearTimeout(timer)
+      caller?.removeEventListener('abort', abort)
+    },
+  }
+}
+
+function backoffDelay(error: ProviderError, attempt: number): number | null {
+  if (error.retryAfterMs !== undefined) {
+    return error.retryAfterMs <= MAX_RETRY_AFTER_MS ? error.retryAfterMs : null
+  }
+  // Exponential with a little jitter so parallel requests don't retry in step
+  return Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * Math.pow(2, attempt)) + Math.floor(Math.random() * 250)
+}
+
+// Ends early when `signal` aborts
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', done)
+      resolve()
+    }
+    const timer = setTimeout(done, ms)
+    if (signal?.aborted) {
+      done()
+    } else {
+      signal?.addEventListener('abort', done)
+    }
+  })
+}
+
+// Adds a timeout to every call and retries rate limits, overloads and
+// network failures with exponential backoff, honouring retry-after.
+// A stream is only retried until its first delta has been passed on.
+// A call whose request signal aborts fails with 'cancelled' and is not retried.
+export function withRetries(provider: LLMProvider): LLMProvider {
+  async function call<T>(
+    request: CompletionRequest,
+    run: (request: CompletionRequest, touch: () => void) => Promise<T>,
+    canRetry: () => boolean
+  ): Promise<T> {
+    const { timeoutMs, maxRetries } = getProviderCallSettings()
+    const cancelled = () => new ProviderError(provider.id, 'cancelled', `The request to ${provider.label} was cancelled.`)
+
+    for (let attempt = 0; ; attempt++) {
+      const deadline = createDeadline(timeoutMs, request.signal)
+      try {
+        return await run({ ...request, signal: deadline.signal }, deadline.touch)
+      } catch (error) {
+        if (request.signal?.aborted) {
+          throw cancelled()
+        }
+        if (deadline.signal.aborted) {
+          throw new ProviderError(provider.id, 'timeout', `${provider.label} did not respond within ${Math.round(timeoutMs / 1000)} seconds.`)
+        }
+        if (!(error instanceof ProviderError) || !isRetryable(error) || attempt >= maxRetries || !canRetry()) {
+          throw error
+        }
+        const delay = backoffDelay(error, attempt)
+        if (delay === null) {
+          throw error
+        }
+        console.warn(`${provider.label} ${error.kind} (${error.status ?? 'no status'}), retrying in ${delay}ms (attempt ${attempt + 2} of ${maxRetries + 1})`)
+        await sleep(delay, request.signal)
+        if (request.signal?.aborted) {
+          throw cancelled()
+        }
+      } finally {
+        deadline.clear()
+      }
+    }
+  }
+
+  return {
+    ...provider,
+
+    complete(request) {
+      return call(request, signed => provider.complete(signed), () => true)
+    },
+
+    stream(request, onDelta) {
+      let started = false
+      return call(
+        request,
+        (signed, touch) =>
+          provider.stream(signed, delta => {
+            started = true
+            touch()
+            onDelta(delta)
+          }),
+        () => !started
+      )
+    },
+  }
+}
+
+// Passes `signal` with every call, so the caller can abort them all at once
+export function withSignal(provider: LLMProvider, signal: AbortSignal | undefined): LLMProvider {
+  if (!signal) {
+    return provider
+  }
+  return {
+    ...provider,
+    complete: request => provider.complete({ ...request, signal }),
+    stream: (request, onDelta) => provider.stream({ ...request, signal }, onDelta),
+  }
+}
@@ -0,0 +1,78 @@
+export type ProviderId = 'anthropic' | 'openai' | 'local' | 'replay'
+
+export interface CompletionRequest {
+  system: string
+  prompt: string
+  model: string
+  maxTokens: number
+  temperature: number
+  signal?: AbortSignal // aborts the call; the retry wrapper also uses it to enforce its timeout
+}
+
+export interface TokenUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface CompletionResult {
+  text: string
+  model: string
+  usage?: TokenUsage // absent when the server doesn't report it
+}
+
+export interface LLMProvider {
+  id: ProviderId
+  label: string // shown in error messages
+  defaultModel: string
+  isConfigured(): boolean
+  complete(request: CompletionRequest): Promise<CompletionResult>
+  // Same as complete(), reporting text deltas as they arrive
+  stream(request: CompletionRequest, onDelta: (delta: string) => void): Promise<CompletionResult>
+}
+
+// What went wrong, independent of which provider reported it
+export type ProviderErrorKind =
+  | 'missing-key'
+  | 'auth'
+  | 'credits'
+  | 'rate-limit'
+  | 'overloaded'
+  | 'network'
+  | 'timeout'
+  | 'cancelled' // the caller aborted the request
+  | 'bad-response'
+  | 'unknown'
+
+export class ProviderError extends Error {
+  kind: ProviderErrorKind
+  provider: ProviderId
+  status?: number
+  retryAfterMs?: number // from the provider's retry-after header
+
+  constructor(provider: ProviderId, kind: ProviderErrorKind, message: string, status?: number, retryAfterMs?: number) {
+    super(message)
+    // Keep instanceof working when compiled down to ES5
+    Object.setPrototypeOf(this, ProviderError.prototype)
+    this.name = 'ProviderError'
+    this.provider = provider
+    this.kind = kind
+    this.status = status
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+// Worth another attempt after a pause
+export function isRetryable(error: ProviderError): boolean {
+  return error.kind === 'rate-limit' || error.kind === 'overloaded' || error.kind === 'network'
+}
+
+// retry-after is either seconds or an HTTP date
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
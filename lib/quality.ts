@@ -0,0 +1,196 @@
+import type { MeetingQualityMetrics, QualityArea, QualityFactor, SummaryOutput } from './ai'
+import { contentWords } from './citations'
+import { escapeRegExp, isUnassigned, normalizeName } from './roster'
+
+// Bump when factors, weights or thresholds change; stored with each score
+export const QUALITY_SCORING_VERSION = 1
+
+export const QUALITY_AREAS: QualityArea[] = ['preparation', 'participation', 'decisionMaking', 'actionClarity', 'followThrough']
+
+export const QUALITY_AREA_LABELS: Record<QualityArea, string> = {
+  preparation: 'Preparation',
+  participation: 'Participation',
+  decisionMaking: 'Decision making',
+  actionClarity: 'Action clarity',
+  followThrough: 'Follow-through',
+}
+
+// Factors below this ratio produce a recommendation
+const RECOMMENDATION_THRESHOLD = 0.75
+const MAX_RECOMMENDATIONS = 5
+
+const RECOMMENDATIONS: Record<string, string> = {
+  'open-questions': 'Send the open questions to their owners ahead of the next meeting, or add them to its agenda.',
+  'topics-covered': 'Share an agenda beforehand so the main topics are covered and recorded.',
+  'people-with-work': 'Spread action items across the people who will do the work instead of leaving them with one person.',
+  'balanced-workload': 'Check that one person is not carrying most of the follow-up work.',
+  'decision-rationale': 'Record why each decision was made so it can be revisited later.',
+  'decision-owners': 'Name who is accountable for carrying out each decision.',
+  'action-owners': 'Assign a named owner to every action item before the meeting ends.',
+  'action-deadlines': 'Agree on a concrete date for every action item rather than "soon" or "TBD".',
+  'success-criteria': 'Say what "done" means for each action item.',
+  'action-items': 'Close the meeting by agreeing on concrete next steps.',
+  'blocker-owners': 'Give every blocker an owner or a follow-up action item.',
+  'risk-mitigations': 'Agree on a mitigation for each risk, or explicitly accept it.',
+}
+
+const MIN_SHARED_WORDS = 2
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`
+}
+
+function shareFactor(
+  id: string,
+  area: QualityArea,
+  label: string,
+  weight: number,
+  passing: number,
+  total: number,
+  noun: string
+): QualityFactor {
+  return total === 0
+    ? { id, area, label, weight, ratio: 1, detail: `No ${noun}s recorded` }
+    : { id, area, label, weight, ratio: passing / total, detail: `${passing} of ${plural(total, noun)}` }
+}
+
+function getActionItems(summary: SummaryOutput) {
+  const owned = summary.developmentTeamSections.actionItemsAndOwnership
+  return owned.length > 0 ? owned : summary.actionItems
+}
+
+// A blocker counts as owned when an action item addresses it or it names
+// someone who owns work in this meeting
+function isBlockerOwned(blocker: string, summary: SummaryOutput, owners: string[]): boolean {
+  const words = contentWords(blocker)
+  const addressed = getActionItems(summary).some(item => {
+    const taskWords = contentWords(item.task)
+    return words.filter(word => taskWords.indexOf(word) !== -1).length >= MIN_SHARED_WORDS
+  })
+  const text = normalizeName(blocker)
+  return addressed || owners.some(owner => new RegExp(`\\b${escapeRegExp(owner)}\\b`).test(text))
+}
+
+function collectOwners(summary: SummaryOutput): string[] {
+  const owners = [
+    ...getActionItems(summary).map(item => item.owner),
+    ...summary.developmentTeamSections.keyDecisionsAndProgress.decisions.map(decision => decision.owner),
+    ...(summary.riskAssessment || []).map(risk => risk.owner),
+  ]
+  return owners
+    .filter((owner): owner is string => Boolean(owner) && !isUnassigned(owner))
+    .flatMap(owner => owner.split(/\s*,\s*/))
+    .map(normalizeName)
+    .filter(owner => owner.length > 0)
+}
+
+function measureFactors(summary: SummaryOutput): QualityFactor[] {
+  const actionItems = getActionItems(summary)
+  const decisions = summary.developmentTeamSections.keyDecisionsAndProgress.decisions
+  const blockers = summary.developmentTeamSections.blockersAndNextSteps.currentBlockers
+  const risks = summary.riskAssessment || []
+  const owners = collectOwners(summary)
+  const distinctOwners = owners.filter((owner, index) => owners.indexOf(owner) === index)
+  const factors: QualityFactor[] = []
+
+  // Preparation: questions settled in the meeting and topics covered
+  const settled = actionItems.length + decisions.length
+  factors.push({
+    id: 'open-questions',
+    area: 'preparation',
+    label: 'Questions settled in the meeting',
+    weight: 2,
+    ratio: settled + summary.openQuestions.length === 0 ? 1 : settled / (settled + summary.openQuestions.length),
+    detail: `${plural(summary.openQuestions.length, 'open question')}; ${settled} settled as decisions or action items`,
+  })
+  factors.push({
+    id: 'topics-covered',
+    area: 'preparation',
+    label: 'Topics summarized',
+    weight: 1,
+    ratio: Math.min(summary.summaryPoints.length / 3, 1),
+    detail: plural(summary.summaryPoints.length, 'summary point'),
+  })
+
+  // Participation: how many people took on work, and how evenly
+  const expectedOwners = Math.min(3, owners.length)
+  factors.push({
+    id: 'people-with-work',
+    area: 'participation',
+    label: 'People with assigned work',
+    weight: 2,
+    ratio: expectedOwners === 0 ? 0 : Math.min(distinctOwners.length / expectedOwners, 1),
+    detail: `${distinctOwners.length} ${distinctOwners.length === 1 ? 'person' : 'people'}`,
+  })
+  if (owners.length > 0) {
+    const busiest = Math.max(...distinctOwners.map(owner => owners.filter(candidate => candidate === owner).length))
+    factors.push({
+      id: 'balanced-workload',
+      area: 'participation',
+      label: 'Balanced workload',
+      weight: 1,
+      ratio: owners.length / (distinctOwners.length * busiest),
+      detail: `busiest owner has ${busiest} of ${plural(owners.length, 'assignment')}`,
+    })
+  }
+
+  // Decision making: decisions that explain themselves and have an owner.
+  // Meetings without decisions score neutrally rather than failing.
+  if (decisions.length === 0) {
+    factors.push({ id: 'decisions', area: 'decisionMaking', label: 'Decisions recorded', weight: 1, ratio: 0.5, detail: 'No decisions were recorded' })
+  } else {
+    const hasRationale = (rationale: string) => !/^(tbd|n\/a|none|not specified|based on meeting discussion)?\.?$/i.test(rationale.trim())
+    factors.push(shareFactor('decision-rationale', 'decisionMaking', 'Decisions with a rationale', 2, decisions.filter(decision => hasRationale(decision.rationale)).length, decisions.length, 'decision'))
+    factors.push(shareFactor('decision-owners', 'decisionMaking', 'Decisions with an owner', 1, decisions.filter(decision => !isUnassigned(decision.owner)).length, decisions.length, 'decision'))
+  }
+
+  // Action clarity: owner, concrete deadline and success criteria per item
+  if (actionItems.length === 0) {
+    factors.push({ id: 'action-items', area: 'actionClarity', label: 'Action items recorded', weight: 1, ratio: 0, detail: 'No action items were recorded' })
+  } else {
+    const hasDeadline = (item: (typeof actionItems)[number]) =>
+      item.resolvedDeadline ? item.resolvedDeadline.status === 'resolved' : ['', 'TBD'].indexOf((item.deadline || '').trim().toUpperCase()) === -1
+    factors.push(shareFactor('action-owners', 'actionClarity', 'Action items with an owner', 2, actionItems.filter(item => !isUnassigned(item.owner)).length, actionItems.length, 'action item'))
+    factors.push(shareFactor('action-deadlines', 'actionClarity', 'Action items with a concrete deadline', 2, actionItems.filter(hasDeadline).length, actionItems.length, 'action item'))
+    factors.push(shareFactor('success-criteria', 'actionClarity', 'Action items with success criteria', 1, actionItems.filter(item => Boolean(item.successCriteria?.trim())).length, actionItems.length, 'action item'))
+  }
+
+  // Follow-through: blockers and risks that someone is on the hook for
+  factors.push(shareFactor('blocker-owners', 'followThrough', 'Blockers with an owner', 2, blockers.filter(blocker => isBlockerOwned(blocker, summary, distinctOwners)).length, blockers.length, 'blocker'))
+  if (risks.length > 0) {
+    factors.push(shareFactor('risk-mitigations', 'followThrough', 'Risks with a mitigation', 1, risks.filter(risk => Boolean(risk.mitigation.trim()) && risk.mitigation.trim().toUpperCase() !== 'TBD').length, risks.length, 'risk'))
+  }
+
+  return factors
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10
+}
+
+// Score a meeting from its extracted structure. The same summary always
+// gets the same score, and every area can be traced back to its factors.
+export function scoreMeeting(summary: SummaryOutput): MeetingQualityMetrics {
+  const factors = measureFactors(summary)
+
+  const areas = {} as Record<QualityArea, number>
+  QUALITY_AREAS.forEach(area => {
+    const inArea = factors.filter(factor => factor.area === area)
+    const totalWeight = inArea.reduce((sum, factor) => sum + factor.weight, 0)
+    areas[area] = round((10 * inArea.reduce((sum, factor) => sum + factor.ratio * factor.weight, 0)) / totalWeight)
+  })
+
+  const recommendations = factors
+    .filter(factor => factor.ratio < RECOMMENDATION_THRESHOLD && RECOMMENDATIONS[factor.id])
+    .sort((a, b) => (1 - b.ratio) * b.weight - (1 - a.ratio) * a.weight)
+    .slice(0, MAX_RECOMMENDATIONS)
+    .map(factor => RECOMMENDATIONS[factor.id])
+
+  return {
+    overallScore: round(QUALITY_AREAS.reduce((sum, area) => sum + areas[area], 0) / QUALITY_AREAS.length),
+    areas,
+    recommendations,
+    factors,
+    scoringVersion: QUALITY_SCORING_VERSION,
+  }
+}
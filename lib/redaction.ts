@@ -0,0 +1,193 @@
+import type { RedactedEntity, RedactionCategory, RedactionReport, RosterMember } from './ai'
+import { escapeRegExp, findMember } from './roster'
+
+// Personal data and secrets are swapped for placeholders like "[EMAIL_2]"
+// before notes go to a provider, and swapped back in what comes back. The
+// same value always gets the same placeholder within one summary, so the
+// model can still tell people apart and chunks stay consistent.
+
+// Detectors run in this order; earlier ones win where matches overlap
+export const REDACTION_CATEGORIES: RedactionCategory[] = ['secret', 'email', 'card', 'phone', 'ip', 'person']
+
+export const REDACTION_CATEGORY_LABELS: Record<RedactionCategory, string> = {
+  secret: 'Secrets and API keys',
+  email: 'Email addresses',
+  card: 'Card numbers',
+  phone: 'Phone numbers',
+  ip: 'IP addresses',
+  person: 'Names',
+}
+
+const PLACEHOLDER_PREFIXES: Record<RedactionCategory, string> = {
+  secret: 'SECRET',
+  email: 'EMAIL',
+  card: 'CARD',
+  phone: 'PHONE',
+  ip: 'IP',
+  person: 'PERSON',
+}
+
+export function isRedactionCategory(value: unknown): value is RedactionCategory {
+  return typeof value === 'string' && REDACTION_CATEGORIES.indexOf(value as RedactionCategory) !== -1
+}
+
+interface Detector {
+  pattern: RegExp // global; `group` picks the part to replace
+  group?: number
+  accept?: (value: string) => boolean
+}
+
+const NAME = "[A-ZÀ-Ý][a-zà-ÿ'-]+(?:\\s+[A-ZÀ-Ý][a-zà-ÿ'-]+)?"
+
+// Names are only recognised after a title or a word that introduces an
+// outside person; team members are left to the roster
+const DETECTORS: Record<RedactionCategory, Detector[]> = {
+  secret: [
+    { pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+    { pattern: /\b(?:sk|pk|rk)-[A-Za-z0-9_-]{20,}/g },
+    { pattern: /\bAKIA[0-9A-Z]{16}\b/g },
+    { pattern: /\bgh[pousr]_[A-Za-z0-9]{30,}\b/g },
+    { pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+    { pattern: /\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g },
+    { pattern: /\b(?:api[_-]?key|token|secret|password|passwd|pwd)\s*[:=]\s*["']?([^\s"',;]{6,})/gi, group: 1 },
+  ],
+  email: [{ pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g }],
+  card: [{ pattern: /\b\d(?:[ -]?\d){12,18}\b/g, accept: passesLuhn }],
+  phone: [{ pattern: /\+?\(?\d[\d \t().-]{7,}\d/g, accept: looksLikePhone }],
+  ip: [{ pattern: /\b(?:\d{1,3}\.){3}\d{1,3}\b/g, accept: value => value.split('.').every(part => Number(part) <= 255) }],
+  person: [
+    { pattern: new RegExp(`\\b(?:Mr|Mrs|Ms|Mx|Dr|Prof|Sr|Sra|Herr|Frau)\\.?\\s+(${NAME})`, 'g'), group: 1 },
+    {
+      pattern: new RegExp(`\\b(?:[Cc]ustomer|[Cc]lient|[Cc]ontact|[Pp]rospect|[Pp]atient|[Cc]aller|[Cc]liente|[Kk]unde|[Kk]undin)s?\\s*:?\\s+(${NAME})`, 'g'),
+      group: 1,
+    },
+  ],
+}
+
+function digitsOf(value: string): string {
+  return value.replace(/\D/g, '')
+}
+
+function passesLuhn(value: string): boolean {
+  const digits = digitsOf(value)
+  let sum = 0
+  for (let index = 0; index < digits.length; index++) {
+    let digit = Number(digits[digits.length - 1 - index])
+    if (index % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return digits.length >= 13 && sum % 10 === 0
+}
+
+// Enough digits for a phone number, and not an ISO date
+function looksLikePhone(value: string): boolean {
+  const digits = digitsOf(value).length
+  return digits >= 9 && digits <= 15 && !/^\d{4}-\d{2}-\d{2}/.test(value.trim())
+}
+
+function preview(category: RedactionCategory, value: string): string {
+  return category === 'secret' ? `${value.slice(0, 4)}… (${value.length} characters)` : value
+}
+
+const PLACEHOLDER = /\[(SECRET|EMAIL|CARD|PHONE|IP|PERSON)_(\d+)\]/g
+const HAS_PLACEHOLDER = /\[(SECRET|EMAIL|CARD|PHONE|IP|PERSON)_\d+\]/
+
+export interface Redactor {
+  redactText(text: string): string
+  // Redact every string in a value, e.g. a summary sent back to the model
+  redactValue<T>(value: T): T
+  // Put the original values back into every string of a value
+  rehydrate<T>(value: T): T
+  report(): RedactionReport
+}
+
+// A known value is only replaced where it isn't part of a longer word. The
+// lookarounds need the u flag, which the es5 target only allows through the
+// RegExp constructor.
+const KNOWN_VALUE_START = '(?<![\\p{L}\\p{N}_])'
+const KNOWN_VALUE_END = '(?![\\p{L}\\p{N}_])'
+
+// One redactor per summary: placeholders are numbered per category in the
+// order values are first seen. Roster members' names, aliases and emails are
+// never redacted, so owners still resolve.
+export function createRedactor(categories: RedactionCategory[], roster: RosterMember[] = []): Redactor {
+  const enabled = REDACTION_CATEGORIES.filter(category => categories.indexOf(category) !== -1)
+  const byValue: Record<string, RedactedEntity> = {}
+  const byPlaceholder: Record<string, string> = {}
+  const counters = {} as Record<RedactionCategory, number>
+  const entities: RedactedEntity[] = []
+
+  const placeholderFor = (category: RedactionCategory, value: string): string => {
+    const key = `${category}:${value}`
+    let entity = byValue[key]
+    if (!entity) {
+      counters[category] = (counters[category] || 0) + 1
+      entity = {
+        placeholder: `[${PLACEHOLDER_PREFIXES[category]}_${counters[category]}]`,
+        category,
+        preview: preview(category, value),
+      }
+      byValue[key] = entity
+      byPlaceholder[entity.placeholder] = value
+      entities.push(entity)
+    }
+    return entity.placeholder
+  }
+
+  // Values found earlier are replaced wherever they appear as whole words,
+  // even where no detector would spot them (a name mentioned without its
+  // title). Longest first, so a value inside a longer one doesn't split it.
+  const replaceKnown = (text: string): string => {
+    const placeholders: Record<string, string> = {}
+    Object.keys(byPlaceholder).forEach(placeholder => {
+      placeholders[byPlaceholder[placeholder]] = placeholders[byPlaceholder[placeholder]] || placeholder
+    })
+    const values = Object.keys(placeholders)
+    if (values.length === 0) {
+      return text
+    }
+    const alternatives = values.sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')
+    const pattern = new RegExp(`${KNOWN_VALUE_START}(?:${alternatives})${KNOWN_VALUE_END}`, 'gu')
+    return text.replace(pattern, value => placeholders[value])
+  }
+
+  const redactText = (text: string): string =>
+    enabled.reduce((current, category) => DETECTORS[category].reduce((result, detector) =>
+      result.replace(detector.pattern, (match: string, ...groups: unknown[]) => {
+        const value = detector.group ? (groups[detector.group - 1] as string | undefined) : match
+        if (!value || HAS_PLACEHOLDER.test(value) || (detector.accept && !detector.accept(value)) || findMember(value, roster)) {
+          return match
+        }
+        return match.replace(value, placeholderFor(category, value))
+      }), current), replaceKnown(text))
+
+  const rehydrateText = (text: string): string =>
+    text.replace(PLACEHOLDER, placeholder => byPlaceholder[placeholder] ?? placeholder)
+
+  return {
+    redactText,
+    redactValue: value => mapStrings(value, redactText),
+    rehydrate: value => (entities.length === 0 ? value : mapStrings(value, rehydrateText)),
+    report: () => ({ categories: enabled, entities: entities.slice() }),
+  }
+}
+
+function mapStrings<T>(value: T, map: (text: string) => string): T {
+  if (typeof value === 'string') {
+    return map(value) as unknown as T
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => mapStrings(item, map)) as unknown as T
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {}
+    Object.keys(value).forEach(key => {
+      result[key] = mapStrings((value as Record<string, unknown>)[key], map)
+    })
+    return result as T
+  }
+  return value
+}
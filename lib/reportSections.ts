@@ -0,0 +1,52 @@
+import type { CitedList, SummaryOutput } from './ai'
+
+// Report sections that can be regenerated on their own (see
+// regenerateSection in lib/ai). Safe to import from client components.
+
+export type RegenerableSection =
+  | 'summaryPoints'
+  | 'openQuestions'
+  | 'keyDecisionsAndProgress'
+  | 'actionItemsAndOwnership'
+  | 'blockersAndNextSteps'
+
+export const MAX_GUIDANCE_CHARS = 1000
+
+export const REGENERABLE_SECTIONS: RegenerableSection[] = [
+  'summaryPoints',
+  'keyDecisionsAndProgress',
+  'actionItemsAndOwnership',
+  'blockersAndNextSteps',
+  'openQuestions',
+]
+
+export const REGENERABLE_SECTION_LABELS: Record<RegenerableSection, string> = {
+  summaryPoints: 'Summary Points',
+  keyDecisionsAndProgress: 'Key Decisions & Progress',
+  actionItemsAndOwnership: 'Action Items with Ownership',
+  blockersAndNextSteps: 'Blockers & Next Steps',
+  openQuestions: 'Open Questions',
+}
+
+// The cited lists whose citations go stale when a section is replaced
+export const SECTION_CITED_LISTS: Record<RegenerableSection, CitedList[]> = {
+  summaryPoints: [],
+  keyDecisionsAndProgress: ['progressUpdates'],
+  actionItemsAndOwnership: [],
+  blockersAndNextSteps: ['currentBlockers'],
+  openQuestions: ['openQuestions'],
+}
+
+export function isRegenerableSection(value: unknown): value is RegenerableSection {
+  return typeof value === 'string' && REGENERABLE_SECTIONS.indexOf(value as RegenerableSection) !== -1
+}
+
+export function getSection(output: SummaryOutput, section: RegenerableSection): unknown {
+  switch (section) {
+    case 'summaryPoints':
+    case 'openQuestions':
+      return output[section]
+    default:
+      return output.developmentTeamSections[section]
+  }
+}
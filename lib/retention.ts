@@ -0,0 +1,42 @@
+import { getRetentionSettings, RetentionPolicy, RetentionSettings } from './config'
+import { getMeetingStore, MeetingStore } from './meetingStore'
+
+// Server-only: applies the retention policy to saved meetings. Meetings
+// past the policy move to recently deleted, like meetings deleted by hand;
+// they can be restored for restoreDays, after which a run purges them.
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface RetentionResult {
+  policy: RetentionPolicy
+  restoreDays: number
+  deleted: number // moved to recently deleted by this run
+  purged: number // removed for good by this run
+  ranAt: string
+}
+
+// Meetings deleted before this can no longer be restored
+export function getRestoreCutoff(settings: RetentionSettings, now = new Date()): string {
+  return new Date(now.getTime() - settings.restoreDays * DAY_MS).toISOString()
+}
+
+export function getRestorableUntil(deletedAt: string, settings: RetentionSettings): string {
+  return new Date(new Date(deletedAt).getTime() + settings.restoreDays * DAY_MS).toISOString()
+}
+
+export async function runRetention(
+  store: MeetingStore = getMeetingStore(),
+  settings: RetentionSettings = getRetentionSettings(),
+  now = new Date()
+): Promise<RetentionResult> {
+  const { policy } = settings
+  let deleted = 0
+  if (policy.kind === 'count') {
+    deleted = await store.deleteAllButNewest(policy.keepMeetings)
+  } else if (policy.kind === 'days') {
+    deleted = await store.deleteSavedBefore(new Date(now.getTime() - policy.keepDays * DAY_MS).toISOString())
+  }
+  const purged = await store.purgeDeletedBefore(getRestoreCutoff(settings, now))
+
+  return { policy, restoreDays: settings.restoreDays, deleted, purged, ranAt: now.toISOString() }
+}
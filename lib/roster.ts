@@ -0,0 +1,157 @@
+import type { OwnerMatch, RosterMember, SummaryOutput } from './ai'
+
+// Owner values that mean "nobody yet" rather than an unknown person
+const UNASSIGNED = ['', 'tbd', 'tba', 'unassigned', 'none', 'n/a', 'na', 'unknown', 'nobody', 'everyone', 'all', 'team']
+
+// Anything but letters and digits of any script at either end, so "José"
+// and "Zoë" keep their last letter (the es5 target needs the constructor
+// for the u flag)
+const EDGE_PUNCTUATION = new RegExp('^[^\\p{L}\\p{N}]+|[^\\p{L}\\p{N}]+$', 'gu')
+
+// Lowercase, drop a leading @ and surrounding punctuation
+export function normalizeName(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/^@/, '')
+    .replace(EDGE_PUNCTUATION, '')
+    .replace(/\s+/g, ' ')
+}
+
+// Every string a member can be referred to by, normalized
+function memberKeys(member: RosterMember): string[] {
+  const keys = [member.name, ...member.aliases, ...member.handles]
+  member.emails.forEach(email => {
+    keys.push(email, email.split('@')[0])
+  })
+  return keys.map(normalizeName).filter(key => key.length > 0)
+}
+
+// First names count as aliases when only one member has that first name
+function uniqueFirstNames(roster: RosterMember[]): Record<string, RosterMember> {
+  const counts: Record<string, number> = {}
+  const byFirstName: Record<string, RosterMember> = {}
+
+  roster.forEach(member => {
+    const firstName = normalizeName(member.name).split(' ')[0]
+    if (firstName) {
+      counts[firstName] = (counts[firstName] || 0) + 1
+      byFirstName[firstName] = member
+    }
+  })
+
+  Object.keys(counts).forEach(firstName => {
+    if (counts[firstName] > 1) delete byFirstName[firstName]
+  })
+  return byFirstName
+}
+
+export function findMember(name: string, roster: RosterMember[]): RosterMember | null {
+  const key = normalizeName(name)
+  if (!key) return null
+
+  const exact = roster.find(member => memberKeys(member).indexOf(key) !== -1)
+  return exact || uniqueFirstNames(roster)[key] || null
+}
+
+// "Sam and Priya", "Sam / @priya", "Sam, Priya & Lee"
+function splitOwners(owner: string): string[] {
+  return owner
+    .split(/\s*(?:,|&|\/|\+|;|\band\b)\s*/i)
+    .map(part => part.trim())
+    .filter(part => part.length > 0)
+}
+
+export function isUnassigned(owner: string | undefined): boolean {
+  return UNASSIGNED.indexOf(normalizeName(owner || '')) !== -1
+}
+
+export function matchOwners(owner: string | undefined, roster: RosterMember[]): OwnerMatch[] {
+  if (!owner || isUnassigned(owner)) {
+    return []
+  }
+
+  return splitOwners(owner).map(original => {
+    const member = findMember(original, roster)
+    return member
+      ? { original, memberId: member.id, name: member.name }
+      : { original, memberId: null, name: original }
+  })
+}
+
+// Rewrite owners to canonical roster names and collect the names the
+// roster doesn't know, so they can be mapped in the UI
+export function resolveOwners(summary: SummaryOutput, roster: RosterMember[]): SummaryOutput {
+  const unknown: string[] = []
+
+  const resolve = <T extends { owner?: string }>(item: T): T & { ownerMatches?: OwnerMatch[] } => {
+    if (item.owner === undefined) return item
+
+    const matches = matchOwners(item.owner, roster)
+    matches.forEach(match => {
+      if (!match.memberId && !unknown.some(name => normalizeName(name) === normalizeName(match.original))) {
+        unknown.push(match.original)
+      }
+    })
+    return {
+      ...item,
+      owner: matches.length > 0 ? matches.map(match => match.name).join(', ') : item.owner,
+      ownerMatches: matches,
+    }
+  }
+
+  const sections = summary.developmentTeamSections
+  return {
+    ...summary,
+    actionItems: summary.actionItems.map(resolve),
+    developmentTeamSections: {
+      ...sections,
+      keyDecisionsAndProgress: {
+        ...sections.keyDecisionsAndProgress,
+        decisions: sections.keyDecisionsAndProgress.decisions.map(resolve),
+      },
+      actionItemsAndOwnership: sections.actionItemsAndOwnership.map(resolve),
+    },
+    riskAssessment: summary.riskAssessment?.map(resolve),
+    followUpReminders: summary.followUpReminders?.map(resolve),
+    unknownOwners: unknown,
+  }
+}
+
+// Roster block for the model prompt
+export function formatRosterForPrompt(roster: RosterMember[]): string {
+  return roster
+    .map(member => {
+      const alsoKnownAs = [...member.aliases, ...member.handles.map(handle => (handle.startsWith('@') ? handle : `@${handle}`)), ...member.emails]
+      return alsoKnownAs.length > 0 ? `- ${member.name} (also: ${alsoKnownAs.join(', ')})` : `- ${member.name}`
+    })
+    .join('\n')
+}
+
+const NOT_A_NAME = ['we', 'i', 'you', 'they', 'he', 'she', 'it', 'this', 'that', 'someone', 'everyone', 'team', 'need', 'plan', 'next', 'decided', 'agreed']
+
+// Owner named at the start of a heuristic action item: "Sam will ...",
+// "Priya to ...", "@lee: ..."
+export function extractOwnerName(text: string, roster: RosterMember[] = []): string | undefined {
+  const handle = text.match(/(?:^|\s)@([A-Za-z0-9_.-]+)/)
+  if (handle) {
+    return findMember(handle[1], roster)?.name || `@${handle[1]}`
+  }
+
+  const leading = text
+    .replace(/^[-•*\s]+/, '')
+    .match(/^([A-ZÀ-Ý][a-zà-ÿ]+(?: [A-ZÀ-Ý][a-zà-ÿ]+)?)\s*(?::|→|will\b|to\b|is going to\b|owns\b|should\b|takes?\b)/)
+  if (leading && NOT_A_NAME.indexOf(leading[1].toLowerCase()) === -1) {
+    return findMember(leading[1], roster)?.name || leading[1]
+  }
+
+  const mentioned = roster.find(member => {
+    const pattern = new RegExp(`\\b${escapeRegExp(member.name)}\\b`, 'i')
+    return pattern.test(text)
+  })
+  return mentioned?.name
+}
+
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
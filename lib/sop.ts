@@ -0,0 +1,287 @@
+import { readFileSync } from 'fs'
+import { jsonrepair } from 'jsonrepair'
+import type { ActionItem, MeetingType, SOPCheck, SummaryOutput } from './ai'
+import type { CompletionRequest, LLMProvider } from './providers'
+import { isUnassigned } from './roster'
+import { formatValidationIssues, validateSOPChecklist, validateSOPResponse } from './validation'
+
+// Checks that can be decided from the extracted structure alone
+export type SOPRuleId =
+  | 'action-items-have-owner'
+  | 'action-items-have-deadline'
+  | 'decisions-have-rationale'
+  | 'decisions-have-owner'
+  | 'risks-have-mitigation'
+  | 'has-action-items'
+
+export const SOP_RULE_IDS: SOPRuleId[] = [
+  'action-items-have-owner',
+  'action-items-have-deadline',
+  'decisions-have-rationale',
+  'decisions-have-owner',
+  'risks-have-mitigation',
+  'has-action-items',
+]
+
+// One entry of a team's SOP checklist. Entries with a `rule` are checked
+// deterministically; entries with a `question` are put to the model.
+export interface SOPChecklistItem {
+  id: string
+  category: string
+  description: string
+  severity: SOPCheck['severity']
+  rule?: SOPRuleId
+  question?: string // yes/no question about the meeting, answered by the model
+  recommendation?: string // shown when the check is not compliant
+  meetingTypes?: MeetingType[] // only check these meeting types; all when omitted
+}
+
+export const DEFAULT_SOP_CHECKLIST: SOPChecklistItem[] = [
+  {
+    id: 'action-owners',
+    category: 'Action item ownership',
+    description: 'Every action item has an owner',
+    severity: 'critical',
+    rule: 'action-items-have-owner',
+    recommendation: 'Assign a named owner to each action item before the meeting ends.',
+  },
+  {
+    id: 'action-deadlines',
+    category: 'Action item deadlines',
+    description: 'Every action item has a concrete deadline',
+    severity: 'important',
+    rule: 'action-items-have-deadline',
+    recommendation: 'Agree on a date for each action item rather than "soon" or "TBD".',
+  },
+  {
+    id: 'decision-rationale',
+    category: 'Decision records',
+    description: 'Every decision records its rationale',
+    severity: 'important',
+    rule: 'decisions-have-rationale',
+    recommendation: 'Write down why each decision was made so it can be revisited later.',
+  },
+  {
+    id: 'risk-mitigation',
+    category: 'Risk management',
+    description: 'Every identified risk has a mitigation',
+    severity: 'minor',
+    rule: 'risks-have-mitigation',
+    recommendation: 'Agree on a mitigation, or explicitly accept the risk.',
+  },
+  {
+    id: 'blockers-escalated',
+    category: 'Blocker handling',
+    description: 'Every blocker is assigned or escalated',
+    severity: 'important',
+    question: 'Does every blocker raised in the meeting have someone responsible for it or a clear escalation path?',
+    recommendation: 'Name who will unblock each blocker, or who it is escalated to.',
+  },
+  {
+    id: 'postmortem-root-cause',
+    category: 'Incident follow-up',
+    description: 'The root cause is identified and remediation is owned',
+    severity: 'critical',
+    question: 'Does the postmortem identify a root cause and at least one remediation item with an owner?',
+    recommendation: 'Keep the postmortem open until the root cause and owned remediation items are recorded.',
+    meetingTypes: ['incident-postmortem'],
+  },
+]
+
+// The deployment's checklist: SOP_CHECKLIST_FILE points to a JSON file with
+// an `items` array; without it the default checklist applies
+export function getSOPChecklist(): SOPChecklistItem[] {
+  const file = process.env.SOP_CHECKLIST_FILE
+  if (!file) {
+    return DEFAULT_SOP_CHECKLIST
+  }
+
+  let raw: unknown
+  try {
+    raw = JSON.parse(readFileSync(file, 'utf8'))
+  } catch (error) {
+    throw new Error(`Failed to read the SOP checklist from ${file}: ${error instanceof Error ? error.message : error}`)
+  }
+
+  const result = validateSOPChecklist(raw, SOP_RULE_IDS)
+  if (!result.ok) {
+    throw new Error(`Invalid SOP checklist in ${file}:\n${formatValidationIssues(result.errors)}`)
+  }
+  return result.value
+}
+
+// Summaries are still produced when the checklist is broken; they just
+// come without SOP checks
+export function getSOPChecklistOrEmpty(): SOPChecklistItem[] {
+  try {
+    return getSOPChecklist()
+  } catch (error) {
+    console.warn('Skipping SOP checks:', error instanceof Error ? error.message : error)
+    return []
+  }
+}
+
+const PLACEHOLDER_TEXT = ['', 'tbd', 'tba', 'n/a', 'na', 'none', 'unknown', 'not specified', 'based on meeting discussion']
+
+function isPlaceholder(value: string | undefined): boolean {
+  return PLACEHOLDER_TEXT.indexOf((value || '').trim().toLowerCase().replace(/[.!]+$/, '')) !== -1
+}
+
+function getActionItems(summary: SummaryOutput): ActionItem[] {
+  const owned = summary.developmentTeamSections.actionItemsAndOwnership
+  return owned.length > 0 ? owned : summary.actionItems
+}
+
+function hasDeadline(item: { deadline?: string; resolvedDeadline?: ActionItem['resolvedDeadline'] }): boolean {
+  return item.resolvedDeadline ? item.resolvedDeadline.status === 'resolved' : !isPlaceholder(item.deadline)
+}
+
+const MAX_LISTED_ITEMS = 3
+
+// compliant when every item passes, partial when some do, missing when none do
+function checkEvery<T>(
+  items: T[],
+  passes: (item: T) => boolean,
+  label: (item: T) => string,
+  noun: string,
+  problem: string
+): Pick<SOPCheck, 'status' | 'details'> {
+  if (items.length === 0) {
+    return { status: 'compliant', details: `No ${noun}s to check.` }
+  }
+
+  const failing = items.filter(item => !passes(item))
+  if (failing.length === 0) {
+    return { status: 'compliant', details: items.length === 1 ? `The ${noun} passes.` : `All ${items.length} ${noun}s pass.` }
+  }
+
+  const listed = failing.slice(0, MAX_LISTED_ITEMS).map(item => `"${label(item)}"`).join(', ')
+  const more = failing.length > MAX_LISTED_ITEMS ? ` and ${failing.length - MAX_LISTED_ITEMS} more` : ''
+  return {
+    status: failing.length === items.length ? 'missing' : 'partial',
+    details: `${failing.length} of ${items.length} ${noun}${items.length === 1 ? '' : 's'} ${problem}: ${listed}${more}.`,
+  }
+}
+
+function evaluateRule(rule: SOPRuleId, summary: SummaryOutput): Pick<SOPCheck, 'status' | 'details'> {
+  const actionItems = getActionItems(summary)
+  const decisions = summary.developmentTeamSections.keyDecisionsAndProgress.decisions
+
+  switch (rule) {
+    case 'action-items-have-owner':
+      return checkEvery(actionItems, item => !isUnassigned(item.owner), item => item.task, 'action item', 'have no owner')
+    case 'action-items-have-deadline':
+      return checkEvery(actionItems, hasDeadline, item => item.task, 'action item', 'have no concrete deadline')
+    case 'decisions-have-rationale':
+      return checkEvery(decisions, decision => !isPlaceholder(decision.rationale), decision => decision.decision, 'decision', 'have no rationale')
+    case 'decisions-have-owner':
+      return checkEvery(decisions, decision => !isUnassigned(decision.owner), decision => decision.decision, 'decision', 'have no owner')
+    case 'risks-have-mitigation':
+      return checkEvery(summary.riskAssessment || [], risk => !isPlaceholder(risk.mitigation), risk => risk.risk, 'risk', 'have no mitigation')
+    case 'has-action-items':
+      return actionItems.length > 0
+        ? { status: 'compliant', details: `${actionItems.length} action item${actionItems.length === 1 ? '' : 's'} recorded.` }
+        : { status: 'missing', details: 'The meeting produced no action items.' }
+  }
+}
+
+function toCheck(item: SOPChecklistItem, result: Pick<SOPCheck, 'status' | 'details'>, evaluatedBy: SOPCheck['evaluatedBy'], recommendation?: string): SOPCheck {
+  return {
+    id: item.id,
+    category: item.category,
+    description: item.description,
+    status: result.status,
+    details: result.details,
+    recommendation: result.status === 'compliant' ? undefined : recommendation || item.recommendation,
+    severity: item.severity,
+    evaluatedBy,
+  }
+}
+
+// Notes beyond this length are cut from the compliance prompt; the
+// extracted summary still covers the whole meeting
+const MAX_SOP_NOTES_CHARS = 12000
+
+function buildSOPPrompt(items: SOPChecklistItem[], summary: SummaryOutput, input: string): string {
+  const notes = input.length > MAX_SOP_NOTES_CHARS ? `${input.slice(0, MAX_SOP_NOTES_CHARS)}\n[...notes truncated]` : input
+  const extracted = {
+    summaryPoints: summary.summaryPoints,
+    developmentTeamSections: summary.developmentTeamSections,
+    openQuestions: summary.openQuestions,
+    meetingTypeSections: summary.meetingTypeSections,
+    riskAssessment: summary.riskAssessment,
+  }
+  const checks = items.map(item => `- ${item.id}: ${item.question}`).join('\n')
+
+  return `Meeting notes:
+${notes}
+
+Extracted summary:
+${JSON.stringify(extracted, (key, value) => (key === 'sources' || key === 'ownerMatches' ? undefined : value))}
+
+Answer each SOP check about this meeting:
+${checks}
+
+Respond with JSON only:
+{"checks": [{"id": "check id", "status": "compliant|partial|missing", "details": "one sentence citing the notes", "recommendation": "what the team should do, or null when compliant"}]}`
+}
+
+const SOP_SYSTEM_PROMPT = `You audit development team meetings against the team's standard operating procedures.
+Judge only from the notes and summary you are given. Use "compliant" when the notes clearly satisfy a check, "partial" when they satisfy it for some items only, and "missing" when they do not.`
+
+async function evaluateModelChecks(
+  items: SOPChecklistItem[],
+  summary: SummaryOutput,
+  input: string,
+  provider: LLMProvider,
+  model: string
+): Promise<SOPCheck[]> {
+  const request: CompletionRequest = {
+    model,
+    maxTokens: 800,
+    temperature: 0,
+    system: SOP_SYSTEM_PROMPT,
+    prompt: buildSOPPrompt(items, summary, input),
+  }
+
+  const jsonMatch = (await provider.complete(request)).text.match(/\{[\s\S]*\}/)
+  if (!jsonMatch) {
+    throw new Error('SOP response does not contain a JSON object')
+  }
+
+  const result = validateSOPResponse(JSON.parse(jsonrepair(jsonMatch[0])))
+  if (!result.ok) {
+    throw new Error(`SOP response did not match the expected shape:\n${formatValidationIssues(result.errors)}`)
+  }
+
+  return items.flatMap(item => {
+    const answer = result.value.find(check => check.id === item.id)
+    return answer ? [toCheck(item, answer, 'model', answer.recommendation)] : []
+  })
+}
+
+// Evaluate a summary against the checklist. Rule checks always run; model
+// checks need a provider and are skipped (with a warning) when the call fails.
+export async function evaluateSOPs(
+  summary: SummaryOutput,
+  input: string,
+  checklist: SOPChecklistItem[],
+  model?: { provider: LLMProvider; model: string }
+): Promise<SOPCheck[]> {
+  const applicable = checklist.filter(item => !item.meetingTypes || item.meetingTypes.indexOf(summary.meetingType) !== -1)
+  const ruleItems = applicable.filter(item => item.rule)
+  const questionItems = applicable.filter(item => !item.rule && item.question)
+
+  const checks = ruleItems.map(item => toCheck(item, evaluateRule(item.rule as SOPRuleId, summary), 'rule'))
+
+  if (model && questionItems.length > 0) {
+    try {
+      checks.push(...(await evaluateModelChecks(questionItems, summary, input, model.provider, model.model)))
+    } catch (error) {
+      console.warn('Skipping model SOP checks:', error instanceof Error ? error.message : error)
+    }
+  }
+
+  // Keep checklist order so the panel reads the same every time
+  return applicable.flatMap(item => checks.filter(check => check.id === item.id))
+}
@@ -0,0 +1,105 @@
+import type { ActionItem, LanguageInfo, MeetingQualityMetrics, MeetingType, SOPCheck, SummaryOutput } from './ai'
+import { isLanguageCode } from './language'
+
+// How saved reports are stored in meeting_outputs, and how rows written by
+// older versions are read back as a current SummaryOutput.
+//
+// Version 1 kept only the summary points, action items, open questions, SOP
+// checks, quality and language, in separate columns. Version 2 stores the
+// whole report in the `output` column. Bump OUTPUT_SCHEMA_VERSION when the
+// stored shape changes and add an upgrade step to readStoredOutput.
+
+export const OUTPUT_SCHEMA_VERSION = 2
+
+// Where a report loaded from storage came from
+export interface StorageInfo {
+  schemaVersion: number // the version it was saved with
+  upgraded: boolean // true when sections missing from older versions were filled in empty
+}
+
+// The meeting_outputs columns a report is read from
+export interface StoredOutputColumns {
+  output?: unknown // the full report (version 2 and later)
+  schema_version?: number | null
+  summary?: string | null
+  action_items?: unknown[] | null
+  probing_questions?: string[] | null
+  sop_gaps?: SOPCheck[] | null
+  quality?: MeetingQualityMetrics | null
+  source_language?: string | null
+  output_language?: string | null
+}
+
+// Request-specific fields that are not part of the saved report
+export function toStorableOutput(output: SummaryOutput): SummaryOutput {
+  const storable = { ...output }
+  delete storable.cache
+  delete storable.budget
+  delete storable.storage
+  return storable
+}
+
+function parseSummaryPoints(summary: string | null | undefined): string[] {
+  if (!summary) return []
+  try {
+    const points = JSON.parse(summary)
+    return Array.isArray(points) ? points.filter((point): point is string => typeof point === 'string') : []
+  } catch {
+    return [summary]
+  }
+}
+
+// Version 1 rows came from several output shapes; keep whatever reads as
+// an action item
+function toActionItem(value: unknown): ActionItem | undefined {
+  if (!value || typeof value !== 'object') {
+    return typeof value === 'string' && value.trim() ? { task: value, owner: 'TBD', priority: 'medium' } : undefined
+  }
+  const item = value as Record<string, unknown>
+  const task = [item.task, item.action, item.item].find((field): field is string => typeof field === 'string' && field.trim() !== '')
+  if (!task) return undefined
+  const actionItem: ActionItem = {
+    task,
+    owner: typeof item.owner === 'string' && item.owner ? item.owner : 'TBD',
+    priority: item.priority === 'high' || item.priority === 'low' ? item.priority : 'medium',
+  }
+  const deadline = [item.deadline, item.dueDate].find((field): field is string => typeof field === 'string' && field !== '')
+  if (deadline) actionItem.deadline = deadline
+  if (typeof item.successCriteria === 'string') actionItem.successCriteria = item.successCriteria
+  if (Array.isArray(item.dependencies)) actionItem.dependencies = item.dependencies.filter((dependency): dependency is string => typeof dependency === 'string')
+  return actionItem
+}
+
+function fromVersion1(columns: StoredOutputColumns, meetingType: MeetingType): SummaryOutput {
+  const actionItems = (columns.action_items || []).map(toActionItem).filter((item): item is ActionItem => item !== undefined)
+  const language: LanguageInfo | undefined = isLanguageCode(columns.source_language) && isLanguageCode(columns.output_language)
+    ? { source: columns.source_language, output: columns.output_language }
+    : undefined
+  return {
+    meetingType,
+    summaryPoints: parseSummaryPoints(columns.summary),
+    actionItems,
+    openQuestions: columns.probing_questions || [],
+    developmentTeamSections: {
+      keyDecisionsAndProgress: { decisions: [], progressUpdates: [] },
+      actionItemsAndOwnership: actionItems,
+      blockersAndNextSteps: { currentBlockers: [], upcomingItems: [] },
+    },
+    riskAssessment: [],
+    followUpReminders: [],
+    sopChecks: columns.sop_gaps || undefined,
+    meetingQuality: columns.quality || undefined,
+    language,
+  }
+}
+
+// Rows without a full report (or marked version 1 by
+// migrate-add-full-output.sql) are rebuilt from their columns
+export function readStoredOutput(columns: StoredOutputColumns, meetingType: MeetingType): SummaryOutput {
+  const version = columns.schema_version || 1
+  const stored = columns.output as SummaryOutput | null | undefined
+  if (version >= 2 && stored && typeof stored === 'object' && stored.developmentTeamSections) {
+    return { ...stored, meetingType: stored.meetingType || meetingType, storage: { schemaVersion: version, upgraded: false } }
+  }
+  return { ...fromVersion1(columns, meetingType), storage: { schemaVersion: 1, upgraded: true } }
+}
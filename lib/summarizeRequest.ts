@@ -0,0 +1,85 @@
+import type { SummarizeOptions } from './ai'
+import { getInputLimits } from './config'
+import { isISODate } from './dates'
+import { findDemoScenario } from './demoScenarios'
+import { isLanguageCode } from './language'
+import { isMeetingType } from './meetingTypes'
+import { isProviderId } from './providers'
+import { findReportTemplate } from './templateRegistry'
+
+export interface SummarizeBody {
+  input: unknown
+  meetingType?: unknown
+  provider?: unknown
+  model?: unknown
+  meetingDate?: unknown
+  template?: unknown // report template id; defaults to REPORT_TEMPLATE
+  outputLanguage?: unknown // "en", "es" or "de"; defaults to the language of the notes
+}
+
+export type ParsedSummarizeRequest =
+  | { ok: true; input: string; options: SummarizeOptions }
+  | { ok: false; error: string }
+
+// Shared validation for the plain and streaming summarize routes. A demo
+// scenario id (?scenario=) supplies the notes, meeting type and date.
+export function parseSummarizeRequest(body: SummarizeBody, scenarioId?: string | null): ParsedSummarizeRequest {
+  if (scenarioId) {
+    const scenario = findDemoScenario(scenarioId)
+    if (!scenario) {
+      return { ok: false, error: `Unknown demo scenario "${scenarioId}".` }
+    }
+    body = { ...body, input: scenario.notes, meetingType: scenario.meetingType, meetingDate: scenario.meetingDate }
+  }
+
+  const { input, meetingType, provider, model, meetingDate, template: templateId, outputLanguage } = body
+
+  if (!input || typeof input !== 'string') {
+    return { ok: false, error: 'Invalid input. Please provide meeting notes as a string.' }
+  }
+
+  if (provider !== undefined && !isProviderId(provider)) {
+    return { ok: false, error: 'Unknown provider. Use "anthropic", "openai", "local" or "replay".' }
+  }
+
+  if (model !== undefined && (typeof model !== 'string' || !model.trim())) {
+    return { ok: false, error: 'Invalid model. Please provide the model name as a string.' }
+  }
+
+  if (meetingDate !== undefined && meetingDate !== '' && !isISODate(meetingDate)) {
+    return { ok: false, error: 'Invalid meeting date. Use the YYYY-MM-DD format.' }
+  }
+
+  if (outputLanguage !== undefined && outputLanguage !== '' && outputLanguage !== 'auto' && !isLanguageCode(outputLanguage)) {
+    return { ok: false, error: 'Unknown output language. Use "en", "es" or "de".' }
+  }
+
+  const template = typeof templateId === 'string' && templateId ? findReportTemplate(templateId) : undefined
+  if (templateId !== undefined && templateId !== '' && !template) {
+    return { ok: false, error: 'Unknown report template.' }
+  }
+
+  const { minInputChars, maxInputChars } = getInputLimits()
+
+  if (input.length < minInputChars) {
+    return { ok: false, error: `Meeting notes must be at least ${minInputChars} characters long.` }
+  }
+
+  if (input.length > maxInputChars) {
+    return { ok: false, error: `Meeting notes cannot exceed ${maxInputChars.toLocaleString()} characters.` }
+  }
+
+  return {
+    ok: true,
+    input,
+    options: {
+      // Anything other than a known type (including "auto") means auto-detect
+      meetingType: isMeetingType(meetingType) ? meetingType : undefined,
+      provider,
+      model: typeof model === 'string' ? model.trim() : undefined,
+      meetingDate: isISODate(meetingDate) ? meetingDate : undefined,
+      template,
+      outputLanguage: isLanguageCode(outputLanguage) ? outputLanguage : undefined,
+    },
+  }
+}
@@ -0,0 +1,46 @@
+import type { SummarizeProgressEvent, SummaryOutput } from './ai'
+import type { ErrorPayload } from './errors'
+
+// Events sent by /api/summarize/stream, one JSON object per line (NDJSON)
+export type SummarizeStreamEvent =
+  | SummarizeProgressEvent
+  | { type: 'stage'; stage: 'saved'; meetingId: string }
+  | { type: 'result'; output: SummaryOutput }
+  | { type: 'save-failed'; error: string }
+  | ({ type: 'error' } & ErrorPayload)
+
+export function encodeStreamEvent(event: SummarizeStreamEvent): Uint8Array {
+  return new TextEncoder().encode(`${JSON.stringify(event)}\n`)
+}
+
+// Read an NDJSON response body, calling onEvent for each event as it arrives
+export async function readSummarizeStream(
+  response: Response,
+  onEvent: (event: SummarizeStreamEvent) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('The server returned an empty stream')
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  const emit = (line: string) => {
+    if (line.trim()) {
+      onEvent(JSON.parse(line) as SummarizeStreamEvent)
+    }
+  }
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split('\n')
+    buffer = lines.pop() || ''
+    lines.forEach(emit)
+  }
+
+  emit(buffer)
+}
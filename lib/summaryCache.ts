@@ -0,0 +1,114 @@
+import { createHash } from 'crypto'
+import type { SummaryOutput } from './ai'
+import { getSummaryCacheSettings } from './config'
+import { getCachedSummaryRow, putCachedSummaryRow } from './supabaseAdmin'
+
+// Server-only: finished summaries keyed by a hash of everything that shapes
+// them, so resubmitting the same notes doesn't call the provider again
+
+export interface CachedSummary {
+  output: SummaryOutput
+  input: string // the exact notes, which citation offsets point into
+  cachedAt: string // ISO timestamp
+}
+
+export interface SummaryCache {
+  get(key: string): Promise<CachedSummary | undefined>
+  set(key: string, entry: CachedSummary): Promise<void>
+}
+
+export function hashValue(value: unknown): string {
+  return createHash('sha256').update(typeof value === 'string' ? value : JSON.stringify(value)).digest('hex')
+}
+
+// Line endings, runs of spaces and blank lines don't change the summary
+export function normalizeNotes(input: string): string {
+  return input
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .filter(line => line.length > 0)
+    .join('\n')
+}
+
+function isExpired(entry: CachedSummary, ttlMs: number): boolean {
+  return Date.now() - new Date(entry.cachedAt).getTime() > ttlMs
+}
+
+// Least recently used entries are evicted first; a Map keeps insertion
+// order, so a hit is re-inserted to move it to the end
+export function createMemoryCache(maxEntries: number, ttlMs: number): SummaryCache {
+  const entries = new Map<string, CachedSummary>()
+
+  return {
+    async get(key) {
+      const entry = entries.get(key)
+      if (!entry) return undefined
+      entries.delete(key)
+      if (isExpired(entry, ttlMs)) return undefined
+      entries.set(key, entry)
+      return entry
+    },
+    async set(key, entry) {
+      entries.delete(key)
+      entries.set(key, entry)
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string)
+      }
+    },
+  }
+}
+
+// Stored in the summary_cache table (migrate-add-summary-cache.sql); a
+// failing database is treated as a miss so summaries still work
+export function createDatabaseCache(ttlMs: number): SummaryCache {
+  return {
+    async get(key) {
+      try {
+        const entry = await getCachedSummaryRow(key)
+        return entry && !isExpired(entry, ttlMs) ? entry : undefined
+      } catch (error) {
+        console.warn('Summary cache lookup failed:', error instanceof Error ? error.message : error)
+        return undefined
+      }
+    },
+    async set(key, entry) {
+      try {
+        await putCachedSummaryRow(key, entry)
+      } catch (error) {
+        console.warn('Summary cache write failed:', error instanceof Error ? error.message : error)
+      }
+    },
+  }
+}
+
+let cache: SummaryCache | null | undefined
+
+// One cache per server process; null when caching is off
+export function getSummaryCache(): SummaryCache | null {
+  if (cache === undefined) {
+    const { kind, maxEntries, ttlHours } = getSummaryCacheSettings()
+    const ttlMs = ttlHours * 60 * 60 * 1000
+    cache = kind === 'off' ? null : kind === 'database' ? createDatabaseCache(ttlMs) : createMemoryCache(maxEntries, ttlMs)
+  }
+  return cache
+}
+
+const inFlight: Record<string, Promise<CachedSummary>> = {}
+
+// Identical requests that arrive while one is running share its result
+// instead of starting their own
+export function coalesce(key: string, run: () => Promise<CachedSummary>): { promise: Promise<CachedSummary>; joined: boolean } {
+  const running = inFlight[key]
+  if (running) {
+    return { promise: running, joined: true }
+  }
+
+  const promise = run()
+  inFlight[key] = promise
+  const clear = () => {
+    delete inFlight[key]
+  }
+  promise.then(clear, clear)
+  return { promise, joined: false }
+}
@@ -1,4 +1,6 @@
 import { createClient } from '@supabase/supabase-js'
+import type { MeetingQualityMetrics, MeetingType, SOPCheck, SummaryOutput } from './ai'
+import type { StoredMeeting } from './meetingStore'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
 const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
@@ -12,7 +14,7 @@ export interface Note {
   id: string
   title: string
   input: string
-  output: string
+  output: SummaryOutput // upgraded to the current shape when saved by an older version
   created_at: string
 }
 
@@ -20,12 +22,13 @@ export interface Meeting {
   id: string
   title: string
   raw_notes: string
+  meeting_type: MeetingType
   created_at: string
   user_id?: string
 }
 
 export type MeetingActionItems = Array<Record<string, unknown>>
-export type MeetingSOPGaps = Array<Record<string, unknown>>
+export type MeetingSOPGaps = SOPCheck[]
 
 export interface MeetingOutput {
   id: string
@@ -34,6 +37,17 @@ export interface MeetingOutput {
   action_items: MeetingActionItems
   sop_gaps: MeetingSOPGaps
   probing_questions: string[]
+  quality_score: number | null
+  quality: MeetingQualityMetrics | null
+  source_language: string | null
+  output_language: string | null
+  output: SummaryOutput | null // the full report; null on rows saved before it was stored
+  schema_version: number // see lib/storedOutput
+  model: string | null
+  prompt_version: number | null
+  revision: number
+  regenerated_section: string | null
+  guidance: string | null
   created_at: string
 }
 
@@ -50,9 +64,6 @@ export async function saveNote(title: string, input: string, output: string): Pr
       const err = await response.json().catch(() => ({}))
       throw new Error(err?.error || 'Failed to save note')
     }
-
-    // Keep only the last 10 meetings
-    await keepLast10Meetings()
   } catch (error) {
     throw new Error(`Failed to save note: ${error instanceof Error ? error.message : 'Unknown error'}`)
   }
@@ -66,21 +77,14 @@ export async function getNotes(): Promise<Note[]> {
       throw new Error(err?.error || 'Failed to load notes')
     }
     const payload = await response.json()
-    const data = (payload?.data || []) as MeetingWithOutputs[]
+    const data = (payload?.data || []) as StoredMeeting[]
 
     const notes: Note[] = data.map((meeting) => ({
       id: meeting.id,
       title: meeting.title,
-      input: meeting.raw_notes,
-      output: JSON.stringify({
-        summaryPoints: meeting.meeting_outputs?.[0]?.summary ? JSON.parse(meeting.meeting_outputs[0].summary) : [],
-        actionItemsOrNextSteps: meeting.meeting_outputs?.[0]?.action_items || [],
-        openQuestions: meeting.meeting_outputs?.[0]?.probing_questions || [],
-        meetingType: 'sprint-review',
-        riskAssessment: [],
-        followUpReminders: []
-      }),
-      created_at: meeting.created_at
+      input: meeting.notes,
+      output: meeting.output,
+      created_at: meeting.createdAt
     }))
 
     return notes
@@ -88,67 +92,3 @@ export async function getNotes(): Promise<Note[]> {
     throw new Error(`Failed to load notes: ${error instanceof Error ? error.message : 'Unknown error'}`)
   }
 }
-
-async function keepLast10Meetings(): Promise<void> {
-  try {
-    if (!supabase) {
-      console.log('Supabase not configured - skipping cleanup')
-      return
-    }
-    
-    // Get all meetings ordered by creation date
-    const { data, error } = await supabase
-      .from('meetings')
-      .select('id, created_at')
-      .order('created_at', { ascending: false })
-
-    if (error) {
-      console.error('Error fetching meetings for cleanup:', error)
-      return
-    }
-
-    // If we have more than 10 meetings, delete the oldest ones
-    if (data && data.length > 10) {
-      const meetingsToDelete = data.slice(10)
-      const idsToDelete = meetingsToDelete.map(meeting => meeting.id)
-
-      // Delete meeting outputs first (foreign key constraint)
-      const { error: deleteOutputsError } = await supabase
-        .from('meeting_outputs')
-        .delete()
-        .in('meeting_id', idsToDelete)
-
-      if (deleteOutputsError) {
-        console.error('Error deleting old meeting outputs:', deleteOutputsError)
-      }
-
-      // Then delete the meetings
-      const { error: deleteMeetingsError } = await supabase
-        .from('meetings')
-        .delete()
-        .in('id', idsToDelete)
-
-      if (deleteMeetingsError) {
-        console.error('Error deleting old meetings:', deleteMeetingsError)
-      }
-    }
-  } catch (error) {
-    console.error('Error in keepLast10Meetings:', error)
-  }
-}
-
-// Types for API payloads
-interface MeetingOutputRow {
-  summary?: string
-  action_items?: unknown[]
-  sop_gaps?: unknown[]
-  probing_questions?: string[]
-}
-
-interface MeetingWithOutputs {
-  id: string
-  title: string
-  raw_notes: string
-  created_at: string
-  meeting_outputs?: MeetingOutputRow[]
-}
@@ -0,0 +1,625 @@
+import { createClient } from '@supabase/supabase-js'
+import type { LanguageInfo, MeetingQualityMetrics, MeetingType, RosterMember, SummaryOutput } from './ai'
+import { isLanguageCode } from './language'
+import { MeetingSearchQuery, MeetingSearchResult, NO_BLOCKER_TEXTS, toSearchHit } from './meetingSearch'
+import { isMeetingType } from './meetingTypes'
+import type {
+  DeletedMeeting,
+  MeetingChanges,
+  MeetingCursor,
+  MeetingPage,
+  QualityHistoryEntry,
+  RevisionChange,
+  RosterMemberFields,
+  StoredMeeting,
+} from './meetingStore'
+import { OUTPUT_SCHEMA_VERSION, readStoredOutput, StoredOutputColumns, toStorableOutput } from './storedOutput'
+
+// Server-only: uses the service role key, so never import this from a client component
+
+export function getAdminClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error('Supabase URL or service role key is not configured on the server')
+  }
+
+  return createClient(supabaseUrl, serviceRoleKey)
+}
+
+// Meetings and team members have UUID ids; anything else matches no row
+const ROW_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// The meeting_outputs columns for a summary output. The full report goes in
+// `output`; the other columns are kept for queries and older readers.
+// Reports from /api/save-note come from the browser, so each field is
+// checked before it is copied into its column.
+function toOutputRow(output: SummaryOutput) {
+  const summaryPoints: string[] = Array.isArray(output.summaryPoints) ? output.summaryPoints : []
+  const actionItems: unknown[] = Array.isArray(output.actionItems)
+    ? output.actionItems
+    : Array.isArray(output.developmentTeamSections?.actionItemsAndOwnership)
+      ? output.developmentTeamSections.actionItemsAndOwnership
+      : []
+  const openQuestions: string[] = Array.isArray(output.openQuestions) ? output.openQuestions : []
+  const sopChecks: unknown[] = Array.isArray(output.sopChecks) ? output.sopChecks : []
+  const quality: MeetingQualityMetrics | null = output.meetingQuality && typeof output.meetingQuality.overallScore === 'number'
+    ? output.meetingQuality
+    : null
+  const language: LanguageInfo | null = output.language && isLanguageCode(output.language.source) ? output.language : null
+
+  return {
+    summary: JSON.stringify(summaryPoints),
+    action_items: actionItems,
+    sop_gaps: sopChecks,
+    probing_questions: openQuestions,
+    quality_score: quality ? quality.overallScore : null,
+    quality,
+    source_language: language ? language.source : null,
+    output_language: language ? language.output : null,
+    usage: output.usage && typeof output.usage.model === 'string' ? output.usage : null,
+    output: toStorableOutput(output),
+    schema_version: OUTPUT_SCHEMA_VERSION,
+    model: typeof output.generation?.model === 'string' ? output.generation.model : null,
+    prompt_version: typeof output.generation?.promptVersion === 'number' ? output.generation.promptVersion : null,
+  }
+}
+
+// Save a meeting and its summary output; returns the new meeting id
+export async function insertMeetingRows(title: string, input: string, output: SummaryOutput): Promise<string> {
+  const meetingType: MeetingType = isMeetingType(output.meetingType) ? output.meetingType : 'development-team-meeting'
+
+  const supabase = getAdminClient()
+
+  // Save meeting
+  const { data: meeting, error: meetingError } = await supabase
+    .from('meetings')
+    .insert([{ title, raw_notes: input, meeting_type: meetingType }])
+    .select()
+    .single()
+
+  if (meetingError) {
+    throw new Error(`Failed to save meeting: ${meetingError.message}`)
+  }
+
+  // Save meeting output
+  const { error: outputError } = await supabase
+    .from('meeting_outputs')
+    .insert([{ meeting_id: meeting.id, revision: 1, ...toOutputRow(output) }])
+
+  if (outputError) {
+    throw new Error(`Failed to save meeting output: ${outputError.message}`)
+  }
+
+  return meeting.id
+}
+
+// Keep a regenerated report as the meeting's next revision; earlier
+// revisions stay in meeting_outputs. Returns the new revision number.
+export async function insertMeetingRevisionRow(meetingId: string, output: SummaryOutput, change: RevisionChange): Promise<number> {
+  const supabase = getAdminClient()
+  const { data: latest, error: latestError } = await supabase
+    .from('meeting_outputs')
+    .select('revision')
+    .eq('meeting_id', meetingId)
+    .order('revision', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (latestError) {
+    throw new Error(`Failed to load meeting revisions: ${latestError.message}`)
+  }
+
+  // Two regenerations racing for the same number fail on the unique index
+  const revision = ((latest as { revision: number } | null)?.revision || 1) + 1
+  const { error } = await supabase
+    .from('meeting_outputs')
+    .insert([{
+      meeting_id: meetingId,
+      revision,
+      regenerated_section: change.section,
+      guidance: change.guidance || null,
+      ...toOutputRow(output),
+    }])
+
+  if (error) {
+    throw new Error(`Failed to save the regenerated report: ${error.message}`)
+  }
+  return revision
+}
+
+interface QualityRow {
+  quality_score: number
+  quality: MeetingQualityMetrics
+  meetings: { id: string; title: string; meeting_type: MeetingType; created_at: string }
+}
+
+// Scores are read this many revisions at a time until there are enough
+// meetings; regenerated meetings have several scored revisions
+const QUALITY_BATCH_SIZE = 200
+
+// Most recent scores first, optionally for one meeting type only. Only the
+// latest scored revision of each meeting counts towards the limit.
+export async function getQualityHistoryRows(options: { meetingType?: MeetingType; limit: number }): Promise<QualityHistoryEntry[]> {
+  const supabase = getAdminClient()
+  const latest: QualityRow[] = []
+  const seen: Record<string, boolean> = {}
+  for (let from = 0; latest.length < options.limit; from += QUALITY_BATCH_SIZE) {
+    let query = supabase
+      .from('meeting_outputs')
+      .select('quality_score, quality, meetings!inner(id, title, meeting_type, created_at)')
+      .not('quality_score', 'is', null)
+      .is('meetings.deleted_at', null)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .range(from, from + QUALITY_BATCH_SIZE - 1)
+
+    if (options.meetingType) {
+      query = query.eq('meetings.meeting_type', options.meetingType)
+    }
+
+    const { data, error } = await query
+    if (error) {
+      throw new Error(`Failed to load quality scores: ${error.message}`)
+    }
+
+    // Newest first, so the first row of each meeting is its latest revision
+    const rows = data as unknown as QualityRow[]
+    rows.forEach(row => {
+      if (seen[row.meetings.id] || latest.length >= options.limit) return
+      seen[row.meetings.id] = true
+      latest.push(row)
+    })
+    if (rows.length < QUALITY_BATCH_SIZE) {
+      break
+    }
+  }
+
+  return latest.map(row => ({
+    meetingId: row.meetings.id,
+    title: row.meetings.title,
+    meetingType: row.meetings.meeting_type,
+    createdAt: row.meetings.created_at,
+    overallScore: Number(row.quality_score),
+    areas: row.quality.areas,
+    scoringVersion: row.quality.scoringVersion,
+  }))
+}
+
+interface TeamMemberRow {
+  id: string
+  name: string
+  aliases: string[] | null
+  handles: string[] | null
+  emails: string[] | null
+}
+
+function toRosterMember(row: TeamMemberRow): RosterMember {
+  return {
+    id: row.id,
+    name: row.name,
+    aliases: row.aliases || [],
+    handles: row.handles || [],
+    emails: row.emails || [],
+  }
+}
+
+export async function getRosterRows(): Promise<RosterMember[]> {
+  const { data, error } = await getAdminClient()
+    .from('team_members')
+    .select('id, name, aliases, handles, emails')
+    .order('name', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to load team roster: ${error.message}`)
+  }
+  return (data as TeamMemberRow[]).map(toRosterMember)
+}
+
+export async function insertRosterMemberRow(fields: RosterMemberFields): Promise<RosterMember> {
+  const { data, error } = await getAdminClient()
+    .from('team_members')
+    .insert([fields])
+    .select('id, name, aliases, handles, emails')
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to add team member: ${error.message}`)
+  }
+  return toRosterMember(data as TeamMemberRow)
+}
+
+export async function updateRosterMemberRow(id: string, fields: Partial<RosterMemberFields>): Promise<RosterMember | undefined> {
+  if (!ROW_ID.test(id)) {
+    return undefined
+  }
+
+  const { data, error } = await getAdminClient()
+    .from('team_members')
+    .update(fields)
+    .eq('id', id)
+    .select('id, name, aliases, handles, emails')
+
+  if (error) {
+    throw new Error(`Failed to update team member: ${error.message}`)
+  }
+  const rows = data as TeamMemberRow[]
+  return rows.length > 0 ? toRosterMember(rows[0]) : undefined
+}
+
+export async function deleteRosterMemberRow(id: string): Promise<boolean> {
+  if (!ROW_ID.test(id)) {
+    return false
+  }
+
+  const { data, error } = await getAdminClient().from('team_members').delete().eq('id', id).select('id')
+
+  if (error) {
+    throw new Error(`Failed to remove team member: ${error.message}`)
+  }
+  return (data as Array<{ id: string }>).length > 0
+}
+
+interface SummaryCacheRow {
+  output: SummaryOutput
+  input: string
+  cached_at: string
+}
+
+export async function getCachedSummaryRow(key: string): Promise<{ output: SummaryOutput; input: string; cachedAt: string } | undefined> {
+  const { data, error } = await getAdminClient()
+    .from('summary_cache')
+    .select('output, input, cached_at')
+    .eq('key', key)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to read the summary cache: ${error.message}`)
+  }
+  const row = data as SummaryCacheRow | null
+  return row ? { output: row.output, input: row.input, cachedAt: row.cached_at } : undefined
+}
+
+export async function putCachedSummaryRow(key: string, entry: { output: SummaryOutput; input: string; cachedAt: string }): Promise<void> {
+  const { error } = await getAdminClient()
+    .from('summary_cache')
+    .upsert([{ key, output: entry.output, input: entry.input, cached_at: entry.cachedAt }])
+
+  if (error) {
+    throw new Error(`Failed to write the summary cache: ${error.message}`)
+  }
+}
+
+export interface UsageRow {
+  recordedAt: string
+  provider: string
+  model: string
+  inputTokens: number
+  outputTokens: number
+  estimatedCostUsd: number | null
+}
+
+interface LLMUsageRow {
+  recorded_at: string
+  provider: string
+  model: string
+  input_tokens: number
+  output_tokens: number
+  estimated_cost_usd: number | string | null // NUMERIC comes back as a string
+}
+
+export async function insertUsageRow(row: UsageRow): Promise<void> {
+  const { error } = await getAdminClient()
+    .from('llm_usage')
+    .insert([
+      {
+        recorded_at: row.recordedAt,
+        provider: row.provider,
+        model: row.model,
+        input_tokens: row.inputTokens,
+        output_tokens: row.outputTokens,
+        estimated_cost_usd: row.estimatedCostUsd,
+      }
+    ])
+
+  if (error) {
+    throw new Error(`Failed to record token usage: ${error.message}`)
+  }
+}
+
+export async function getUsageRowsSince(since: string): Promise<UsageRow[]> {
+  const { data, error } = await getAdminClient()
+    .from('llm_usage')
+    .select('recorded_at, provider, model, input_tokens, output_tokens, estimated_cost_usd')
+    .gte('recorded_at', since)
+
+  if (error) {
+    throw new Error(`Failed to load token usage: ${error.message}`)
+  }
+  return (data as LLMUsageRow[]).map(row => ({
+    recordedAt: row.recorded_at,
+    provider: row.provider,
+    model: row.model,
+    inputTokens: row.input_tokens,
+    outputTokens: row.output_tokens,
+    estimatedCostUsd: row.estimated_cost_usd === null ? null : Number(row.estimated_cost_usd),
+  }))
+}
+
+interface StoredMeetingRow {
+  id: string
+  title: string
+  raw_notes: string
+  meeting_type: string | null
+  created_at: string
+  meeting_outputs: StoredOutputColumns[]
+}
+
+const STORED_MEETING_COLUMNS = `
+  id,
+  title,
+  raw_notes,
+  meeting_type,
+  created_at,
+  meeting_outputs (output, schema_version, summary, action_items, probing_questions, sop_gaps, quality, source_language, output_language)
+`
+
+function toStoredMeeting(row: StoredMeetingRow): StoredMeeting {
+  const meetingType: MeetingType = isMeetingType(row.meeting_type) ? row.meeting_type : 'development-team-meeting'
+  // Only the latest revision is selected, so this is the current report
+  return {
+    id: row.id,
+    title: row.title,
+    notes: row.raw_notes,
+    meetingType,
+    createdAt: row.created_at,
+    output: readStoredOutput(row.meeting_outputs[0] || {}, meetingType),
+  }
+}
+
+
+// undefined when there is no meeting with this id, or it was deleted
+export async function getMeetingRow(id: string): Promise<StoredMeeting | undefined> {
+  if (!ROW_ID.test(id)) {
+    return undefined
+  }
+
+  const { data, error } = await getAdminClient()
+    .from('meetings')
+    .select(STORED_MEETING_COLUMNS)
+    .eq('id', id)
+    .is('deleted_at', null)
+    .order('revision', { referencedTable: 'meeting_outputs', ascending: false })
+    .limit(1, { referencedTable: 'meeting_outputs' })
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load meeting: ${error.message}`)
+  }
+  const row = data as StoredMeetingRow | null
+  return row ? toStoredMeeting(row) : undefined
+}
+
+export async function updateMeetingRow(id: string, changes: MeetingChanges): Promise<StoredMeeting | undefined> {
+  if (!ROW_ID.test(id)) {
+    return undefined
+  }
+
+  const fields: { title?: string; meeting_type?: MeetingType } = {}
+  if (changes.title !== undefined) fields.title = changes.title
+  if (changes.meetingType !== undefined) fields.meeting_type = changes.meetingType
+  const { data, error } = await getAdminClient()
+    .from('meetings')
+    .update(fields)
+    .eq('id', id)
+    .is('deleted_at', null)
+    .select('id')
+
+  if (error) {
+    throw new Error(`Failed to update meeting: ${error.message}`)
+  }
+  return (data as Array<{ id: string }>).length > 0 ? getMeetingRow(id) : undefined
+}
+
+// Moves the meeting to recently deleted; purgeMeetingRowsDeletedBefore
+// removes it for good
+export async function deleteMeetingRow(id: string): Promise<boolean> {
+  if (!ROW_ID.test(id)) {
+    return false
+  }
+
+  const { data, error } = await getAdminClient()
+    .from('meetings')
+    .update({ deleted_at: new Date().toISOString() })
+    .eq('id', id)
+    .is('deleted_at', null)
+    .select('id')
+
+  if (error) {
+    throw new Error(`Failed to delete meeting: ${error.message}`)
+  }
+  return (data as Array<{ id: string }>).length > 0
+}
+
+// undefined unless the meeting was deleted on or after deletedSince
+export async function restoreMeetingRow(id: string, deletedSince: string): Promise<StoredMeeting | undefined> {
+  if (!ROW_ID.test(id)) {
+    return undefined
+  }
+
+  const { data, error } = await getAdminClient()
+    .from('meetings')
+    .update({ deleted_at: null })
+    .eq('id', id)
+    .gte('deleted_at', deletedSince)
+    .select('id')
+
+  if (error) {
+    throw new Error(`Failed to restore meeting: ${error.message}`)
+  }
+  return (data as Array<{ id: string }>).length > 0 ? getMeetingRow(id) : undefined
+}
+
+interface DeletedMeetingRow {
+  id: string
+  title: string
+  meeting_type: string | null
+  created_at: string
+  deleted_at: string
+}
+
+// Most recently deleted first
+export async function getDeletedMeetingRows(options: { deletedSince: string; limit: number }): Promise<DeletedMeeting[]> {
+  const { data, error } = await getAdminClient()
+    .from('meetings')
+    .select('id, title, meeting_type, created_at, deleted_at')
+    .gte('deleted_at', options.deletedSince)
+    .order('deleted_at', { ascending: false })
+    .limit(options.limit)
+
+  if (error) {
+    throw new Error(`Failed to load deleted meetings: ${error.message}`)
+  }
+  return (data as DeletedMeetingRow[]).map(row => ({
+    id: row.id,
+    title: row.title,
+    meetingType: isMeetingType(row.meeting_type) ? row.meeting_type : 'development-team-meeting',
+    createdAt: row.created_at,
+    deletedAt: row.deleted_at,
+  }))
+}
+
+// Newest meetings first, by created_at then id. Pass `next` back as `after`
+// for the following page; the cursor is checked by decodeMeetingCursor, so
+// it is safe to quote into the filter.
+export async function getMeetingPage(options: { limit: number; after?: MeetingCursor }): Promise<MeetingPage> {
+  let query = getAdminClient()
+    .from('meetings')
+    .select(STORED_MEETING_COLUMNS)
+    .is('deleted_at', null)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .order('revision', { referencedTable: 'meeting_outputs', ascending: false })
+    .limit(1, { referencedTable: 'meeting_outputs' })
+    .limit(options.limit + 1) // one more, to tell whether there is a next page
+
+  if (options.after) {
+    const { createdAt, id } = options.after
+    query = query.or(`created_at.lt."${createdAt}",and(created_at.eq."${createdAt}",id.lt.${id})`)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to load meetings: ${error.message}`)
+  }
+  const meetings = (data as unknown as StoredMeetingRow[]).map(toStoredMeeting)
+  const page = meetings.slice(0, options.limit)
+  const last = page[page.length - 1]
+  return { meetings: page, next: meetings.length > options.limit ? { createdAt: last.createdAt, id: last.id } : undefined }
+}
+
+// Newest first, like getMeetingPage. The search_meetings function
+// (migrate-add-meeting-search.sql) filters and counts the meetings in the
+// database; only the requested page is read back.
+export async function searchMeetingRows(query: MeetingSearchQuery): Promise<MeetingSearchResult> {
+  const start = (query.page - 1) * query.pageSize
+  const { data, error, count } = await getAdminClient()
+    .rpc('search_meetings', {
+      search_text: query.text || null,
+      owner_filter: query.owner || null,
+      priority_filter: query.priority || null,
+      date_from: query.from || null,
+      date_to: query.to || null,
+      type_filter: query.meetingType || null,
+      open_blockers: query.hasOpenBlockers ?? null,
+      no_blocker_texts: NO_BLOCKER_TEXTS,
+    }, { count: 'exact' })
+    .select(STORED_MEETING_COLUMNS)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .order('revision', { referencedTable: 'meeting_outputs', ascending: false })
+    .limit(1, { referencedTable: 'meeting_outputs' })
+    .range(start, start + query.pageSize - 1)
+
+  if (error) {
+    throw new Error(`Failed to search meetings: ${error.message}`)
+  }
+  return {
+    data: (data as unknown as StoredMeetingRow[]).map(row => toSearchHit(toStoredMeeting(row), query)),
+    total: count ?? 0,
+    page: query.page,
+    pageSize: query.pageSize,
+  }
+}
+
+const RETENTION_BATCH_SIZE = 1000
+
+// Moves all but the newest meetings to recently deleted, a batch at a time
+export async function softDeleteMeetingRowsBeyond(count: number): Promise<number> {
+  const supabase = getAdminClient()
+  const deletedAt = new Date().toISOString()
+  let deleted = 0
+  for (;;) {
+    const { data, error } = await supabase
+      .from('meetings')
+      .select('id')
+      .is('deleted_at', null)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .range(count, count + RETENTION_BATCH_SIZE - 1)
+
+    if (error) {
+      throw new Error(`Failed to load meetings past the retention limit: ${error.message}`)
+    }
+    const ids = (data as Array<{ id: string }>).map(row => row.id)
+    if (ids.length === 0) {
+      return deleted
+    }
+
+    const { error: updateError } = await supabase
+      .from('meetings')
+      .update({ deleted_at: deletedAt })
+      .in('id', ids)
+      .is('deleted_at', null)
+
+    if (updateError) {
+      throw new Error(`Failed to delete old meetings: ${updateError.message}`)
+    }
+    deleted += ids.length
+    if (ids.length < RETENTION_BATCH_SIZE) {
+      return deleted
+    }
+  }
+}
+
+// Moves meetings saved before `date` to recently deleted
+export async function softDeleteMeetingRowsSavedBefore(date: string): Promise<number> {
+  const { data, error } = await getAdminClient()
+    .from('meetings')
+    .update({ deleted_at: new Date().toISOString() })
+    .lt('created_at', date)
+    .is('deleted_at', null)
+    .select('id')
+
+  if (error) {
+    throw new Error(`Failed to delete old meetings: ${error.message}`)
+  }
+  return (data as Array<{ id: string }>).length
+}
+
+// Removes meetings deleted before `date` for good; their outputs go with
+// them (ON DELETE CASCADE)
+export async function purgeMeetingRowsDeletedBefore(date: string): Promise<number> {
+  const { data, error } = await getAdminClient()
+    .from('meetings')
+    .delete()
+    .lt('deleted_at', date)
+    .select('id')
+
+  if (error) {
+    throw new Error(`Failed to purge deleted meetings: ${error.message}`)
+  }
+  return (data as Array<{ id: string }>).length
+}
@@ -0,0 +1,53 @@
+import { readFileSync } from 'fs'
+import { BUILTIN_TEMPLATES, DEFAULT_TEMPLATE, ReportTemplate } from './templates'
+import { formatValidationIssues, validateReportTemplates } from './validation'
+
+// Server-only: reads REPORT_TEMPLATES_FILE from disk
+
+// Templates from REPORT_TEMPLATES_FILE ({ "templates": [...] }); a template
+// with the same id as a built-in one replaces it
+function readTemplateFile(file: string): ReportTemplate[] {
+  let raw: unknown
+  try {
+    raw = JSON.parse(readFileSync(file, 'utf8'))
+  } catch (error) {
+    throw new Error(`Failed to read report templates from ${file}: ${error instanceof Error ? error.message : error}`)
+  }
+
+  const result = validateReportTemplates(raw)
+  if (!result.ok) {
+    throw new Error(`Invalid report templates in ${file}:\n${formatValidationIssues(result.errors)}`)
+  }
+  return result.value
+}
+
+// A broken template file is logged and the built-in templates are used
+export function getReportTemplates(): ReportTemplate[] {
+  const file = process.env.REPORT_TEMPLATES_FILE
+  if (!file) {
+    return BUILTIN_TEMPLATES
+  }
+
+  try {
+    const custom = readTemplateFile(file)
+    const ids = custom.map(template => template.id)
+    return [...BUILTIN_TEMPLATES.filter(template => ids.indexOf(template.id) === -1), ...custom]
+  } catch (error) {
+    console.warn('Using the built-in report templates:', error instanceof Error ? error.message : error)
+    return BUILTIN_TEMPLATES
+  }
+}
+
+export function findReportTemplate(id: string): ReportTemplate | undefined {
+  return getReportTemplates().find(template => template.id === id)
+}
+
+// REPORT_TEMPLATE picks the deployment's default template
+export function getDefaultReportTemplate(): ReportTemplate {
+  const id = process.env.REPORT_TEMPLATE
+  const template = id ? findReportTemplate(id) : undefined
+  if (id && !template) {
+    console.warn(`Unknown REPORT_TEMPLATE "${id}", using "${DEFAULT_TEMPLATE.id}"`)
+  }
+  return template || DEFAULT_TEMPLATE
+}
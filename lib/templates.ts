@@ -0,0 +1,232 @@
+import type { CustomSectionItem, CustomSections, SummaryOutput } from './ai'
+
+// Report templates decide which sections a report has, how the model is
+// asked for them and how they render. The core sections are always
+// extracted (owners, deadlines, citations and scoring depend on them);
+// a template chooses whether and where they appear, and adds custom ones.
+
+export type BuiltinSectionId = 'keyDecisionsAndProgress' | 'actionItemsAndOwnership' | 'blockersAndNextSteps'
+
+export const BUILTIN_SECTION_IDS: BuiltinSectionId[] = ['keyDecisionsAndProgress', 'actionItemsAndOwnership', 'blockersAndNextSteps']
+
+export type SectionColor = 'blue' | 'green' | 'orange' | 'purple' | 'teal' | 'red' | 'gray'
+
+export const SECTION_COLORS: SectionColor[] = ['blue', 'green', 'orange', 'purple', 'teal', 'red', 'gray']
+
+// A field of a structured item; "level" fields hold high, medium or low
+export interface TemplateField {
+  key: string
+  label: string
+  description: string
+  type?: 'text' | 'level'
+}
+
+export type SectionItemSchema =
+  | { kind: 'strings'; example: string }
+  | { kind: 'structured'; fields: TemplateField[] }
+
+export interface RenderHints {
+  icon?: string
+  color?: SectionColor
+  marker?: string // bullet for string items
+  fullWidth?: boolean
+}
+
+export interface TemplateSection {
+  id: string // key under "customSections", or the core section it shows
+  name: string
+  description: string // what belongs in the section; shown to the model
+  builtin?: BuiltinSectionId
+  items?: SectionItemSchema // custom sections only
+  render?: RenderHints
+}
+
+// Bump `version` whenever sections change. Each summary keeps a copy of the
+// template it was generated with, so old reports render as they were.
+export interface ReportTemplate {
+  id: string
+  version: number
+  name: string
+  description: string
+  sections: TemplateSection[]
+}
+
+const CORE_SECTIONS: Record<BuiltinSectionId, TemplateSection> = {
+  keyDecisionsAndProgress: {
+    id: 'keyDecisionsAndProgress',
+    builtin: 'keyDecisionsAndProgress',
+    name: 'Key Decisions & Progress',
+    description: 'What was decided and why, and what is working or complete',
+    render: { icon: '💡' },
+  },
+  actionItemsAndOwnership: {
+    id: 'actionItemsAndOwnership',
+    builtin: 'actionItemsAndOwnership',
+    name: 'Action Items with Ownership',
+    description: "Who's doing what and when",
+    render: { icon: '✅' },
+  },
+  blockersAndNextSteps: {
+    id: 'blockersAndNextSteps',
+    builtin: 'blockersAndNextSteps',
+    name: 'Blockers & Next Steps',
+    description: "What's blocking progress and what's coming up next",
+    render: { icon: '🚧' },
+  },
+}
+
+// Reports generated before templates existed render with this one
+export const DEFAULT_TEMPLATE: ReportTemplate = {
+  id: 'development-team',
+  version: 1,
+  name: 'Development Team',
+  description: 'Decisions, action items and blockers',
+  sections: [CORE_SECTIONS.keyDecisionsAndProgress, CORE_SECTIONS.actionItemsAndOwnership, CORE_SECTIONS.blockersAndNextSteps],
+}
+
+export const BUILTIN_TEMPLATES: ReportTemplate[] = [
+  DEFAULT_TEMPLATE,
+  {
+    id: 'platform-team',
+    version: 1,
+    name: 'Platform Team',
+    description: 'Adds incidents and on-call handover',
+    sections: [
+      CORE_SECTIONS.keyDecisionsAndProgress,
+      CORE_SECTIONS.actionItemsAndOwnership,
+      CORE_SECTIONS.blockersAndNextSteps,
+      {
+        id: 'incidentsOnCall',
+        name: 'Incidents & On-call',
+        description: 'Incidents and pages since the last meeting, their status, and on-call handover notes',
+        items: {
+          kind: 'structured',
+          fields: [
+            { key: 'incident', label: 'Incident', description: 'what happened' },
+            { key: 'severity', label: 'Severity', description: 'how bad it was', type: 'level' },
+            { key: 'status', label: 'Status', description: 'open, mitigated or resolved' },
+            { key: 'owner', label: 'Owner', description: 'who is handling it' },
+          ],
+        },
+        render: { icon: '🚨', color: 'red', fullWidth: true },
+      },
+    ],
+  },
+  {
+    id: 'product-squad',
+    version: 1,
+    name: 'Product Squad',
+    description: 'Adds customer feedback',
+    sections: [
+      CORE_SECTIONS.keyDecisionsAndProgress,
+      {
+        id: 'customerFeedback',
+        name: 'Customer Feedback',
+        description: 'Feedback, requests and complaints from customers that came up, with who raised them',
+        items: {
+          kind: 'structured',
+          fields: [
+            { key: 'feedback', label: 'Feedback', description: 'what the customer said or asked for' },
+            { key: 'source', label: 'Source', description: 'customer, segment or channel' },
+            { key: 'impact', label: 'Impact', description: 'how much it matters', type: 'level' },
+          ],
+        },
+        render: { icon: '💬', color: 'teal' },
+      },
+      CORE_SECTIONS.actionItemsAndOwnership,
+      CORE_SECTIONS.blockersAndNextSteps,
+    ],
+  },
+]
+
+export function getCustomSections(template: ReportTemplate): TemplateSection[] {
+  return template.sections.filter(section => !section.builtin && section.items)
+}
+
+// The template a summary renders with
+export function getSummaryTemplate(summary: Pick<SummaryOutput, 'template'>): ReportTemplate {
+  return summary.template || DEFAULT_TEMPLATE
+}
+
+const LEVELS = ['high', 'medium', 'low']
+
+// JSON shape of "customSections" shown to the model, or '' without custom sections
+export function buildCustomSectionSchema(template: ReportTemplate): string {
+  const sections = getCustomSections(template)
+  if (sections.length === 0) {
+    return ''
+  }
+
+  const entries = sections.map(section => {
+    const schema = section.items as SectionItemSchema
+    if (schema.kind === 'strings') {
+      return `    "${section.id}": ["${schema.example}"]`
+    }
+    const fields = schema.fields
+      .map(field => `"${field.key}": "${field.type === 'level' ? 'high|medium|low' : field.description}"`)
+      .join(', ')
+    return `    "${section.id}": [{ ${fields} }]`
+  })
+  return `{\n${entries.join(',\n')}\n  }`
+}
+
+// One line per section telling the model what goes where
+export function buildSectionGuidance(template: ReportTemplate): string {
+  return template.sections
+    .map(section => `- ${section.name}${section.builtin ? '' : ` ("customSections.${section.id}")`}: ${section.description}`)
+    .join('\n')
+}
+
+function toText(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : ''
+}
+
+// Coerce whatever the model returned for "customSections" into the
+// template's item shapes, dropping empty items
+export function normalizeCustomSections(template: ReportTemplate, raw: unknown): CustomSections {
+  const value = (raw && typeof raw === 'object' && !Array.isArray(raw) ? raw : {}) as Record<string, unknown>
+  const sections: CustomSections = {}
+
+  getCustomSections(template).forEach(section => {
+    const schema = section.items as SectionItemSchema
+    const items = Array.isArray(value[section.id]) ? (value[section.id] as unknown[]) : []
+
+    sections[section.id] = items.flatMap((item): CustomSectionItem[] => {
+      if (schema.kind === 'strings') {
+        const text = toText(item)
+        return text ? [text] : []
+      }
+
+      const entry = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>
+      const structured: Record<string, string> = {}
+      schema.fields.forEach(field => {
+        const text = toText(entry[field.key])
+        if (field.type === 'level' ? LEVELS.indexOf(text.toLowerCase()) !== -1 : text) {
+          structured[field.key] = field.type === 'level' ? text.toLowerCase() : text
+        }
+      })
+      return Object.keys(structured).length > 0 ? [structured] : []
+    })
+  })
+  return sections
+}
+
+// Plain-text lines for one custom section of the copied report
+export function formatCustomSection(section: TemplateSection, items: CustomSectionItem[]): string[] {
+  const schema = section.items
+  if (!schema) {
+    return []
+  }
+
+  return items.map(item => {
+    if (typeof item === 'string') {
+      return `- ${section.render?.marker ? `${section.render.marker} ` : ''}${item}`
+    }
+    if (schema.kind === 'strings') {
+      return `- ${Object.values(item).join(' | ')}`
+    }
+    const [first, ...rest] = schema.fields.filter(field => item[field.key])
+    const details = rest.map(field => `${field.label}: ${field.type === 'level' ? item[field.key].toUpperCase() : item[field.key]}`)
+    return first ? `- ${item[first.key]}${details.length > 0 ? `\n  ${details.join(' | ')}` : ''}` : ''
+  }).filter(line => line.length > 0)
+}
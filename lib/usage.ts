@@ -0,0 +1,312 @@
+import { readFileSync } from 'fs'
+import type { BudgetNotice, UsageInfo } from './ai'
+import { BudgetPeriod, getBudgetSettings, getUsageLedgerKind } from './config'
+import { SummarizeError } from './errors'
+import type { CompletionRequest, CompletionResult, LLMProvider } from './providers'
+import { getUsageRowsSince, insertUsageRow, UsageRow } from './supabaseAdmin'
+
+// Server-only: token usage and estimated cost of summaries, totaled per UTC
+// day, week and month and checked against the deployment's budget caps
+
+export interface ModelPrice {
+  input: number // USD per million input tokens
+  output: number // USD per million output tokens
+}
+
+// Keys are model names, model name prefixes or provider ids (see findPrice)
+export type PriceTable = Record<string, ModelPrice>
+
+export const DEFAULT_PRICES: PriceTable = {
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  local: { input: 0, output: 0 },
+  replay: { input: 0, output: 0 },
+}
+
+// The model a "downgrade" budget action switches to when
+// BUDGET_FALLBACK_MODEL isn't set
+const FALLBACK_MODELS: Record<string, string> = {
+  anthropic: 'claude-3-haiku-20240307',
+  openai: 'gpt-4o-mini',
+}
+
+function isModelPrice(value: unknown): value is ModelPrice {
+  const price = value as ModelPrice
+  return Boolean(price) && typeof price.input === 'number' && price.input >= 0 && typeof price.output === 'number' && price.output >= 0
+}
+
+// Prices from LLM_PRICES_FILE ({ "prices": { "<model>": { "input", "output" } } })
+// are added to the defaults; a broken file is logged and the defaults are used
+export function getPriceTable(): PriceTable {
+  const file = process.env.LLM_PRICES_FILE
+  if (!file) {
+    return DEFAULT_PRICES
+  }
+
+  try {
+    const raw = JSON.parse(readFileSync(file, 'utf8'))
+    const prices = raw && typeof raw.prices === 'object' ? (raw.prices as Record<string, unknown>) : null
+    if (!prices) {
+      throw new Error('expected a "prices" object')
+    }
+    const invalid = Object.keys(prices).filter(key => !isModelPrice(prices[key]))
+    if (invalid.length > 0) {
+      throw new Error(`invalid prices for ${invalid.join(', ')}`)
+    }
+    return { ...DEFAULT_PRICES, ...(prices as PriceTable) }
+  } catch (error) {
+    console.warn(`Using the default LLM prices, ${file} could not be read:`, error instanceof Error ? error.message : error)
+    return DEFAULT_PRICES
+  }
+}
+
+// The exact model, else the longest matching prefix ("gpt-4o" for
+// "gpt-4o-2024-08-06"), else the provider's own entry
+export function findPrice(table: PriceTable, providerId: string, model: string): ModelPrice | undefined {
+  if (table[model]) {
+    return table[model]
+  }
+  const prefix = Object.keys(table)
+    .filter(key => model.indexOf(key) === 0)
+    .sort((a, b) => b.length - a.length)[0]
+  return prefix ? table[prefix] : table[providerId]
+}
+
+export function estimateCost(providerId: string, model: string, inputTokens: number, outputTokens: number): number | null {
+  const price = findPrice(getPriceTable(), providerId, model)
+  if (!price) {
+    return null
+  }
+  const cost = (inputTokens * price.input + outputTokens * price.output) / 1000000
+  return Math.round(cost * 1000000) / 1000000
+}
+
+export interface UsageMeter {
+  provider: LLMProvider // use in place of the metered provider
+  usage(): UsageInfo | undefined // undefined until a call has finished
+}
+
+// Adds up every successful call made through the wrapped provider, so
+// corrective re-prompts and SOP checks count towards the summary
+export function createUsageMeter(provider: LLMProvider, model: string): UsageMeter {
+  let calls = 0
+  let inputTokens = 0
+  let outputTokens = 0
+  let latencyMs = 0
+  let partial = false
+
+  const measure = async (run: () => Promise<CompletionResult>): Promise<CompletionResult> => {
+    const startedAt = Date.now()
+    const result = await run()
+    calls++
+    latencyMs += Date.now() - startedAt
+    if (result.usage) {
+      inputTokens += result.usage.inputTokens
+      outputTokens += result.usage.outputTokens
+    } else {
+      partial = true
+    }
+    return result
+  }
+
+  return {
+    provider: {
+      ...provider,
+      complete: (request: CompletionRequest) => measure(() => provider.complete(request)),
+      stream: (request: CompletionRequest, onDelta: (delta: string) => void) => measure(() => provider.stream(request, onDelta)),
+    },
+    usage() {
+      if (calls === 0) {
+        return undefined
+      }
+      const usage: UsageInfo = {
+        provider: provider.id,
+        model,
+        calls,
+        inputTokens,
+        outputTokens,
+        latencyMs,
+        estimatedCostUsd: partial && inputTokens + outputTokens === 0 ? null : estimateCost(provider.id, model, inputTokens, outputTokens),
+      }
+      if (partial) {
+        usage.partial = true
+      }
+      return usage
+    },
+  }
+}
+
+export interface PeriodUsage {
+  period: BudgetPeriod
+  since: string // ISO timestamp the period started
+  resetsAt: string
+  summaries: number
+  inputTokens: number
+  outputTokens: number
+  estimatedCostUsd: number // summaries without a price count as 0
+  unpricedSummaries: number
+  capUsd?: number
+}
+
+export const BUDGET_PERIODS: BudgetPeriod[] = ['day', 'week', 'month']
+
+const PERIOD_LABELS: Record<BudgetPeriod, string> = { day: 'daily', week: 'weekly', month: 'monthly' }
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// UTC boundaries; weeks start on Monday
+export function getPeriodBounds(period: BudgetPeriod, now: Date): { start: Date; end: Date } {
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+  if (period === 'day') {
+    return { start: new Date(today), end: new Date(today + DAY_MS) }
+  }
+  if (period === 'week') {
+    const start = today - ((now.getUTCDay() + 6) % 7) * DAY_MS
+    return { start: new Date(start), end: new Date(start + 7 * DAY_MS) }
+  }
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+  }
+}
+
+// Every summary is kept in memory for the current month; with
+// USAGE_LEDGER=database it is also written to llm_usage
+// (migrate-add-usage.sql), and a failing database falls back to memory
+const memoryRows: UsageRow[] = []
+
+export async function recordUsage(usage: UsageInfo): Promise<void> {
+  const row: UsageRow = {
+    recordedAt: new Date().toISOString(),
+    provider: usage.provider,
+    model: usage.model,
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    estimatedCostUsd: usage.estimatedCostUsd,
+  }
+
+  const oldest = Date.now() - 32 * DAY_MS
+  while (memoryRows.length > 0 && new Date(memoryRows[0].recordedAt).getTime() < oldest) {
+    memoryRows.shift()
+  }
+  memoryRows.push(row)
+
+  if (getUsageLedgerKind() === 'database') {
+    try {
+      await insertUsageRow(row)
+    } catch (error) {
+      console.warn('Token usage not stored:', error instanceof Error ? error.message : error)
+    }
+  }
+}
+
+async function getRowsSince(since: Date): Promise<UsageRow[]> {
+  if (getUsageLedgerKind() === 'database') {
+    try {
+      return await getUsageRowsSince(since.toISOString())
+    } catch (error) {
+      console.warn('Totaling token usage from memory:', error instanceof Error ? error.message : error)
+    }
+  }
+  return memoryRows.filter(row => new Date(row.recordedAt).getTime() >= since.getTime())
+}
+
+export async function getUsageTotals(now = new Date()): Promise<PeriodUsage[]> {
+  const { caps } = getBudgetSettings()
+  const bounds = BUDGET_PERIODS.map(period => ({ period, ...getPeriodBounds(period, now) }))
+  // A week can start in the previous month
+  const earliest = new Date(Math.min(...bounds.map(bound => bound.start.getTime())))
+  const rows = await getRowsSince(earliest)
+
+  return bounds.map(({ period, start, end }) => {
+    const totals: PeriodUsage = {
+      period,
+      since: start.toISOString(),
+      resetsAt: end.toISOString(),
+      summaries: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      estimatedCostUsd: 0,
+      unpricedSummaries: 0,
+    }
+    rows
+      .filter(row => new Date(row.recordedAt).getTime() >= start.getTime())
+      .forEach(row => {
+        totals.summaries++
+        totals.inputTokens += row.inputTokens
+        totals.outputTokens += row.outputTokens
+        if (row.estimatedCostUsd === null) {
+          totals.unpricedSummaries++
+        } else {
+          totals.estimatedCostUsd += row.estimatedCostUsd
+        }
+      })
+    totals.estimatedCostUsd = Math.round(totals.estimatedCostUsd * 1000000) / 1000000
+    if (caps[period] !== undefined) {
+      totals.capUsd = caps[period]
+    }
+    return totals
+  })
+}
+
+export interface BudgetDecision {
+  model: string // the model to summarize with
+  notice?: BudgetNotice // set when the model was downgraded
+  refusal?: SummarizeError // set when the summary must not call the provider
+}
+
+function formatUsd(value: number): string {
+  return `$${value.toFixed(2)}`
+}
+
+// Free models are never limited. Over a cap, BUDGET_ACTION=refuse stops new
+// provider calls until the period resets; "downgrade" switches to a cheaper
+// model and keeps going.
+export async function applyBudget(provider: LLMProvider, model: string): Promise<BudgetDecision> {
+  const { caps, action, fallbackModel } = getBudgetSettings()
+  if (Object.keys(caps).length === 0) {
+    return { model }
+  }
+  const price = findPrice(getPriceTable(), provider.id, model)
+  if (price && price.input === 0 && price.output === 0) {
+    return { model }
+  }
+
+  const exceeded = (await getUsageTotals()).find(totals => totals.capUsd !== undefined && totals.estimatedCostUsd >= totals.capUsd)
+  if (!exceeded) {
+    return { model }
+  }
+
+  const period = exceeded.period
+  const capUsd = exceeded.capUsd as number
+  const cheaper = fallbackModel || FALLBACK_MODELS[provider.id]
+  if (action === 'downgrade' && cheaper) {
+    if (cheaper === model) {
+      return { model }
+    }
+    return {
+      model: cheaper,
+      notice: {
+        period,
+        capUsd,
+        downgradedFrom: model,
+        message: `The ${PERIOD_LABELS[period]} budget of ${formatUsd(capUsd)} has been reached, so this summary used ${cheaper} instead of ${model}.`,
+      },
+    }
+  }
+
+  return {
+    model,
+    refusal: new SummarizeError(
+      'budget_exceeded',
+      `The ${PERIOD_LABELS[period]} budget of ${formatUsd(capUsd)} has been reached (${formatUsd(exceeded.estimatedCostUsd)} spent). New summaries are available again after ${exceeded.resetsAt.replace('T', ' ').slice(0, 16)} UTC.`
+    ),
+  }
+}
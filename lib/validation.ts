@@ -0,0 +1,538 @@
+import type {
+  ActionItem,
+  CitedList,
+  Decision,
+  DevelopmentTeamSections,
+  FollowUpReminder,
+  MeetingQualityMetrics,
+  MeetingType,
+  RiskItem,
+  SOPCheck,
+} from './ai'
+import { CITED_LISTS } from './citations'
+import type { RegenerableSection } from './reportSections'
+import { MEETING_TYPES } from './meetingTypes'
+import type { SOPChecklistItem, SOPRuleId } from './sop'
+import {
+  BUILTIN_SECTION_IDS,
+  RenderHints,
+  ReportTemplate,
+  SECTION_COLORS,
+  SectionItemSchema,
+  TemplateSection,
+} from './templates'
+
+export interface ValidationIssue {
+  path: string // e.g. "developmentTeamSections.actionItemsAndOwnership[2].priority"
+  message: string
+}
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: ValidationIssue[] }
+
+// Verbatim quotes from the notes that the model gave as evidence for an
+// item; lib/citations resolves them to character offsets
+export interface Quoted {
+  quotes?: string[]
+}
+
+export type QuotedActionItem = Omit<ActionItem, 'sources'> & Quoted
+export type QuotedDecision = Omit<Decision, 'sources'> & Quoted
+
+// The fields of SummaryOutput the model is asked to produce
+export interface ValidatedSummary {
+  summaryPoints: string[]
+  actionItems: QuotedActionItem[]
+  openQuestions: string[]
+  developmentTeamSections: Omit<DevelopmentTeamSections, 'keyDecisionsAndProgress' | 'actionItemsAndOwnership'> & {
+    keyDecisionsAndProgress: { decisions: QuotedDecision[]; progressUpdates: string[] }
+    actionItemsAndOwnership: QuotedActionItem[]
+  }
+  supportingQuotes?: Partial<Record<CitedList, string[][]>> // parallel to each list's items
+  meetingTypeSections?: unknown // shape depends on the meeting type; normalized separately
+  customSections?: unknown // shape depends on the report template; normalized separately
+  riskAssessment?: RiskItem[]
+  followUpReminders?: FollowUpReminder[]
+  meetingQuality?: MeetingQualityMetrics
+}
+
+const LEVELS = ['high', 'medium', 'low'] as const
+const REMINDER_TYPES = ['follow-up', 'escalation', 'review', 'decision'] as const
+const SOP_SEVERITIES = ['critical', 'important', 'minor'] as const
+const SOP_STATUSES = ['compliant', 'partial', 'missing'] as const
+
+// Collects issues while walking a value; each check returns the cleaned
+// value, or undefined when it failed
+class Validator {
+  errors: ValidationIssue[] = []
+
+  fail(path: string, message: string): undefined {
+    this.errors.push({ path, message })
+    return undefined
+  }
+
+  object(value: unknown, path: string): Record<string, unknown> | undefined {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return this.fail(path, `expected an object, got ${describe(value)}`)
+    }
+    return value as Record<string, unknown>
+  }
+
+  string(value: unknown, path: string): string | undefined {
+    if (typeof value !== 'string') {
+      return this.fail(path, `expected a string, got ${describe(value)}`)
+    }
+    if (!value.trim()) {
+      return this.fail(path, 'must not be empty')
+    }
+    return value.trim()
+  }
+
+  // Optional fields may be missing or null, but not the wrong type
+  optionalString(value: unknown, path: string): string | undefined {
+    return value === undefined || value === null ? undefined : this.string(value, path)
+  }
+
+  oneOf<T extends string>(value: unknown, options: readonly T[], path: string): T | undefined {
+    if (typeof value !== 'string' || options.indexOf(value as T) === -1) {
+      return this.fail(path, `must be one of ${options.join(', ')}, got ${describe(value)}`)
+    }
+    return value as T
+  }
+
+  score(value: unknown, path: string): number | undefined {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 10) {
+      return this.fail(path, `expected a number from 0 to 10, got ${describe(value)}`)
+    }
+    return value
+  }
+
+  array<T>(value: unknown, path: string, item: (entry: unknown, itemPath: string) => T | undefined): T[] | undefined {
+    if (!Array.isArray(value)) {
+      return this.fail(path, `expected an array, got ${describe(value)}`)
+    }
+
+    const items: T[] = []
+    value.forEach((entry, index) => {
+      const checked = item(entry, `${path}[${index}]`)
+      if (checked !== undefined) {
+        items.push(checked)
+      }
+    })
+    return items
+  }
+
+  optionalArray<T>(value: unknown, path: string, item: (entry: unknown, itemPath: string) => T | undefined): T[] | undefined {
+    return value === undefined || value === null ? undefined : this.array(value, path, item)
+  }
+
+  strings(value: unknown, path: string): string[] | undefined {
+    return this.array(value, path, (entry, itemPath) => this.string(entry, itemPath))
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'an array'
+  if (typeof value === 'string') return `"${value.length > 30 ? `${value.slice(0, 30)}...` : value}"`
+  return typeof value
+}
+
+function validateQuotes(v: Validator, value: unknown, path: string): string[] | undefined {
+  return v.optionalArray(value, path, (entry, entryPath) => v.string(entry, entryPath))
+}
+
+function validateActionItem(v: Validator, value: unknown, path: string): QuotedActionItem | undefined {
+  const item = v.object(value, path)
+  if (!item) return undefined
+
+  const task = v.string(item.task, `${path}.task`)
+  const owner = v.string(item.owner, `${path}.owner`)
+  const priority = v.oneOf(item.priority, LEVELS, `${path}.priority`)
+  const deadline = v.optionalString(item.deadline, `${path}.deadline`)
+  const successCriteria = v.optionalString(item.successCriteria, `${path}.successCriteria`)
+  const dependencies = v.optionalArray(item.dependencies, `${path}.dependencies`, (entry, entryPath) => v.string(entry, entryPath))
+  const quotes = validateQuotes(v, item.quotes, `${path}.quotes`)
+
+  if (task === undefined || owner === undefined || priority === undefined) return undefined
+  return { task, owner, priority, deadline, successCriteria, dependencies, quotes }
+}
+
+function validateDecision(v: Validator, value: unknown, path: string): QuotedDecision | undefined {
+  const item = v.object(value, path)
+  if (!item) return undefined
+
+  const decision = v.string(item.decision, `${path}.decision`)
+  const rationale = v.string(item.rationale, `${path}.rationale`)
+  const impact = v.oneOf(item.impact, LEVELS, `${path}.impact`)
+  const owner = v.optionalString(item.owner, `${path}.owner`)
+  const deadline = v.optionalString(item.deadline, `${path}.deadline`)
+  const quotes = validateQuotes(v, item.quotes, `${path}.quotes`)
+
+  if (decision === undefined || rationale === undefined || impact === undefined) return undefined
+  return { decision, rationale, impact, owner, deadline, quotes }
+}
+
+function validateRisk(v: Validator, value: unknown, path: string): RiskItem | undefined {
+  const item = v.object(value, path)
+  if (!item) return undefined
+
+  const risk = v.string(item.risk, `${path}.risk`)
+  const impact = v.oneOf(item.impact, LEVELS, `${path}.impact`)
+  const probability = v.oneOf(item.probability, LEVELS, `${path}.probability`)
+  const mitigation = v.string(item.mitigation, `${path}.mitigation`)
+  const owner = v.optionalString(item.owner, `${path}.owner`)
+
+  if (risk === undefined || impact === undefined || probability === undefined || mitigation === undefined) return undefined
+  return { risk, impact, probability, mitigation, owner }
+}
+
+function validateReminder(v: Validator, value: unknown, path: string): FollowUpReminder | undefined {
+  const item = v.object(value, path)
+  if (!item) return undefined
+
+  const action = v.string(item.action, `${path}.action`)
+  const dueDate = v.string(item.dueDate, `${path}.dueDate`)
+  const owner = v.string(item.owner, `${path}.owner`)
+  const type = v.oneOf(item.type, REMINDER_TYPES, `${path}.type`)
+
+  if (action === undefined || dueDate === undefined || owner === undefined || type === undefined) return undefined
+  return { action, dueDate, owner, type }
+}
+
+function validateQuality(v: Validator, value: unknown, path: string): MeetingQualityMetrics | undefined {
+  const quality = v.object(value, path)
+  if (!quality) return undefined
+
+  const overallScore = v.score(quality.overallScore, `${path}.overallScore`)
+  const areas = v.object(quality.areas, `${path}.areas`)
+  const recommendations = v.strings(quality.recommendations, `${path}.recommendations`)
+  if (!areas || overallScore === undefined || !recommendations) return undefined
+
+  const preparation = v.score(areas.preparation, `${path}.areas.preparation`)
+  const participation = v.score(areas.participation, `${path}.areas.participation`)
+  const decisionMaking = v.score(areas.decisionMaking, `${path}.areas.decisionMaking`)
+  const actionClarity = v.score(areas.actionClarity, `${path}.areas.actionClarity`)
+  const followThrough = v.score(areas.followThrough, `${path}.areas.followThrough`)
+
+  if (
+    preparation === undefined ||
+    participation === undefined ||
+    decisionMaking === undefined ||
+    actionClarity === undefined ||
+    followThrough === undefined
+  ) {
+    return undefined
+  }
+
+  return {
+    overallScore,
+    areas: { preparation, participation, decisionMaking, actionClarity, followThrough },
+    recommendations,
+  }
+}
+
+function validateSupportingQuotes(v: Validator, value: unknown, path: string): ValidatedSummary['supportingQuotes'] {
+  if (value === undefined || value === null) return undefined
+  const lists = v.object(value, path)
+  if (!lists) return undefined
+
+  const result: ValidatedSummary['supportingQuotes'] = {}
+  CITED_LISTS.forEach(list => {
+    const quotes = v.optionalArray(lists[list], `${path}.${list}`, (entry, entryPath) =>
+      v.array(entry, entryPath, (quote, quotePath) => v.string(quote, quotePath))
+    )
+    if (quotes) {
+      result[list] = quotes
+    }
+  })
+  return result
+}
+
+function validateSections(
+  v: Validator,
+  value: unknown,
+  path: string
+): ValidatedSummary['developmentTeamSections'] | undefined {
+  const sections = v.object(value, path)
+  if (!sections) return undefined
+
+  const progressPath = `${path}.keyDecisionsAndProgress`
+  const blockersPath = `${path}.blockersAndNextSteps`
+  const keyDecisions = v.object(sections.keyDecisionsAndProgress, progressPath)
+  const blockers = v.object(sections.blockersAndNextSteps, blockersPath)
+
+  const decisions = keyDecisions
+    ? v.array(keyDecisions.decisions, `${progressPath}.decisions`, (entry, entryPath) => validateDecision(v, entry, entryPath))
+    : undefined
+  const progressUpdates = keyDecisions ? v.strings(keyDecisions.progressUpdates, `${progressPath}.progressUpdates`) : undefined
+  const actionItems = v.array(
+    sections.actionItemsAndOwnership,
+    `${path}.actionItemsAndOwnership`,
+    (entry, entryPath) => validateActionItem(v, entry, entryPath)
+  )
+  const currentBlockers = blockers ? v.strings(blockers.currentBlockers, `${blockersPath}.currentBlockers`) : undefined
+  const upcomingItems = blockers ? v.strings(blockers.upcomingItems, `${blockersPath}.upcomingItems`) : undefined
+
+  if (!decisions || !progressUpdates || !actionItems || !currentBlockers || !upcomingItems) return undefined
+
+  return {
+    keyDecisionsAndProgress: { decisions, progressUpdates },
+    actionItemsAndOwnership: actionItems,
+    blockersAndNextSteps: { currentBlockers, upcomingItems },
+  }
+}
+
+// Strictly check a parsed model response against the SummaryOutput shape.
+// Returns the cleaned value, or every field-level problem found.
+export function validateSummary(value: unknown): ValidationResult<ValidatedSummary> {
+  const v = new Validator()
+  const root = v.object(value, '$')
+  if (!root) {
+    return { ok: false, errors: v.errors }
+  }
+
+  const summaryPoints = v.strings(root.summaryPoints, 'summaryPoints')
+  const actionItems = v.array(root.actionItems, 'actionItems', (entry, path) => validateActionItem(v, entry, path))
+  const openQuestions = v.strings(root.openQuestions, 'openQuestions')
+  const developmentTeamSections = validateSections(v, root.developmentTeamSections, 'developmentTeamSections')
+  const riskAssessment = v.optionalArray(root.riskAssessment, 'riskAssessment', (entry, path) => validateRisk(v, entry, path))
+  const followUpReminders = v.optionalArray(
+    root.followUpReminders,
+    'followUpReminders',
+    (entry, path) => validateReminder(v, entry, path)
+  )
+  const supportingQuotes = validateSupportingQuotes(v, root.supportingQuotes, 'supportingQuotes')
+  const meetingQuality = root.meetingQuality === undefined || root.meetingQuality === null
+    ? undefined
+    : validateQuality(v, root.meetingQuality, 'meetingQuality')
+
+  if (v.errors.length > 0 || !summaryPoints || !actionItems || !openQuestions || !developmentTeamSections) {
+    return { ok: false, errors: v.errors }
+  }
+
+  return {
+    ok: true,
+    value: {
+      summaryPoints,
+      actionItems,
+      openQuestions,
+      developmentTeamSections,
+      supportingQuotes,
+      meetingTypeSections: root.meetingTypeSections,
+      customSections: root.customSections,
+      riskAssessment,
+      followUpReminders,
+      meetingQuality,
+    },
+  }
+}
+
+// A regenerated report section: the section under its own key, plus
+// supporting quotes for the cited lists in it
+export type ValidatedSectionUpdate = Partial<
+  Pick<ValidatedSummary, 'summaryPoints' | 'openQuestions' | 'supportingQuotes'> & ValidatedSummary['developmentTeamSections']
+>
+
+export function validateSectionUpdate(value: unknown, section: RegenerableSection): ValidationResult<ValidatedSectionUpdate> {
+  const v = new Validator()
+  const root = v.object(value, '$')
+  if (!root) {
+    return { ok: false, errors: v.errors }
+  }
+
+  const update: ValidatedSectionUpdate = {}
+  const entry = root[section]
+  switch (section) {
+    case 'summaryPoints':
+    case 'openQuestions':
+      update[section] = v.strings(entry, section)
+      break
+    case 'actionItemsAndOwnership':
+      update.actionItemsAndOwnership = v.array(entry, section, (item, path) => validateActionItem(v, item, path))
+      break
+    case 'keyDecisionsAndProgress': {
+      const progress = v.object(entry, section)
+      const decisions = progress && v.array(progress.decisions, `${section}.decisions`, (item, path) => validateDecision(v, item, path))
+      const progressUpdates = progress && v.strings(progress.progressUpdates, `${section}.progressUpdates`)
+      update.keyDecisionsAndProgress = decisions && progressUpdates ? { decisions, progressUpdates } : undefined
+      break
+    }
+    case 'blockersAndNextSteps': {
+      const blockers = v.object(entry, section)
+      const currentBlockers = blockers && v.strings(blockers.currentBlockers, `${section}.currentBlockers`)
+      const upcomingItems = blockers && v.strings(blockers.upcomingItems, `${section}.upcomingItems`)
+      update.blockersAndNextSteps = currentBlockers && upcomingItems ? { currentBlockers, upcomingItems } : undefined
+      break
+    }
+  }
+  update.supportingQuotes = validateSupportingQuotes(v, root.supportingQuotes, 'supportingQuotes')
+
+  return v.errors.length > 0 || update[section] === undefined ? { ok: false, errors: v.errors } : { ok: true, value: update }
+}
+
+export function formatValidationIssues(errors: ValidationIssue[]): string {
+  return errors.map(error => `- ${error.path}: ${error.message}`).join('\n')
+}
+
+// A model's answers to the SOP checklist questions (see lib/sop)
+export type SOPAnswer = Pick<SOPCheck, 'status' | 'details' | 'recommendation'> & { id: string }
+
+export function validateSOPResponse(value: unknown): ValidationResult<SOPAnswer[]> {
+  const v = new Validator()
+  const root = v.object(value, '$')
+  const checks = root && v.array(root.checks, 'checks', (entry, path) => {
+    const check = v.object(entry, path)
+    if (!check) return undefined
+
+    const id = v.string(check.id, `${path}.id`)
+    const status = v.oneOf(check.status, SOP_STATUSES, `${path}.status`)
+    const details = v.string(check.details, `${path}.details`)
+    const recommendation = v.optionalString(check.recommendation, `${path}.recommendation`)
+    return id && status && details ? { id, status, details, recommendation } : undefined
+  })
+
+  return v.errors.length > 0 || !checks ? { ok: false, errors: v.errors } : { ok: true, value: checks }
+}
+
+// A model's answer to a question about a meeting (see lib/ask)
+export interface ModelAnswer {
+  answered: boolean
+  answer: string
+  quotes: string[]
+}
+
+export function validateAnswerResponse(value: unknown): ValidationResult<ModelAnswer> {
+  const v = new Validator()
+  const root = v.object(value, '$')
+  if (!root) {
+    return { ok: false, errors: v.errors }
+  }
+
+  const answered = typeof root.answered === 'boolean' ? root.answered : v.fail('answered', `expected a boolean, got ${describe(root.answered)}`)
+  const answer = v.string(root.answer, 'answer')
+  const quotes = root.quotes === undefined || root.quotes === null ? [] : v.strings(root.quotes, 'quotes')
+
+  return v.errors.length > 0 || answered === undefined || !answer || !quotes
+    ? { ok: false, errors: v.errors }
+    : { ok: true, value: { answered, answer, quotes } }
+}
+
+// A deployment's SOP checklist file: { "items": [...] }
+export function validateSOPChecklist(value: unknown, ruleIds: readonly SOPRuleId[]): ValidationResult<SOPChecklistItem[]> {
+  const v = new Validator()
+  const root = v.object(value, '$')
+  const meetingTypes = Object.keys(MEETING_TYPES) as MeetingType[]
+  const ids: string[] = []
+
+  const items = root && v.array(root.items, 'items', (entry, path) => {
+    const item = v.object(entry, path)
+    if (!item) return undefined
+
+    const id = v.string(item.id, `${path}.id`)
+    if (id && ids.indexOf(id) !== -1) {
+      return v.fail(`${path}.id`, `duplicate id "${id}"`)
+    }
+    if (id) ids.push(id)
+
+    const category = v.string(item.category, `${path}.category`)
+    const description = v.string(item.description, `${path}.description`)
+    const severity = v.oneOf(item.severity, SOP_SEVERITIES, `${path}.severity`)
+    const rule = item.rule === undefined || item.rule === null ? undefined : v.oneOf(item.rule, ruleIds, `${path}.rule`)
+    const question = v.optionalString(item.question, `${path}.question`)
+    const recommendation = v.optionalString(item.recommendation, `${path}.recommendation`)
+    const types = v.optionalArray(item.meetingTypes, `${path}.meetingTypes`, (type, typePath) => v.oneOf(type, meetingTypes, typePath))
+
+    if (item.rule === undefined && item.question === undefined) {
+      return v.fail(path, 'needs either a "rule" or a "question"')
+    }
+    if (!id || !category || !description || !severity) return undefined
+    return { id, category, description, severity, rule, question, recommendation, meetingTypes: types }
+  })
+
+  return v.errors.length > 0 || !items ? { ok: false, errors: v.errors } : { ok: true, value: items }
+}
+
+const FIELD_TYPES = ['text', 'level'] as const
+const SECTION_ID = /^[A-Za-z][A-Za-z0-9]*$/
+
+function validateTemplateSection(v: Validator, value: unknown, path: string): TemplateSection | undefined {
+  const section = v.object(value, path)
+  if (!section) return undefined
+
+  const id = v.string(section.id, `${path}.id`)
+  if (id && !SECTION_ID.test(id)) {
+    return v.fail(`${path}.id`, 'must start with a letter and contain only letters and digits')
+  }
+  const name = v.string(section.name, `${path}.name`)
+  const description = v.string(section.description, `${path}.description`)
+  const builtin = section.builtin === undefined ? undefined : v.oneOf(section.builtin, BUILTIN_SECTION_IDS, `${path}.builtin`)
+
+  let items: SectionItemSchema | undefined
+  if (section.builtin === undefined) {
+    const schema = v.object(section.items, `${path}.items`)
+    if (schema?.kind === 'strings') {
+      const example = v.string(schema.example, `${path}.items.example`)
+      items = example ? { kind: 'strings', example } : undefined
+    } else if (schema?.kind === 'structured') {
+      const fields = v.array(schema.fields, `${path}.items.fields`, (entry, fieldPath) => {
+        const field = v.object(entry, fieldPath)
+        if (!field) return undefined
+        const key = v.string(field.key, `${fieldPath}.key`)
+        const label = v.string(field.label, `${fieldPath}.label`)
+        const fieldDescription = v.string(field.description, `${fieldPath}.description`)
+        const type = field.type === undefined ? undefined : v.oneOf(field.type, FIELD_TYPES, `${fieldPath}.type`)
+        return key && label && fieldDescription ? { key, label, description: fieldDescription, type } : undefined
+      })
+      if (fields && fields.length === 0) {
+        v.fail(`${path}.items.fields`, 'needs at least one field')
+      }
+      items = fields ? { kind: 'structured', fields } : undefined
+    } else if (schema) {
+      v.fail(`${path}.items.kind`, `must be one of strings, structured, got ${describe(schema.kind)}`)
+    }
+  }
+
+  const hints = section.render === undefined ? undefined : v.object(section.render, `${path}.render`)
+  const render: RenderHints | undefined = hints && {
+    icon: v.optionalString(hints.icon, `${path}.render.icon`),
+    color: hints.color === undefined ? undefined : v.oneOf(hints.color, SECTION_COLORS, `${path}.render.color`),
+    marker: v.optionalString(hints.marker, `${path}.render.marker`),
+    fullWidth: hints.fullWidth === true,
+  }
+
+  return id && name && description ? { id, name, description, builtin, items, render } : undefined
+}
+
+// A deployment's template file: { "templates": [...] }
+export function validateReportTemplates(value: unknown): ValidationResult<ReportTemplate[]> {
+  const v = new Validator()
+  const root = v.object(value, '$')
+
+  const templates = root && v.array(root.templates, 'templates', (entry, path) => {
+    const template = v.object(entry, path)
+    if (!template) return undefined
+
+    const id = v.string(template.id, `${path}.id`)
+    const version = typeof template.version === 'number' && Number.isInteger(template.version) && template.version > 0
+      ? template.version
+      : v.fail(`${path}.version`, `expected a positive whole number, got ${describe(template.version)}`)
+    const name = v.string(template.name, `${path}.name`)
+    const description = v.string(template.description, `${path}.description`)
+    const sections = v.array(template.sections, `${path}.sections`, (section, sectionPath) =>
+      validateTemplateSection(v, section, sectionPath)
+    )
+
+    const ids = (sections || []).map(section => section.id)
+    ids.forEach((sectionId, index) => {
+      if (ids.indexOf(sectionId) !== index) {
+        v.fail(`${path}.sections[${index}].id`, `duplicate id "${sectionId}"`)
+      }
+    })
+
+    return id && version && name && description && sections ? { id, version, name, description, sections } : undefined
+  })
+
+  return v.errors.length > 0 || !templates ? { ok: false, errors: v.errors } : { ok: true, value: templates }
+}
@@ -0,0 +1,12 @@
+-- Store complete reports with a schema version, model and prompt version
+-- Run this in your Supabase SQL Editor before deploying this version; saving and loading meetings select these columns
+
+-- Existing rows become schema version 1 with no full report. They are
+-- rebuilt from their other columns when read (see lib/storedOutput.ts), so
+-- sections those rows never kept (decisions, blockers, risks) load empty.
+ALTER TABLE meeting_outputs ADD COLUMN IF NOT EXISTS output JSONB;
+ALTER TABLE meeting_outputs ADD COLUMN IF NOT EXISTS schema_version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE meeting_outputs ADD COLUMN IF NOT EXISTS model TEXT;
+ALTER TABLE meeting_outputs ADD COLUMN IF NOT EXISTS prompt_version INTEGER;
+
+SELECT 'Full report columns added successfully!' as status;
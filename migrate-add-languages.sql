@@ -0,0 +1,13 @@
+-- Record the notes' language and the report language on an existing AI Meeting Notes Summarizer database
+-- Run this in your Supabase SQL Editor if you created the tables before language support existed
+
+ALTER TABLE meeting_outputs
+  ADD COLUMN IF NOT EXISTS source_language TEXT,
+  ADD COLUMN IF NOT EXISTS output_language TEXT;
+
+-- Verify the columns were added
+SELECT output_language, count(*) AS outputs
+FROM meeting_outputs
+GROUP BY output_language;
+
+SELECT 'Language columns added successfully!' as status;
@@ -0,0 +1,142 @@
+-- Search saved meetings in the database instead of reading them all into the server
+-- Run this in your Supabase SQL Editor before deploying this version; the History search calls search_meetings
+
+-- The report of an output row: the full report, or for rows saved before
+-- migrate-add-full-output.sql the columns it was kept in (lib/storedOutput.ts
+-- rebuilds those the same way)
+CREATE OR REPLACE FUNCTION meeting_report(report_row meeting_outputs)
+RETURNS JSONB LANGUAGE sql IMMUTABLE AS $$
+  SELECT CASE
+    WHEN report_row.schema_version >= 2 AND report_row.output ? 'developmentTeamSections' THEN report_row.output
+    ELSE jsonb_build_object(
+      'summaryPoints', report_row.summary,
+      'openQuestions', to_jsonb(report_row.probing_questions),
+      'developmentTeamSections', jsonb_build_object('actionItemsAndOwnership', report_row.action_items)
+    )
+  END
+$$;
+
+-- Lists in reports can be missing or null; both read as empty here
+CREATE OR REPLACE FUNCTION meeting_report_list(value JSONB)
+RETURNS JSONB LANGUAGE sql IMMUTABLE AS $$
+  SELECT CASE WHEN jsonb_typeof(value) = 'array' THEN value ELSE '[]'::jsonb END
+$$;
+
+-- Every word of the title, the notes and the latest report
+CREATE OR REPLACE FUNCTION meeting_search_document(target_meeting UUID, meeting_title TEXT, meeting_notes TEXT)
+RETURNS TSVECTOR LANGUAGE sql STABLE AS $$
+  SELECT to_tsvector('simple', coalesce(meeting_title, '') || ' ' || coalesce(meeting_notes, ''))
+    || coalesce((
+      SELECT jsonb_to_tsvector('simple', meeting_report(o), '["string"]')
+      FROM meeting_outputs o
+      WHERE o.meeting_id = target_meeting
+      ORDER BY o.revision DESC
+      LIMIT 1
+    ), ''::tsvector)
+$$;
+
+-- Every word of the search must start a word of the meeting, so "auth"
+-- finds "authentication"
+CREATE OR REPLACE FUNCTION meeting_search_query(search_text TEXT)
+RETURNS TSQUERY LANGUAGE sql IMMUTABLE AS $$
+  SELECT coalesce(to_tsquery('simple', string_agg(quote_literal(word) || ':*', ' & ')), ''::tsquery)
+  FROM unnest(tsvector_to_array(to_tsvector('simple', search_text))) AS word
+$$;
+
+ALTER TABLE meetings ADD COLUMN IF NOT EXISTS search_document TSVECTOR;
+
+-- Kept up to date when a meeting is saved or renamed, and when a report or
+-- a regenerated revision of it is saved
+CREATE OR REPLACE FUNCTION set_meeting_search_document()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+BEGIN
+  NEW.search_document := meeting_search_document(NEW.id, NEW.title, NEW.raw_notes);
+  RETURN NEW;
+END
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_meeting_search_document()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+BEGIN
+  UPDATE meetings SET search_document = meeting_search_document(id, title, raw_notes) WHERE id = NEW.meeting_id;
+  RETURN NULL;
+END
+$$;
+
+DROP TRIGGER IF EXISTS meetings_search_document ON meetings;
+CREATE TRIGGER meetings_search_document
+  BEFORE INSERT OR UPDATE OF title, raw_notes ON meetings
+  FOR EACH ROW EXECUTE FUNCTION set_meeting_search_document();
+
+DROP TRIGGER IF EXISTS meeting_outputs_search_document ON meeting_outputs;
+CREATE TRIGGER meeting_outputs_search_document
+  AFTER INSERT OR UPDATE ON meeting_outputs
+  FOR EACH ROW EXECUTE FUNCTION refresh_meeting_search_document();
+
+UPDATE meetings SET search_document = meeting_search_document(id, title, raw_notes);
+
+CREATE INDEX IF NOT EXISTS idx_meetings_search_document ON meetings USING GIN (search_document);
+CREATE INDEX IF NOT EXISTS idx_meetings_meeting_type ON meetings(meeting_type);
+
+-- Active meetings matching the History search (see lib/meetingSearch.ts);
+-- the server orders and pages the result. Owner and priority must hold for
+-- the same action item. Blockers equal to one of no_blocker_texts (trimmed,
+-- lowercased, without a final period) don't count as open.
+CREATE OR REPLACE FUNCTION search_meetings(
+  search_text TEXT DEFAULT NULL,
+  owner_filter TEXT DEFAULT NULL,
+  priority_filter TEXT DEFAULT NULL,
+  date_from TEXT DEFAULT NULL, -- YYYY-MM-DD, meeting date on or after
+  date_to TEXT DEFAULT NULL, -- YYYY-MM-DD, meeting date on or before
+  type_filter TEXT DEFAULT NULL,
+  open_blockers BOOLEAN DEFAULT NULL,
+  no_blocker_texts TEXT[] DEFAULT '{}'
+)
+RETURNS SETOF meetings LANGUAGE sql STABLE AS $$
+  SELECT m.*
+  FROM meetings m
+  LEFT JOIN LATERAL (
+    SELECT meeting_report(o) AS report
+    FROM meeting_outputs o
+    WHERE o.meeting_id = m.id
+    ORDER BY o.revision DESC
+    LIMIT 1
+  ) latest ON true
+  WHERE m.deleted_at IS NULL
+    AND (type_filter IS NULL OR m.meeting_type = type_filter)
+    AND (search_text IS NULL OR m.search_document @@ meeting_search_query(search_text))
+    AND (date_from IS NULL OR coalesce(latest.report ->> 'meetingDate', to_char(m.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD')) >= date_from)
+    AND (date_to IS NULL OR coalesce(latest.report ->> 'meetingDate', to_char(m.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD')) <= date_to)
+    AND ((owner_filter IS NULL AND priority_filter IS NULL) OR EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(meeting_report_list(latest.report #> '{developmentTeamSections,actionItemsAndOwnership}')) AS item
+      WHERE (priority_filter IS NULL
+          OR (CASE WHEN item ->> 'priority' IN ('high', 'low') THEN item ->> 'priority' ELSE 'medium' END) = priority_filter)
+        AND (owner_filter IS NULL
+          OR strpos(lower(coalesce(nullif(item ->> 'owner', ''), 'TBD')), lower(owner_filter)) > 0
+          OR EXISTS (
+            SELECT 1
+            FROM jsonb_array_elements(meeting_report_list(item -> 'ownerMatches')) AS owner_match
+            WHERE strpos(lower(owner_match ->> 'name'), lower(owner_filter)) > 0
+          ))
+    ))
+    AND (open_blockers IS NULL OR open_blockers = EXISTS (
+      SELECT 1
+      FROM (
+        SELECT jsonb_array_elements_text(meeting_report_list(latest.report #> '{developmentTeamSections,blockersAndNextSteps,currentBlockers}'))
+        UNION ALL
+        SELECT jsonb_array_elements_text(meeting_report_list(standup_update -> 'blockers'))
+        FROM jsonb_array_elements(CASE
+          WHEN latest.report #>> '{meetingTypeSections,kind}' = 'standup'
+            THEN meeting_report_list(latest.report #> '{meetingTypeSections,updates}')
+          ELSE '[]'::jsonb
+        END) AS standup_update
+      ) AS blockers(blocker)
+      WHERE NOT (lower(regexp_replace(btrim(blocker, E' \t\r\n'), '\.$', '')) = ANY (no_blocker_texts))
+    ))
+$$;
+
+-- Only the server (service role) searches meetings
+REVOKE EXECUTE ON FUNCTION search_meetings(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, BOOLEAN, TEXT[]) FROM PUBLIC, anon, authenticated;
+
+SELECT 'Meeting search added successfully!' as status;
@@ -0,0 +1,12 @@
+-- Add meeting types to an existing AI Meeting Notes Summarizer database
+-- Run this in your Supabase SQL Editor if you created the tables before meeting types existed
+
+ALTER TABLE meetings
+  ADD COLUMN IF NOT EXISTS meeting_type TEXT NOT NULL DEFAULT 'development-team-meeting';
+
+-- Verify the column was added
+SELECT meeting_type, count(*) AS meeting_count
+FROM meetings
+GROUP BY meeting_type;
+
+SELECT 'Meeting type column added successfully!' as status;
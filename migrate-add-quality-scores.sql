@@ -0,0 +1,13 @@
+-- Add meeting quality scores to an existing AI Meeting Notes Summarizer database
+-- Run this in your Supabase SQL Editor if you created the tables before quality scoring existed
+
+ALTER TABLE meeting_outputs
+  ADD COLUMN IF NOT EXISTS quality_score NUMERIC(3, 1),
+  ADD COLUMN IF NOT EXISTS quality JSONB;
+
+-- Verify the columns were added
+SELECT count(*) AS scored_outputs
+FROM meeting_outputs
+WHERE quality_score IS NOT NULL;
+
+SELECT 'Quality score columns added successfully!' as status;
@@ -0,0 +1,16 @@
+-- Soft-delete meetings so retention and deletes can be undone for a while
+-- Run this in your Supabase SQL Editor before deploying this version; every meeting query filters on deleted_at
+
+-- Deleted meetings keep their rows until the maintenance route purges them
+-- (see lib/retention.ts); NULL means the meeting is in the history
+ALTER TABLE meetings ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_meetings_deleted_at ON meetings(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Meetings are only read and written by the server with the service role
+-- key, which bypasses RLS. Without these policies the public anon key can
+-- no longer read or delete meetings.
+DROP POLICY IF EXISTS "Allow all operations on meetings" ON meetings;
+DROP POLICY IF EXISTS "Allow all operations on meeting_outputs" ON meeting_outputs;
+
+SELECT 'Retention columns added and open meeting policies removed successfully!' as status;
@@ -0,0 +1,11 @@
+-- Keep regenerated report sections as revisions of a meeting's output
+-- Run this in your Supabase SQL Editor before regenerating sections
+
+-- Existing outputs become revision 1; each regeneration adds the next one
+ALTER TABLE meeting_outputs ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE meeting_outputs ADD COLUMN IF NOT EXISTS regenerated_section TEXT;
+ALTER TABLE meeting_outputs ADD COLUMN IF NOT EXISTS guidance TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_meeting_outputs_revision ON meeting_outputs(meeting_id, revision);
+
+SELECT 'Revision columns added successfully!' as status;
@@ -0,0 +1,19 @@
+-- Add the summary cache to an existing AI Meeting Notes Summarizer database
+-- Run this in your Supabase SQL Editor before setting SUMMARY_CACHE=database
+
+CREATE TABLE IF NOT EXISTS summary_cache (
+  key TEXT PRIMARY KEY,
+  output JSONB NOT NULL,
+  input TEXT NOT NULL,
+  cached_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_summary_cache_cached_at ON summary_cache(cached_at);
+
+-- No policies: only the service role (used by the API routes) can read cached notes
+ALTER TABLE summary_cache ENABLE ROW LEVEL SECURITY;
+
+-- Expired entries are ignored by the app; delete them now and then with:
+-- DELETE FROM summary_cache WHERE cached_at < NOW() - INTERVAL '24 hours';
+
+SELECT 'Summary cache table added successfully!' as status;
@@ -0,0 +1,20 @@
+-- Add the team roster to an existing AI Meeting Notes Summarizer database
+-- Run this in your Supabase SQL Editor if you created the tables before the roster existed
+
+CREATE TABLE IF NOT EXISTS team_members (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  handles TEXT[] NOT NULL DEFAULT '{}',
+  emails TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- No policies: the roster is only read and written by the server with the
+-- service role key. Running this again removes the allow-all policy earlier
+-- versions created, which let the public anon key read and change it.
+ALTER TABLE team_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations on team_members" ON team_members;
+
+SELECT 'Team roster table added successfully!' as status;
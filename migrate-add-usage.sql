@@ -0,0 +1,23 @@
+-- Add token usage accounting to an existing AI Meeting Notes Summarizer database
+-- Run this in your Supabase SQL Editor before setting USAGE_LEDGER=database
+
+-- Tokens, latency and estimated cost of the provider calls behind each saved summary
+ALTER TABLE meeting_outputs ADD COLUMN IF NOT EXISTS usage JSONB;
+
+-- One row per generated summary, totaled for the budget caps
+CREATE TABLE IF NOT EXISTS llm_usage (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  recorded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  estimated_cost_usd NUMERIC(12, 6)
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_recorded_at ON llm_usage(recorded_at);
+
+-- No policies: only the service role (used by the API routes) can read spend
+ALTER TABLE llm_usage ENABLE ROW LEVEL SECURITY;
+
+SELECT 'Token usage columns and table added successfully!' as status;
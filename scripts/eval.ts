@@ -0,0 +1,169 @@
+// Offline evaluation: summarize every golden fixture in eval/fixtures and
+// score the result per section, or compare two saved runs.
+//
+//   npm run eval -- --label baseline                 # LLM_PROVIDER, or demo mode without a key
+//   npm run eval -- --provider demo                  # the heuristic extractors only
+//   npm run eval -- --label v2 --record eval/recordings/v2.json
+//   npm run eval -- --label v2 --replay eval/recordings/v2.json
+//   npm run eval -- compare eval/results/baseline.json eval/results/v2.json
+
+import { mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs'
+import path from 'path'
+import type { ProviderId } from '../lib/providers'
+import type { EvalRun, FixtureResult, GoldenFixture } from '../lib/evaluation'
+
+interface RunArgs {
+  label?: string
+  provider?: string
+  model?: string
+  fixtures: string
+  out?: string
+  threshold?: number
+  record?: string
+  replay?: string
+}
+
+const ROOT = path.join(__dirname, '..')
+
+function parseArgs(argv: string[]): RunArgs {
+  const args: RunArgs = { fixtures: path.join(ROOT, 'eval', 'fixtures') }
+  for (let index = 0; index < argv.length; index++) {
+    const flag = argv[index]
+    const value = argv[++index]
+    if (value === undefined) {
+      throw new Error(`Missing value for ${flag}`)
+    }
+    switch (flag) {
+      case '--label':
+        args.label = value
+        break
+      case '--provider':
+        args.provider = value
+        break
+      case '--model':
+        args.model = value
+        break
+      case '--fixtures':
+        args.fixtures = value
+        break
+      case '--out':
+        args.out = value
+        break
+      case '--threshold':
+        args.threshold = Number(value)
+        break
+      case '--record':
+        args.record = value
+        break
+      case '--replay':
+        args.replay = value
+        break
+      default:
+        throw new Error(`Unknown option ${flag}`)
+    }
+  }
+  return args
+}
+
+function loadFixtures(dir: string): GoldenFixture[] {
+  return readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => JSON.parse(readFileSync(path.join(dir, file), 'utf8')) as GoldenFixture)
+}
+
+async function run(args: RunArgs) {
+  // These are read when lib/ai is first imported or first used, so they
+  // have to be in place before the dynamic imports below
+  process.env.SUMMARY_CACHE = 'off'
+  if (args.provider === 'demo') {
+    process.env.DEMO_MODE = 'true'
+  }
+  if (args.replay) {
+    process.env.LLM_REPLAY_FILE = path.resolve(args.replay)
+    args.provider = 'replay'
+  }
+  if (args.record) {
+    process.env.LLM_RECORD_FILE = path.resolve(args.record)
+    mkdirSync(path.dirname(process.env.LLM_RECORD_FILE), { recursive: true })
+  }
+
+  const { PROMPT_VERSION, shouldUseDemoMode, summarizeNotes } = await import('../lib/ai')
+  const { isProviderId, resolveProvider } = await import('../lib/providers')
+  const { DEFAULT_MATCH_THRESHOLD, formatRun, scoreFailure, scoreSummary, totalScores } = await import('../lib/evaluation')
+
+  if (args.provider && args.provider !== 'demo' && !isProviderId(args.provider)) {
+    throw new Error(`Unknown provider "${args.provider}"`)
+  }
+  const provider = args.provider === 'demo' ? undefined : (args.provider as ProviderId | undefined)
+  const threshold = args.threshold ?? DEFAULT_MATCH_THRESHOLD
+
+  const fixtures = loadFixtures(args.fixtures)
+  const results: FixtureResult[] = []
+  // What summarizeNotes will use; a budget downgrade can still change the model
+  const requested = resolveProvider({ provider, model: args.model })
+  let generatedBy = shouldUseDemoMode(requested.provider)
+    ? { provider: 'demo', model: 'heuristic' }
+    : { provider: requested.provider.id, model: requested.model }
+
+  for (const fixture of fixtures) {
+    const started = Date.now()
+    try {
+      const summary = await summarizeNotes(fixture.input, {
+        provider,
+        model: args.model,
+        meetingType: fixture.meetingType,
+        meetingDate: fixture.meetingDate,
+      })
+      if (summary.generation) {
+        generatedBy = { provider: summary.generation.provider, model: summary.generation.model }
+      }
+      results.push({ ...scoreSummary(fixture, summary, threshold), durationMs: Date.now() - started })
+    } catch (error) {
+      results.push({ ...scoreFailure(fixture, error instanceof Error ? error.message : String(error)), durationMs: Date.now() - started })
+    }
+    console.log(`${fixture.id}: ${Date.now() - started}ms`)
+  }
+
+  const evalRun: EvalRun = {
+    label: args.label || `${generatedBy.provider}-${generatedBy.model}`,
+    ...generatedBy,
+    promptVersion: PROMPT_VERSION,
+    matchThreshold: threshold,
+    createdAt: new Date().toISOString(),
+    fixtures: results,
+    totals: totalScores(results),
+  }
+
+  const out = args.out || path.join(ROOT, 'eval', 'results', `${evalRun.label.replace(/[^\w.-]+/g, '-')}.json`)
+  mkdirSync(path.dirname(out), { recursive: true })
+  writeFileSync(out, `${JSON.stringify(evalRun, null, 2)}\n`)
+
+  console.log(`\n${formatRun(evalRun)}\n\nSaved to ${path.relative(process.cwd(), out)}`)
+  if (results.some(result => result.error)) {
+    process.exitCode = 1
+  }
+}
+
+async function compare(baselineFile: string, candidateFile: string) {
+  const { compareRuns, formatComparison } = await import('../lib/evaluation')
+  const read = (file: string) => JSON.parse(readFileSync(file, 'utf8')) as EvalRun
+  console.log(formatComparison(compareRuns(read(baselineFile), read(candidateFile))))
+}
+
+async function main() {
+  const argv = process.argv.slice(2)
+  if (argv[0] === 'compare') {
+    if (argv.length !== 3) {
+      throw new Error('Usage: npm run eval -- compare <baseline.json> <candidate.json>')
+    }
+    await compare(argv[1], argv[2])
+  } else {
+    await run(parseArgs(argv))
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exit(1)
+})
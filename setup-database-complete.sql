@@ -4,13 +4,19 @@
 -- Step 1: Drop existing tables if they exist (for clean setup)
 DROP TABLE IF EXISTS meeting_outputs CASCADE;
 DROP TABLE IF EXISTS meetings CASCADE;
+DROP TABLE IF EXISTS team_members CASCADE;
+DROP TABLE IF EXISTS summary_cache CASCADE;
+DROP TABLE IF EXISTS llm_usage CASCADE;
 
 -- Step 2: Create the meetings table
 CREATE TABLE meetings (
   id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
   title TEXT NOT NULL,
   raw_notes TEXT NOT NULL,
+  meeting_type TEXT NOT NULL DEFAULT 'development-team-meeting',
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  deleted_at TIMESTAMP WITH TIME ZONE, -- set while in recently deleted
+  search_document TSVECTOR, -- kept up to date by triggers, see meeting search below
   user_id UUID DEFAULT NULL
 );
 
@@ -22,35 +28,216 @@ CREATE TABLE meeting_outputs (
   action_items JSONB NOT NULL DEFAULT '[]',
   sop_gaps JSONB NOT NULL DEFAULT '[]',
   probing_questions TEXT[] NOT NULL DEFAULT '{}',
+  quality_score NUMERIC(3, 1),
+  quality JSONB,
+  source_language TEXT,
+  output_language TEXT,
+  usage JSONB,
+  output JSONB,
+  schema_version INTEGER NOT NULL DEFAULT 1,
+  model TEXT,
+  prompt_version INTEGER,
+  revision INTEGER NOT NULL DEFAULT 1,
+  regenerated_section TEXT,
+  guidance TEXT,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Step 3b: Create the team roster table (owners are resolved against it)
+CREATE TABLE team_members (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  handles TEXT[] NOT NULL DEFAULT '{}',
+  emails TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Cached summaries, used when SUMMARY_CACHE=database (server access only)
+CREATE TABLE summary_cache (
+  key TEXT PRIMARY KEY,
+  output JSONB NOT NULL,
+  input TEXT NOT NULL,
+  cached_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Token usage per generated summary, used when USAGE_LEDGER=database (server access only)
+CREATE TABLE llm_usage (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  recorded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  estimated_cost_usd NUMERIC(12, 6)
+);
+
 -- Step 4: Create indexes for efficient querying
 CREATE INDEX idx_meetings_created_at ON meetings(created_at DESC);
+CREATE INDEX idx_meetings_deleted_at ON meetings(deleted_at) WHERE deleted_at IS NOT NULL;
 CREATE INDEX idx_meeting_outputs_meeting_id ON meeting_outputs(meeting_id);
 CREATE INDEX idx_meeting_outputs_created_at ON meeting_outputs(created_at DESC);
+CREATE UNIQUE INDEX idx_meeting_outputs_revision ON meeting_outputs(meeting_id, revision);
+CREATE INDEX idx_summary_cache_cached_at ON summary_cache(cached_at);
+CREATE INDEX idx_llm_usage_recorded_at ON llm_usage(recorded_at);
+
+-- Step 4b: Set up meeting search (the History search calls search_meetings)
+
+-- The report of an output row: the full report, or for rows saved by older
+-- versions the columns it was kept in (lib/storedOutput.ts rebuilds those
+-- the same way)
+CREATE OR REPLACE FUNCTION meeting_report(report_row meeting_outputs)
+RETURNS JSONB LANGUAGE sql IMMUTABLE AS $$
+  SELECT CASE
+    WHEN report_row.schema_version >= 2 AND report_row.output ? 'developmentTeamSections' THEN report_row.output
+    ELSE jsonb_build_object(
+      'summaryPoints', report_row.summary,
+      'openQuestions', to_jsonb(report_row.probing_questions),
+      'developmentTeamSections', jsonb_build_object('actionItemsAndOwnership', report_row.action_items)
+    )
+  END
+$$;
+
+-- Lists in reports can be missing or null; both read as empty here
+CREATE OR REPLACE FUNCTION meeting_report_list(value JSONB)
+RETURNS JSONB LANGUAGE sql IMMUTABLE AS $$
+  SELECT CASE WHEN jsonb_typeof(value) = 'array' THEN value ELSE '[]'::jsonb END
+$$;
+
+-- Every word of the title, the notes and the latest report
+CREATE OR REPLACE FUNCTION meeting_search_document(target_meeting UUID, meeting_title TEXT, meeting_notes TEXT)
+RETURNS TSVECTOR LANGUAGE sql STABLE AS $$
+  SELECT to_tsvector('simple', coalesce(meeting_title, '') || ' ' || coalesce(meeting_notes, ''))
+    || coalesce((
+      SELECT jsonb_to_tsvector('simple', meeting_report(o), '["string"]')
+      FROM meeting_outputs o
+      WHERE o.meeting_id = target_meeting
+      ORDER BY o.revision DESC
+      LIMIT 1
+    ), ''::tsvector)
+$$;
+
+-- Every word of the search must start a word of the meeting, so "auth"
+-- finds "authentication"
+CREATE OR REPLACE FUNCTION meeting_search_query(search_text TEXT)
+RETURNS TSQUERY LANGUAGE sql IMMUTABLE AS $$
+  SELECT coalesce(to_tsquery('simple', string_agg(quote_literal(word) || ':*', ' & ')), ''::tsquery)
+  FROM unnest(tsvector_to_array(to_tsvector('simple', search_text))) AS word
+$$;
+
+-- Kept up to date when a meeting is saved or renamed, and when a report or
+-- a regenerated revision of it is saved
+CREATE OR REPLACE FUNCTION set_meeting_search_document()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+BEGIN
+  NEW.search_document := meeting_search_document(NEW.id, NEW.title, NEW.raw_notes);
+  RETURN NEW;
+END
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_meeting_search_document()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+BEGIN
+  UPDATE meetings SET search_document = meeting_search_document(id, title, raw_notes) WHERE id = NEW.meeting_id;
+  RETURN NULL;
+END
+$$;
+
+DROP TRIGGER IF EXISTS meetings_search_document ON meetings;
+CREATE TRIGGER meetings_search_document
+  BEFORE INSERT OR UPDATE OF title, raw_notes ON meetings
+  FOR EACH ROW EXECUTE FUNCTION set_meeting_search_document();
+
+DROP TRIGGER IF EXISTS meeting_outputs_search_document ON meeting_outputs;
+CREATE TRIGGER meeting_outputs_search_document
+  AFTER INSERT OR UPDATE ON meeting_outputs
+  FOR EACH ROW EXECUTE FUNCTION refresh_meeting_search_document();
+
+CREATE INDEX idx_meetings_search_document ON meetings USING GIN (search_document);
+CREATE INDEX idx_meetings_meeting_type ON meetings(meeting_type);
+
+-- Active meetings matching the History search (see lib/meetingSearch.ts);
+-- the server orders and pages the result. Owner and priority must hold for
+-- the same action item. Blockers equal to one of no_blocker_texts (trimmed,
+-- lowercased, without a final period) don't count as open.
+CREATE OR REPLACE FUNCTION search_meetings(
+  search_text TEXT DEFAULT NULL,
+  owner_filter TEXT DEFAULT NULL,
+  priority_filter TEXT DEFAULT NULL,
+  date_from TEXT DEFAULT NULL, -- YYYY-MM-DD, meeting date on or after
+  date_to TEXT DEFAULT NULL, -- YYYY-MM-DD, meeting date on or before
+  type_filter TEXT DEFAULT NULL,
+  open_blockers BOOLEAN DEFAULT NULL,
+  no_blocker_texts TEXT[] DEFAULT '{}'
+)
+RETURNS SETOF meetings LANGUAGE sql STABLE AS $$
+  SELECT m.*
+  FROM meetings m
+  LEFT JOIN LATERAL (
+    SELECT meeting_report(o) AS report
+    FROM meeting_outputs o
+    WHERE o.meeting_id = m.id
+    ORDER BY o.revision DESC
+    LIMIT 1
+  ) latest ON true
+  WHERE m.deleted_at IS NULL
+    AND (type_filter IS NULL OR m.meeting_type = type_filter)
+    AND (search_text IS NULL OR m.search_document @@ meeting_search_query(search_text))
+    AND (date_from IS NULL OR coalesce(latest.report ->> 'meetingDate', to_char(m.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD')) >= date_from)
+    AND (date_to IS NULL OR coalesce(latest.report ->> 'meetingDate', to_char(m.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD')) <= date_to)
+    AND ((owner_filter IS NULL AND priority_filter IS NULL) OR EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(meeting_report_list(latest.report #> '{developmentTeamSections,actionItemsAndOwnership}')) AS item
+      WHERE (priority_filter IS NULL
+          OR (CASE WHEN item ->> 'priority' IN ('high', 'low') THEN item ->> 'priority' ELSE 'medium' END) = priority_filter)
+        AND (owner_filter IS NULL
+          OR strpos(lower(coalesce(nullif(item ->> 'owner', ''), 'TBD')), lower(owner_filter)) > 0
+          OR EXISTS (
+            SELECT 1
+            FROM jsonb_array_elements(meeting_report_list(item -> 'ownerMatches')) AS owner_match
+            WHERE strpos(lower(owner_match ->> 'name'), lower(owner_filter)) > 0
+          ))
+    ))
+    AND (open_blockers IS NULL OR open_blockers = EXISTS (
+      SELECT 1
+      FROM (
+        SELECT jsonb_array_elements_text(meeting_report_list(latest.report #> '{developmentTeamSections,blockersAndNextSteps,currentBlockers}'))
+        UNION ALL
+        SELECT jsonb_array_elements_text(meeting_report_list(standup_update -> 'blockers'))
+        FROM jsonb_array_elements(CASE
+          WHEN latest.report #>> '{meetingTypeSections,kind}' = 'standup'
+            THEN meeting_report_list(latest.report #> '{meetingTypeSections,updates}')
+          ELSE '[]'::jsonb
+        END) AS standup_update
+      ) AS blockers(blocker)
+      WHERE NOT (lower(regexp_replace(btrim(blocker, E' \t\r\n'), '\.$', '')) = ANY (no_blocker_texts))
+    ))
+$$;
+
+-- Only the server (service role) searches meetings
+REVOKE EXECUTE ON FUNCTION search_meetings(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, BOOLEAN, TEXT[]) FROM PUBLIC, anon, authenticated;
 
 -- Step 5: Enable Row Level Security
+-- No policies on meetings, meeting_outputs and team_members: only the
+-- server (service role) reads and writes them
 ALTER TABLE meetings ENABLE ROW LEVEL SECURITY;
 ALTER TABLE meeting_outputs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE team_members ENABLE ROW LEVEL SECURITY;
+-- No policies on summary_cache: only the service role can read it
+ALTER TABLE summary_cache ENABLE ROW LEVEL SECURITY;
+-- No policies on llm_usage either
+ALTER TABLE llm_usage ENABLE ROW LEVEL SECURITY;
 
--- Step 6: Drop any existing policies to avoid conflicts
+-- Step 6: Drop the allow-all policies earlier versions created
 DROP POLICY IF EXISTS "Allow all operations on meetings" ON meetings;
 DROP POLICY IF EXISTS "Allow all operations on meeting_outputs" ON meeting_outputs;
+DROP POLICY IF EXISTS "Allow all operations on team_members" ON team_members;
 
--- Step 7: Create permissive policies for demo/development
--- These policies allow all operations for any user (suitable for demo purposes)
-CREATE POLICY "Allow all operations on meetings" ON meetings
-  FOR ALL USING (true) WITH CHECK (true);
-
-CREATE POLICY "Allow all operations on meeting_outputs" ON meeting_outputs
-  FOR ALL USING (true) WITH CHECK (true);
-
--- Step 8: Insert a test record to verify everything works
+-- Step 7: Insert a test record to verify everything works
 INSERT INTO meetings (title, raw_notes) VALUES 
 ('Database Setup Test', 'This is a test meeting note to verify the database setup works correctly');
 
--- Step 9: Get the meeting ID for the test output
+-- Step 8: Get the meeting ID for the test output
 DO $$
 DECLARE
     test_meeting_id UUID;
@@ -67,7 +254,7 @@ BEGIN
     );
 END $$;
 
--- Step 10: Verify the setup
+-- Step 9: Verify the setup
 SELECT 
     'meetings' as table_name, 
     count(*) as record_count,
@@ -80,7 +267,7 @@ SELECT
     'RLS enabled' as rls_status
 FROM meeting_outputs;
 
--- Step 11: Verify RLS policies are active
+-- Step 10: Verify RLS policies are active
 SELECT 
     schemaname,
     tablename,
@@ -90,7 +277,7 @@ SELECT
 FROM pg_policies 
 WHERE tablename IN ('meetings', 'meeting_outputs');
 
--- Step 12: Clean up test data
+-- Step 11: Clean up test data
 DELETE FROM meetings WHERE title = 'Database Setup Test';
 
 SELECT 'Database setup completed successfully! All tables, indexes, and RLS policies are configured.' as status;